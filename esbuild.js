@@ -23,10 +23,35 @@ const esbuildProblemMatcherPlugin = {
 	},
 };
 
+/**
+ * Options of the extension bundle - also used by the tests that check code as bundled
+ * @type {import('esbuild').BuildOptions}
+ */
+const extensionOptions = {
+	entryPoints: [
+		'src/extension.ts'
+	],
+	bundle: true,
+	format: 'cjs',
+	minify: production,
+	sourcemap: !production,
+	sourcesContent: false,
+	platform: 'node',
+	outfile: 'dist/extension.js',
+	external: ['vscode'],
+	logLevel: 'silent',
+	plugins: [
+		/* add to the end of plugins array */
+		esbuildProblemMatcherPlugin,
+	],
+};
+
 async function main() {
-	const ctx = await esbuild.context({
+	const ctx = await esbuild.context(extensionOptions);
+	// The command-line entry point must not depend on vscode, so it is not marked external here
+	const cliCtx = await esbuild.context({
 		entryPoints: [
-			'src/extension.ts'
+			'src/cli/index.ts'
 		],
 		bundle: true,
 		format: 'cjs',
@@ -34,23 +59,29 @@ async function main() {
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
-		external: ['vscode'],
+		outfile: 'dist/cli.js',
+		banner: { js: '#!/usr/bin/env node' },
 		logLevel: 'silent',
 		plugins: [
-			/* add to the end of plugins array */
 			esbuildProblemMatcherPlugin,
 		],
 	});
 	if (watch) {
 		await ctx.watch();
+		await cliCtx.watch();
 	} else {
 		await ctx.rebuild();
 		await ctx.dispose();
+		await cliCtx.rebuild();
+		await cliCtx.dispose();
 	}
 }
 
-main().catch(e => {
-	console.error(e);
-	process.exit(1);
-});
+if (require.main === module) {
+	main().catch(e => {
+		console.error(e);
+		process.exit(1);
+	});
+}
+
+module.exports = { extensionOptions };
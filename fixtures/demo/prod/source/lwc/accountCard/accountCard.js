@@ -0,0 +1,5 @@
+import { LightningElement, api } from 'lwc';
+
+export default class AccountCard extends LightningElement {
+    @api recordId;
+}
@@ -0,0 +1,180 @@
+import * as os from 'os';
+import * as path from 'path';
+import { ComparisonSourceSpec, ComparisonStatus, DriftPolicy, ExportFormat } from '../types';
+import { SF_CONFIG } from '../config/Constants';
+import { AVAILABLE_METADATA_TYPES } from '../core/MetadataTypes';
+
+/** Process exit codes of the command-line entry point */
+export const CLI_EXIT_CODES = {
+    /** No unexpected drift */
+    SUCCESS: 0,
+    /** The comparison found unexpected drift */
+    DRIFT: 1,
+    /** Invalid arguments or a failed retrieval */
+    ERROR: 2
+} as const;
+
+/** Report formats the command line can emit */
+const CLI_FORMATS = [ExportFormat.Json, ExportFormat.Junit, ExportFormat.Markdown];
+
+/** Flags that take a value */
+const VALUE_FLAGS = [
+    'source-org', 'source-dir', 'target-org', 'target-dir', 'types', 'api-version',
+    'format', 'output', 'allow', 'allow-file', 'fail-on', 'work-dir', 'fixtures'
+];
+
+/** Statuses that can be listed in --fail-on */
+const DRIFT_STATUSES = [ComparisonStatus.Changed, ComparisonStatus.OnlyInLeft, ComparisonStatus.OnlyInRight];
+
+export const CLI_USAGE = `Usage: sf-org-compare (--source-org <alias> | --source-dir <path>) (--target-org <alias> | --target-dir <path>) [options]
+
+Compares the source of two Salesforce orgs, or of an org and a directory, and
+exits with ${CLI_EXIT_CODES.DRIFT} when unexpected differences are found.
+
+Options:
+  --source-org <alias>     Org retrieved through the Salesforce CLI as the left side
+  --source-dir <path>      Directory or SFDX project used as the left side
+  --target-org <alias>     Org retrieved through the Salesforce CLI as the right side
+  --target-dir <path>      Directory or SFDX project used as the right side
+  --types <list>           Comma-separated metadata types to retrieve (default: the extension defaults)
+  --api-version <version>  Metadata API version (default: ${SF_CONFIG.API.DEFAULT_VERSION})
+  --format <format>        Report format: ${CLI_FORMATS.join(', ')} (default: json)
+  --output <file>          Write the report to a file instead of stdout
+  --allow <pattern>        Expected difference, as a path or Type:fullName pattern; repeatable
+  --allow-file <file>      File listing one allowed pattern per line; # starts a comment
+  --fail-on <list>         Statuses counted as drift: ${DRIFT_STATUSES.join(', ')} or none (default: all)
+  --work-dir <path>        Directory orgs are retrieved into
+  --fixtures <path>        Replay the orgs recorded in a fixture directory instead of running the Salesforce CLI
+  --verbose                Log progress to stderr
+  --help                   Show this help
+
+Exit codes: ${CLI_EXIT_CODES.SUCCESS} no unexpected drift, ${CLI_EXIT_CODES.DRIFT} unexpected drift, ${CLI_EXIT_CODES.ERROR} error
+`;
+
+/**
+ * Options of a command-line comparison
+ */
+export interface CliOptions {
+    source: ComparisonSourceSpec;
+    target: ComparisonSourceSpec;
+    metadataTypes: string[];
+    apiVersion: string;
+    format: ExportFormat;
+    output?: string;
+    policy: DriftPolicy;
+    /** Files with additional allowed patterns, read before comparing */
+    allowFiles: string[];
+    workDirectory: string;
+    /** Fixture directory orgs are replayed from, instead of being retrieved through the Salesforce CLI */
+    fixtureDirectory?: string;
+    verbose: boolean;
+    help: boolean;
+}
+
+/**
+ * Error for invalid command-line arguments, reported together with the usage
+ */
+export class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliUsageError';
+    }
+}
+
+/**
+ * Parse command-line arguments; flags take their value as the next argument or after "="
+ */
+export function parseCliArguments(argv: string[]): CliOptions {
+    const values = new Map<string, string[]>();
+    const switches = new Set<string>();
+
+    for (let i = 0; i < argv.length; i++) {
+        const argument = argv[i];
+        if (!argument.startsWith('--')) {
+            throw new CliUsageError(`Unexpected argument: ${argument}`);
+        }
+
+        const [flag, inlineValue] = argument.substring(2).split(/=(.*)/s, 2);
+        if (flag === 'help' || flag === 'verbose') {
+            switches.add(flag);
+            continue;
+        }
+        if (!VALUE_FLAGS.includes(flag)) {
+            throw new CliUsageError(`Unknown option: --${flag}`);
+        }
+
+        const value = inlineValue ?? argv[++i];
+        if (value === undefined || value === '') {
+            throw new CliUsageError(`Missing value for --${flag}`);
+        }
+        values.set(flag, [...(values.get(flag) || []), value]);
+    }
+
+    const single = (flag: string): string | undefined => {
+        const flagValues = values.get(flag);
+        if (flagValues && flagValues.length > 1) {
+            throw new CliUsageError(`--${flag} can only be given once`);
+        }
+        return flagValues?.[0];
+    };
+    const list = (flag: string): string[] | undefined =>
+        single(flag)?.split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+    const options: CliOptions = {
+        source: { kind: 'directory', path: '' },
+        target: { kind: 'directory', path: '' },
+        metadataTypes: list('types') || AVAILABLE_METADATA_TYPES.filter(type => type.enabled).map(type => type.name),
+        apiVersion: single('api-version') || SF_CONFIG.API.DEFAULT_VERSION,
+        format: ExportFormat.Json,
+        output: single('output'),
+        policy: { failOn: [...DRIFT_STATUSES], allow: values.get('allow') || [] },
+        allowFiles: values.get('allow-file') || [],
+        workDirectory: path.resolve(single('work-dir') || path.join(os.tmpdir(), SF_CONFIG.FS.TEMP_DIR_PREFIX, 'cli')),
+        fixtureDirectory: values.has('fixtures') ? path.resolve(single('fixtures')!) : undefined,
+        verbose: switches.has('verbose'),
+        help: switches.has('help')
+    };
+    if (options.help) {
+        return options;
+    }
+
+    options.source = parseSourceSpec('source', single('source-org'), single('source-dir'));
+    options.target = parseSourceSpec('target', single('target-org'), single('target-dir'));
+
+    const format = single('format');
+    if (format) {
+        const selected = CLI_FORMATS.find(candidate => candidate === format.toLowerCase());
+        if (!selected) {
+            throw new CliUsageError(`Unsupported format "${format}", expected one of: ${CLI_FORMATS.join(', ')}`);
+        }
+        options.format = selected;
+    }
+
+    const failOn = list('fail-on');
+    if (failOn) {
+        const statuses = failOn.filter(status => status !== 'none');
+        const unknown = statuses.filter(status => !DRIFT_STATUSES.includes(status as ComparisonStatus));
+        if (unknown.length > 0) {
+            throw new CliUsageError(`Unknown --fail-on status: ${unknown.join(', ')}`);
+        }
+        options.policy.failOn = statuses as ComparisonStatus[];
+    }
+
+    return options;
+}
+
+/**
+ * Build one side of the comparison from its org and directory flags, exactly one of which must be given
+ */
+function parseSourceSpec(side: 'source' | 'target', org: string | undefined, directory: string | undefined): ComparisonSourceSpec {
+    if (org && directory) {
+        throw new CliUsageError(`Use either --${side}-org or --${side}-dir, not both`);
+    }
+    if (org) {
+        return { kind: 'org', identifier: org };
+    }
+    if (directory) {
+        return { kind: 'directory', path: directory };
+    }
+    throw new CliUsageError(`Missing --${side}-org or --${side}-dir`);
+}
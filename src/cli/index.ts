@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HeadlessComparisonService } from '../core/HeadlessComparisonService';
+import { FixtureCliAdapter } from '../core/FixtureCliAdapter';
+import { SfCliAdapter } from '../core/SfCliAdapter';
+import { ComparisonExportService } from '../services/ComparisonExportService';
+import { TextDiffService } from '../services/TextDiffService';
+import { CLI_EXIT_CODES, CLI_USAGE, CliOptions, CliUsageError, parseCliArguments } from './CliArguments';
+
+/**
+ * Run a comparison from command-line arguments and write the report
+ * Progress logging goes to stderr, and only with --verbose, so that stdout holds nothing but the report
+ * @returns The process exit code
+ */
+export async function main(argv: string[], stdout: NodeJS.WritableStream = process.stdout, stderr: NodeJS.WritableStream = process.stderr): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseCliArguments(argv);
+    } catch (error) {
+        if (error instanceof CliUsageError) {
+            stderr.write(`${error.message}\n\n${CLI_USAGE}`);
+            return CLI_EXIT_CODES.ERROR;
+        }
+        throw error;
+    }
+
+    if (options.help) {
+        stdout.write(CLI_USAGE);
+        return CLI_EXIT_CODES.SUCCESS;
+    }
+
+    const consoleLog = console.log;
+    console.log = options.verbose ? (...args: unknown[]) => console.error(...args) : () => undefined;
+    try {
+        for (const allowFile of options.allowFiles) {
+            options.policy.allow.push(...readAllowFile(allowFile));
+        }
+
+        const cliAdapter = options.fixtureDirectory ? new FixtureCliAdapter(options.fixtureDirectory) : new SfCliAdapter();
+        const result = await new HeadlessComparisonService(cliAdapter).compare(options.source, options.target, {
+            metadataTypes: options.metadataTypes,
+            apiVersion: options.apiVersion,
+            workDirectory: options.workDirectory
+        });
+        const drift = new Set(HeadlessComparisonService.findUnexpectedDrift(result.entries, options.policy).map(entry => entry.relativePath));
+
+        const exportService = new ComparisonExportService(new TextDiffService());
+        const report = exportService.fromOrgComparison(result);
+        for (const entry of report.entries) {
+            entry.allowed = !drift.has(entry.relativePath);
+        }
+
+        const content = await exportService.render(report, options.format);
+        if (options.output) {
+            await fs.promises.mkdir(path.dirname(path.resolve(options.output)), { recursive: true });
+            await fs.promises.writeFile(options.output, content, 'utf8');
+        } else {
+            stdout.write(content);
+        }
+
+        stderr.write(`${report.title}: ${report.entries.length} difference(s), ${drift.size} unexpected\n`);
+        return drift.size > 0 ? CLI_EXIT_CODES.DRIFT : CLI_EXIT_CODES.SUCCESS;
+    } catch (error) {
+        stderr.write(`Comparison failed: ${error instanceof Error ? error.message : String(error)}\n`);
+        return CLI_EXIT_CODES.ERROR;
+    } finally {
+        console.log = consoleLog;
+    }
+}
+
+/**
+ * Read allowed patterns from a file, one per line, ignoring blank lines and # comments
+ */
+function readAllowFile(filePath: string): string[] {
+    return fs.readFileSync(filePath, 'utf8')
+        .split(/\r?\n/)
+        .map(line => line.replace(/#.*$/, '').trim())
+        .filter(line => line.length > 0);
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(exitCode => {
+        process.exitCode = exitCode;
+    });
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { 
     SF_CONFIG, 
     EXTENSION_CONFIG_KEYS, 
@@ -6,6 +7,8 @@ import {
     LogLevel,
     LOG_LEVELS
 } from './Constants';
+import { CliBackendSettings, DiffIgnoreRule, OrgTreeMode, ScheduledRefreshSettings, SnapshotRetention } from '../types';
+import { ContentNormalizer } from '../services/ContentNormalizer';
 
 /**
  * Interface for extension configuration values
@@ -20,6 +23,12 @@ export interface ExtensionConfiguration {
     autoRefresh: boolean;
     showProgress: boolean;
     logLevel: LogLevel;
+    ignoreRules: DiffIgnoreRule[];
+    snapshotRetention: SnapshotRetention;
+    incrementalRetrieval: boolean;
+    scheduledRefresh: ScheduledRefreshSettings;
+    cliBackend: CliBackendSettings;
+    treeMode: OrgTreeMode;
 }
 
 /**
@@ -76,7 +85,13 @@ export class ConfigurationManager {
             enabledMetadataTypes: this.get(EXTENSION_CONFIG_KEYS.KEYS.ENABLED_METADATA_TYPES, [...DEFAULT_EXTENSION_CONFIG.enabledMetadataTypes]),
             autoRefresh: this.get(EXTENSION_CONFIG_KEYS.KEYS.AUTO_REFRESH, false),
             showProgress: this.get(EXTENSION_CONFIG_KEYS.KEYS.SHOW_PROGRESS, true),
-            logLevel: this.get(EXTENSION_CONFIG_KEYS.KEYS.LOG_LEVEL, 'info') as LogLevel
+            logLevel: this.get(EXTENSION_CONFIG_KEYS.KEYS.LOG_LEVEL, 'info') as LogLevel,
+            ignoreRules: this.getIgnoreRules(),
+            snapshotRetention: this.getSnapshotRetention(),
+            incrementalRetrieval: this.isIncrementalRetrievalEnabled(),
+            scheduledRefresh: this.getScheduledRefresh(),
+            cliBackend: this.getCliBackend(),
+            treeMode: this.getTreeMode()
         };
     }
 
@@ -225,6 +240,72 @@ export class ConfigurationManager {
         return this.get(EXTENSION_CONFIG_KEYS.KEYS.MAX_CONCURRENT_REQUESTS, SF_CONFIG.API.MAX_CONCURRENT_REQUESTS);
     }
 
+    /**
+     * Get the rules describing which differences compare operations ignore
+     */
+    public getIgnoreRules(): DiffIgnoreRule[] {
+        const rules = this.get<DiffIgnoreRule[]>(EXTENSION_CONFIG_KEYS.KEYS.IGNORE_RULES, []);
+        return Array.isArray(rules) ? rules : [];
+    }
+
+    /**
+     * Save the ignore rules, by default in the workspace settings
+     */
+    public async setIgnoreRules(
+        rules: DiffIgnoreRule[],
+        configurationTarget: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Workspace
+    ): Promise<void> {
+        await this.set(EXTENSION_CONFIG_KEYS.KEYS.IGNORE_RULES, rules, configurationTarget);
+    }
+
+    /**
+     * Get how many org snapshots are kept and for how long
+     */
+    public getSnapshotRetention(): SnapshotRetention {
+        return {
+            maxCount: this.get(EXTENSION_CONFIG_KEYS.KEYS.SNAPSHOT_RETENTION_COUNT, SF_CONFIG.SNAPSHOTS.DEFAULT_RETENTION_COUNT),
+            maxAgeDays: this.get(EXTENSION_CONFIG_KEYS.KEYS.SNAPSHOT_RETENTION_DAYS, SF_CONFIG.SNAPSHOTS.DEFAULT_RETENTION_DAYS)
+        };
+    }
+
+    /**
+     * Check whether refreshes retrieve only the components changed since the previous retrieval
+     */
+    public isIncrementalRetrievalEnabled(): boolean {
+        return this.get(EXTENSION_CONFIG_KEYS.KEYS.INCREMENTAL_RETRIEVAL, true);
+    }
+
+    /**
+     * Get which orgs are refreshed in the background and how often
+     * Intervals shorter than the minimum are raised to it
+     */
+    public getScheduledRefresh(): ScheduledRefreshSettings {
+        const interval = this.get(EXTENSION_CONFIG_KEYS.KEYS.SCHEDULED_REFRESH_INTERVAL, SF_CONFIG.SCHEDULED_REFRESH.DEFAULT_INTERVAL_MINUTES);
+        return {
+            intervalMinutes: interval > 0 ? Math.max(interval, SF_CONFIG.SCHEDULED_REFRESH.MIN_INTERVAL_MINUTES) : 0,
+            orgs: this.get<string[]>(EXTENSION_CONFIG_KEYS.KEYS.SCHEDULED_REFRESH_ORGS, [])
+        };
+    }
+
+    /**
+     * Get the backend orgs are accessed through, with a relative fixture directory resolved against the workspace folder
+     */
+    public getCliBackend(): CliBackendSettings {
+        const fixtureDirectory = this.get(EXTENSION_CONFIG_KEYS.KEYS.FIXTURE_DIRECTORY, '');
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        return {
+            backend: this.get<string>(EXTENSION_CONFIG_KEYS.KEYS.CLI_BACKEND, 'sf') === 'fixture' ? 'fixture' : 'sf',
+            fixtureDirectory: fixtureDirectory && workspaceFolder ? path.resolve(workspaceFolder, fixtureDirectory) : fixtureDirectory
+        };
+    }
+
+    /**
+     * Get whether org trees walk the retrieved source or list metadata types and components on demand
+     */
+    public getTreeMode(): OrgTreeMode {
+        return this.get<string>(EXTENSION_CONFIG_KEYS.KEYS.TREE_MODE, 'retrieved') === 'lazy' ? 'lazy' : 'retrieved';
+    }
+
     /**
      * Reset configuration to defaults
      */
@@ -265,6 +346,18 @@ export class ConfigurationManager {
             errors.push(`Cache TTL must be between 60000ms and 3600000ms, got: ${config.cacheTtl}`);
         }
 
+        // Validate snapshot retention
+        if (config.snapshotRetention.maxCount < 0 || config.snapshotRetention.maxCount > SF_CONFIG.SNAPSHOTS.MAX_RETENTION_COUNT) {
+            errors.push(`Snapshot retention count must be between 0 and ${SF_CONFIG.SNAPSHOTS.MAX_RETENTION_COUNT}, got: ${config.snapshotRetention.maxCount}`);
+        }
+
+        if (config.snapshotRetention.maxAgeDays < 0) {
+            errors.push(`Snapshot retention days must be 0 or more, got: ${config.snapshotRetention.maxAgeDays}`);
+        }
+
+        // Validate ignore rule patterns and element paths
+        errors.push(...ContentNormalizer.validateRules(config.ignoreRules));
+
         return {
             valid: errors.length === 0,
             errors
@@ -27,6 +27,8 @@ export const SF_CONFIG = {
         SOURCE_RETRIEVAL: 60000,
         /** CLI command execution timeout */
         CLI_COMMAND: 60000,
+        /** Deployment and validation timeout */
+        DEPLOYMENT: 600000,
         /** Process termination timeout */
         PROCESS_KILL: 5000
     },
@@ -63,6 +65,36 @@ export const SF_CONFIG = {
         CLEANUP_INTERVAL: 5 * 60 * 1000 // 5 minutes
     },
 
+    // Snapshot Configuration
+    SNAPSHOTS: {
+        /** Default number of snapshots kept per organization (0 disables snapshots) */
+        DEFAULT_RETENTION_COUNT: 10,
+        /** Default age in days after which snapshots are removed (0 keeps them regardless of age) */
+        DEFAULT_RETENTION_DAYS: 30,
+        /** Maximum number of snapshots kept per organization */
+        MAX_RETENTION_COUNT: 100
+    },
+
+    // Scheduled Refresh Configuration
+    SCHEDULED_REFRESH: {
+        /** Default minutes between scheduled refreshes (0 disables scheduled refreshes) */
+        DEFAULT_INTERVAL_MINUTES: 0,
+        /** Shortest allowed interval between scheduled refreshes */
+        MIN_INTERVAL_MINUTES: 15
+    },
+
+    // Source Retrieval Configuration
+    RETRIEVAL: {
+        /** Margin subtracted from the previous retrieval time to allow for clock differences with the org */
+        CLOCK_SKEW_MARGIN: 5 * 60 * 1000, // 5 minutes
+        /** Interval between status checks of a Metadata API retrieval */
+        METADATA_API_POLL_INTERVAL: 2000,
+        /** Metadata listing calls of an incremental retrieval that run at the same time */
+        LIST_METADATA_CONCURRENCY: 4,
+        /** Metadata listing calls above which an incremental retrieval retrieves every type in full instead */
+        MAX_LIST_METADATA_CALLS: 20
+    },
+
     // Performance Configuration
     PERFORMANCE: {
         /** Maximum time for tests to complete */
@@ -110,7 +142,16 @@ export const EXTENSION_CONFIG_KEYS = {
         ENABLED_METADATA_TYPES: 'enabledMetadataTypes',
         AUTO_REFRESH: 'autoRefresh',
         SHOW_PROGRESS: 'showProgress',
-        LOG_LEVEL: 'logLevel'
+        LOG_LEVEL: 'logLevel',
+        IGNORE_RULES: 'ignoreRules',
+        SNAPSHOT_RETENTION_COUNT: 'snapshotRetentionCount',
+        SNAPSHOT_RETENTION_DAYS: 'snapshotRetentionDays',
+        INCREMENTAL_RETRIEVAL: 'incrementalRetrieval',
+        SCHEDULED_REFRESH_INTERVAL: 'scheduledRefreshInterval',
+        SCHEDULED_REFRESH_ORGS: 'scheduledRefreshOrgs',
+        CLI_BACKEND: 'cliBackend',
+        FIXTURE_DIRECTORY: 'fixtureDirectory',
+        TREE_MODE: 'treeMode'
     }
 } as const;
 
@@ -136,7 +177,16 @@ export const DEFAULT_EXTENSION_CONFIG = {
     ],
     [EXTENSION_CONFIG_KEYS.KEYS.AUTO_REFRESH]: false,
     [EXTENSION_CONFIG_KEYS.KEYS.SHOW_PROGRESS]: true,
-    [EXTENSION_CONFIG_KEYS.KEYS.LOG_LEVEL]: 'info'
+    [EXTENSION_CONFIG_KEYS.KEYS.LOG_LEVEL]: 'info',
+    [EXTENSION_CONFIG_KEYS.KEYS.IGNORE_RULES]: [],
+    [EXTENSION_CONFIG_KEYS.KEYS.SNAPSHOT_RETENTION_COUNT]: SF_CONFIG.SNAPSHOTS.DEFAULT_RETENTION_COUNT,
+    [EXTENSION_CONFIG_KEYS.KEYS.SNAPSHOT_RETENTION_DAYS]: SF_CONFIG.SNAPSHOTS.DEFAULT_RETENTION_DAYS,
+    [EXTENSION_CONFIG_KEYS.KEYS.INCREMENTAL_RETRIEVAL]: true,
+    [EXTENSION_CONFIG_KEYS.KEYS.SCHEDULED_REFRESH_INTERVAL]: SF_CONFIG.SCHEDULED_REFRESH.DEFAULT_INTERVAL_MINUTES,
+    [EXTENSION_CONFIG_KEYS.KEYS.SCHEDULED_REFRESH_ORGS]: [],
+    [EXTENSION_CONFIG_KEYS.KEYS.CLI_BACKEND]: 'sf',
+    [EXTENSION_CONFIG_KEYS.KEYS.FIXTURE_DIRECTORY]: '',
+    [EXTENSION_CONFIG_KEYS.KEYS.TREE_MODE]: 'retrieved'
 } as const;
 
 /**
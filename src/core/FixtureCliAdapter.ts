@@ -0,0 +1,279 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MetadataComponentRef } from '../types';
+import { MetadataPathResolver } from '../metadata/MetadataPathResolver';
+import { PackageXmlBuilder } from './PackageXmlBuilder';
+import { CliCommandResult, CliDeployOptions, CliExecuteOptions, RetrievedFile, SalesforceCliAdapter } from './SalesforceCliAdapter';
+
+/** Package directory fixture source trees are retrieved into */
+const RETRIEVED_SOURCE_PATH = path.join('force-app', 'main', 'default');
+
+/**
+ * Recorded response of a query, matched by its SOQL with whitespace collapsed
+ */
+interface RecordedQuery {
+    query: string;
+    tooling?: boolean;
+    response: any;
+}
+
+/**
+ * Recorded response of any other command, matched by its arguments
+ */
+interface RecordedCommand {
+    args: string[];
+    response: any;
+}
+
+/**
+ * Adapter replaying recorded CLI responses and pre-baked source trees, so that tests and demos run without an org
+ *
+ * A fixture directory holds one folder per org alias:
+ * - orgs.json: output of "sf org list --json", derived from the org folders when missing
+ * - <org>/source/: source-format tree (classes/, lwc/, objects/...) returned by retrievals
+ * - <org>/metadata/<Type>.json: output of "sf org list metadata", derived from the source tree when missing
+ * - <org>/describe/<SObject>.json: output of "sf sobject describe"
+ * - <org>/queries.json: [{ "query", "tooling", "response" }] for "sf data query"
+ * - <org>/commands.json: [{ "args", "response" }] for any other command
+ * - <org>/deploy.json: output of "sf project deploy start", a successful deployment when missing
+ *
+ * Like the CLI, responses with a non-zero status are rejected unless the command ignores exit codes.
+ */
+export class FixtureCliAdapter implements SalesforceCliAdapter {
+    public readonly name = 'fixture';
+
+    constructor(private fixtureDirectory: string) {}
+
+    public async ensureAvailable(): Promise<void> {
+        if (!fs.existsSync(this.fixtureDirectory) || !fs.statSync(this.fixtureDirectory).isDirectory()) {
+            throw new Error(`Fixture directory does not exist: ${this.fixtureDirectory}`);
+        }
+    }
+
+    public async listOrgs(): Promise<CliCommandResult> {
+        await this.ensureAvailable();
+
+        const recorded = this.readJson(path.join(this.fixtureDirectory, 'orgs.json'));
+        if (recorded !== undefined) {
+            return this.respond(recorded);
+        }
+
+        const nonScratchOrgs = fs.readdirSync(this.fixtureDirectory, { withFileTypes: true })
+            .filter(entry => entry.isDirectory())
+            .map(entry => entry.name)
+            .sort((a, b) => a.localeCompare(b))
+            .map(alias => ({
+                alias,
+                username: `${alias}@fixture.invalid`,
+                orgId: `fixture-${alias}`,
+                instanceUrl: 'https://fixture.invalid',
+                connectedStatus: 'Connected'
+            }));
+
+        return this.respond({ status: 0, result: { scratchOrgs: [], nonScratchOrgs } });
+    }
+
+    public async listMetadata(metadataType: string, orgIdentifier: string): Promise<CliCommandResult> {
+        const orgDirectory = this.getOrgDirectory(orgIdentifier);
+
+        const recorded = this.readJson(path.join(orgDirectory, 'metadata', `${metadataType}.json`));
+        if (recorded !== undefined) {
+            return this.respond(recorded);
+        }
+
+        // Members are the components of the source tree, last modified when their newest file was
+        const members = new Map<string, { fileName: string; lastModified: number }>();
+        for (const [relativePath, component] of this.getSourceComponents(orgDirectory)) {
+            if (component.type !== metadataType) {
+                continue;
+            }
+
+            const modified = fs.statSync(path.join(orgDirectory, 'source', relativePath)).mtimeMs;
+            const member = members.get(component.fullName);
+            if (!member || modified > member.lastModified) {
+                members.set(component.fullName, { fileName: relativePath, lastModified: modified });
+            }
+        }
+
+        const result = [...members.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([fullName, member]) => ({
+                fullName,
+                type: metadataType,
+                fileName: member.fileName,
+                lastModifiedDate: new Date(member.lastModified).toISOString()
+            }));
+
+        return this.respond({ status: 0, result });
+    }
+
+    public async query(soqlQuery: string, orgIdentifier: string, useToolingApi: boolean = false): Promise<CliCommandResult> {
+        const normalize = (query: string) => query.replace(/\s+/g, ' ').trim().toLowerCase();
+        const recorded = this.readRecordings<RecordedQuery>(orgIdentifier, 'queries.json').find(entry =>
+            normalize(entry.query) === normalize(soqlQuery) && !!entry.tooling === useToolingApi
+        );
+        if (!recorded) {
+            throw new Error(`No fixture response recorded for query on ${orgIdentifier}: ${soqlQuery}`);
+        }
+
+        return this.respond(recorded.response);
+    }
+
+    public async describeSObject(sobjectType: string, orgIdentifier: string): Promise<CliCommandResult> {
+        const recorded = this.readJson(path.join(this.getOrgDirectory(orgIdentifier), 'describe', `${sobjectType}.json`));
+        if (recorded === undefined) {
+            throw new Error(`No fixture describe recorded for ${sobjectType} on ${orgIdentifier}`);
+        }
+
+        return this.respond(recorded);
+    }
+
+    public async retrieve(orgIdentifier: string, manifestPath: string, projectDir: string): Promise<RetrievedFile[]> {
+        const orgDirectory = this.getOrgDirectory(orgIdentifier);
+        const manifest = await fs.promises.readFile(path.resolve(projectDir, manifestPath), 'utf8');
+        const requested = PackageXmlBuilder.parse(manifest);
+
+        const isRequested = (component: MetadataComponentRef) => requested.some(type =>
+            type.name === component.type && type.members.some(member => member === '*' || member === component.fullName)
+        );
+
+        const files: RetrievedFile[] = [];
+        for (const [relativePath, component] of this.getSourceComponents(orgDirectory)) {
+            // Decomposed object children come along with their object, as they do from an org
+            const objectName = component.fullName.split('.')[0];
+            const isObjectChild = relativePath.startsWith('objects/') && component.type !== 'CustomObject';
+            if (!isRequested(component) && !(isObjectChild && isRequested({ type: 'CustomObject', fullName: objectName }))) {
+                continue;
+            }
+
+            const targetPath = path.join(projectDir, RETRIEVED_SOURCE_PATH, relativePath);
+            await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+            await fs.promises.copyFile(path.join(orgDirectory, 'source', relativePath), targetPath);
+            files.push({ fullName: component.fullName, type: component.type, filePath: targetPath, state: 'Created' });
+        }
+
+        console.log(`📦 Replayed ${files.length} fixture files for ${orgIdentifier}`);
+        return files;
+    }
+
+    public async deploy(manifestPath: string, orgIdentifier: string, projectDir: string, options: CliDeployOptions): Promise<CliCommandResult> {
+        const recorded = this.readJson(path.join(this.getOrgDirectory(orgIdentifier), 'deploy.json'));
+        if (recorded !== undefined) {
+            return this.respond(recorded, true);
+        }
+
+        const manifest = await fs.promises.readFile(path.resolve(projectDir, manifestPath), 'utf8');
+        const componentCount = PackageXmlBuilder.parse(manifest).reduce((count, type) => count + type.members.length, 0);
+        return this.respond({
+            status: 0,
+            result: {
+                id: '0Af000000000000AAA',
+                status: 'Succeeded',
+                success: true,
+                checkOnly: options.dryRun,
+                numberComponentsDeployed: componentCount,
+                numberComponentsTotal: componentCount
+            }
+        });
+    }
+
+    public async execute(args: string[], options: CliExecuteOptions = {}): Promise<CliCommandResult> {
+        const orgIndex = args.indexOf('--target-org');
+        const orgIdentifier = orgIndex >= 0 ? args[orgIndex + 1] : undefined;
+        const recordings = orgIdentifier
+            ? this.readRecordings<RecordedCommand>(orgIdentifier, 'commands.json')
+            : this.readJson(path.join(this.fixtureDirectory, 'commands.json')) || [];
+
+        const recorded = (recordings as RecordedCommand[]).find(entry =>
+            entry.args.length === args.length && entry.args.every((arg, index) => arg === args[index])
+        );
+        if (!recorded) {
+            throw new Error(`No fixture response recorded for: sf ${args.join(' ')}`);
+        }
+
+        return this.respond(recorded.response, options.ignoreExitCode);
+    }
+
+    /**
+     * Get the folder of an org, looked up by alias or by the username listed in orgs.json
+     */
+    private getOrgDirectory(orgIdentifier: string): string {
+        const aliasDirectory = path.join(this.fixtureDirectory, orgIdentifier);
+        if (!orgIdentifier.includes('..') && fs.existsSync(aliasDirectory) && fs.statSync(aliasDirectory).isDirectory()) {
+            return aliasDirectory;
+        }
+
+        const orgs = this.readJson(path.join(this.fixtureDirectory, 'orgs.json'))?.result;
+        const listed = [...(orgs?.nonScratchOrgs || []), ...(orgs?.scratchOrgs || [])]
+            .find((org: any) => org.username === orgIdentifier && org.alias);
+        if (listed && fs.existsSync(path.join(this.fixtureDirectory, listed.alias))) {
+            return path.join(this.fixtureDirectory, listed.alias);
+        }
+
+        throw new Error(`No fixture recorded for org ${orgIdentifier} in ${this.fixtureDirectory}`);
+    }
+
+    /**
+     * Resolve the files of an org's source tree to their components, keyed by forward-slash relative path
+     */
+    private getSourceComponents(orgDirectory: string): Map<string, MetadataComponentRef> {
+        const components = new Map<string, MetadataComponentRef>();
+        const sourceDirectory = path.join(orgDirectory, 'source');
+        if (!fs.existsSync(sourceDirectory)) {
+            return components;
+        }
+
+        const collect = (directory: string, relativeDirectory: string) => {
+            for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+                const relativePath = relativeDirectory ? `${relativeDirectory}/${entry.name}` : entry.name;
+                if (entry.isDirectory()) {
+                    collect(path.join(directory, entry.name), relativePath);
+                    continue;
+                }
+
+                const component = MetadataPathResolver.resolve(relativePath);
+                if (component) {
+                    components.set(relativePath, component);
+                }
+            }
+        };
+        collect(sourceDirectory, '');
+
+        return components;
+    }
+
+    /**
+     * Read a recordings file of an org, which holds an array of recorded responses
+     */
+    private readRecordings<T>(orgIdentifier: string, fileName: string): T[] {
+        const recordings = this.readJson(path.join(this.getOrgDirectory(orgIdentifier), fileName));
+        return Array.isArray(recordings) ? recordings : [];
+    }
+
+    /**
+     * Read a JSON fixture file, undefined when it does not exist
+     */
+    private readJson(filePath: string): any {
+        if (!fs.existsSync(filePath)) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            throw new Error(`Invalid fixture file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Turn a recorded response into command output, rejecting failures like a non-zero CLI exit code would
+     */
+    private respond(response: any, ignoreExitCode: boolean = false): CliCommandResult {
+        const stdout = JSON.stringify(response);
+        if (!ignoreExitCode && typeof response?.status === 'number' && response.status !== 0) {
+            throw new Error(`Command failed with code ${response.status}: ${response.message || 'Unknown error'}`);
+        }
+
+        return { stdout, stderr: '' };
+    }
+}
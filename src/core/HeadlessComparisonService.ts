@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComparisonEntry, ComparisonSource, ComparisonSourceSpec, ComparisonStatus, DriftPolicy, OrgComparisonResult } from '../types';
+import { SF_CONFIG } from '../config/Constants';
+import { MetadataPathResolver } from '../metadata/MetadataPathResolver';
+import { OrgComparisonService } from '../services/OrgComparisonService';
+import { PackageXmlBuilder } from './PackageXmlBuilder';
+import { SalesforceCliAdapter } from './SalesforceCliAdapter';
+import { SfCliAdapter } from './SfCliAdapter';
+import { SfdxProject } from './SfdxProject';
+
+/**
+ * Settings of a comparison run outside of VS Code
+ */
+export interface HeadlessComparisonOptions {
+    /** Metadata types retrieved from orgs */
+    metadataTypes: string[];
+    apiVersion: string;
+    /** Directory orgs are retrieved into, one SFDX project per org */
+    workDirectory: string;
+    /** Milliseconds after which a retrieval is aborted */
+    timeout?: number;
+}
+
+/**
+ * Comparison of orgs and source directories without VS Code, used by the command-line entry point
+ */
+export class HeadlessComparisonService {
+
+    constructor(
+        private cliAdapter: SalesforceCliAdapter = new SfCliAdapter(),
+        private orgComparisonService: OrgComparisonService = new OrgComparisonService()
+    ) {}
+
+    /**
+     * Resolve both sides and compare them
+     */
+    public async compare(left: ComparisonSourceSpec, right: ComparisonSourceSpec, options: HeadlessComparisonOptions): Promise<OrgComparisonResult> {
+        const leftSource = await this.resolveSource(left, options);
+        const rightSource = await this.resolveSource(right, options);
+        return this.orgComparisonService.compareSources(leftSource, rightSource);
+    }
+
+    /**
+     * Turn a source specification into a comparison source, retrieving orgs into the work directory
+     * Directories holding an sfdx-project.json are compared by their package directories
+     */
+    public async resolveSource(spec: ComparisonSourceSpec, options: HeadlessComparisonOptions): Promise<ComparisonSource> {
+        if (spec.kind === 'directory') {
+            const directory = path.resolve(spec.path);
+            if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+                throw new Error(`Source directory does not exist: ${directory}`);
+            }
+
+            return {
+                id: directory,
+                label: path.basename(directory),
+                rootDirectories: SfdxProject.isProject(directory) ? SfdxProject.getSourceRoots(directory) : [directory]
+            };
+        }
+
+        return {
+            id: spec.identifier,
+            label: spec.identifier,
+            rootDirectories: [await this.retrieveOrg(spec.identifier, options)]
+        };
+    }
+
+    /**
+     * Retrieve the configured metadata types of an org into a fresh SFDX project
+     * @returns The source directory of the retrieved project
+     */
+    public async retrieveOrg(orgIdentifier: string, options: HeadlessComparisonOptions): Promise<string> {
+        const projectDir = path.join(options.workDirectory, `org-${orgIdentifier.replace(/[^a-zA-Z0-9._-]/g, '_')}`);
+        await fs.promises.rm(projectDir, { recursive: true, force: true });
+        await fs.promises.mkdir(projectDir, { recursive: true });
+
+        const sourceDirectory = await SfdxProject.create(projectDir, options.apiVersion);
+        const manifestPath = path.join(projectDir, 'package.xml');
+        await fs.promises.writeFile(manifestPath, PackageXmlBuilder.forTypes(options.metadataTypes, options.apiVersion), 'utf8');
+
+        console.log(`Retrieving ${options.metadataTypes.join(', ')} from ${orgIdentifier}`);
+        await this.cliAdapter.retrieve(orgIdentifier, manifestPath, projectDir, options.timeout ?? SF_CONFIG.TIMEOUTS.SOURCE_RETRIEVAL);
+        return sourceDirectory;
+    }
+
+    /**
+     * Get the entries that count as drift under a policy, i.e. have a failing status and match no allowed pattern
+     */
+    public static findUnexpectedDrift(entries: ComparisonEntry[], policy: DriftPolicy): ComparisonEntry[] {
+        const allowed = policy.allow.map(pattern => HeadlessComparisonService.toPatternRegExp(pattern));
+        return entries.filter(entry =>
+            policy.failOn.includes(entry.status) &&
+            entry.status !== ComparisonStatus.Identical &&
+            !HeadlessComparisonService.isAllowed(entry.relativePath, allowed)
+        );
+    }
+
+    /**
+     * Check whether a path, or the "Type:fullName" key of its component, matches any of the patterns
+     */
+    private static isAllowed(relativePath: string, patterns: RegExp[]): boolean {
+        const component = MetadataPathResolver.resolve(relativePath);
+        const componentKey = component ? `${component.type}:${component.fullName}` : undefined;
+        return patterns.some(pattern => pattern.test(relativePath) || (!!componentKey && pattern.test(componentKey)));
+    }
+
+    /**
+     * Convert a pattern where "**" matches across path segments and "*" within one into a regular expression
+     */
+    private static toPatternRegExp(pattern: string): RegExp {
+        const source = pattern
+            .split('**')
+            .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+            .join('.*');
+        return new RegExp(`^${source}$`);
+    }
+}
@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import JSZip = require('jszip');
+import { SF_CONFIG } from '../config/Constants';
+import { MetadataPathResolver } from '../metadata/MetadataPathResolver';
+import { MetadataFormatConverter } from './MetadataFormatConverter';
+import { PackageXmlBuilder } from './PackageXmlBuilder';
+import { RetrievedFile } from './SalesforceCliAdapter';
+
+/** Package directory retrieved source is written to, as the CLI does */
+const RETRIEVED_SOURCE_PATH = path.join('force-app', 'main', 'default');
+
+/**
+ * Member of a metadata type listed through the Metadata API
+ */
+export interface MetadataApiFileProperties {
+    fullName: string;
+    type: string;
+    fileName: string;
+    lastModifiedDate: string;
+}
+
+/**
+ * Metadata API calls used for retrievals, as offered by the jsforce connection of @salesforce/core
+ */
+export interface MetadataApiConnection {
+    metadata: {
+        retrieve(request: { apiVersion: number; singlePackage: boolean; unpackaged: any }): PromiseLike<{ id: string }>;
+        checkRetrieveStatus(id: string): Promise<{
+            done: boolean;
+            success: boolean;
+            status: string;
+            zipFile: string;
+            errorMessage?: string | null;
+            messages?: { fileName: string; problem: string }[] | { fileName: string; problem: string };
+        }>;
+        list(queries: { type: string }[]): Promise<MetadataApiFileProperties[] | MetadataApiFileProperties>;
+    };
+}
+
+/**
+ * Source retrieval through the Metadata API, without the Salesforce CLI
+ *
+ * Orgs are accessed with the auth info the CLI stored when they were authorized, through a jsforce connection
+ * from @salesforce/core. The retrieve zip is converted to source format and written to the same layout
+ * "sf project retrieve start" produces.
+ */
+export class MetadataApiRetriever {
+    /** Types the Metadata API lists in one call */
+    public static readonly MAX_LIST_QUERIES = 3;
+
+    private connections: Map<string, Promise<MetadataApiConnection>> = new Map();
+
+    constructor(
+        private connect: (orgIdentifier: string) => Promise<MetadataApiConnection> = MetadataApiRetriever.connectWithStoredAuth
+    ) {}
+
+    /**
+     * Retrieve the components of a package.xml manifest into the SFDX project at projectDir
+     * @param timeout Milliseconds after which waiting for the retrieval is given up
+     * @returns The written files
+     */
+    public async retrieve(orgIdentifier: string, manifestPath: string, projectDir: string, timeout: number = SF_CONFIG.TIMEOUTS.SOURCE_RETRIEVAL): Promise<RetrievedFile[]> {
+        const manifest = await fs.promises.readFile(path.resolve(projectDir, manifestPath), 'utf8');
+        const apiVersion = /<version>\s*([^<\s]+)\s*<\/version>/.exec(manifest)?.[1] || SF_CONFIG.API.DEFAULT_VERSION;
+        const types = PackageXmlBuilder.parse(manifest);
+
+        const connection = await this.getConnection(orgIdentifier);
+        console.log(`Retrieving ${types.map(type => type.name).join(', ')} from ${orgIdentifier} through the Metadata API`);
+        const { id } = await connection.metadata.retrieve({
+            apiVersion: Number(apiVersion),
+            singlePackage: true,
+            unpackaged: { types, version: apiVersion }
+        });
+
+        const result = await this.waitForRetrieval(connection, id, timeout);
+        const messages = result.messages === undefined ? [] : Array.isArray(result.messages) ? result.messages : [result.messages];
+        for (const message of messages) {
+            console.warn(`Metadata API retrieve warning for ${message.fileName}: ${message.problem}`);
+        }
+        if (!result.success || result.status === 'Failed') {
+            throw new Error(`Metadata API retrieval failed: ${result.errorMessage || messages.map(message => message.problem).join('; ') || result.status}`);
+        }
+
+        const files = MetadataFormatConverter.toSourceFormat(await MetadataApiRetriever.unzip(Buffer.from(result.zipFile, 'base64')));
+        // Entry names and the component names they are split by come from the org, so nothing is written
+        // unless every file stays within the retrieved source directory
+        const sourceDir = path.resolve(projectDir, RETRIEVED_SOURCE_PATH);
+        for (const relativePath of files.keys()) {
+            const relativeToSource = path.relative(sourceDir, path.resolve(sourceDir, relativePath));
+            if (!relativeToSource || relativeToSource.startsWith('..') || path.isAbsolute(relativeToSource)) {
+                throw new Error(`Metadata API retrieval contains a file outside of ${RETRIEVED_SOURCE_PATH}: ${relativePath}`);
+            }
+        }
+
+        const retrievedFiles: RetrievedFile[] = [];
+        for (const [relativePath, content] of files) {
+            const filePath = path.join(sourceDir, relativePath);
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(filePath, content);
+
+            const component = MetadataPathResolver.resolve(relativePath);
+            if (component) {
+                retrievedFiles.push({ fullName: component.fullName, type: component.type, filePath, state: 'Changed' });
+            }
+        }
+
+        console.log(`📦 Retrieved ${retrievedFiles.length} files from ${orgIdentifier} through the Metadata API`);
+        return retrievedFiles;
+    }
+
+    /**
+     * List the members of metadata types with their last modification date, in a single call
+     * @param metadataTypes Up to {@link MetadataApiRetriever.MAX_LIST_QUERIES} types
+     */
+    public async listMetadata(metadataTypes: string[], orgIdentifier: string): Promise<MetadataApiFileProperties[]> {
+        if (metadataTypes.length > MetadataApiRetriever.MAX_LIST_QUERIES) {
+            throw new Error(`The Metadata API lists at most ${MetadataApiRetriever.MAX_LIST_QUERIES} types per call`);
+        }
+
+        const connection = await this.getConnection(orgIdentifier);
+        const members = await connection.metadata.list(metadataTypes.map(type => ({ type })));
+        return Array.isArray(members) ? members : members ? [members] : [];
+    }
+
+    /**
+     * Get the connection of an org, connecting once per org
+     */
+    private getConnection(orgIdentifier: string): Promise<MetadataApiConnection> {
+        let connection = this.connections.get(orgIdentifier);
+        if (!connection) {
+            connection = this.connect(orgIdentifier);
+            // A failed connection, e.g. to an org that is not authorized yet, is retried on the next call
+            connection.catch(() => this.connections.delete(orgIdentifier));
+            this.connections.set(orgIdentifier, connection);
+        }
+        return connection;
+    }
+
+    /**
+     * Check the status of a retrieval until it is done
+     */
+    private async waitForRetrieval(connection: MetadataApiConnection, id: string, timeout: number) {
+        const deadline = Date.now() + timeout;
+        for (;;) {
+            const result = await connection.metadata.checkRetrieveStatus(id);
+            if (result.done) {
+                return result;
+            }
+            if (Date.now() >= deadline) {
+                throw new Error(`Metadata API retrieval ${id} did not finish within ${timeout / 1000} seconds`);
+            }
+            await new Promise(resolve => setTimeout(resolve, SF_CONFIG.RETRIEVAL.METADATA_API_POLL_INTERVAL));
+        }
+    }
+
+    /**
+     * Read the files of a retrieve zip, keyed by forward-slash path relative to the package root
+     */
+    private static async unzip(zipFile: Buffer): Promise<Map<string, Buffer>> {
+        const zip = await JSZip.loadAsync(zipFile);
+        const files = new Map<string, Buffer>();
+        for (const entry of Object.values(zip.files)) {
+            if (!entry.dir) {
+                // Zips of multi-package retrievals nest every file below the package name
+                files.set(entry.name.replace(/^unpackaged\//, ''), await entry.async('nodebuffer'));
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Connect to an org, given by alias or username, with the auth info stored by the Salesforce CLI
+     * @salesforce/core is loaded on first use so that orgs retrieved through the CLI do not pay for it
+     */
+    private static async connectWithStoredAuth(orgIdentifier: string): Promise<MetadataApiConnection> {
+        const { AuthInfo, Connection, Logger, StateAggregator } = await import('@salesforce/core');
+
+        // The log file transport of @salesforce/core is loaded from a path that does not exist once it is bundled, so the
+        // root logger is created without it; the variable is restored right away as the sf processes we spawn inherit it
+        const disableLogFile = process.env.SF_DISABLE_LOG_FILE;
+        process.env.SF_DISABLE_LOG_FILE = 'true';
+        try {
+            Logger.getRoot();
+        } finally {
+            if (disableLogFile === undefined) {
+                delete process.env.SF_DISABLE_LOG_FILE;
+            } else {
+                process.env.SF_DISABLE_LOG_FILE = disableLogFile;
+            }
+        }
+
+        const stateAggregator = await StateAggregator.getInstance();
+        const username = stateAggregator.aliases.resolveUsername(orgIdentifier);
+        return Connection.create({ authInfo: await AuthInfo.create({ username }) });
+    }
+}
@@ -0,0 +1,114 @@
+import { MetadataXmlParser, XmlElement, XmlElementRange } from '../metadata/MetadataXmlParser';
+
+/** Elements of a Metadata API object file stored as separate files in source format, with their file suffix */
+const OBJECT_CHILD_SUFFIXES: Record<string, string> = {
+    businessProcesses: 'businessProcess',
+    compactLayouts: 'compactLayout',
+    fieldSets: 'fieldSet',
+    fields: 'field',
+    listViews: 'listView',
+    recordTypes: 'recordType',
+    validationRules: 'validationRule',
+    webLinks: 'webLink'
+};
+
+/** Root element of each object child file */
+const OBJECT_CHILD_ELEMENTS: Record<string, string> = {
+    businessProcesses: 'BusinessProcess',
+    compactLayouts: 'CompactLayout',
+    fieldSets: 'FieldSet',
+    fields: 'CustomField',
+    listViews: 'ListView',
+    recordTypes: 'RecordType',
+    validationRules: 'ValidationRule',
+    webLinks: 'WebLink'
+};
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+/**
+ * Conversion of Metadata API (mdapi) format files, as found in a retrieve zip, to the source format the CLI writes
+ *
+ * Objects are decomposed into their object file and one file per child, metadata-only files gain the
+ * -meta.xml suffix, and code, bundles and files with a -meta.xml companion are kept as they are.
+ * Static resources keep their .resource content file instead of being expanded.
+ */
+export class MetadataFormatConverter {
+
+    /**
+     * Convert files keyed by forward-slash path relative to the package root (package.xml itself is dropped)
+     * @returns The source-format files keyed by path relative to the source directory
+     */
+    public static toSourceFormat(files: Map<string, Buffer>): Map<string, Buffer> {
+        const converted = new Map<string, Buffer>();
+
+        for (const [relativePath, content] of files) {
+            if (relativePath === 'package.xml' || relativePath.endsWith('/')) {
+                continue;
+            }
+
+            const segments = relativePath.split('/');
+            if (segments[0] === 'objects' && segments.length === 2 && relativePath.endsWith('.object')) {
+                for (const [objectPath, objectContent] of MetadataFormatConverter.decomposeObject(segments[1], content.toString('utf8'))) {
+                    converted.set(objectPath, Buffer.from(objectContent, 'utf8'));
+                }
+                continue;
+            }
+
+            const hasCompanion = relativePath.endsWith('-meta.xml') || files.has(`${relativePath}-meta.xml`);
+            converted.set(hasCompanion ? relativePath : `${relativePath}-meta.xml`, content);
+        }
+
+        return converted;
+    }
+
+    /**
+     * Split an object file into objects/<Object>/<Object>.object-meta.xml and a file per child element
+     */
+    public static decomposeObject(fileName: string, xml: string): Map<string, string> {
+        const objectName = fileName.substring(0, fileName.length - '.object'.length);
+        const objectFolder = `objects/${objectName}`;
+        const document = xml.replace(/^\uFEFF/, '');
+
+        const ranges = new Map<XmlElement, XmlElementRange>();
+        const root = MetadataXmlParser.parse(document, ranges);
+
+        const files = new Map<string, string>();
+        const childRanges: XmlElementRange[] = [];
+        for (const child of root.children) {
+            const suffix = OBJECT_CHILD_SUFFIXES[child.name];
+            const fullName = child.children.find(element => element.name === 'fullName')?.text.trim();
+            const range = ranges.get(child);
+            if (!suffix || !fullName || !range) {
+                continue;
+            }
+
+            const element = document.substring(range.start, range.end);
+            const body = element.substring(element.indexOf('>') + 1, element.lastIndexOf('</'));
+            files.set(
+                `${objectFolder}/${child.name}/${fullName}.${suffix}-meta.xml`,
+                `${XML_DECLARATION}\n<${OBJECT_CHILD_ELEMENTS[child.name]} xmlns="${root.attributes.xmlns || ''}">${MetadataFormatConverter.outdent(body)}</${OBJECT_CHILD_ELEMENTS[child.name]}>\n`
+            );
+            childRanges.push(range);
+        }
+
+        // Drop the children from the object file, together with their indentation and line break
+        let objectXml = document;
+        for (const range of childRanges.reverse()) {
+            const lineStart = objectXml.lastIndexOf('\n', range.start - 1) + 1;
+            const start = objectXml.substring(lineStart, range.start).trim() === '' ? lineStart : range.start;
+            const end = objectXml[range.end] === '\r' ? range.end + 2 : objectXml[range.end] === '\n' ? range.end + 1 : range.end;
+            objectXml = objectXml.substring(0, start) + objectXml.substring(end);
+        }
+        files.set(`${objectFolder}/${objectName}.object-meta.xml`, objectXml.endsWith('\n') ? objectXml : `${objectXml}\n`);
+
+        return files;
+    }
+
+    /**
+     * Remove one level of indentation from the lines of an element body
+     */
+    private static outdent(body: string): string {
+        return body.replace(/\n {4}/g, '\n').replace(/\n\t/g, '\n');
+    }
+}
@@ -0,0 +1,67 @@
+/**
+ * Metadata type definition for manifest generation
+ */
+export interface MetadataType {
+    name: string;
+    displayName: string;
+    description: string;
+    category: string;
+    enabled: boolean;
+    members?: string[];
+}
+
+/**
+ * Predefined metadata types available for selection
+ */
+export const AVAILABLE_METADATA_TYPES: MetadataType[] = [
+    // Apex
+    { name: 'ApexClass', displayName: 'Apex Classes', description: 'Apex class files (.cls)', category: 'Apex', enabled: true },
+    { name: 'ApexTrigger', displayName: 'Apex Triggers', description: 'Apex trigger files (.trigger)', category: 'Apex', enabled: true },
+    { name: 'ApexTestSuite', displayName: 'Apex Test Suites', description: 'Test suite definitions', category: 'Apex', enabled: true },
+    
+    // Lightning Components
+    { name: 'LightningComponentBundle', displayName: 'Lightning Web Components', description: 'LWC bundles', category: 'Components', enabled: true },
+    { name: 'AuraDefinitionBundle', displayName: 'Aura Components', description: 'Aura component bundles', category: 'Components', enabled: true },
+    
+    // Objects and Fields
+    { name: 'CustomObject', displayName: 'Custom Objects', description: 'Custom object definitions', category: 'Objects', enabled: true },
+    { name: 'CustomField', displayName: 'Custom Fields', description: 'Custom field definitions', category: 'Objects', enabled: false },
+    { name: 'CustomMetadata', displayName: 'Custom Metadata Types', description: 'Custom metadata type definitions', category: 'Objects', enabled: false },
+    
+    // Flows and Automation
+    { name: 'Flow', displayName: 'Flows', description: 'Flow definitions', category: 'Automation', enabled: true },
+    { name: 'WorkflowRule', displayName: 'Workflow Rules', description: 'Workflow rule definitions', category: 'Automation', enabled: false },
+    { name: 'ProcessBuilder', displayName: 'Process Builder', description: 'Process builder definitions', category: 'Automation', enabled: false },
+    
+    // User Interface
+    { name: 'Layout', displayName: 'Page Layouts', description: 'Page layout definitions', category: 'UI', enabled: true },
+    { name: 'ListView', displayName: 'List Views', description: 'List view definitions', category: 'UI', enabled: false },
+    { name: 'FlexiPage', displayName: 'Lightning Pages', description: 'Lightning page definitions', category: 'UI', enabled: false },
+    
+    // Security
+    { name: 'PermissionSet', displayName: 'Permission Sets', description: 'Permission set definitions', category: 'Security', enabled: true },
+    { name: 'Profile', displayName: 'Profiles', description: 'Profile definitions', category: 'Security', enabled: false },
+    { name: 'Role', displayName: 'Roles', description: 'Role hierarchy definitions', category: 'Security', enabled: false },
+    
+    // Communication
+    { name: 'EmailTemplate', displayName: 'Email Templates', description: 'Email template definitions', category: 'Communication', enabled: false },
+    { name: 'LetterHead', displayName: 'Letterheads', description: 'Letterhead definitions', category: 'Communication', enabled: false },
+    
+    // Analytics
+    { name: 'Report', displayName: 'Reports', description: 'Report definitions', category: 'Analytics', enabled: false },
+    { name: 'Dashboard', displayName: 'Dashboards', description: 'Dashboard definitions', category: 'Analytics', enabled: false },
+    { name: 'ReportType', displayName: 'Report Types', description: 'Custom report type definitions', category: 'Analytics', enabled: false },
+    
+    // Static Resources
+    { name: 'StaticResource', displayName: 'Static Resources', description: 'Static resource files', category: 'Resources', enabled: false },
+    { name: 'ContentAsset', displayName: 'Content Assets', description: 'Content asset files', category: 'Resources', enabled: false },
+    
+    // Integration
+    { name: 'RemoteSiteSetting', displayName: 'Remote Site Settings', description: 'Remote site setting definitions', category: 'Integration', enabled: false },
+    { name: 'NamedCredential', displayName: 'Named Credentials', description: 'Named credential definitions', category: 'Integration', enabled: false },
+    
+    // Validation and Business Logic
+    { name: 'ValidationRule', displayName: 'Validation Rules', description: 'Validation rule definitions', category: 'Business Logic', enabled: false },
+    { name: 'AssignmentRule', displayName: 'Assignment Rules', description: 'Assignment rule definitions', category: 'Business Logic', enabled: false },
+    { name: 'AutoResponseRule', displayName: 'Auto-Response Rules', description: 'Auto-response rule definitions', category: 'Business Logic', enabled: false }
+];
@@ -0,0 +1,102 @@
+import { MetadataComponentRef } from '../types';
+
+/**
+ * Metadata type entry of a package.xml manifest
+ */
+export interface PackageXmlType {
+    name: string;
+    members: string[];
+}
+
+/**
+ * Builder for package.xml manifests and destructive changes
+ */
+export class PackageXmlBuilder {
+
+    /**
+     * Build a manifest retrieving whole metadata types, or only their listed members
+     * @param customMembers Members to retrieve by type; types without members are retrieved with a wildcard
+     */
+    public static forTypes(typeNames: string[], apiVersion: string, customMembers?: Map<string, string[]>): string {
+        return PackageXmlBuilder.build(
+            typeNames.map(name => {
+                const members = customMembers?.get(name);
+                return { name, members: members && members.length > 0 ? members : ['*'] };
+            }),
+            apiVersion
+        );
+    }
+
+    /**
+     * Build a manifest listing exactly the given components, sorted by type and name
+     */
+    public static forComponents(components: MetadataComponentRef[], apiVersion: string): string {
+        const members = new Map<string, string[]>();
+        for (const component of components) {
+            const typeMembers = members.get(component.type) || [];
+            if (!typeMembers.includes(component.fullName)) {
+                typeMembers.push(component.fullName);
+            }
+            members.set(component.type, typeMembers);
+        }
+
+        const sortedTypes = [...members.keys()].sort((a, b) => a.localeCompare(b));
+        return PackageXmlBuilder.build(
+            sortedTypes.map(type => ({ name: type, members: members.get(type)!.sort((a, b) => a.localeCompare(b)) })),
+            apiVersion
+        );
+    }
+
+    /**
+     * Build package.xml content from metadata types and their members
+     */
+    public static build(types: PackageXmlType[], apiVersion: string): string {
+        const escape = (value: string) => value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;');
+
+        let manifestContent = `<?xml version="1.0" encoding="UTF-8"?>
+<Package xmlns="http://soap.sforce.com/2006/04/metadata">`;
+
+        for (const type of types) {
+            manifestContent += `
+    <types>`;
+
+            for (const member of type.members) {
+                manifestContent += `
+        <members>${escape(member)}</members>`;
+            }
+
+            manifestContent += `
+        <name>${type.name}</name>
+    </types>`;
+        }
+
+        manifestContent += `
+    <version>${apiVersion}</version>
+</Package>`;
+
+        return manifestContent;
+    }
+
+    /**
+     * Read the metadata types and members of package.xml content
+     */
+    public static parse(content: string): PackageXmlType[] {
+        const unescape = (value: string) => value
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&amp;/g, '&');
+
+        const types: PackageXmlType[] = [];
+        for (const [, typeContent] of content.matchAll(/<types>([\s\S]*?)<\/types>/g)) {
+            const name = /<name>([\s\S]*?)<\/name>/.exec(typeContent)?.[1].trim();
+            if (name) {
+                const members = [...typeContent.matchAll(/<members>([\s\S]*?)<\/members>/g)].map(match => unescape(match[1].trim()));
+                types.push({ name, members });
+            }
+        }
+        return types;
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * Output of a Salesforce CLI command run with --json
+ */
+export interface CliCommandResult {
+    stdout: string;
+    stderr: string;
+}
+
+/**
+ * Options of a generic Salesforce CLI command
+ */
+export interface CliExecuteOptions {
+    timeout?: number;
+    cwd?: string;
+    /** Resolve on a non-zero exit code, for --json commands reporting failures in their output */
+    ignoreExitCode?: boolean;
+}
+
+/**
+ * Options of a deployment or check-only validation
+ */
+export interface CliDeployOptions {
+    dryRun: boolean;
+    testLevel?: string;
+}
+
+/**
+ * File entry of the "sf project retrieve start --json" result
+ */
+export interface RetrievedFile {
+    fullName: string;
+    type: string;
+    filePath?: string;
+    state?: string;
+}
+
+/**
+ * Access to Salesforce orgs, i.e. everything the extension and the command line ask the Salesforce CLI for
+ * Command results hold the JSON output of the corresponding "sf ... --json" command
+ */
+export interface SalesforceCliAdapter {
+    /** Short name of the backend shown in logs, e.g. "sf" or "fixture" */
+    readonly name: string;
+
+    /**
+     * Fail when the backend cannot be used, e.g. because the CLI is not installed
+     */
+    ensureAvailable(): Promise<void>;
+
+    /**
+     * sf org list
+     */
+    listOrgs(): Promise<CliCommandResult>;
+
+    /**
+     * sf org list metadata --metadata-type <type>
+     */
+    listMetadata(metadataType: string, orgIdentifier: string): Promise<CliCommandResult>;
+
+    /**
+     * sf data query, optionally against the Tooling API
+     */
+    query(soqlQuery: string, orgIdentifier: string, useToolingApi?: boolean): Promise<CliCommandResult>;
+
+    /**
+     * sf sobject describe --sobject <type>
+     */
+    describeSObject(sobjectType: string, orgIdentifier: string): Promise<CliCommandResult>;
+
+    /**
+     * sf project retrieve start --manifest <path>, retrieving into the SFDX project at projectDir
+     * @returns The retrieved files
+     */
+    retrieve(orgIdentifier: string, manifestPath: string, projectDir: string, timeout?: number): Promise<RetrievedFile[]>;
+
+    /**
+     * sf project deploy start --manifest <path>, resolving for failed deployments too as their output lists the failures
+     */
+    deploy(manifestPath: string, orgIdentifier: string, projectDir: string, options: CliDeployOptions): Promise<CliCommandResult>;
+
+    /**
+     * Any other read-only sf command, given without the leading "sf"
+     */
+    execute(args: string[], options?: CliExecuteOptions): Promise<CliCommandResult>;
+}
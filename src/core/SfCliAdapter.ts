@@ -0,0 +1,108 @@
+import * as path from 'path';
+import { SF_CONFIG } from '../config/Constants';
+import { SecureCommandExecutor } from '../security/SecureCommandExecutor';
+import { CliCommandResult, CliDeployOptions, CliExecuteOptions, RetrievedFile, SalesforceCliAdapter } from './SalesforceCliAdapter';
+
+/**
+ * Adapter running the installed Salesforce CLI, with every command checked by {@link SecureCommandExecutor}
+ */
+export class SfCliAdapter implements SalesforceCliAdapter {
+    public readonly name = 'sf';
+    private cliCommand: string | null = null;
+
+    public async ensureAvailable(): Promise<void> {
+        await this.ensureCLIAvailable();
+    }
+
+    public async listOrgs(): Promise<CliCommandResult> {
+        return SecureCommandExecutor.executeOrgList();
+    }
+
+    public async listMetadata(metadataType: string, orgIdentifier: string): Promise<CliCommandResult> {
+        return SecureCommandExecutor.executeOrgListMetadata(metadataType, orgIdentifier);
+    }
+
+    public async query(soqlQuery: string, orgIdentifier: string, useToolingApi: boolean = false): Promise<CliCommandResult> {
+        return SecureCommandExecutor.executeDataQuery(soqlQuery, orgIdentifier, useToolingApi);
+    }
+
+    public async describeSObject(sobjectType: string, orgIdentifier: string): Promise<CliCommandResult> {
+        return SecureCommandExecutor.executeSObjectDescribe(sobjectType, orgIdentifier);
+    }
+
+    public async deploy(manifestPath: string, orgIdentifier: string, projectDir: string, options: CliDeployOptions): Promise<CliCommandResult> {
+        return SecureCommandExecutor.executeProjectDeploy(manifestPath, orgIdentifier, projectDir, options);
+    }
+
+    public async execute(args: string[], options: CliExecuteOptions = {}): Promise<CliCommandResult> {
+        return SecureCommandExecutor.executeCommand('sf', args, options);
+    }
+
+    /**
+     * Ensure Salesforce CLI is available
+     * @returns The detected command, "sf" or "sfdx"
+     */
+    private async ensureCLIAvailable(): Promise<string> {
+        if (this.cliCommand) {
+            return this.cliCommand; // Already detected
+        }
+
+        const possibleCommands = ['sf', 'sfdx'];
+
+        for (const cmd of possibleCommands) {
+            if (await SecureCommandExecutor.checkCliAvailable(cmd)) {
+                this.cliCommand = cmd;
+                console.log(`Found CLI command: ${cmd}`);
+                return cmd;
+            }
+        }
+
+        throw new Error('Salesforce CLI not found. Please install SF CLI or ensure it is in your PATH.');
+    }
+
+    /**
+     * Execute SFDX source retrieval using manifest
+     * @param orgIdentifier Alias or username of the org
+     * @param projectDir SFDX project directory the source is retrieved into
+     * @param timeout Milliseconds after which the retrieval is aborted
+     * @returns The retrieved files reported by the CLI
+     */
+    public async retrieve(orgIdentifier: string, manifestPath: string, projectDir: string, timeout: number = SF_CONFIG.TIMEOUTS.CLI_COMMAND): Promise<RetrievedFile[]> {
+        await this.ensureCLIAvailable();
+
+        // The manifest is passed relative to the project, temp directories like /var/folders on macOS fail the path validation
+        const relativeManifestPath = path.relative(projectDir, manifestPath);
+        console.log(`Retrieving ${relativeManifestPath} from ${orgIdentifier} into ${projectDir}`);
+
+        let stdout: string;
+        try {
+            ({ stdout } = await SecureCommandExecutor.executeProjectRetrieve(relativeManifestPath, orgIdentifier, projectDir, timeout));
+        } catch (error: any) {
+            console.error(`Source retrieval failed for ${orgIdentifier}:`, error);
+            throw new Error(`SFDX source retrieval failed: ${error.message}`);
+        }
+
+        console.log(`Source retrieval successful for ${orgIdentifier}`);
+        let files: RetrievedFile[] = [];
+
+        // Parse and log the JSON response for debugging
+        try {
+            if (stdout.trim()) {
+                const response = JSON.parse(stdout);
+                console.log(`📊 SFDX Response Status: ${response.status}`);
+                if (Array.isArray(response.result?.files)) {
+                    files = response.result.files;
+                    console.log(`📦 Retrieved files count: ${files.length}`);
+                    if (files.length > 0) {
+                        console.log(`📄 Retrieved files:`, files.map(f => f.fullName).join(', '));
+                    }
+                }
+            }
+        } catch (parseError) {
+            console.warn('Could not parse SFDX JSON response:', parseError);
+            console.log(`Raw STDOUT: ${stdout.substring(0, 500)}...`);
+        }
+
+        return files;
+    }
+}
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Parsed subset of sfdx-project.json used to locate package directories
+ */
+export interface SfdxProjectConfig {
+    name?: string;
+    packageDirectories?: { path: string; default?: boolean }[];
+    namespace?: string;
+    sourceApiVersion?: string;
+}
+
+/**
+ * Helpers for SFDX project directories on disk
+ */
+export class SfdxProject {
+    /** Project definition file at the root of every SFDX project */
+    public static readonly CONFIG_FILE = 'sfdx-project.json';
+
+    /**
+     * Check whether a directory is the root of an SFDX project
+     */
+    public static isProject(directory: string): boolean {
+        return fs.existsSync(path.join(directory, SfdxProject.CONFIG_FILE));
+    }
+
+    /**
+     * Read and parse sfdx-project.json
+     */
+    public static readConfig(projectRoot: string): SfdxProjectConfig | undefined {
+        try {
+            const content = fs.readFileSync(path.join(projectRoot, SfdxProject.CONFIG_FILE), 'utf8');
+            return JSON.parse(content) as SfdxProjectConfig;
+        } catch (error) {
+            console.warn(`Failed to read ${SfdxProject.CONFIG_FILE}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Get absolute paths of all package directories declared in sfdx-project.json
+     */
+    public static getPackageDirectories(projectRoot: string): string[] {
+        const config = SfdxProject.readConfig(projectRoot);
+        const packageDirectories = config?.packageDirectories?.length
+            ? config.packageDirectories
+            : [{ path: 'force-app' }];
+
+        return packageDirectories
+            .map(packageDirectory => path.resolve(projectRoot, packageDirectory.path))
+            .filter(directory => fs.existsSync(directory));
+    }
+
+    /**
+     * Get the metadata source roots - the main/default folder when present, the package directory otherwise
+     */
+    public static getSourceRoots(projectRoot: string): string[] {
+        return SfdxProject.getPackageDirectories(projectRoot).map(packageDirectory => {
+            const defaultDirectory = path.join(packageDirectory, 'main', 'default');
+            return fs.existsSync(defaultDirectory) ? defaultDirectory : packageDirectory;
+        });
+    }
+
+    /**
+     * Get the source directory of a project created by {@link SfdxProject.create}
+     */
+    public static getDefaultSourceDirectory(projectRoot: string): string {
+        return path.join(projectRoot, 'force-app', 'main', 'default');
+    }
+
+    /**
+     * Create a minimal project with a force-app package directory, keeping an existing sfdx-project.json
+     * @returns The default source directory
+     */
+    public static async create(projectRoot: string, apiVersion: string): Promise<string> {
+        const projectConfigPath = path.join(projectRoot, SfdxProject.CONFIG_FILE);
+        if (!fs.existsSync(projectConfigPath)) {
+            const projectConfig: SfdxProjectConfig = {
+                packageDirectories: [
+                    {
+                        path: 'force-app',
+                        default: true
+                    }
+                ],
+                namespace: '',
+                sourceApiVersion: apiVersion
+            };
+            await fs.promises.writeFile(projectConfigPath, JSON.stringify(projectConfig, null, 2), 'utf8');
+            console.log(`Created ${SfdxProject.CONFIG_FILE} at: ${projectConfigPath}`);
+        }
+
+        const sourceDirectory = SfdxProject.getDefaultSourceDirectory(projectRoot);
+        if (!fs.existsSync(sourceDirectory)) {
+            fs.mkdirSync(sourceDirectory, { recursive: true });
+        }
+        return sourceDirectory;
+    }
+}
@@ -0,0 +1,145 @@
+import { MetadataComponentRef } from '../types';
+import { SalesforceCliAdapter } from './SalesforceCliAdapter';
+import { SfCliAdapter } from './SfCliAdapter';
+
+/** File name of each Aura definition type, given the bundle name */
+const AURA_DEFINITION_FILES: Record<string, (bundleName: string) => string> = {
+    APPLICATION: name => `${name}.app`,
+    COMPONENT: name => `${name}.cmp`,
+    CONTROLLER: name => `${name}Controller.js`,
+    DESIGN: name => `${name}.design`,
+    DOCUMENTATION: name => `${name}.auradoc`,
+    EVENT: name => `${name}.evt`,
+    HELPER: name => `${name}Helper.js`,
+    INTERFACE: name => `${name}.intf`,
+    RENDERER: name => `${name}Renderer.js`,
+    STYLE: name => `${name}.css`,
+    SVG: name => `${name}.svg`,
+    TOKENS: name => `${name}.tokens`
+};
+
+/** Tooling API object and name field listing the components of each supported type */
+const COMPONENT_OBJECTS: Record<string, { object: string; nameField: string }> = {
+    ApexClass: { object: 'ApexClass', nameField: 'Name' },
+    ApexTrigger: { object: 'ApexTrigger', nameField: 'Name' },
+    LightningComponentBundle: { object: 'LightningComponentBundle', nameField: 'DeveloperName' },
+    AuraDefinitionBundle: { object: 'AuraDefinitionBundle', nameField: 'DeveloperName' }
+};
+
+/**
+ * Fetches the source of single Apex, LWC and Aura components through Tooling API queries
+ *
+ * This avoids a manifest retrieve when only a few components are needed, e.g. to diff a file of an org
+ * that was never refreshed. Only code is returned: Apex -meta.xml files are not part of the Tooling records.
+ */
+export class ToolingSourceFetcher {
+    public static readonly SUPPORTED_TYPES = Object.keys(COMPONENT_OBJECTS);
+
+    constructor(private cliAdapter: SalesforceCliAdapter = new SfCliAdapter()) {}
+
+    /**
+     * Check whether components of a metadata type can be fetched through the Tooling API
+     */
+    public static supports(metadataType: string): boolean {
+        return metadataType in COMPONENT_OBJECTS;
+    }
+
+    /**
+     * List the names of the unmanaged components of a type
+     */
+    public async listComponents(metadataType: string, orgIdentifier: string): Promise<string[]> {
+        const componentObject = COMPONENT_OBJECTS[metadataType];
+        if (!componentObject) {
+            throw new Error(`${metadataType} cannot be fetched through the Tooling API`);
+        }
+
+        const { object, nameField } = componentObject;
+        const records = await this.query(
+            `SELECT ${nameField} FROM ${object} WHERE NamespacePrefix = null ORDER BY ${nameField}`,
+            orgIdentifier
+        );
+        return records.map(record => record[nameField]);
+    }
+
+    /**
+     * Fetch the files of a component
+     * @returns File contents keyed by forward-slash path relative to the source directory, e.g. classes/Invoice.cls
+     */
+    public async fetchComponent(orgIdentifier: string, component: MetadataComponentRef): Promise<Map<string, string>> {
+        if (!ToolingSourceFetcher.supports(component.type)) {
+            throw new Error(`${component.type} cannot be fetched through the Tooling API`);
+        }
+        // Names are interpolated into the query, so only API names are accepted
+        if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(component.fullName)) {
+            throw new Error(`Invalid ${component.type} name: ${component.fullName}`);
+        }
+
+        const files = new Map<string, string>();
+        const name = component.fullName;
+        switch (component.type) {
+            case 'ApexClass':
+            case 'ApexTrigger': {
+                const records = await this.query(
+                    `SELECT Name, Body FROM ${component.type} WHERE Name = '${name}' AND NamespacePrefix = null`,
+                    orgIdentifier
+                );
+                if (records.length > 0) {
+                    const folder = component.type === 'ApexClass' ? 'classes' : 'triggers';
+                    const extension = component.type === 'ApexClass' ? 'cls' : 'trigger';
+                    files.set(`${folder}/${name}.${extension}`, records[0].Body || '');
+                }
+                break;
+            }
+
+            case 'LightningComponentBundle': {
+                const records = await this.query(
+                    `SELECT FilePath, Source FROM LightningComponentResource WHERE LightningComponentBundle.DeveloperName = '${name}' AND LightningComponentBundle.NamespacePrefix = null`,
+                    orgIdentifier
+                );
+                const bundlePrefix = `lwc/${name}/`;
+                for (const record of records) {
+                    // FilePath is relative to the package directory, e.g. lwc/orderList/orderList.js or
+                    // lwc/orderList/__tests__/orderList.test.js, so subfolders of the bundle are kept
+                    const filePath = String(record.FilePath || '');
+                    const bundlePath = filePath.startsWith(bundlePrefix) ? filePath.substring(bundlePrefix.length) : filePath.split('/').pop();
+                    if (bundlePath && !bundlePath.split('/').includes('..')) {
+                        files.set(`${bundlePrefix}${bundlePath}`, record.Source || '');
+                    }
+                }
+                break;
+            }
+
+            case 'AuraDefinitionBundle': {
+                const records = await this.query(
+                    `SELECT DefType, Source FROM AuraDefinition WHERE AuraDefinitionBundle.DeveloperName = '${name}' AND AuraDefinitionBundle.NamespacePrefix = null`,
+                    orgIdentifier
+                );
+                for (const record of records) {
+                    const toFileName = AURA_DEFINITION_FILES[record.DefType];
+                    const fileName = toFileName ? toFileName(name) : `${name}.${String(record.DefType).toLowerCase()}`;
+                    files.set(`aura/${name}/${fileName}`, record.Source || '');
+                }
+                break;
+            }
+        }
+
+        if (files.size === 0) {
+            throw new Error(`${component.type} ${name} was not found in ${orgIdentifier}`);
+        }
+
+        return files;
+    }
+
+    /**
+     * Run a Tooling API query and return its records
+     */
+    private async query(soqlQuery: string, orgIdentifier: string): Promise<any[]> {
+        const { stdout } = await this.cliAdapter.query(soqlQuery, orgIdentifier, true);
+        const response = JSON.parse(stdout);
+        if (response.status !== 0) {
+            throw new Error(response.message || `Tooling API query failed on ${orgIdentifier}`);
+        }
+
+        return response.result?.records || [];
+    }
+}
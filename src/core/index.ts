@@ -0,0 +1,25 @@
+/**
+ * Comparison core shared by the VS Code extension and the command-line entry point
+ *
+ * Nothing exported here may depend on the vscode module.
+ */
+
+export { AVAILABLE_METADATA_TYPES } from './MetadataTypes';
+export { PackageXmlBuilder } from './PackageXmlBuilder';
+export { SfdxProject } from './SfdxProject';
+export { SfCliAdapter } from './SfCliAdapter';
+export { FixtureCliAdapter } from './FixtureCliAdapter';
+export { MetadataApiRetriever } from './MetadataApiRetriever';
+export { MetadataFormatConverter } from './MetadataFormatConverter';
+export { ToolingSourceFetcher } from './ToolingSourceFetcher';
+export { HeadlessComparisonService } from './HeadlessComparisonService';
+export { OrgComparisonService } from '../services/OrgComparisonService';
+export { ComparisonExportService } from '../services/ComparisonExportService';
+
+// Re-export types for convenience
+export type { MetadataType } from './MetadataTypes';
+export type { PackageXmlType } from './PackageXmlBuilder';
+export type { SfdxProjectConfig } from './SfdxProject';
+export type { SalesforceCliAdapter, CliCommandResult, CliExecuteOptions, CliDeployOptions, RetrievedFile } from './SalesforceCliAdapter';
+export type { MetadataApiConnection, MetadataApiFileProperties } from './MetadataApiRetriever';
+export type { HeadlessComparisonOptions } from './HeadlessComparisonService';
@@ -225,12 +225,36 @@ export const ServiceTokens = {
     MANIFEST_CONFIGURATION_WEBVIEW: 'ManifestConfigurationWebview',
     USER_PREFERENCES_WEBVIEW: 'UserPreferencesWebview',
     ORG_CACHE_SERVICE: 'OrgCacheService',
+    ORG_SNAPSHOT_SERVICE: 'OrgSnapshotService',
+    CONTENT_NORMALIZER: 'ContentNormalizer',
+    ORG_COMPARISON_SERVICE: 'OrgComparisonService',
+    ORG_COMPARISON_PROVIDER: 'OrgComparisonProvider',
+    REFERENCE_DECORATION_PROVIDER: 'ReferenceDecorationProvider',
+    LOCAL_PROJECT_SERVICE: 'LocalProjectService',
+    COMPONENT_MATRIX_SERVICE: 'ComponentMatrixService',
+    BUNDLE_COMPARISON_SERVICE: 'BundleComparisonService',
+    COMPONENT_MATRIX_WEBVIEW: 'ComponentMatrixWebview',
+    SEMANTIC_XML_DIFF_SERVICE: 'SemanticXmlDiffService',
+    SEMANTIC_DIFF_WEBVIEW: 'SemanticDiffWebview',
+    PERMISSION_COMPARISON_SERVICE: 'PermissionComparisonService',
+    PERMISSION_COMPARISON_WEBVIEW: 'PermissionComparisonWebview',
+    FLOW_COMPARISON_SERVICE: 'FlowComparisonService',
+    FLOW_COMPARISON_WEBVIEW: 'FlowComparisonWebview',
+    OBJECT_COMPARISON_SERVICE: 'ObjectComparisonService',
+    OBJECT_COMPARISON_WEBVIEW: 'ObjectComparisonWebview',
+    HUNK_MERGE_WEBVIEW: 'HunkMergeWebview',
+    TEXT_DIFF_SERVICE: 'TextDiffService',
+    COMPARISON_EXPORT_SERVICE: 'ComparisonExportService',
+    DEPLOYMENT_SERVICE: 'DeploymentService',
+    COMPARISON_DEPLOYMENT_SERVICE: 'ComparisonDeploymentService',
+    SCHEDULED_REFRESH_SERVICE: 'ScheduledRefreshService',
     
     // Configuration services
     CONFIGURATION_MANAGER: 'ConfigurationManager',
     
     // Security services
     SECURE_COMMAND_EXECUTOR: 'SecureCommandExecutor',
+    SALESFORCE_CLI_ADAPTER: 'SalesforceCliAdapter',
     
     // Error handling
     ERROR_HANDLER: 'ErrorHandler',
@@ -6,10 +6,36 @@ import { SfOrgCompareProvider } from '../providers/SfOrgCompareProvider';
 import { SourceRetrievalService } from '../services/SourceRetrievalService';
 import { ManifestManager } from '../services/ManifestManager';
 import { OrgCacheService } from '../services/OrgCacheService';
+import { OrgSnapshotService } from '../services/OrgSnapshotService';
+import { OrgComparisonService } from '../services/OrgComparisonService';
+import { ContentNormalizer } from '../services/ContentNormalizer';
+import { OrgComparisonProvider } from '../providers/OrgComparisonProvider';
+import { ReferenceDecorationProvider } from '../providers/ReferenceDecorationProvider';
+import { LocalProjectService } from '../services/LocalProjectService';
+import { ComponentMatrixService } from '../services/ComponentMatrixService';
+import { BundleComparisonService } from '../services/BundleComparisonService';
+import { SemanticXmlDiffService } from '../services/SemanticXmlDiffService';
+import { PermissionComparisonService } from '../services/PermissionComparisonService';
+import { FlowComparisonService } from '../services/FlowComparisonService';
+import { ObjectComparisonService } from '../services/ObjectComparisonService';
+import { TextDiffService } from '../services/TextDiffService';
+import { ComparisonExportService } from '../services/ComparisonExportService';
+import { DeploymentService } from '../services/DeploymentService';
+import { ComparisonDeploymentService } from '../services/ComparisonDeploymentService';
+import { ScheduledRefreshService } from '../services/ScheduledRefreshService';
 import { ManifestConfigurationWebview } from '../webview/ManifestConfigurationWebview';
 import { UserPreferencesWebview } from '../webview/UserPreferencesWebview';
+import { ComponentMatrixWebview } from '../webview/ComponentMatrixWebview';
+import { SemanticDiffWebview } from '../webview/SemanticDiffWebview';
+import { PermissionComparisonWebview } from '../webview/PermissionComparisonWebview';
+import { FlowComparisonWebview } from '../webview/FlowComparisonWebview';
+import { ObjectComparisonWebview } from '../webview/ObjectComparisonWebview';
+import { HunkMergeWebview } from '../webview/HunkMergeWebview';
 import { ConfigurationManager } from '../config/ConfigurationManager';
 import { SecureCommandExecutor } from '../security/SecureCommandExecutor';
+import { SalesforceCliAdapter } from '../core/SalesforceCliAdapter';
+import { SfCliAdapter } from '../core/SfCliAdapter';
+import { FixtureCliAdapter } from '../core/FixtureCliAdapter';
 import { ErrorHandler } from '../errors/ErrorHandler';
 import { UserErrorReporter } from '../errors/UserErrorReporter';
 import { MetadataRegistry } from '../metadata/MetadataRegistry';
@@ -48,6 +74,17 @@ export function registerServices(container: Container): void {
         ServiceLifetime.Singleton
     );
 
+    // Org access, through the Salesforce CLI or replayed fixtures (singleton)
+    container.registerFactory<SalesforceCliAdapter>(
+        ServiceTokens.SALESFORCE_CLI_ADAPTER,
+        (configurationManager: ConfigurationManager) => {
+            const { backend, fixtureDirectory } = configurationManager.getCliBackend();
+            return backend === 'fixture' ? new FixtureCliAdapter(fixtureDirectory) : new SfCliAdapter();
+        },
+        ServiceLifetime.Singleton,
+        [ServiceTokens.CONFIGURATION_MANAGER]
+    );
+
     // Metadata services (singletons)
     container.registerFactory(
         ServiceTokens.METADATA_REGISTRY,
@@ -86,28 +123,121 @@ export function registerServices(container: Container): void {
         ServiceTokens.SOURCE_RETRIEVAL_SERVICE,
         SourceRetrievalService,
         ServiceLifetime.Singleton,
-        [ServiceTokens.MANIFEST_MANAGER]
+        [ServiceTokens.MANIFEST_MANAGER, ServiceTokens.SALESFORCE_CLI_ADAPTER]
     );
 
     container.register(
         ServiceTokens.ORG_CACHE_SERVICE,
         OrgCacheService,
         ServiceLifetime.Singleton,
+        [ServiceTokens.EXTENSION_CONTEXT, ServiceTokens.CONTENT_NORMALIZER]
+    );
+
+    container.register(
+        ServiceTokens.ORG_SNAPSHOT_SERVICE,
+        OrgSnapshotService,
+        ServiceLifetime.Singleton,
         [ServiceTokens.EXTENSION_CONTEXT]
     );
 
+    container.registerFactory(
+        ServiceTokens.CONTENT_NORMALIZER,
+        (configurationManager: ConfigurationManager) => new ContentNormalizer(() => configurationManager.getIgnoreRules()),
+        ServiceLifetime.Singleton,
+        [ServiceTokens.CONFIGURATION_MANAGER]
+    );
+
+    container.register(
+        ServiceTokens.ORG_COMPARISON_SERVICE,
+        OrgComparisonService,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.CONTENT_NORMALIZER]
+    );
+
+    container.register(
+        ServiceTokens.BUNDLE_COMPARISON_SERVICE,
+        BundleComparisonService,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.ORG_COMPARISON_SERVICE]
+    );
+
+    container.register(
+        ServiceTokens.LOCAL_PROJECT_SERVICE,
+        LocalProjectService,
+        ServiceLifetime.Singleton
+    );
+
+    container.register(
+        ServiceTokens.COMPONENT_MATRIX_SERVICE,
+        ComponentMatrixService,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.ORG_COMPARISON_SERVICE]
+    );
+
+    container.register(
+        ServiceTokens.SEMANTIC_XML_DIFF_SERVICE,
+        SemanticXmlDiffService,
+        ServiceLifetime.Singleton
+    );
+
+    container.register(
+        ServiceTokens.PERMISSION_COMPARISON_SERVICE,
+        PermissionComparisonService,
+        ServiceLifetime.Singleton
+    );
+
+    container.register(
+        ServiceTokens.FLOW_COMPARISON_SERVICE,
+        FlowComparisonService,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.SEMANTIC_XML_DIFF_SERVICE]
+    );
+
+    container.register(
+        ServiceTokens.OBJECT_COMPARISON_SERVICE,
+        ObjectComparisonService,
+        ServiceLifetime.Singleton
+    );
+
+    container.register(
+        ServiceTokens.TEXT_DIFF_SERVICE,
+        TextDiffService,
+        ServiceLifetime.Singleton
+    );
+
+    container.register(
+        ServiceTokens.COMPARISON_EXPORT_SERVICE,
+        ComparisonExportService,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.TEXT_DIFF_SERVICE]
+    );
+
     container.register(
         ServiceTokens.ENHANCED_ORG_MANAGER,
         EnhancedOrgManager,
         ServiceLifetime.Singleton,
-        [ServiceTokens.EXTENSION_CONTEXT]
+        [ServiceTokens.EXTENSION_CONTEXT, ServiceTokens.SALESFORCE_CLI_ADAPTER]
+    );
+
+    container.register(
+        ServiceTokens.DEPLOYMENT_SERVICE,
+        DeploymentService,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.ENHANCED_ORG_MANAGER, ServiceTokens.MANIFEST_MANAGER, ServiceTokens.SALESFORCE_CLI_ADAPTER]
+    );
+
+    container.register(
+        ServiceTokens.COMPARISON_DEPLOYMENT_SERVICE,
+        ComparisonDeploymentService,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.MANIFEST_MANAGER, ServiceTokens.ORG_COMPARISON_SERVICE, ServiceTokens.DEPLOYMENT_SERVICE, ServiceTokens.USER_ERROR_REPORTER]
     );
 
     container.register(
         ServiceTokens.FILE_COMPARE_SERVICE,
         FileCompareService,
         ServiceLifetime.Singleton,
-        [ServiceTokens.ENHANCED_ORG_MANAGER]
+        [ServiceTokens.ENHANCED_ORG_MANAGER, ServiceTokens.CONTENT_NORMALIZER]
     );
 
     // UI services (scoped to extension lifetime)
@@ -115,7 +245,28 @@ export function registerServices(container: Container): void {
         ServiceTokens.SF_ORG_COMPARE_PROVIDER,
         SfOrgCompareProvider,
         ServiceLifetime.Singleton,
-        [ServiceTokens.ENHANCED_ORG_MANAGER, ServiceTokens.FILE_COMPARE_SERVICE, ServiceTokens.ORG_CACHE_SERVICE]
+        [ServiceTokens.ENHANCED_ORG_MANAGER, ServiceTokens.FILE_COMPARE_SERVICE, ServiceTokens.ORG_CACHE_SERVICE, ServiceTokens.LOCAL_PROJECT_SERVICE, ServiceTokens.ORG_SNAPSHOT_SERVICE, ServiceTokens.BUNDLE_COMPARISON_SERVICE]
+    );
+
+    container.register(
+        ServiceTokens.ORG_COMPARISON_PROVIDER,
+        OrgComparisonProvider,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.ENHANCED_ORG_MANAGER, ServiceTokens.ORG_COMPARISON_SERVICE, ServiceTokens.LOCAL_PROJECT_SERVICE, ServiceTokens.ORG_SNAPSHOT_SERVICE, ServiceTokens.ORG_CACHE_SERVICE]
+    );
+
+    container.register(
+        ServiceTokens.REFERENCE_DECORATION_PROVIDER,
+        ReferenceDecorationProvider,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.ORG_CACHE_SERVICE, ServiceTokens.ENHANCED_ORG_MANAGER]
+    );
+
+    container.register(
+        ServiceTokens.SCHEDULED_REFRESH_SERVICE,
+        ScheduledRefreshService,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.ENHANCED_ORG_MANAGER, ServiceTokens.SF_ORG_COMPARE_PROVIDER, ServiceTokens.ORG_SNAPSHOT_SERVICE]
     );
 
     // Webview services
@@ -126,6 +277,48 @@ export function registerServices(container: Container): void {
         [ServiceTokens.EXTENSION_CONTEXT, ServiceTokens.MANIFEST_MANAGER, ServiceTokens.ENHANCED_ORG_MANAGER]
     );
 
+    container.register(
+        ServiceTokens.COMPONENT_MATRIX_WEBVIEW,
+        ComponentMatrixWebview,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.EXTENSION_CONTEXT, ServiceTokens.ENHANCED_ORG_MANAGER, ServiceTokens.COMPONENT_MATRIX_SERVICE, ServiceTokens.LOCAL_PROJECT_SERVICE]
+    );
+
+    container.register(
+        ServiceTokens.SEMANTIC_DIFF_WEBVIEW,
+        SemanticDiffWebview,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.EXTENSION_CONTEXT, ServiceTokens.SEMANTIC_XML_DIFF_SERVICE]
+    );
+
+    container.register(
+        ServiceTokens.PERMISSION_COMPARISON_WEBVIEW,
+        PermissionComparisonWebview,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.EXTENSION_CONTEXT, ServiceTokens.PERMISSION_COMPARISON_SERVICE]
+    );
+
+    container.register(
+        ServiceTokens.FLOW_COMPARISON_WEBVIEW,
+        FlowComparisonWebview,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.EXTENSION_CONTEXT, ServiceTokens.FLOW_COMPARISON_SERVICE]
+    );
+
+    container.register(
+        ServiceTokens.OBJECT_COMPARISON_WEBVIEW,
+        ObjectComparisonWebview,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.EXTENSION_CONTEXT, ServiceTokens.ENHANCED_ORG_MANAGER, ServiceTokens.OBJECT_COMPARISON_SERVICE]
+    );
+
+    container.register(
+        ServiceTokens.HUNK_MERGE_WEBVIEW,
+        HunkMergeWebview,
+        ServiceLifetime.Singleton,
+        [ServiceTokens.EXTENSION_CONTEXT, ServiceTokens.TEXT_DIFF_SERVICE]
+    );
+
     container.register(
         ServiceTokens.USER_PREFERENCES_WEBVIEW,
         UserPreferencesWebview,
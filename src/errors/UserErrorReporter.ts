@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { ErrorHandler, ErrorType, ErrorSeverity, StandardError } from './ErrorHandler';
+import { DeploymentResult } from '../types';
 
 /**
  * User-friendly error messages with context and suggestions
@@ -165,6 +166,49 @@ export class UserErrorReporter {
         await this.showUserMessage(userMessage, standardError);
     }
 
+    /**
+     * Report a failed validation or deployment with its component and test failures
+     */
+    public async reportDeploymentFailure(targetLabel: string, result: DeploymentResult): Promise<void> {
+        const operation = result.checkOnly ? 'Validation' : 'Deployment';
+        const standardError = this.errorHandler.createError(
+            ErrorType.CLI_COMMAND,
+            `${operation} to ${targetLabel} failed`,
+            {
+                severity: ErrorSeverity.HIGH,
+                context: { targetLabel, deploymentId: result.id, status: result.status }
+            }
+        );
+
+        const failures = [
+            ...result.componentFailures.map(failure =>
+                `${failure.type} ${failure.fullName}${failure.lineNumber ? ` (line ${failure.lineNumber})` : ''}: ${failure.problem}`
+            ),
+            ...result.testFailures.map(failure => `Test ${failure.name}.${failure.methodName}: ${failure.message}`)
+        ];
+
+        const userMessage: UserErrorMessage = {
+            title: `${operation} Failed`,
+            description: result.errorMessage
+                ? `${operation} to ${targetLabel} could not be started: ${result.errorMessage}`
+                : `${operation} to ${targetLabel} failed with ${result.componentFailures.length} component errors and ${result.testFailures.length} test failures.`,
+            suggestions: [
+                'Fix the reported errors in the source organization or local project',
+                'Include missing dependencies in the deployment',
+                'Check that the target organization is authenticated'
+            ],
+            actions: [],
+            details: [
+                result.id ? `Deployment ID: ${result.id}` : undefined,
+                `Status: ${result.status}`,
+                ...failures
+            ].filter(line => line !== undefined).join('\n'),
+            learnMore: 'https://developer.salesforce.com/docs/atlas.en-us.sfdx_cli_reference.meta/sfdx_cli_reference/cli_reference_project_commands_unified.htm'
+        };
+
+        await this.showUserMessage(userMessage, standardError);
+    }
+
     /**
      * Report network-related errors with connectivity guidance
      */
@@ -5,8 +5,25 @@ import { EnhancedOrgManager } from './metadata/EnhancedOrgManager';
 import { FileCompareService } from './services/FileCompareService';
 import { ManifestConfigurationWebview } from './webview/ManifestConfigurationWebview';
 import { UserPreferencesWebview } from './webview/UserPreferencesWebview';
+import { ComponentMatrixWebview } from './webview/ComponentMatrixWebview';
+import { SemanticDiffWebview } from './webview/SemanticDiffWebview';
+import { PermissionComparisonWebview } from './webview/PermissionComparisonWebview';
+import { FlowComparisonWebview } from './webview/FlowComparisonWebview';
+import { ObjectComparisonWebview } from './webview/ObjectComparisonWebview';
+import { HunkMergeWebview } from './webview/HunkMergeWebview';
+import { ComparisonExportService, EXPORT_FILE_EXTENSIONS } from './services/ComparisonExportService';
+import { ManifestManager } from './services/ManifestManager';
+import { ComparisonFilePair, ComparisonReport, ExportFormat, OrgSnapshot, RetrievalEngine, SalesforceOrg } from './types';
 import { FileSearchService } from './search/FileSearchService';
 import { UserErrorReporter } from './errors/UserErrorReporter';
+import { OrgComparisonProvider, ComparisonTreeNode } from './providers/OrgComparisonProvider';
+import { ReferenceDecorationProvider } from './providers/ReferenceDecorationProvider';
+import { LocalProjectService } from './services/LocalProjectService';
+import { ComparisonDeploymentService } from './services/ComparisonDeploymentService';
+import { OrgSnapshotService } from './services/OrgSnapshotService';
+import { ScheduledRefreshService } from './services/ScheduledRefreshService';
+import { ToolingSourceFetcher } from './core/ToolingSourceFetcher';
+import { EXTENSION_CONFIG_KEYS } from './config';
 
 // Store DI container and service instances for cleanup
 let container: Container;
@@ -15,8 +32,20 @@ let fileCompareService: FileCompareService;
 let enhancedOrgManager: EnhancedOrgManager;
 let manifestConfigWebview: ManifestConfigurationWebview;
 let userPreferencesWebview: UserPreferencesWebview;
+let componentMatrixWebview: ComponentMatrixWebview;
+let semanticDiffWebview: SemanticDiffWebview;
+let permissionComparisonWebview: PermissionComparisonWebview;
+let flowComparisonWebview: FlowComparisonWebview;
+let objectComparisonWebview: ObjectComparisonWebview;
+let hunkMergeWebview: HunkMergeWebview;
 let fileSearchService: FileSearchService;
 let userErrorReporter: UserErrorReporter;
+let orgComparisonProvider: OrgComparisonProvider;
+let comparisonExportService: ComparisonExportService;
+let manifestManager: ManifestManager;
+let comparisonDeploymentService: ComparisonDeploymentService;
+let orgSnapshotService: OrgSnapshotService;
+let scheduledRefreshService: ScheduledRefreshService;
 
 export async function activate(context: vscode.ExtensionContext) {
 	console.log('🚀 Salesforce Org Source Compare extension is now active!');
@@ -37,6 +66,12 @@ export async function activate(context: vscode.ExtensionContext) {
 		// Create webview services
 		manifestConfigWebview = container.resolve<ManifestConfigurationWebview>(ServiceTokens.MANIFEST_CONFIGURATION_WEBVIEW);
 		userPreferencesWebview = container.resolve<UserPreferencesWebview>(ServiceTokens.USER_PREFERENCES_WEBVIEW);
+		componentMatrixWebview = container.resolve<ComponentMatrixWebview>(ServiceTokens.COMPONENT_MATRIX_WEBVIEW);
+		semanticDiffWebview = container.resolve<SemanticDiffWebview>(ServiceTokens.SEMANTIC_DIFF_WEBVIEW);
+		permissionComparisonWebview = container.resolve<PermissionComparisonWebview>(ServiceTokens.PERMISSION_COMPARISON_WEBVIEW);
+		flowComparisonWebview = container.resolve<FlowComparisonWebview>(ServiceTokens.FLOW_COMPARISON_WEBVIEW);
+		objectComparisonWebview = container.resolve<ObjectComparisonWebview>(ServiceTokens.OBJECT_COMPARISON_WEBVIEW);
+		hunkMergeWebview = container.resolve<HunkMergeWebview>(ServiceTokens.HUNK_MERGE_WEBVIEW);
 		
 		// Create search service
 		fileSearchService = new FileSearchService(sfOrgCompareProvider, fileCompareService);
@@ -47,6 +82,28 @@ export async function activate(context: vscode.ExtensionContext) {
 		console.log('📋 Registering tree data provider...');
 		vscode.window.registerTreeDataProvider('sfOrgCompareView', sfOrgCompareProvider);
 		console.log('✅ Tree data provider registered!');
+
+		// Files of the org tree are decorated with how they compare with the reference org
+		context.subscriptions.push(vscode.window.registerFileDecorationProvider(
+			container.resolve<ReferenceDecorationProvider>(ServiceTokens.REFERENCE_DECORATION_PROVIDER)
+		));
+
+		// Switching between the retrieved and the lazy org tree only needs a redraw
+		context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration(`${EXTENSION_CONFIG_KEYS.SECTION}.${EXTENSION_CONFIG_KEYS.KEYS.TREE_MODE}`)) {
+				sfOrgCompareProvider.refreshTreeView();
+			}
+		}));
+
+		// Create org comparison results view
+		orgComparisonProvider = container.resolve<OrgComparisonProvider>(ServiceTokens.ORG_COMPARISON_PROVIDER);
+		vscode.window.registerTreeDataProvider('sfOrgComparisonView', orgComparisonProvider);
+		comparisonExportService = container.resolve<ComparisonExportService>(ServiceTokens.COMPARISON_EXPORT_SERVICE);
+		manifestManager = container.resolve<ManifestManager>(ServiceTokens.MANIFEST_MANAGER);
+		comparisonDeploymentService = container.resolve<ComparisonDeploymentService>(ServiceTokens.COMPARISON_DEPLOYMENT_SERVICE);
+		orgSnapshotService = container.resolve<OrgSnapshotService>(ServiceTokens.ORG_SNAPSHOT_SERVICE);
+		scheduledRefreshService = container.resolve<ScheduledRefreshService>(ServiceTokens.SCHEDULED_REFRESH_SERVICE);
+		scheduledRefreshService.start();
 		
 
 		// Register commands
@@ -90,6 +147,17 @@ export async function activate(context: vscode.ExtensionContext) {
 			fileCompareService.selectFile(fileItem.file);
 		});
 
+		const selectBundle = vscode.commands.registerCommand('sf-org-source-compare.selectBundle', async (folderItem) => {
+			try {
+				await sfOrgCompareProvider.selectBundle(folderItem);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Compare bundles',
+					error as Error
+				);
+			}
+		});
+
 		const openFile = vscode.commands.registerCommand('sf-org-source-compare.openFile', async (fileItem) => {
 			if (!fileItem.file || !fileItem.file.filePath) {
 				await userErrorReporter.reportError(
@@ -173,6 +241,505 @@ export async function activate(context: vscode.ExtensionContext) {
 			}
 		});
 
+		const compareOrgs = vscode.commands.registerCommand('sf-org-source-compare.compareOrgs', async (orgItem) => {
+			try {
+				const result = await orgComparisonProvider.compareOrgs(orgItem?.orgId);
+				if (result) {
+					vscode.commands.executeCommand('sfOrgComparisonView.focus');
+				}
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Compare organizations',
+					error as Error
+				);
+			}
+		});
+
+		const compareOrgWithLocal = vscode.commands.registerCommand('sf-org-source-compare.compareOrgWithLocal', async (orgItem) => {
+			try {
+				const result = await orgComparisonProvider.compareOrgs(orgItem?.orgId, LocalProjectService.LOCAL_PROJECT_ORG_ID);
+				if (result) {
+					vscode.commands.executeCommand('sfOrgComparisonView.focus');
+				}
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Compare organization with local project',
+					error as Error
+				);
+			}
+		});
+
+		const compareSnapshot = vscode.commands.registerCommand('sf-org-source-compare.compareSnapshot', async (snapshotItem) => {
+			const snapshot: OrgSnapshot | undefined = snapshotItem?.snapshot;
+
+			try {
+				// Without a snapshot item both sides are picked, snapshots included
+				const result = await orgComparisonProvider.compareOrgs(snapshot ? OrgSnapshotService.getSourceId(snapshot) : undefined);
+				if (result) {
+					vscode.commands.executeCommand('sfOrgComparisonView.focus');
+				}
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Compare snapshot',
+					error as Error
+				);
+			}
+		});
+
+		const deleteSnapshot = vscode.commands.registerCommand('sf-org-source-compare.deleteSnapshot', async (snapshotItem) => {
+			const snapshot: OrgSnapshot | undefined = snapshotItem?.snapshot;
+			if (!snapshot) {
+				return;
+			}
+
+			const confirmation = await vscode.window.showWarningMessage(
+				`Delete the snapshot ${OrgSnapshotService.getLabel(snapshot)}?`,
+				{ modal: true },
+				'Delete'
+			);
+			if (confirmation !== 'Delete') {
+				return;
+			}
+
+			try {
+				await orgSnapshotService.deleteSnapshot(snapshot.orgId, snapshot.id);
+				sfOrgCompareProvider.refreshTreeView();
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Delete snapshot',
+					error as Error
+				);
+			}
+		});
+
+		const selectRetrievalEngine = vscode.commands.registerCommand('sf-org-source-compare.selectRetrievalEngine', async (orgItem) => {
+			try {
+				await selectOrgRetrievalEngine(orgItem?.orgId);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Select retrieval engine',
+					error as Error
+				);
+			}
+		});
+
+		const selectComponentFromOrg = vscode.commands.registerCommand('sf-org-source-compare.selectComponentFromOrg', async (orgItem) => {
+			try {
+				await selectOrgComponent(orgItem?.orgId);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Select component from org',
+					error as Error
+				);
+			}
+		});
+
+		const setReferenceOrg = vscode.commands.registerCommand('sf-org-source-compare.setReferenceOrg', async (orgItem) => {
+			try {
+				const org = await pickOrg(orgItem?.orgId);
+				if (org) {
+					await sfOrgCompareProvider.setReferenceOrg(org.id);
+				}
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Set reference organization',
+					error as Error
+				);
+			}
+		});
+
+		const clearReferenceOrg = vscode.commands.registerCommand('sf-org-source-compare.clearReferenceOrg', async () => {
+			await sfOrgCompareProvider.clearReferenceOrg();
+		});
+
+		const hideIdenticalFiles = vscode.commands.registerCommand('sf-org-source-compare.hideIdenticalFiles', async () => {
+			await sfOrgCompareProvider.setHideIdentical(true);
+		});
+
+		const showIdenticalFiles = vscode.commands.registerCommand('sf-org-source-compare.showIdenticalFiles', async () => {
+			await sfOrgCompareProvider.setHideIdentical(false);
+		});
+
+		const configureScheduledRefresh = vscode.commands.registerCommand('sf-org-source-compare.configureScheduledRefresh', async () => {
+			try {
+				await scheduledRefreshService.configure();
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Configure scheduled refresh',
+					error as Error
+				);
+			}
+		});
+
+		const showDrift = vscode.commands.registerCommand('sf-org-source-compare.showDrift', async (orgId?: string) => {
+			const drift = scheduledRefreshService.getDrift();
+			if (drift.length === 0) {
+				vscode.window.showInformationMessage('No drift detected by scheduled refreshes.');
+				return;
+			}
+
+			const selected = drift.find(entry => entry.orgId === orgId)
+				|| (drift.length === 1 ? drift[0] : (await vscode.window.showQuickPick(
+					drift.map(entry => ({ label: entry.orgLabel, description: entry.summary, entry })),
+					{ placeHolder: 'Select the organization whose drift to show' }
+				))?.entry);
+			if (!selected) {
+				return;
+			}
+
+			try {
+				const result = await orgComparisonProvider.compareOrgs(
+					OrgSnapshotService.getSourceId(selected.previous),
+					OrgSnapshotService.getSourceId(selected.current)
+				);
+				if (result) {
+					scheduledRefreshService.acknowledge(selected.orgId);
+					vscode.commands.executeCommand('sfOrgComparisonView.focus');
+				}
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Show drift',
+					error as Error
+				);
+			}
+		});
+
+		const compareFileWithLocal = vscode.commands.registerCommand('sf-org-source-compare.compareFileWithLocal', async (fileItem) => {
+			if (!fileItem?.file) {
+				return;
+			}
+
+			try {
+				await sfOrgCompareProvider.compareFileWithLocal(fileItem.file);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Compare file with local project',
+					error as Error
+				);
+			}
+		});
+
+		const showFileHistory = vscode.commands.registerCommand('sf-org-source-compare.showFileHistory', async (fileItem) => {
+			if (!fileItem?.file) {
+				return;
+			}
+
+			try {
+				await sfOrgCompareProvider.showFileHistory(fileItem.file);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Show file history',
+					error as Error
+				);
+			}
+		});
+
+		const mergeFileWithLocal = vscode.commands.registerCommand('sf-org-source-compare.mergeFileWithLocal', async (fileItem) => {
+			if (!fileItem?.file) {
+				return;
+			}
+
+			try {
+				const filePair = await sfOrgCompareProvider.getLocalFilePair(fileItem.file);
+				if (filePair) {
+					await hunkMergeWebview.show(filePair);
+				}
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Merge file into local project',
+					error as Error
+				);
+			}
+		});
+
+		const openComparisonEntry = vscode.commands.registerCommand('sf-org-source-compare.openComparisonEntry', async (node) => {
+			try {
+				await orgComparisonProvider.openEntry(node);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Open comparison entry',
+					error as Error
+				);
+			}
+		});
+
+		const compareAcrossOrgs = vscode.commands.registerCommand('sf-org-source-compare.compareAcrossOrgs', async (fileItem) => {
+			try {
+				if (fileItem?.file) {
+					await componentMatrixWebview.showForFile(fileItem.file);
+				} else {
+					await componentMatrixWebview.showFromPrompt();
+				}
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Compare component across orgs',
+					error as Error
+				);
+			}
+		});
+
+		const semanticCompareFiles = vscode.commands.registerCommand('sf-org-source-compare.semanticCompareFiles', async () => {
+			const filePair = getSelectedFilePair();
+			if (!filePair) {
+				vscode.window.showWarningMessage('Please select two metadata XML files to compare semantically.');
+				return;
+			}
+
+			try {
+				await semanticDiffWebview.show(filePair);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Semantic compare files',
+					error as Error
+				);
+			}
+		});
+
+		const semanticCompareEntry = vscode.commands.registerCommand('sf-org-source-compare.semanticCompareEntry', async (node) => {
+			const filePair = getComparisonEntryFilePair(node);
+			if (!filePair) {
+				return;
+			}
+
+			try {
+				await semanticDiffWebview.show(filePair);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Semantic compare comparison entry',
+					error as Error
+				);
+			}
+		});
+
+		const comparePermissions = vscode.commands.registerCommand('sf-org-source-compare.comparePermissions', async () => {
+			const filePair = getSelectedFilePair();
+			if (!filePair) {
+				vscode.window.showWarningMessage('Please select two profile or permission set files to compare.');
+				return;
+			}
+
+			try {
+				await permissionComparisonWebview.show(filePair);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Compare permissions',
+					error as Error
+				);
+			}
+		});
+
+		const comparePermissionsEntry = vscode.commands.registerCommand('sf-org-source-compare.comparePermissionsEntry', async (node) => {
+			const filePair = getComparisonEntryFilePair(node);
+			if (!filePair) {
+				return;
+			}
+
+			try {
+				await permissionComparisonWebview.show(filePair);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Compare permissions of comparison entry',
+					error as Error
+				);
+			}
+		});
+
+		const compareFlows = vscode.commands.registerCommand('sf-org-source-compare.compareFlows', async () => {
+			const filePair = getSelectedFilePair();
+			if (!filePair) {
+				vscode.window.showWarningMessage('Please select two flow files to compare.');
+				return;
+			}
+
+			try {
+				await flowComparisonWebview.show(filePair);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Compare flows',
+					error as Error
+				);
+			}
+		});
+
+		const compareFlowsEntry = vscode.commands.registerCommand('sf-org-source-compare.compareFlowsEntry', async (node) => {
+			const filePair = getComparisonEntryFilePair(node);
+			if (!filePair) {
+				return;
+			}
+
+			try {
+				await flowComparisonWebview.show(filePair);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Compare flows of comparison entry',
+					error as Error
+				);
+			}
+		});
+
+		const compareObjects = vscode.commands.registerCommand('sf-org-source-compare.compareObjects', async () => {
+			try {
+				await objectComparisonWebview.showFromPrompt();
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Compare objects',
+					error as Error
+				);
+			}
+		});
+
+		const compareObjectsEntry = vscode.commands.registerCommand('sf-org-source-compare.compareObjectsEntry', async (node) => {
+			const result = orgComparisonProvider.getResult();
+			const objectName = node?.entry ? OrgComparisonProvider.getObjectName(node.entry.relativePath) : undefined;
+			if (!result || !objectName) {
+				return;
+			}
+
+			if (LocalProjectService.isLocalProject(result.left.id) || LocalProjectService.isLocalProject(result.right.id)) {
+				vscode.window.showWarningMessage('Object comparison uses describe data and is only available between two organizations.');
+				return;
+			}
+
+			try {
+				await objectComparisonWebview.show(objectName, result.left.id, result.right.id);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Compare objects of comparison entry',
+					error as Error
+				);
+			}
+		});
+
+		const exportComparison = vscode.commands.registerCommand('sf-org-source-compare.exportComparison', async () => {
+			const result = orgComparisonProvider.getResult();
+			if (!result) {
+				vscode.window.showWarningMessage('Please compare two organizations before exporting the results.');
+				return;
+			}
+
+			try {
+				await exportComparisonReport(comparisonExportService.fromOrgComparison(result));
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Export comparison results',
+					error as Error
+				);
+			}
+		});
+
+		const exportFileComparison = vscode.commands.registerCommand('sf-org-source-compare.exportFileComparison', async () => {
+			const filePair = getSelectedFilePair();
+			if (!filePair) {
+				vscode.window.showWarningMessage('Please select two files to export their comparison.');
+				return;
+			}
+
+			try {
+				await exportComparisonReport(await comparisonExportService.fromFilePair(filePair));
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Export file comparison',
+					error as Error
+				);
+			}
+		});
+
+		const exportComparisonEntry = vscode.commands.registerCommand('sf-org-source-compare.exportComparisonEntry', async (node) => {
+			const filePair = getComparisonEntryFilePair(node);
+			if (!filePair) {
+				return;
+			}
+
+			try {
+				await exportComparisonReport(await comparisonExportService.fromFilePair(filePair, node.entry.relativePath));
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Export comparison entry',
+					error as Error
+				);
+			}
+		});
+
+		const mergeComparisonEntry = vscode.commands.registerCommand('sf-org-source-compare.mergeComparisonEntry', async (node) => {
+			const filePair = getComparisonEntryFilePair(node);
+			const result = orgComparisonProvider.getResult();
+			if (!filePair || !result) {
+				return;
+			}
+
+			if (!LocalProjectService.isLocalProject(result.left.id) && !LocalProjectService.isLocalProject(result.right.id)) {
+				vscode.window.showWarningMessage('Merging is only available when one side of the comparison is the local project.');
+				return;
+			}
+
+			try {
+				// The merge always writes into the local side
+				await hunkMergeWebview.show(LocalProjectService.isLocalProject(result.left.id)
+					? { leftPath: filePair.rightPath, rightPath: filePair.leftPath, leftLabel: filePair.rightLabel, rightLabel: filePair.leftLabel }
+					: filePair);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Merge comparison entry',
+					error as Error
+				);
+			}
+		});
+
+		const generatePackageXml = vscode.commands.registerCommand('sf-org-source-compare.generatePackageXml', async () => {
+			const result = orgComparisonProvider.getResult();
+			if (!result) {
+				vscode.window.showWarningMessage('Please compare two organizations before generating a package.xml.');
+				return;
+			}
+
+			try {
+				await comparisonDeploymentService.generateDeploymentManifest(result);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Generate package.xml',
+					error as Error
+				);
+			}
+		});
+
+		const generateDestructiveChanges = vscode.commands.registerCommand('sf-org-source-compare.generateDestructiveChanges', async () => {
+			const result = orgComparisonProvider.getResult();
+			if (!result) {
+				vscode.window.showWarningMessage('Please compare two organizations before generating destructive changes.');
+				return;
+			}
+
+			try {
+				await comparisonDeploymentService.generateDestructiveChangesManifest(result);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Generate destructive changes',
+					error as Error
+				);
+			}
+		});
+
+		const deployDifferences = vscode.commands.registerCommand('sf-org-source-compare.deployDifferences', async () => {
+			const result = orgComparisonProvider.getResult();
+			if (!result) {
+				vscode.window.showWarningMessage('Please compare two organizations before deploying differences.');
+				return;
+			}
+
+			try {
+				await comparisonDeploymentService.deployComparisonDifferences(result);
+			} catch (error) {
+				await userErrorReporter.reportOperationFailure(
+					'Deploy differences',
+					error as Error
+				);
+			}
+		});
+
+		const clearComparison = vscode.commands.registerCommand('sf-org-source-compare.clearComparison', () => {
+			orgComparisonProvider.clear();
+		});
+
 		// Register all commands with VS Code
 		context.subscriptions.push(
 			openCompareView,
@@ -182,14 +749,48 @@ export async function activate(context: vscode.ExtensionContext) {
 			compareFiles,
 			selectOrg,
 			selectFile,
+			selectBundle,
 			openFile,
 			addOrg,
 			deleteOrg,
 			clearSelection,
 			cleanupTempFiles,
 			configureManifest,
+			selectRetrievalEngine,
+			selectComponentFromOrg,
+			setReferenceOrg,
+			clearReferenceOrg,
+			hideIdenticalFiles,
+			showIdenticalFiles,
 			// openUserPreferences, // Temporarily disabled
-			openFileSearch
+			openFileSearch,
+			compareOrgs,
+			compareOrgWithLocal,
+			compareSnapshot,
+			deleteSnapshot,
+			configureScheduledRefresh,
+			showDrift,
+			compareFileWithLocal,
+			showFileHistory,
+			mergeFileWithLocal,
+			openComparisonEntry,
+			clearComparison,
+			compareAcrossOrgs,
+			semanticCompareFiles,
+			semanticCompareEntry,
+			comparePermissions,
+			comparePermissionsEntry,
+			compareFlows,
+			compareFlowsEntry,
+			compareObjects,
+			compareObjectsEntry,
+			exportComparison,
+			exportFileComparison,
+			exportComparisonEntry,
+			mergeComparisonEntry,
+			generatePackageXml,
+			generateDestructiveChanges,
+			deployDifferences
 		);
 
 		console.log('✅ Extension activation completed successfully with DI');
@@ -212,6 +813,179 @@ export async function activate(context: vscode.ExtensionContext) {
 	}
 }
 
+/**
+ * Get the two files selected in the organizations view as a comparison pair
+ */
+function getSelectedFilePair(): ComparisonFilePair | undefined {
+	const [leftFile, rightFile] = fileCompareService.getSelectedFiles();
+	if (!leftFile?.filePath || !rightFile?.filePath) {
+		return undefined;
+	}
+
+	return {
+		leftPath: leftFile.filePath,
+		rightPath: rightFile.filePath,
+		leftLabel: fileCompareService.getOrgDisplayName(leftFile.orgId),
+		rightLabel: fileCompareService.getOrgDisplayName(rightFile.orgId)
+	};
+}
+
+/**
+ * Get both sides of a changed entry in the comparison results view as a comparison pair
+ */
+function getComparisonEntryFilePair(node: ComparisonTreeNode | undefined): ComparisonFilePair | undefined {
+	const result = orgComparisonProvider.getResult();
+	if (!node?.entry?.leftPath || !node.entry.rightPath || !result) {
+		return undefined;
+	}
+
+	return {
+		leftPath: node.entry.leftPath,
+		rightPath: node.entry.rightPath,
+		leftLabel: result.left.label,
+		rightLabel: result.right.label
+	};
+}
+
+/**
+ * Ask for an export format and destination, then write the comparison report
+ */
+async function exportComparisonReport(report: ComparisonReport): Promise<void> {
+	const formats = [
+		{ label: 'HTML', description: 'Self-contained report with side-by-side diffs', format: ExportFormat.Html },
+		{ label: 'Markdown', description: 'Summary for pull request comments', format: ExportFormat.Markdown },
+		{ label: 'JSON', description: 'Machine-readable list of changed components', format: ExportFormat.Json },
+		{ label: 'CSV', description: 'Spreadsheet list of changed components', format: ExportFormat.Csv },
+		{ label: 'JUnit', description: 'Test report for CI servers, one failure per difference', format: ExportFormat.Junit }
+	];
+	const selected = await vscode.window.showQuickPick(formats, { placeHolder: 'Select the export format' });
+	if (!selected) {
+		return;
+	}
+
+	const fileName = ComparisonExportService.getDefaultFileName(report, selected.format);
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+	const target = await vscode.window.showSaveDialog({
+		defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+		filters: { [selected.label]: [EXPORT_FILE_EXTENSIONS[selected.format]] },
+		saveLabel: 'Export'
+	});
+	if (!target) {
+		return;
+	}
+
+	await comparisonExportService.exportToFile(report, selected.format, target.fsPath);
+
+	const action = await vscode.window.showInformationMessage(
+		`Exported ${report.entries.length} comparison entries to ${target.fsPath}`,
+		'Open'
+	);
+	if (action === 'Open') {
+		if (selected.format === ExportFormat.Html) {
+			await vscode.env.openExternal(target);
+		} else {
+			await vscode.window.showTextDocument(target);
+		}
+	}
+}
+
+/**
+ * Let the user choose whether an org is retrieved through the Salesforce CLI or directly through the Metadata API
+ */
+async function selectOrgRetrievalEngine(orgId?: string): Promise<void> {
+	const org = await pickOrg(orgId);
+	if (!org) {
+		return;
+	}
+
+	const current = manifestManager.getOrgManifestConfig(org.id, org.alias).retrievalEngine || 'cli';
+	const engines: { label: string; detail: string; engine: RetrievalEngine }[] = [
+		{ label: 'Salesforce CLI', detail: 'Run "sf project retrieve start" (requires the Salesforce CLI)', engine: 'cli' },
+		{ label: 'Metadata API', detail: 'Retrieve directly with the org authorization stored by the Salesforce CLI, without running it', engine: 'metadataApi' }
+	];
+	const selected = await vscode.window.showQuickPick(
+		engines.map(option => ({ ...option, description: option.engine === current ? 'current' : undefined })),
+		{ placeHolder: `Select how ${org.alias || org.username} is retrieved` }
+	);
+	if (!selected || selected.engine === current) {
+		return;
+	}
+
+	await manifestManager.updateOrgManifestConfig(org.id, { retrievalEngine: selected.engine });
+	vscode.window.showInformationMessage(`${org.alias || org.username} is now retrieved through the ${selected.label}. Refresh the organization to use it.`);
+}
+
+/**
+ * Fetch a single Apex, LWC or Aura file through the Tooling API and select it for comparison,
+ * without retrieving the whole org first
+ */
+async function selectOrgComponent(orgId?: string): Promise<void> {
+	const org = await pickOrg(orgId);
+	if (!org) {
+		return;
+	}
+
+	const typeLabels: Record<string, string> = {
+		ApexClass: 'Apex Class',
+		ApexTrigger: 'Apex Trigger',
+		LightningComponentBundle: 'Lightning Web Component',
+		AuraDefinitionBundle: 'Aura Component'
+	};
+	const typePick = await vscode.window.showQuickPick(
+		ToolingSourceFetcher.SUPPORTED_TYPES.map(type => ({ label: typeLabels[type] || type, type })),
+		{ placeHolder: 'Select the metadata type' }
+	);
+	if (!typePick) {
+		return;
+	}
+
+	const orgName = org.alias || org.username;
+	const names = await vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title: `Listing ${typePick.label}s in ${orgName}...` },
+		() => enhancedOrgManager.listToolingComponents(org.id, typePick.type)
+	);
+	const fullName = await vscode.window.showQuickPick(names, { placeHolder: `Select the ${typePick.label}` });
+	if (!fullName) {
+		return;
+	}
+
+	const files = await vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title: `Fetching ${fullName} from ${orgName}...` },
+		() => enhancedOrgManager.fetchComponentSource(org.id, { type: typePick.type, fullName })
+	);
+	const relativePaths = [...files.keys()].sort();
+	const relativePath = relativePaths.length === 1
+		? relativePaths[0]
+		: await vscode.window.showQuickPick(relativePaths, { placeHolder: `Select the file of ${fullName} to compare` });
+	if (!relativePath) {
+		return;
+	}
+
+	fileCompareService.selectFile({
+		id: EnhancedOrgManager.getOnDemandFileId(org.id, relativePath),
+		name: relativePath.split('/').pop() || relativePath,
+		type: typePick.type,
+		fullName,
+		orgId: org.id
+	});
+}
+
+/**
+ * Get an org by ID, asking the user to pick one when none is given
+ */
+async function pickOrg(orgId?: string): Promise<SalesforceOrg | undefined> {
+	const org = orgId ? enhancedOrgManager.getOrg(orgId) : undefined;
+	if (org) {
+		return org;
+	}
+
+	const pick = await vscode.window.showQuickPick(
+		enhancedOrgManager.getOrgs().map(candidate => ({ label: candidate.alias || candidate.username, description: candidate.username, org: candidate })),
+		{ placeHolder: 'Select the organization' }
+	);
+	return pick?.org;
+}
+
 export async function deactivate() {
 	console.log('🧹 Deactivating SF Org Compare extension...');
 	
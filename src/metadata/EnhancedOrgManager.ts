@@ -1,10 +1,14 @@
 import * as vscode from 'vscode';
-import { SalesforceOrg, OrgFile, MetadataQueryOptions, ProcessingResult, ContentRequest, ContentResponse } from '../types';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SalesforceOrg, OrgFile, MetadataQueryOptions, ProcessingResult, ContentRequest, ContentResponse, EnhancedObjectMetadata, MetadataComponentRef } from '../types';
 import { MetadataRegistry } from './MetadataRegistry';
 import { ParallelProcessor } from './ParallelProcessor';
 import { MetadataConfiguration } from './MetadataConfiguration';
 import { SourceRetrievalService } from '../services/SourceRetrievalService';
-import { SecureCommandExecutor } from '../security/SecureCommandExecutor';
+import { SalesforceCliAdapter } from '../core/SalesforceCliAdapter';
+import { SfCliAdapter } from '../core/SfCliAdapter';
+import { ToolingSourceFetcher } from '../core/ToolingSourceFetcher';
 import { ApexHandler } from './handlers/ApexHandler';
 import { CustomObjectHandler } from './handlers/CustomObjectHandler';
 import { LwcHandler } from './handlers/LwcHandler';
@@ -13,6 +17,7 @@ import { GeneralMetadataHandler } from './handlers/GeneralMetadataHandler';
 import { UserErrorReporter } from '../errors/UserErrorReporter';
 import { ProgressManager } from '../progress/ProgressManager';
 import { ManifestManager } from '../services/ManifestManager';
+import { MetadataPathResolver } from './MetadataPathResolver';
 
 /**
  * Enhanced org manager with metadata registry and parallel processing support
@@ -24,17 +29,21 @@ export class EnhancedOrgManager {
     private processor: ParallelProcessor;
     private configuration: MetadataConfiguration;
     private sourceRetrieval: SourceRetrievalService;
+    private toolingSourceFetcher: ToolingSourceFetcher;
+    private fetchedComponents: Map<string, Map<string, string>> = new Map();
+    private manifestManager: ManifestManager;
     private initialized: boolean = false;
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, private cliAdapter: SalesforceCliAdapter = new SfCliAdapter()) {
         this.context = context;
         this.registry = MetadataRegistry.getInstance();
         this.processor = new ParallelProcessor(this.registry);
         this.configuration = MetadataConfiguration.getInstance();
         
         // Create ManifestManager for SourceRetrievalService
-        const manifestManager = new ManifestManager(context);
-        this.sourceRetrieval = new SourceRetrievalService(manifestManager);
+        this.manifestManager = new ManifestManager(context);
+        this.sourceRetrieval = new SourceRetrievalService(this.manifestManager, cliAdapter);
+        this.toolingSourceFetcher = new ToolingSourceFetcher(cliAdapter);
         
         this.userErrorReporter = UserErrorReporter.getInstance();
         this.progressManager = ProgressManager.getInstance();
@@ -77,30 +86,30 @@ export class EnhancedOrgManager {
     private async initializeMetadataHandlers(): Promise<void> {
         // Register separate Apex handlers for classes and triggers
         const apexClassConfig = this.configuration.getHandlerConfig('ApexClass');
-        const apexClassHandler = new ApexHandler(apexClassConfig, 'ApexClass');
+        const apexClassHandler = new ApexHandler(apexClassConfig, 'ApexClass', this.cliAdapter);
         this.registry.registerHandler('ApexClass', apexClassHandler);
 
         const apexTriggerConfig = this.configuration.getHandlerConfig('ApexTrigger');
-        const apexTriggerHandler = new ApexHandler(apexTriggerConfig, 'ApexTrigger');
+        const apexTriggerHandler = new ApexHandler(apexTriggerConfig, 'ApexTrigger', this.cliAdapter);
         this.registry.registerHandler('ApexTrigger', apexTriggerHandler);
 
         // Register Custom Object handler
         const objectConfig = this.configuration.getHandlerConfig('CustomObject');
-        const objectHandler = new CustomObjectHandler(objectConfig);
+        const objectHandler = new CustomObjectHandler(objectConfig, this.cliAdapter);
         this.registry.registerHandler('CustomObject', objectHandler);
 
         // Register LWC handler
         const lwcConfig = this.configuration.getHandlerConfig('LightningComponentBundle');
-        const lwcHandler = new LwcHandler(lwcConfig);
+        const lwcHandler = new LwcHandler(lwcConfig, this.cliAdapter);
         this.registry.registerHandler('LightningComponentBundle', lwcHandler);
 
         // Register Aura handler
         const auraConfig = this.configuration.getHandlerConfig('AuraDefinitionBundle');
-        const auraHandler = new AuraHandler(auraConfig);
+        const auraHandler = new AuraHandler(auraConfig, this.cliAdapter);
         this.registry.registerHandler('AuraDefinitionBundle', auraHandler);
 
         // Register general metadata handlers
-        const generalHandlers = GeneralMetadataHandler.createHandlers(this.configuration.getHandlerConfig('PermissionSet'));
+        const generalHandlers = GeneralMetadataHandler.createHandlers(this.configuration.getHandlerConfig('PermissionSet'), this.cliAdapter);
         for (const [metadataType, handler] of generalHandlers) {
             this.registry.registerHandler(metadataType, handler);
         }
@@ -184,7 +193,7 @@ export class EnhancedOrgManager {
      */
     public async querySfdxOrgs(): Promise<SalesforceOrg[]> {
         try {
-            const { stdout } = await SecureCommandExecutor.executeOrgList();
+            const { stdout } = await this.cliAdapter.listOrgs();
             const result = JSON.parse(stdout);
 
             if (result.status !== 0) {
@@ -323,20 +332,80 @@ export class EnhancedOrgManager {
         }
     }
 
+    /**
+     * Get the source directory of the last retrieval for an org, retrieving only if none exists yet
+     */
+    public async getRetrievedSourceDirectory(orgId: string): Promise<string> {
+        const sourceDirectory = this.sourceRetrieval.getRetrievedSourceDirectory(orgId);
+        if (sourceDirectory) {
+            return sourceDirectory;
+        }
+        return this.getOrgSourceDirectory(orgId);
+    }
+
+    /**
+     * Get the source directory of the last retrieval for an org without triggering a new retrieval
+     */
+    public getCachedSourceDirectory(orgId: string): string | undefined {
+        return this.sourceRetrieval.getRetrievedSourceDirectory(orgId);
+    }
 
     /**
-     * Refresh source files for an org (clear cache and re-retrieve)
+     * Get the path of an org file relative to the cached source directory it belongs to, without triggering a retrieval
+     * Files of the last retrieval and files retrieved or fetched component by component have separate directories.
+     * @returns Forward-slash path, e.g. classes/Invoice.cls, or undefined when the file is not cached for the org
+     */
+    public getCachedRelativePath(orgId: string, filePath: string): string | undefined {
+        const sourceDirectories = [this.getCachedSourceDirectory(orgId), this.sourceRetrieval.getComponentSourceDirectory(orgId)];
+        for (const sourceDirectory of sourceDirectories) {
+            const relativePath = sourceDirectory ? path.relative(sourceDirectory, filePath) : '';
+            if (relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath)) {
+                return relativePath.split(path.sep).join('/');
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Refresh source files for an org (re-retrieve changed components, or clear cache and re-retrieve everything)
      */
     public async refreshOrgSource(orgId: string): Promise<string> {
         console.log(`Refreshing source for org: ${orgId}`);
+
+        // Components fetched on demand are read from the new retrieval from now on
+        this.clearFetchedComponents(orgId);
         
-        // Clear cached source
-        this.sourceRetrieval.clearOrgCache(orgId);
+        // Incremental retrieval builds on the cached source, so it is only cleared for a full retrieval
+        if (!this.sourceRetrieval.canRetrieveIncrementally(orgId)) {
+            this.sourceRetrieval.clearOrgCache(orgId);
+        }
         
         // Re-retrieve source
         return await this.getOrgSourceDirectory(orgId);
     }
 
+    /**
+     * Describe a custom object in an org, including its custom fields and validation rules
+     */
+    public async describeObject(orgId: string, objectName: string): Promise<EnhancedObjectMetadata> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        const org = this.getOrg(orgId);
+        if (!org) {
+            throw new Error(`Organization not found: ${orgId}`);
+        }
+
+        const handler = this.registry.getHandler('CustomObject');
+        if (!(handler instanceof CustomObjectHandler)) {
+            throw new Error('Custom Object handler is not registered');
+        }
+
+        console.log(`🔎 Describing ${objectName} in ${org.alias || org.username}`);
+        return handler.describeObject(org.alias || org.username, objectName);
+    }
+
     /**
      * Get file content directly from file path
      */
@@ -350,21 +419,164 @@ export class EnhancedOrgManager {
     }
 
     /**
-     * Get file content by file ID (backward compatibility with old OrgManager)
-     * @deprecated Use getFileContent with file path or use enhanced metadata system directly
+     * Get file content by file ID
+     *
+     * Files fetched on demand have IDs made by getOnDemandFileId. Their content is read from the last retrieval
+     * when there is one, and otherwise fetched through the Tooling API, so that single Apex, LWC and Aura files
+     * can be diffed without retrieving the whole org first.
      */
     public async getFileContentById(orgId: string, fileId: string): Promise<string> {
-        try {
-            // For backward compatibility, we need to find the file by ID
-            // This is a simplified implementation - in practice, file IDs would be stored
-            console.warn('getFileContentById is deprecated. Use getFileContent with file path instead.');
-            return '';
-        } catch (error) {
-            console.error(`Error retrieving file content for fileId ${fileId}:`, error);
-            return '';
+        const prefix = `${orgId}:`;
+        if (!fileId.startsWith(prefix)) {
+            throw new Error(`File ${fileId} has no path and is not an on-demand file of org ${orgId}`);
+        }
+
+        const relativePath = fileId.substring(prefix.length);
+        const sourceDirectory = this.getCachedSourceDirectory(orgId);
+        const cachedPath = sourceDirectory ? path.join(sourceDirectory, relativePath) : undefined;
+        if (cachedPath && fs.existsSync(cachedPath)) {
+            return fs.promises.readFile(cachedPath, 'utf8');
         }
+
+        const component = MetadataPathResolver.resolve(relativePath);
+        if (!component || !ToolingSourceFetcher.supports(component.type)) {
+            throw new Error(`${relativePath} is not cached and cannot be fetched through the Tooling API`);
+        }
+
+        // Tooling API errors are left to the caller, as empty content would diff as if the file had been emptied
+        const files = await this.fetchComponentSource(orgId, component);
+        const content = files.get(relativePath);
+        if (content === undefined) {
+            throw new Error(`${relativePath} is not part of ${component.type} ${component.fullName}`);
+        }
+        return content;
     }
 
+    /**
+     * Get the ID of a file that is fetched on demand rather than read from a retrieval
+     * @param relativePath Forward-slash path relative to the source directory, e.g. classes/Invoice.cls
+     */
+    public static getOnDemandFileId(orgId: string, relativePath: string): string {
+        return `${orgId}:${relativePath}`;
+    }
+
+    /**
+     * List the components of an Apex, LWC or Aura type through the Tooling API
+     */
+    public async listToolingComponents(orgId: string, metadataType: string): Promise<string[]> {
+        const org = this.getOrg(orgId);
+        if (!org) {
+            throw new Error(`Organization not found: ${orgId}`);
+        }
+
+        return this.toolingSourceFetcher.listComponents(metadataType, org.alias || org.username);
+    }
+
+    /**
+     * Fetch the files of an Apex, LWC or Aura component through the Tooling API, once per session
+     * @returns File contents keyed by path relative to the source directory
+     */
+    public async fetchComponentSource(orgId: string, component: MetadataComponentRef): Promise<Map<string, string>> {
+        const org = this.getOrg(orgId);
+        if (!org) {
+            throw new Error(`Organization not found: ${orgId}`);
+        }
+
+        const key = `${orgId}:${component.type}:${component.fullName}`;
+        let files = this.fetchedComponents.get(key);
+        if (!files) {
+            console.log(`⚡ Fetching ${component.type} ${component.fullName} from ${org.alias || org.username} through the Tooling API`);
+            files = await this.toolingSourceFetcher.fetchComponent(org.alias || org.username, component);
+            this.fetchedComponents.set(key, files);
+        }
+        return files;
+    }
+
+
+    /**
+     * Forget the components fetched on demand from an org, so that they are fetched again
+     */
+    public clearFetchedComponents(orgId: string): void {
+        for (const key of [...this.fetchedComponents.keys()].filter(key => key.startsWith(`${orgId}:`))) {
+            this.fetchedComponents.delete(key);
+        }
+    }
+
+    /**
+     * Get the metadata types enabled for an org that a registered handler can list, for browsing without a retrieval
+     */
+    public async getBrowsableMetadataTypes(orgId: string): Promise<{ type: string; label: string }[]> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        return this.manifestManager.getEnabledMetadataTypes(orgId)
+            .filter(type => this.registry.getHandler(type.name))
+            .map(type => ({ type: type.name, label: this.registry.getDefinition(type.name)?.displayName || type.name }))
+            .sort((a, b) => a.label.localeCompare(b.label));
+    }
+
+    /**
+     * List the components of a metadata type in an org through its handler, without retrieving their content
+     */
+    public async listMetadataComponents(orgId: string, metadataType: string): Promise<MetadataComponentRef[]> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        const org = this.getOrg(orgId);
+        if (!org) {
+            throw new Error(`Organization not found: ${orgId}`);
+        }
+
+        const handler = this.registry.getHandler(metadataType);
+        if (!handler) {
+            throw new Error(`No handler registered for metadata type: ${metadataType}`);
+        }
+
+        // Handlers list Apex source and -meta.xml files separately, the tree shows each component once
+        const fullNames = new Set((await handler.getFiles(orgId, org.alias || org.username)).map(file => file.fullName));
+        return [...fullNames]
+            .sort((a, b) => a.localeCompare(b))
+            .map(fullName => ({ type: metadataType, fullName }));
+    }
+
+    /**
+     * Retrieve the files of a single component: Apex, LWC and Aura through the Tooling API, other types with a
+     * retrieve of just that component
+     */
+    public async retrieveComponentFiles(orgId: string, component: MetadataComponentRef): Promise<OrgFile[]> {
+        const org = this.getOrg(orgId);
+        if (!org) {
+            throw new Error(`Organization not found: ${orgId}`);
+        }
+
+        const sourceDirectory = this.sourceRetrieval.getComponentSourceDirectory(orgId);
+        const filePaths = new Map<string, string>();
+        if (ToolingSourceFetcher.supports(component.type)) {
+            for (const [relativePath, content] of await this.fetchComponentSource(orgId, component)) {
+                const filePath = path.join(sourceDirectory, relativePath);
+                await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+                await fs.promises.writeFile(filePath, content, 'utf8');
+                filePaths.set(relativePath, filePath);
+            }
+        } else {
+            for (const file of await this.sourceRetrieval.retrieveComponents(org, [component])) {
+                filePaths.set(path.relative(sourceDirectory, file.filePath!).split(path.sep).join('/'), file.filePath!);
+            }
+        }
+
+        return [...filePaths.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([relativePath, filePath]) => ({
+                id: EnhancedOrgManager.getOnDemandFileId(orgId, relativePath),
+                name: path.basename(filePath),
+                type: component.type,
+                fullName: component.fullName,
+                orgId,
+                filePath
+            }));
+    }
 
     /**
      * Get metadata analysis for an org
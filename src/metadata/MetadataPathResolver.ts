@@ -0,0 +1,182 @@
+import { MetadataComponentRef } from '../types';
+
+/**
+ * Top-level source folders and the metadata type they contain
+ */
+const FOLDER_TYPES: Record<string, string> = {
+    applications: 'CustomApplication',
+    aura: 'AuraDefinitionBundle',
+    classes: 'ApexClass',
+    contentassets: 'ContentAsset',
+    customMetadata: 'CustomMetadata',
+    customPermissions: 'CustomPermission',
+    dashboards: 'Dashboard',
+    documents: 'Document',
+    email: 'EmailTemplate',
+    flexipages: 'FlexiPage',
+    flows: 'Flow',
+    globalValueSets: 'GlobalValueSet',
+    groups: 'Group',
+    labels: 'CustomLabels',
+    layouts: 'Layout',
+    lwc: 'LightningComponentBundle',
+    namedCredentials: 'NamedCredential',
+    objects: 'CustomObject',
+    pages: 'ApexPage',
+    permissionsetgroups: 'PermissionSetGroup',
+    permissionsets: 'PermissionSet',
+    profiles: 'Profile',
+    queues: 'Queue',
+    quickActions: 'QuickAction',
+    remoteSiteSettings: 'RemoteSiteSetting',
+    reports: 'Report',
+    staticresources: 'StaticResource',
+    tabs: 'CustomTab',
+    testSuites: 'ApexTestSuite',
+    triggers: 'ApexTrigger',
+    workflows: 'Workflow'
+};
+
+/**
+ * Sub-folders of objects/<Object>/ and the child metadata type they contain
+ */
+const OBJECT_CHILD_TYPES: Record<string, string> = {
+    businessProcesses: 'BusinessProcess',
+    compactLayouts: 'CompactLayout',
+    fieldSets: 'FieldSet',
+    fields: 'CustomField',
+    listViews: 'ListView',
+    recordTypes: 'RecordType',
+    validationRules: 'ValidationRule',
+    webLinks: 'WebLink'
+};
+
+/** Types stored as a directory per component */
+const BUNDLE_FOLDERS = ['aura', 'lwc', 'staticresources'];
+
+/** Types whose components live inside report/dashboard/email/document folders */
+const FOLDERED_FOLDERS = ['dashboards', 'documents', 'email', 'reports'];
+
+/**
+ * Resolves source-format file paths to metadata components and back
+ */
+export class MetadataPathResolver {
+
+    /**
+     * Get all metadata types the resolver understands, sorted by name
+     */
+    public static getSupportedTypes(): string[] {
+        return [...Object.values(FOLDER_TYPES), ...Object.values(OBJECT_CHILD_TYPES)]
+            .sort((a, b) => a.localeCompare(b));
+    }
+
+    /**
+     * Get the source folder (e.g. "classes" or "objects/*\/fields") holding a metadata type
+     */
+    public static getFolderForType(metadataType: string): string | undefined {
+        const folder = Object.keys(FOLDER_TYPES).find(key => FOLDER_TYPES[key] === metadataType);
+        if (folder) {
+            return folder;
+        }
+
+        const childFolder = Object.keys(OBJECT_CHILD_TYPES).find(key => OBJECT_CHILD_TYPES[key] === metadataType);
+        return childFolder ? `objects/*/${childFolder}` : undefined;
+    }
+
+    /**
+     * Resolve a forward-slash path relative to a source root (e.g. "classes/Foo.cls") to its component
+     */
+    public static resolve(relativePath: string): MetadataComponentRef | undefined {
+        const segments = relativePath.split(/[\\/]/).filter(segment => segment.length > 0);
+        if (segments.length < 2) {
+            return undefined;
+        }
+
+        const folder = segments[0];
+        const metadataType = FOLDER_TYPES[folder];
+        if (!metadataType) {
+            return undefined;
+        }
+
+        if (folder === 'objects') {
+            return MetadataPathResolver.resolveObjectPath(segments);
+        }
+
+        if (BUNDLE_FOLDERS.includes(folder) && segments.length > 2) {
+            return { type: metadataType, fullName: segments[1] };
+        }
+
+        // Loose files such as lwc/jsconfig.json are tooling config, not components
+        if (folder === 'aura' || folder === 'lwc') {
+            return undefined;
+        }
+
+        if (FOLDERED_FOLDERS.includes(folder)) {
+            const folderedName = [...segments.slice(1, -1), MetadataPathResolver.getComponentName(segments[segments.length - 1])];
+            return { type: metadataType, fullName: folderedName.join('/') };
+        }
+
+        if (segments.length !== 2) {
+            return undefined;
+        }
+
+        return { type: metadataType, fullName: MetadataPathResolver.getComponentName(segments[1]) };
+    }
+
+    /**
+     * Get the path of a file relative to the source root it lives under
+     * Falls back to the part after main/default/ when none of the roots contain the file
+     */
+    public static toSourceRelativePath(filePath: string, sourceRoots: string[] = []): string | undefined {
+        const normalizedPath = filePath.split('\\').join('/');
+
+        for (const sourceRoot of sourceRoots) {
+            const normalizedRoot = sourceRoot.split('\\').join('/').replace(/\/+$/, '');
+            if (normalizedPath.startsWith(`${normalizedRoot}/`)) {
+                return normalizedPath.substring(normalizedRoot.length + 1);
+            }
+        }
+
+        const marker = '/main/default/';
+        const markerIndex = normalizedPath.lastIndexOf(marker);
+        return markerIndex >= 0 ? normalizedPath.substring(markerIndex + marker.length) : undefined;
+    }
+
+    /**
+     * Check whether two component references point at the same component
+     */
+    public static isSameComponent(left: MetadataComponentRef, right: MetadataComponentRef): boolean {
+        return left.type === right.type && left.fullName.toLowerCase() === right.fullName.toLowerCase();
+    }
+
+    /**
+     * Strip the -meta.xml suffix and the type extension from a file name
+     */
+    public static getComponentName(fileName: string): string {
+        const withoutMeta = fileName.endsWith('-meta.xml')
+            ? fileName.substring(0, fileName.length - '-meta.xml'.length)
+            : fileName;
+        const extensionIndex = withoutMeta.lastIndexOf('.');
+        return extensionIndex > 0 ? withoutMeta.substring(0, extensionIndex) : withoutMeta;
+    }
+
+    /**
+     * Resolve paths below objects/ to the object or one of its child components
+     */
+    private static resolveObjectPath(segments: string[]): MetadataComponentRef | undefined {
+        const objectName = segments[1];
+
+        if (segments.length === 3) {
+            return { type: 'CustomObject', fullName: objectName };
+        }
+
+        if (segments.length === 4) {
+            const childType = OBJECT_CHILD_TYPES[segments[2]];
+            if (childType) {
+                return { type: childType, fullName: `${objectName}.${MetadataPathResolver.getComponentName(segments[3])}` };
+            }
+        }
+
+        return undefined;
+    }
+}
@@ -0,0 +1,227 @@
+/**
+ * Element of a parsed metadata XML document
+ */
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+}
+
+/**
+ * Start and end offset of an element in the parsed document
+ */
+export interface XmlElementRange {
+    start: number;
+    end: number;
+}
+
+const ENTITIES: Record<string, string> = {
+    amp: '&',
+    apos: '\'',
+    gt: '>',
+    lt: '<',
+    quot: '"'
+};
+
+/**
+ * Minimal XML parser for Salesforce source-format metadata files
+ * Handles elements, attributes, text, CDATA, comments and the XML declaration - no DTDs or mixed content
+ */
+export class MetadataXmlParser {
+    private position = 0;
+
+    private constructor(
+        private readonly xml: string,
+        private readonly ranges?: Map<XmlElement, XmlElementRange>
+    ) {}
+
+    /**
+     * Parse an XML document and return its root element
+     * When a range map is given, the source offsets of every element are recorded in it
+     * (offsets refer to the document without a leading byte order mark)
+     */
+    public static parse(xml: string, ranges?: Map<XmlElement, XmlElementRange>): XmlElement {
+        const parser = new MetadataXmlParser(xml.replace(/^\uFEFF/, ''), ranges);
+        parser.skipMisc();
+        const root = parser.parseElement();
+        parser.skipMisc();
+
+        if (parser.position < parser.xml.length) {
+            parser.fail('Unexpected content after root element');
+        }
+
+        return root;
+    }
+
+    /**
+     * Decode the predefined and numeric character entities
+     */
+    public static decodeEntities(value: string): string {
+        return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+            if (entity.startsWith('#x')) {
+                return String.fromCodePoint(parseInt(entity.substring(2), 16));
+            }
+            if (entity.startsWith('#')) {
+                return String.fromCodePoint(parseInt(entity.substring(1), 10));
+            }
+            return ENTITIES[entity] ?? match;
+        });
+    }
+
+    /**
+     * Skip whitespace, comments, processing instructions and doctype declarations
+     */
+    private skipMisc(): void {
+        for (;;) {
+            this.skipWhitespace();
+            if (this.xml.startsWith('<?', this.position)) {
+                this.skipPast('?>');
+            } else if (this.xml.startsWith('<!--', this.position)) {
+                this.skipPast('-->');
+            } else if (this.xml.startsWith('<!DOCTYPE', this.position)) {
+                this.skipPast('>');
+            } else {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Parse an element starting at the current '<'
+     */
+    private parseElement(): XmlElement {
+        if (this.xml[this.position] !== '<') {
+            this.fail('Expected element');
+        }
+        const start = this.position;
+        this.position++;
+
+        const element: XmlElement = { name: this.parseName(), attributes: {}, children: [], text: '' };
+
+        for (;;) {
+            this.skipWhitespace();
+            if (this.xml.startsWith('/>', this.position)) {
+                this.position += 2;
+                this.ranges?.set(element, { start, end: this.position });
+                return element;
+            }
+            if (this.xml[this.position] === '>') {
+                this.position++;
+                break;
+            }
+            const attributeName = this.parseName();
+            this.skipWhitespace();
+            this.expect('=');
+            this.skipWhitespace();
+            element.attributes[attributeName] = this.parseQuotedValue();
+        }
+
+        let text = '';
+        for (;;) {
+            if (this.position >= this.xml.length) {
+                this.fail(`Unclosed element <${element.name}>`);
+            }
+
+            if (this.xml.startsWith('</', this.position)) {
+                this.position += 2;
+                const closingName = this.parseName();
+                if (closingName !== element.name) {
+                    this.fail(`Expected </${element.name}> but found </${closingName}>`);
+                }
+                this.skipWhitespace();
+                this.expect('>');
+                break;
+            } else if (this.xml.startsWith('<![CDATA[', this.position)) {
+                const end = this.indexOrFail(']]>', this.position + 9);
+                text += this.xml.substring(this.position + 9, end);
+                this.position = end + 3;
+            } else if (this.xml.startsWith('<!--', this.position) || this.xml.startsWith('<?', this.position)) {
+                this.skipMisc();
+            } else if (this.xml[this.position] === '<') {
+                element.children.push(this.parseElement());
+            } else {
+                const next = this.xml.indexOf('<', this.position);
+                const end = next < 0 ? this.xml.length : next;
+                text += MetadataXmlParser.decodeEntities(this.xml.substring(this.position, end));
+                this.position = end;
+            }
+        }
+
+        // Whitespace between child elements is formatting, not content
+        element.text = element.children.length > 0 && text.trim() === '' ? '' : text;
+        this.ranges?.set(element, { start, end: this.position });
+        return element;
+    }
+
+    /**
+     * Parse an element or attribute name
+     */
+    private parseName(): string {
+        const match = /^[A-Za-z_:][\w.:-]*/.exec(this.xml.substring(this.position, this.position + 256));
+        if (!match) {
+            this.fail('Expected name');
+        }
+        this.position += match[0].length;
+        return match[0];
+    }
+
+    /**
+     * Parse a single- or double-quoted attribute value
+     */
+    private parseQuotedValue(): string {
+        const quote = this.xml[this.position];
+        if (quote !== '"' && quote !== '\'') {
+            this.fail('Expected quoted attribute value');
+        }
+        const end = this.indexOrFail(quote, this.position + 1);
+        const value = this.xml.substring(this.position + 1, end);
+        this.position = end + 1;
+        return MetadataXmlParser.decodeEntities(value);
+    }
+
+    /**
+     * Advance past whitespace
+     */
+    private skipWhitespace(): void {
+        while (this.position < this.xml.length && /\s/.test(this.xml[this.position])) {
+            this.position++;
+        }
+    }
+
+    /**
+     * Advance past the next occurrence of a token
+     */
+    private skipPast(token: string): void {
+        this.position = this.indexOrFail(token, this.position) + token.length;
+    }
+
+    /**
+     * Consume a token that must appear at the current position
+     */
+    private expect(token: string): void {
+        if (!this.xml.startsWith(token, this.position)) {
+            this.fail(`Expected '${token}'`);
+        }
+        this.position += token.length;
+    }
+
+    /**
+     * Find a token or fail when the document ends first
+     */
+    private indexOrFail(token: string, from: number): number {
+        const index = this.xml.indexOf(token, from);
+        if (index < 0) {
+            this.fail(`Missing '${token}'`);
+        }
+        return index;
+    }
+
+    /**
+     * Throw a parse error including the current line number
+     */
+    private fail(message: string): never {
+        const line = this.xml.substring(0, this.position).split('\n').length;
+        throw new Error(`Invalid XML at line ${line}: ${message}`);
+    }
+}
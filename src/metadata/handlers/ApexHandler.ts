@@ -1,7 +1,8 @@
 import { MetadataHandler } from './base/MetadataHandler';
 import { OrgFile, BundleContent, MetadataTypeDefinition, MetadataHandlerConfig } from '../../types';
 import { ConfigurationManager } from '../../config';
-import { SecureCommandExecutor } from '../../security/SecureCommandExecutor';
+import { SalesforceCliAdapter } from '../../core/SalesforceCliAdapter';
+import { SfCliAdapter } from '../../core/SfCliAdapter';
 import { ErrorHandler, ErrorHandlingStrategy, ErrorUtils } from '../../errors/ErrorHandler';
 
 /**
@@ -12,7 +13,7 @@ export class ApexHandler extends MetadataHandler {
     private requestedType: string;
     private errorHandler: ErrorHandler;
 
-    constructor(config: MetadataHandlerConfig, metadataType: string = 'ApexClass') {
+    constructor(config: MetadataHandlerConfig, metadataType: string = 'ApexClass', cliAdapter: SalesforceCliAdapter = new SfCliAdapter()) {
         // This handler supports both ApexClass and ApexTrigger
         const definition: MetadataTypeDefinition = {
             name: metadataType,
@@ -23,7 +24,7 @@ export class ApexHandler extends MetadataHandler {
             supportedOperations: ['list', 'retrieve', 'query']
         };
         
-        super(definition, config);
+        super(definition, config, cliAdapter);
         this.requestedType = metadataType;
         this.errorHandler = ErrorHandler.getInstance();
     }
@@ -57,7 +58,7 @@ export class ApexHandler extends MetadataHandler {
      * Get Apex Classes from the org
      */
     private async getApexClasses(orgId: string, orgIdentifier: string): Promise<OrgFile[]> {
-        const result = await SecureCommandExecutor.executeOrgListMetadata('ApexClass', orgIdentifier);
+        const result = await this.cliAdapter.listMetadata('ApexClass', orgIdentifier);
         const parsed = this.parseJsonResponse(result.stdout);
 
         if (!parsed.result) {
@@ -96,7 +97,7 @@ export class ApexHandler extends MetadataHandler {
      * Get Apex Triggers from the org
      */
     private async getApexTriggers(orgId: string, orgIdentifier: string): Promise<OrgFile[]> {
-        const result = await SecureCommandExecutor.executeOrgListMetadata('ApexTrigger', orgIdentifier);
+        const result = await this.cliAdapter.listMetadata('ApexTrigger', orgIdentifier);
         const parsed = this.parseJsonResponse(result.stdout);
 
         if (!parsed.result) {
@@ -169,7 +170,7 @@ export class ApexHandler extends MetadataHandler {
         const query = `SELECT Id, Name, Body, ApiVersion, Status, IsValid FROM ApexClass WHERE Name = '${file.fullName}'`;
         
         console.log(`ApexClass query: ${query}`);
-        const result = await SecureCommandExecutor.executeDataQuery(query, orgIdentifier, true);
+        const result = await this.cliAdapter.query(query, orgIdentifier, true);
         const parsed = this.parseJsonResponse(result.stdout);
 
         if (!parsed.result || !parsed.result.records || parsed.result.records.length === 0) {
@@ -200,7 +201,7 @@ export class ApexHandler extends MetadataHandler {
                 '--target-org', orgIdentifier,
                 '--json'
             ];
-            const result = await SecureCommandExecutor.executeCommand('sf', args);
+            const result = await this.cliAdapter.execute(args);
             const parsed = this.parseJsonResponse(result.stdout);
 
             if (!parsed.result) {
@@ -264,7 +265,7 @@ export class ApexHandler extends MetadataHandler {
         const query = `SELECT Id, Name, Body, ApiVersion, Status, IsValid, TableEnumOrId, UsageBeforeInsert, UsageAfterInsert, UsageBeforeUpdate, UsageAfterUpdate, UsageBeforeDelete, UsageAfterDelete, UsageAfterUndelete FROM ApexTrigger WHERE Name = '${file.fullName}'`;
         
         console.log(`ApexTrigger query: ${query}`);
-        const result = await SecureCommandExecutor.executeDataQuery(query, orgIdentifier, true);
+        const result = await this.cliAdapter.query(query, orgIdentifier, true);
         const parsed = this.parseJsonResponse(result.stdout);
 
         if (!parsed.result || !parsed.result.records || parsed.result.records.length === 0) {
@@ -396,7 +397,7 @@ export class ApexHandler extends MetadataHandler {
             const metricsQuery = `SELECT Name, LengthWithoutComments, NumLinesCovered, NumLinesUncovered FROM ApexClass WHERE Name IN (${classNames})`;
             
             try {
-                const metricsResult = await SecureCommandExecutor.executeDataQuery(metricsQuery, orgIdentifier, true);
+                const metricsResult = await this.cliAdapter.query(metricsQuery, orgIdentifier, true);
                 const metricsParsed = this.parseJsonResponse(metricsResult.stdout);
                 
                 if (metricsParsed.result && metricsParsed.result.records) {
@@ -437,7 +438,7 @@ export class ApexHandler extends MetadataHandler {
             const triggerQuery = `SELECT Name, TableEnumOrId, UsageBeforeInsert, UsageAfterInsert, UsageBeforeUpdate, UsageAfterUpdate, UsageBeforeDelete, UsageAfterDelete, UsageAfterUndelete FROM ApexTrigger WHERE Name IN (${triggerNames})`;
             
             try {
-                const triggerResult = await SecureCommandExecutor.executeDataQuery(triggerQuery, orgIdentifier, true);
+                const triggerResult = await this.cliAdapter.query(triggerQuery, orgIdentifier, true);
                 const triggerParsed = this.parseJsonResponse(triggerResult.stdout);
                 
                 if (triggerParsed.result && triggerParsed.result.records) {
@@ -1,6 +1,7 @@
 import { MetadataHandler } from './base/MetadataHandler';
 import { OrgFile, BundleContent, MetadataTypeDefinition, MetadataHandlerConfig, AuraBundle } from '../../types';
-import { SecureCommandExecutor } from '../../security/SecureCommandExecutor';
+import { SalesforceCliAdapter } from '../../core/SalesforceCliAdapter';
+import { SfCliAdapter } from '../../core/SfCliAdapter';
 
 /**
  * Handler for Aura Components
@@ -9,7 +10,7 @@ import { SecureCommandExecutor } from '../../security/SecureCommandExecutor';
 export class AuraHandler extends MetadataHandler {
     private readonly bundleExtensions = ['.cmp', '.js', '.css', '.auradoc', '.design', '.svg', '.renderer', '.helper'];
 
-    constructor(config: MetadataHandlerConfig) {
+    constructor(config: MetadataHandlerConfig, cliAdapter: SalesforceCliAdapter = new SfCliAdapter()) {
         const definition: MetadataTypeDefinition = {
             name: 'AuraDefinitionBundle',
             displayName: 'Aura Components',
@@ -19,7 +20,7 @@ export class AuraHandler extends MetadataHandler {
             supportedOperations: ['list', 'retrieve']
         };
         
-        super(definition, config);
+        super(definition, config, cliAdapter);
     }
 
     /**
@@ -27,7 +28,7 @@ export class AuraHandler extends MetadataHandler {
      */
     public async getFiles(orgId: string, orgIdentifier: string): Promise<OrgFile[]> {
         try {
-            const result = await SecureCommandExecutor.executeOrgListMetadata('AuraDefinitionBundle', orgIdentifier);
+            const result = await this.cliAdapter.listMetadata('AuraDefinitionBundle', orgIdentifier);
             const parsed = this.parseJsonResponse(result.stdout);
 
             if (!parsed.result) {
@@ -90,7 +91,7 @@ export class AuraHandler extends MetadataHandler {
         try {
             // Query AuraDefinition table to get all files in the bundle
             const query = `SELECT Id, DefType, Source FROM AuraDefinition WHERE AuraDefinitionBundleId IN (SELECT Id FROM AuraDefinitionBundle WHERE DeveloperName = '${file.fullName}')`;
-            const result = await SecureCommandExecutor.executeDataQuery(query, orgIdentifier, true);
+            const result = await this.cliAdapter.query(query, orgIdentifier, true);
             const parsed = this.parseJsonResponse(result.stdout);
 
             if (!parsed.result || !parsed.result.records || parsed.result.records.length === 0) {
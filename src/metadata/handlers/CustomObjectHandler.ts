@@ -1,6 +1,7 @@
 import { MetadataHandler } from './base/MetadataHandler';
 import { OrgFile, BundleContent, MetadataTypeDefinition, MetadataHandlerConfig, EnhancedObjectMetadata, ValidationRule, CustomField } from '../../types';
-import { SecureCommandExecutor } from '../../security/SecureCommandExecutor';
+import { SalesforceCliAdapter } from '../../core/SalesforceCliAdapter';
+import { SfCliAdapter } from '../../core/SfCliAdapter';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -9,7 +10,7 @@ import * as path from 'path';
  * Supports CustomObject, CustomField, and ValidationRule metadata types
  */
 export class CustomObjectHandler extends MetadataHandler {
-    constructor(config: MetadataHandlerConfig) {
+    constructor(config: MetadataHandlerConfig, cliAdapter: SalesforceCliAdapter = new SfCliAdapter()) {
         const definition: MetadataTypeDefinition = {
             name: 'CustomObject',
             displayName: 'Custom Objects',
@@ -37,7 +38,7 @@ export class CustomObjectHandler extends MetadataHandler {
             ]
         };
         
-        super(definition, config);
+        super(definition, config, cliAdapter);
     }
 
     /**
@@ -45,7 +46,7 @@ export class CustomObjectHandler extends MetadataHandler {
      */
     public async getFiles(orgId: string, orgIdentifier: string): Promise<OrgFile[]> {
         try {
-            const result = await SecureCommandExecutor.executeOrgListMetadata('CustomObject', orgIdentifier);
+            const result = await this.cliAdapter.listMetadata('CustomObject', orgIdentifier);
             const parsed = this.parseJsonResponse(result.stdout);
 
             if (!parsed.result) {
@@ -93,7 +94,7 @@ export class CustomObjectHandler extends MetadataHandler {
                 '--target-org', orgIdentifier,
                 '--json'
             ];
-            const result = await SecureCommandExecutor.executeCommand('sf', args);
+            const result = await this.cliAdapter.execute(args);
             const parsed = this.parseJsonResponse(result.stdout);
 
             if (!parsed.result) {
@@ -134,51 +135,7 @@ export class CustomObjectHandler extends MetadataHandler {
      */
     private async getEnhancedObjectMetadata(orgIdentifier: string, file: OrgFile): Promise<EnhancedObjectMetadata> {
         try {
-            const result = await SecureCommandExecutor.executeSObjectDescribe(file.fullName, orgIdentifier);
-            const parsed = this.parseJsonResponse(result.stdout);
-
-            if (!parsed.result) {
-                throw new Error('No describe result returned');
-            }
-
-            const objectInfo = parsed.result;
-            
-            // Extract custom fields
-            const customFields: CustomField[] = [];
-            if (objectInfo.fields) {
-                for (const field of objectInfo.fields) {
-                    if (field.custom) {
-                        customFields.push({
-                            fullName: field.name,
-                            label: field.label,
-                            type: field.type,
-                            length: field.length,
-                            required: !field.nillable && !field.defaultedOnCreate,
-                            unique: field.unique,
-                            description: field.inlineHelpText
-                        });
-                    }
-                }
-            }
-
-            // Get validation rules
-            const validationRules = await this.getValidationRules(orgIdentifier, file.fullName);
-
-            return {
-                fullName: file.fullName,
-                label: objectInfo.label,
-                description: objectInfo.description,
-                customFields,
-                validationRules,
-                sharingModel: objectInfo.sharingModel,
-                enableHistory: objectInfo.enableHistory,
-                enableActivities: objectInfo.enableActivities,
-                enableBulkApi: objectInfo.enableBulkApi,
-                enableReports: objectInfo.enableReports,
-                enableSearch: objectInfo.enableSearch,
-                enableSharing: objectInfo.enableSharing,
-                enableStreamingApi: objectInfo.enableStreamingApi
-            };
+            return await this.describeObject(orgIdentifier, file.fullName);
         } catch (error) {
             console.warn(`Could not get enhanced metadata for ${file.fullName}:`, error);
             return {
@@ -189,6 +146,58 @@ export class CustomObjectHandler extends MetadataHandler {
         }
     }
 
+    /**
+     * Describe an object with its custom fields and validation rules, throwing when the describe fails
+     */
+    public async describeObject(orgIdentifier: string, objectName: string): Promise<EnhancedObjectMetadata> {
+        const result = await this.cliAdapter.describeSObject(objectName, orgIdentifier);
+        const parsed = this.parseJsonResponse(result.stdout);
+
+        if (!parsed.result) {
+            throw new Error(`No describe result returned for ${objectName}`);
+        }
+
+        const objectInfo = parsed.result;
+
+        // Extract custom fields
+        const customFields: CustomField[] = [];
+        if (objectInfo.fields) {
+            for (const field of objectInfo.fields) {
+                if (field.custom) {
+                    customFields.push({
+                        fullName: field.name,
+                        label: field.label,
+                        type: field.type,
+                        length: field.length,
+                        required: !field.nillable && !field.defaultedOnCreate,
+                        unique: field.unique,
+                        formula: field.calculatedFormula || undefined,
+                        description: field.inlineHelpText
+                    });
+                }
+            }
+        }
+
+        // Get validation rules
+        const validationRules = await this.getValidationRules(orgIdentifier, objectName);
+
+        return {
+            fullName: objectName,
+            label: objectInfo.label,
+            description: objectInfo.description,
+            customFields,
+            validationRules,
+            sharingModel: objectInfo.sharingModel,
+            enableHistory: objectInfo.enableHistory,
+            enableActivities: objectInfo.enableActivities,
+            enableBulkApi: objectInfo.enableBulkApi,
+            enableReports: objectInfo.enableReports,
+            enableSearch: objectInfo.enableSearch,
+            enableSharing: objectInfo.enableSharing,
+            enableStreamingApi: objectInfo.enableStreamingApi
+        };
+    }
+
     /**
      * Get validation rules for an object
      */
@@ -196,7 +205,7 @@ export class CustomObjectHandler extends MetadataHandler {
         try {
             const query = `SELECT Id, ValidationName, Active, Description, ErrorConditionFormula, ErrorMessage, ErrorDisplayField FROM ValidationRule WHERE EntityDefinition.QualifiedApiName = '${objectName}'`;
             
-            const result = await SecureCommandExecutor.executeDataQuery(query, orgIdentifier, true);
+            const result = await this.cliAdapter.query(query, orgIdentifier, true);
             const parsed = this.parseJsonResponse(result.stdout);
 
             if (!parsed.result || !parsed.result.records) {
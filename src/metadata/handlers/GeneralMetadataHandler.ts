@@ -1,6 +1,7 @@
 import { MetadataHandler } from './base/MetadataHandler';
 import { OrgFile, BundleContent, MetadataTypeDefinition, MetadataHandlerConfig } from '../../types';
-import { SecureCommandExecutor } from '../../security/SecureCommandExecutor';
+import { SalesforceCliAdapter } from '../../core/SalesforceCliAdapter';
+import { SfCliAdapter } from '../../core/SfCliAdapter';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -11,15 +12,15 @@ import * as path from 'path';
 export class GeneralMetadataHandler extends MetadataHandler {
     private supportedTypes: string[];
 
-    constructor(definition: MetadataTypeDefinition, config: MetadataHandlerConfig) {
-        super(definition, config);
+    constructor(definition: MetadataTypeDefinition, config: MetadataHandlerConfig, cliAdapter: SalesforceCliAdapter = new SfCliAdapter()) {
+        super(definition, config, cliAdapter);
         this.supportedTypes = [definition.name];
     }
 
     /**
      * Create handlers for common metadata types
      */
-    public static createHandlers(config: MetadataHandlerConfig): Map<string, GeneralMetadataHandler> {
+    public static createHandlers(config: MetadataHandlerConfig, cliAdapter: SalesforceCliAdapter = new SfCliAdapter()): Map<string, GeneralMetadataHandler> {
         const handlers = new Map<string, GeneralMetadataHandler>();
         
         // Permission Sets
@@ -31,7 +32,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
             retrievalStrategy: 'retrieve',
             supportedOperations: ['list', 'retrieve'],
             sfCliMetadataType: 'PermissionSet'
-        }, config));
+        }, config, cliAdapter));
 
         // Profiles
         handlers.set('Profile', new GeneralMetadataHandler({
@@ -42,7 +43,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
             retrievalStrategy: 'retrieve',
             supportedOperations: ['list', 'retrieve'],
             sfCliMetadataType: 'Profile'
-        }, config));
+        }, config, cliAdapter));
 
         // Custom Labels
         handlers.set('CustomLabels', new GeneralMetadataHandler({
@@ -53,7 +54,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
             retrievalStrategy: 'retrieve',
             supportedOperations: ['list', 'retrieve'],
             sfCliMetadataType: 'CustomLabels'
-        }, config));
+        }, config, cliAdapter));
 
         // Custom Metadata Types
         handlers.set('CustomMetadata', new GeneralMetadataHandler({
@@ -64,7 +65,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
             retrievalStrategy: 'retrieve',
             supportedOperations: ['list', 'retrieve'],
             sfCliMetadataType: 'CustomMetadata'
-        }, config));
+        }, config, cliAdapter));
 
         // Flows
         handlers.set('Flow', new GeneralMetadataHandler({
@@ -75,7 +76,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
             retrievalStrategy: 'retrieve',
             supportedOperations: ['list', 'retrieve'],
             sfCliMetadataType: 'Flow'
-        }, config));
+        }, config, cliAdapter));
 
         // Layouts
         handlers.set('Layout', new GeneralMetadataHandler({
@@ -86,7 +87,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
             retrievalStrategy: 'retrieve',
             supportedOperations: ['list', 'retrieve'],
             sfCliMetadataType: 'Layout'
-        }, config));
+        }, config, cliAdapter));
 
         // Email Templates
         handlers.set('EmailTemplate', new GeneralMetadataHandler({
@@ -97,7 +98,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
             retrievalStrategy: 'retrieve',
             supportedOperations: ['list', 'retrieve'],
             sfCliMetadataType: 'EmailTemplate'
-        }, config));
+        }, config, cliAdapter));
 
         // Static Resources
         handlers.set('StaticResource', new GeneralMetadataHandler({
@@ -108,7 +109,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
             retrievalStrategy: 'retrieve',
             supportedOperations: ['list', 'retrieve'],
             sfCliMetadataType: 'StaticResource'
-        }, config));
+        }, config, cliAdapter));
 
         // Custom Settings
         handlers.set('CustomSetting', new GeneralMetadataHandler({
@@ -119,7 +120,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
             retrievalStrategy: 'retrieve',
             supportedOperations: ['list', 'retrieve'],
             sfCliMetadataType: 'CustomObject'
-        }, config));
+        }, config, cliAdapter));
 
         // Reports
         handlers.set('Report', new GeneralMetadataHandler({
@@ -130,7 +131,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
             retrievalStrategy: 'retrieve',
             supportedOperations: ['list', 'retrieve'],
             sfCliMetadataType: 'Report'
-        }, config));
+        }, config, cliAdapter));
 
         // Dashboards
         handlers.set('Dashboard', new GeneralMetadataHandler({
@@ -141,7 +142,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
             retrievalStrategy: 'retrieve',
             supportedOperations: ['list', 'retrieve'],
             sfCliMetadataType: 'Dashboard'
-        }, config));
+        }, config, cliAdapter));
 
         return handlers;
     }
@@ -152,7 +153,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
     public async getFiles(orgId: string, orgIdentifier: string): Promise<OrgFile[]> {
         try {
             const metadataType = this.definition.sfCliMetadataType || this.definition.name;
-            const result = await SecureCommandExecutor.executeOrgListMetadata(metadataType, orgIdentifier);
+            const result = await this.cliAdapter.listMetadata(metadataType, orgIdentifier);
             const parsed = this.parseJsonResponse(result.stdout);
 
             if (!parsed.result) {
@@ -200,7 +201,7 @@ export class GeneralMetadataHandler extends MetadataHandler {
                 '--target-org', orgIdentifier,
                 '--json'
             ];
-            const result = await SecureCommandExecutor.executeCommand('sf', args);
+            const result = await this.cliAdapter.execute(args);
             const parsed = this.parseJsonResponse(result.stdout);
 
             if (!parsed.result) {
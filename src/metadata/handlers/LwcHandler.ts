@@ -1,7 +1,8 @@
 import { MetadataHandler } from './base/MetadataHandler';
 import { OrgFile, BundleContent, MetadataTypeDefinition, MetadataHandlerConfig, LWCBundle } from '../../types';
 import { ConfigurationManager } from '../../config';
-import { SecureCommandExecutor } from '../../security/SecureCommandExecutor';
+import { SalesforceCliAdapter } from '../../core/SalesforceCliAdapter';
+import { SfCliAdapter } from '../../core/SfCliAdapter';
 import { ErrorHandler, ErrorHandlingStrategy, ErrorUtils } from '../../errors/ErrorHandler';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -14,7 +15,7 @@ export class LwcHandler extends MetadataHandler {
     private readonly bundleExtensions = ['.js', '.html', '.css', '.xml', '.svg', '.js-meta.xml'];
     private errorHandler: ErrorHandler;
 
-    constructor(config: MetadataHandlerConfig) {
+    constructor(config: MetadataHandlerConfig, cliAdapter: SalesforceCliAdapter = new SfCliAdapter()) {
         const definition: MetadataTypeDefinition = {
             name: 'LightningComponentBundle',
             displayName: 'Lightning Web Components',
@@ -24,7 +25,7 @@ export class LwcHandler extends MetadataHandler {
             supportedOperations: ['list', 'retrieve']
         };
         
-        super(definition, config);
+        super(definition, config, cliAdapter);
         this.errorHandler = ErrorHandler.getInstance();
     }
 
@@ -33,7 +34,7 @@ export class LwcHandler extends MetadataHandler {
      */
     public async getFiles(orgId: string, orgIdentifier: string): Promise<OrgFile[]> {
         try {
-            const result = await SecureCommandExecutor.executeOrgListMetadata('LightningComponentBundle', orgIdentifier);
+            const result = await this.cliAdapter.listMetadata('LightningComponentBundle', orgIdentifier);
             const parsed = this.parseJsonResponse(result.stdout);
 
             if (!parsed.result) {
@@ -112,7 +113,7 @@ export class LwcHandler extends MetadataHandler {
                 '--target-org', orgIdentifier,
                 '--json'
             ];
-            const result = await SecureCommandExecutor.executeCommand('sf', args);
+            const result = await this.cliAdapter.execute(args);
             const parsed = this.parseJsonResponse(result.stdout);
 
             if (!parsed.result) {
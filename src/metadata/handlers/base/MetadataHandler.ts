@@ -1,6 +1,8 @@
 import { OrgFile, BundleContent, MetadataTypeDefinition, MetadataHandlerConfig, ProcessingResult } from '../../../types';
 import { ConfigurationManager } from '../../../config';
 import { SecureCommandExecutor } from '../../../security/SecureCommandExecutor';
+import { SalesforceCliAdapter } from '../../../core/SalesforceCliAdapter';
+import { SfCliAdapter } from '../../../core/SfCliAdapter';
 
 /**
  * Abstract base class for all metadata handlers
@@ -10,10 +12,12 @@ export abstract class MetadataHandler {
     protected config: MetadataHandlerConfig;
     protected definition: MetadataTypeDefinition;
     protected configManager: ConfigurationManager;
+    protected cliAdapter: SalesforceCliAdapter;
 
-    constructor(definition: MetadataTypeDefinition, config: MetadataHandlerConfig) {
+    constructor(definition: MetadataTypeDefinition, config: MetadataHandlerConfig, cliAdapter: SalesforceCliAdapter = new SfCliAdapter()) {
         this.definition = definition;
         this.config = config;
+        this.cliAdapter = cliAdapter;
         this.configManager = ConfigurationManager.getInstance();
     }
 
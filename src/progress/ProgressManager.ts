@@ -90,6 +90,60 @@ export const PROGRESS_OPERATIONS = {
         totalEstimatedDuration: 6500
     },
 
+    ORG_COMPARISON: {
+        title: 'Comparing Organizations',
+        location: vscode.ProgressLocation.Notification,
+        cancellable: false,
+        steps: [
+            { name: 'source', description: 'Loading retrieved source', weight: 40, estimatedDuration: 5000 },
+            { name: 'compare', description: 'Comparing source files', weight: 50, estimatedDuration: 5000 },
+            { name: 'display', description: 'Preparing comparison results', weight: 10, estimatedDuration: 500 }
+        ],
+        totalEstimatedDuration: 10500
+    },
+
+    OBJECT_COMPARISON: {
+        title: 'Comparing Objects',
+        location: vscode.ProgressLocation.Notification,
+        cancellable: false,
+        steps: [
+            { name: 'describe', description: 'Describing object in both organizations', weight: 80, estimatedDuration: 6000 },
+            { name: 'compare', description: 'Comparing fields and validation rules', weight: 20, estimatedDuration: 500 }
+        ],
+        totalEstimatedDuration: 6500
+    },
+
+    DESTRUCTIVE_CHANGES: {
+        title: 'Preparing Destructive Changes',
+        location: vscode.ProgressLocation.Notification,
+        cancellable: false,
+        steps: [
+            { name: 'references', description: 'Searching for references to the deleted components', weight: 100, estimatedDuration: 3000 }
+        ],
+        totalEstimatedDuration: 3000
+    },
+
+    DEPLOYMENT_VALIDATION: {
+        title: 'Validating Deployment',
+        location: vscode.ProgressLocation.Notification,
+        cancellable: false,
+        steps: [
+            { name: 'stage', description: 'Staging components from the source', weight: 10, estimatedDuration: 2000 },
+            { name: 'validate', description: 'Running check-only deployment', weight: 90, estimatedDuration: 60000 }
+        ],
+        totalEstimatedDuration: 62000
+    },
+
+    DEPLOYMENT: {
+        title: 'Deploying Components',
+        location: vscode.ProgressLocation.Notification,
+        cancellable: false,
+        steps: [
+            { name: 'deploy', description: 'Deploying components to the target organization', weight: 100, estimatedDuration: 60000 }
+        ],
+        totalEstimatedDuration: 60000
+    },
+
     AUTHENTICATION: {
         title: 'Authenticating with Salesforce',
         location: vscode.ProgressLocation.Notification,
@@ -0,0 +1,367 @@
+import * as vscode from 'vscode';
+import { ComparisonEntry, ComparisonSource, ComparisonStatus, OrgComparisonResult } from '../types';
+import { OrgComparisonService } from '../services/OrgComparisonService';
+import { LocalProjectService } from '../services/LocalProjectService';
+import { OrgSnapshotService } from '../services/OrgSnapshotService';
+import { OrgCacheService } from '../services/OrgCacheService';
+import { SemanticXmlDiffService } from '../services/SemanticXmlDiffService';
+import { PermissionComparisonService } from '../services/PermissionComparisonService';
+import { FlowComparisonService } from '../services/FlowComparisonService';
+import { MetadataPathResolver } from '../metadata/MetadataPathResolver';
+import { EnhancedOrgManager } from '../metadata/EnhancedOrgManager';
+import { ProgressManager } from '../progress/ProgressManager';
+
+/**
+ * Node displayed in the comparison results tree
+ */
+export interface ComparisonTreeNode {
+    id: string;
+    label: string;
+    kind: 'placeholder' | 'summary' | 'status' | 'folder' | 'entry';
+    status?: ComparisonStatus;
+    entry?: ComparisonEntry;
+    children?: ComparisonTreeNode[];
+}
+
+/** Metadata types whose comparison entries can open the object comparison */
+const OBJECT_MEMBER_TYPES = ['CustomObject', 'CustomField', 'ValidationRule'];
+
+/**
+ * Tree data provider showing the result of a whole-org comparison
+ */
+export class OrgComparisonProvider implements vscode.TreeDataProvider<ComparisonTreeNode> {
+    private _onDidChangeTreeData: vscode.EventEmitter<ComparisonTreeNode | undefined | null | void> = new vscode.EventEmitter<ComparisonTreeNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<ComparisonTreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private result: OrgComparisonResult | undefined;
+    private progressManager: ProgressManager;
+
+    constructor(
+        private enhancedOrgManager: EnhancedOrgManager,
+        private orgComparisonService: OrgComparisonService,
+        private localProjectService: LocalProjectService,
+        private orgSnapshotService: OrgSnapshotService,
+        private orgCacheService?: OrgCacheService
+    ) {
+        this.progressManager = ProgressManager.getInstance();
+    }
+
+    /**
+     * Compare the complete retrieved source of two organizations, org snapshots or the local project,
+     * prompting for any side that is not given
+     */
+    public async compareOrgs(leftId?: string, rightId?: string): Promise<OrgComparisonResult | undefined> {
+        const candidates = await this.getSourceCandidates();
+        if (candidates.length < 2) {
+            vscode.window.showWarningMessage('Add at least two organizations (or open an SFDX project) to run an org comparison.');
+            return undefined;
+        }
+
+        const left = candidates.find(candidate => candidate.id === leftId)
+            || await this.pickSource(candidates, 'Select the first organization to compare');
+        if (!left) {
+            return undefined;
+        }
+
+        const right = candidates.find(candidate => candidate.id === rightId && candidate.id !== left.id)
+            || await this.pickSource(
+                candidates.filter(candidate => candidate.id !== left.id),
+                `Select the organization to compare with ${left.label}`
+            );
+        if (!right) {
+            return undefined;
+        }
+
+        const result = await this.progressManager.withProgress('ORG_COMPARISON', async (progress) => {
+            progress.startStep(0, `Loading source for ${left.label} and ${right.label}`);
+            const leftSource = await this.resolveSource(left.id, left.label);
+            progress.updateStep(50);
+            const rightSource = await this.resolveSource(right.id, right.label);
+            progress.completeStep(0);
+
+            progress.startStep(1);
+            const comparison = await this.orgComparisonService.compareSources(leftSource, rightSource);
+            progress.completeStep(1);
+
+            progress.startStep(2);
+            this.setResult(comparison);
+            progress.completeStep(2);
+
+            return comparison;
+        });
+
+        const summary = OrgComparisonService.summarize(result.entries);
+        vscode.window.showInformationMessage(
+            `${result.left.label} ↔ ${result.right.label}: ${summary.changed} changed, ` +
+            `${summary.onlyInLeft} only in ${result.left.label}, ${summary.onlyInRight} only in ${result.right.label}, ` +
+            `${summary.identical} identical`
+        );
+
+        return result;
+    }
+
+    /**
+     * Display a new comparison result
+     */
+    public setResult(result: OrgComparisonResult): void {
+        this.result = result;
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Get the comparison result currently displayed
+     */
+    public getResult(): OrgComparisonResult | undefined {
+        return this.result;
+    }
+
+    /**
+     * Clear the displayed comparison result
+     */
+    public clear(): void {
+        this.result = undefined;
+        this._onDidChangeTreeData.fire();
+    }
+
+    public getTreeItem(element: ComparisonTreeNode): vscode.TreeItem {
+        const collapsibleState = element.children && element.children.length > 0
+            ? (element.kind === 'status' && element.status === ComparisonStatus.Changed
+                ? vscode.TreeItemCollapsibleState.Expanded
+                : vscode.TreeItemCollapsibleState.Collapsed)
+            : vscode.TreeItemCollapsibleState.None;
+
+        const treeItem = new vscode.TreeItem(element.label, collapsibleState);
+        treeItem.id = element.id;
+
+        switch (element.kind) {
+            case 'placeholder':
+                treeItem.iconPath = new vscode.ThemeIcon('info');
+                treeItem.command = {
+                    command: 'sf-org-source-compare.compareOrgs',
+                    title: 'Compare Orgs'
+                };
+                break;
+            case 'summary':
+                treeItem.iconPath = new vscode.ThemeIcon('git-compare');
+                if (this.result) {
+                    treeItem.description = this.result.comparedAt.toLocaleString();
+                }
+                break;
+            case 'status':
+                treeItem.iconPath = this.getStatusIcon(element.status);
+                break;
+            case 'folder':
+                treeItem.iconPath = vscode.ThemeIcon.Folder;
+                break;
+            case 'entry':
+                treeItem.iconPath = this.getStatusIcon(element.entry?.status);
+                treeItem.tooltip = element.entry?.relativePath;
+                treeItem.contextValue = this.getEntryContextValue(element.entry);
+                treeItem.command = {
+                    command: 'sf-org-source-compare.openComparisonEntry',
+                    title: 'Open Comparison Entry',
+                    arguments: [element]
+                };
+                break;
+        }
+
+        return treeItem;
+    }
+
+    public getChildren(element?: ComparisonTreeNode): ComparisonTreeNode[] {
+        if (element) {
+            return element.children || [];
+        }
+
+        if (!this.result) {
+            return [{
+                id: 'comparison-placeholder',
+                label: 'Run "Compare Orgs" to compare two organizations',
+                kind: 'placeholder'
+            }];
+        }
+
+        return this.buildRootNodes(this.result);
+    }
+
+    /**
+     * Open a comparison entry - changed files open in the diff editor, one-sided files open directly
+     */
+    public async openEntry(node: ComparisonTreeNode): Promise<void> {
+        const entry = node.entry;
+        if (!entry || !this.result) {
+            return;
+        }
+
+        if (entry.leftPath && entry.rightPath) {
+            const title = `${this.result.left.label}: ${entry.relativePath} ↔ ${this.result.right.label}: ${entry.relativePath}`;
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                vscode.Uri.file(entry.leftPath),
+                vscode.Uri.file(entry.rightPath),
+                title
+            );
+            return;
+        }
+
+        const filePath = entry.leftPath || entry.rightPath;
+        if (filePath) {
+            await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+        }
+    }
+
+    /**
+     * Get all sources that can take part in a comparison - registered orgs plus the local project
+     */
+    private async getSourceCandidates(): Promise<{ id: string; label: string; description: string }[]> {
+        const candidates = this.enhancedOrgManager.getOrgs().map(org => ({
+            id: org.id,
+            label: org.alias || org.username,
+            description: org.username
+        }));
+
+        if (this.localProjectService.hasProject()) {
+            candidates.push({
+                id: LocalProjectService.LOCAL_PROJECT_ORG_ID,
+                label: LocalProjectService.LOCAL_PROJECT_LABEL,
+                description: this.localProjectService.getProjectName()
+            });
+        }
+
+        for (const org of this.enhancedOrgManager.getOrgs()) {
+            for (const snapshot of await this.orgSnapshotService.getSnapshots(org.id)) {
+                candidates.push({
+                    id: OrgSnapshotService.getSourceId(snapshot),
+                    label: OrgSnapshotService.getLabel(snapshot),
+                    description: `Snapshot · ${snapshot.fileCount} files`
+                });
+            }
+        }
+
+        return candidates;
+    }
+
+    /**
+     * Show a quick pick of comparison sources
+     */
+    private async pickSource<T extends { label: string; description: string }>(candidates: T[], placeHolder: string): Promise<T | undefined> {
+        return vscode.window.showQuickPick(candidates, { placeHolder });
+    }
+
+    /**
+     * Resolve the directories to compare for an org, an org snapshot or the local project
+     */
+    private async resolveSource(id: string, label: string): Promise<ComparisonSource> {
+        if (LocalProjectService.isLocalProject(id)) {
+            return this.localProjectService.getComparisonSource();
+        }
+
+        if (OrgSnapshotService.isSnapshotSource(id)) {
+            const snapshot = await this.orgSnapshotService.findBySourceId(id);
+            if (!snapshot) {
+                throw new Error(`Snapshot not found: ${label}`);
+            }
+            return this.orgSnapshotService.getComparisonSource(snapshot);
+        }
+
+        const sourceDirectory = await this.enhancedOrgManager.getRetrievedSourceDirectory(id);
+        const contentHashes = this.orgCacheService?.getFileHashes(id, sourceDirectory) || undefined;
+        return { id, label, rootDirectories: [sourceDirectory], contentHashes };
+    }
+
+    /**
+     * Build the summary, status and metadata folder hierarchy for a result
+     */
+    private buildRootNodes(result: OrgComparisonResult): ComparisonTreeNode[] {
+        const statusLabels: [ComparisonStatus, string][] = [
+            [ComparisonStatus.Changed, 'Changed'],
+            [ComparisonStatus.OnlyInLeft, `Only in ${result.left.label}`],
+            [ComparisonStatus.OnlyInRight, `Only in ${result.right.label}`],
+            [ComparisonStatus.Identical, 'Identical']
+        ];
+
+        const nodes: ComparisonTreeNode[] = [{
+            id: 'comparison-summary',
+            label: `${result.left.label} ↔ ${result.right.label}`,
+            kind: 'summary'
+        }];
+
+        for (const [status, label] of statusLabels) {
+            const entries = result.entries.filter(entry => entry.status === status);
+            const folderNodes: ComparisonTreeNode[] = [];
+
+            for (const [folder, folderEntries] of OrgComparisonService.groupByMetadataFolder(entries)) {
+                folderNodes.push({
+                    id: `comparison-${status}-${folder}`,
+                    label: `${folder} (${folderEntries.length})`,
+                    kind: 'folder',
+                    status,
+                    children: folderEntries.map(entry => ({
+                        id: `comparison-${status}-${entry.relativePath}`,
+                        label: entry.relativePath.substring(folder.length + 1) || entry.relativePath,
+                        kind: 'entry',
+                        status,
+                        entry
+                    }))
+                });
+            }
+
+            nodes.push({
+                id: `comparison-${status}`,
+                label: `${label} (${entries.length})`,
+                kind: 'status',
+                status,
+                children: folderNodes
+            });
+        }
+
+        return nodes;
+    }
+
+    /**
+     * Get the custom object a compared path belongs to, for the object file and its fields and validation rules
+     */
+    public static getObjectName(relativePath: string): string | undefined {
+        const component = MetadataPathResolver.resolve(relativePath);
+        if (!component || !OBJECT_MEMBER_TYPES.includes(component.type)) {
+            return undefined;
+        }
+        return component.fullName.split('.')[0];
+    }
+
+    /**
+     * Get the context value of an entry, e.g. "comparisonEntry-changed-xml-permissions"
+     * The suffixes let menus offer semantic, permission, flow and object comparison only where they apply
+     */
+    private getEntryContextValue(entry?: ComparisonEntry): string {
+        let contextValue = `comparisonEntry-${entry?.status}`;
+        if (entry && SemanticXmlDiffService.isSemanticCandidate(entry.relativePath)) {
+            contextValue += '-xml';
+            if (PermissionComparisonService.isPermissionFile(entry.relativePath)) {
+                contextValue += '-permissions';
+            } else if (FlowComparisonService.isFlowFile(entry.relativePath)) {
+                contextValue += '-flow';
+            }
+        }
+        if (entry && OrgComparisonProvider.getObjectName(entry.relativePath)) {
+            contextValue += '-object';
+        }
+        return contextValue;
+    }
+
+    /**
+     * Get the icon representing a comparison status
+     */
+    private getStatusIcon(status?: ComparisonStatus): vscode.ThemeIcon {
+        switch (status) {
+            case ComparisonStatus.Changed:
+                return new vscode.ThemeIcon('diff-modified', new vscode.ThemeColor('gitDecoration.modifiedResourceForeground'));
+            case ComparisonStatus.OnlyInLeft:
+                return new vscode.ThemeIcon('arrow-left', new vscode.ThemeColor('gitDecoration.deletedResourceForeground'));
+            case ComparisonStatus.OnlyInRight:
+                return new vscode.ThemeIcon('arrow-right', new vscode.ThemeColor('gitDecoration.addedResourceForeground'));
+            default:
+                return new vscode.ThemeIcon('check');
+        }
+    }
+}
@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import { EnhancedOrgManager } from '../metadata/EnhancedOrgManager';
+import { OrgCacheService, ReferenceFileStatus } from '../services/OrgCacheService';
+
+/** Badge, color and description of each reference status */
+const STATUS_DECORATIONS: Record<ReferenceFileStatus, { badge: string; color?: string; describe: (reference: string) => string }> = {
+    identical: { badge: '=', describe: reference => `Identical to ${reference}` },
+    modified: { badge: 'M', color: 'gitDecoration.modifiedResourceForeground', describe: reference => `Differs from ${reference}` },
+    missingInReference: { badge: 'A', color: 'gitDecoration.addedResourceForeground', describe: reference => `File missing in ${reference}` },
+    extra: { badge: 'U', color: 'gitDecoration.untrackedResourceForeground', describe: reference => `Component not in ${reference}` }
+};
+
+/**
+ * Decorates the file nodes of the org tree with how they compare with the reference org
+ *
+ * File nodes carry a resource URI of their own scheme, so that the decorations do not show up on the same
+ * files elsewhere, e.g. in editor tabs. Statuses come from the content hashes cached by OrgCacheService.
+ */
+export class ReferenceDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable {
+    public static readonly SCHEME = 'sf-org-compare';
+
+    private _onDidChangeFileDecorations: vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined> = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+    readonly onDidChangeFileDecorations: vscode.Event<vscode.Uri | vscode.Uri[] | undefined> = this._onDidChangeFileDecorations.event;
+
+    private subscription: vscode.Disposable;
+
+    constructor(
+        private orgCacheService: OrgCacheService,
+        private enhancedOrgManager: EnhancedOrgManager
+    ) {
+        // Any org's hashes can change the status of files in every other org, so all decorations are refreshed
+        this.subscription = this.orgCacheService.onDidChangeContentHashes(() => this._onDidChangeFileDecorations.fire(undefined));
+    }
+
+    /**
+     * Get the resource URI of a file node of an org
+     */
+    public static toUri(orgId: string, filePath: string): vscode.Uri {
+        return vscode.Uri.file(filePath).with({ scheme: ReferenceDecorationProvider.SCHEME, query: encodeURIComponent(orgId) });
+    }
+
+    public provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (uri.scheme !== ReferenceDecorationProvider.SCHEME) {
+            return undefined;
+        }
+
+        const status = this.orgCacheService.compareWithReference(decodeURIComponent(uri.query), uri.fsPath);
+        const referenceOrgId = this.orgCacheService.getReferenceOrgId();
+        const referenceOrg = referenceOrgId ? this.enhancedOrgManager.getOrg(referenceOrgId) : undefined;
+        if (!status || !referenceOrg) {
+            return undefined;
+        }
+
+        const decoration = STATUS_DECORATIONS[status];
+        return new vscode.FileDecoration(
+            decoration.badge,
+            decoration.describe(referenceOrg.alias || referenceOrg.username),
+            decoration.color ? new vscode.ThemeColor(decoration.color) : undefined
+        );
+    }
+
+    public dispose(): void {
+        this.subscription.dispose();
+        this._onDidChangeFileDecorations.dispose();
+    }
+}
@@ -1,12 +1,17 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { SalesforceOrg, OrgFile, TreeItem, ItemType } from '../types';
+import { SalesforceOrg, OrgFile, TreeItem, ItemType, ComparisonFilePair, OrgSnapshot, BundleComparisonResult, BundleSource, ComparisonStatus } from '../types';
 import { EnhancedOrgManager } from '../metadata/EnhancedOrgManager';
 import { FileCompareService } from '../services/FileCompareService';
 import { UserErrorReporter } from '../errors/UserErrorReporter';
 import { ProgressManager } from '../progress/ProgressManager';
 import { OrgCacheService } from '../services/OrgCacheService';
+import { LocalProjectService } from '../services/LocalProjectService';
+import { OrgSnapshotService } from '../services/OrgSnapshotService';
+import { BundleComparisonService } from '../services/BundleComparisonService';
+import { ConfigurationManager } from '../config';
+import { ReferenceDecorationProvider } from './ReferenceDecorationProvider';
 
 export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<TreeItem | undefined | null | void> = new vscode.EventEmitter<TreeItem | undefined | null | void>();
@@ -16,11 +21,18 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
     private expandedFolders: string[] = [];
     private orgFilesCache: Map<string, TreeItem[]> = new Map();
     private orgRefreshTimestamps: Map<string, Date> = new Map();
+    private localProjectItems: TreeItem[] | undefined;
+    private lazyItemsCache: Map<string, TreeItem[]> = new Map();
+    private hideIdentical: boolean = false;
+    private selectedBundles: { id: string; source: BundleSource }[] = [];
 
     constructor(
         private enhancedOrgManager: EnhancedOrgManager,
         private fileCompareService: FileCompareService,
-        private orgCacheService: OrgCacheService
+        private orgCacheService: OrgCacheService,
+        private localProjectService: LocalProjectService,
+        private orgSnapshotService?: OrgSnapshotService,
+        private bundleComparisonService: BundleComparisonService = new BundleComparisonService()
     ) {
         this.userErrorReporter = UserErrorReporter.getInstance();
         this.progressManager = ProgressManager.getInstance();
@@ -60,6 +72,8 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
                 }
             }
             
+            await this.updateReferenceContext();
+
             const stats = this.orgCacheService.getCacheStats();
             console.log(`✅ Cache initialized: ${loadedCount}/${currentOrgs.length} orgs loaded from cache`);
             console.log(`📊 Cache stats: ${stats.totalOrgs} orgs, ${stats.totalFiles} files, ${stats.cacheSize}`);
@@ -76,9 +90,21 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
     public async refresh(): Promise<void> {
         console.log('🔄 Refresh button clicked - starting refresh...');
         
+        if (this.isLazyMode()) {
+            // Lazy trees are listed again on expand, nothing is retrieved up front
+            this.lazyItemsCache.clear();
+            for (const org of this.enhancedOrgManager.getOrgs()) {
+                this.enhancedOrgManager.clearFetchedComponents(org.id);
+            }
+            this.localProjectItems = undefined;
+            this._onDidChangeTreeData.fire();
+            return;
+        }
+
         // Clear all caches and refresh timestamps when refresh is clicked
         this.orgFilesCache.clear();
         this.orgRefreshTimestamps.clear();
+        this.localProjectItems = undefined;
         // Don't clear expanded folders - keep folder expansion state
         
         // Get orgs and find expanded ones
@@ -148,9 +174,141 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
      * Refresh a specific org's source files
      */
     public async refreshOrg(orgId: string): Promise<void> {
+        if (LocalProjectService.isLocalProject(orgId)) {
+            // Local files are read straight from the workspace - just re-scan them
+            this.localProjectItems = undefined;
+            this._onDidChangeTreeData.fire();
+            return;
+        }
+        if (this.isLazyMode()) {
+            this.clearLazyItems(orgId);
+            this.enhancedOrgManager.clearFetchedComponents(orgId);
+            this._onDidChangeTreeData.fire();
+            return;
+        }
         return this.refreshOrgWithProgress(orgId);
     }
 
+    /**
+     * Diff an org file against the file at the same path in the local SFDX project
+     */
+    public async compareFileWithLocal(file: OrgFile): Promise<void> {
+        const filePair = await this.getLocalFilePair(file);
+        if (!filePair) {
+            return;
+        }
+
+        await this.fileCompareService.openDiff(
+            filePair.leftPath,
+            filePair.rightPath,
+            `${filePair.leftLabel}: ${file.name} ↔ ${filePair.rightLabel}: ${file.name}`
+        );
+    }
+
+    /**
+     * Pair an org file with the file at the same path in the local SFDX project
+     * Tells the user and returns undefined when the file has no local counterpart
+     */
+    public async getLocalFilePair(file: OrgFile): Promise<ComparisonFilePair | undefined> {
+        if (!file.filePath) {
+            throw new Error(`File path not available for ${file.name}`);
+        }
+
+        if (LocalProjectService.isLocalProject(file.orgId)) {
+            vscode.window.showInformationMessage(`${file.name} already belongs to the local project. Select an org file to compare.`);
+            return undefined;
+        }
+
+        const relativePath = this.enhancedOrgManager.getCachedRelativePath(file.orgId, file.filePath);
+        if (!relativePath) {
+            vscode.window.showWarningMessage(`${file.name} is not in the cached source of its org. Refresh the org and try again.`);
+            return undefined;
+        }
+
+        const localPath = this.localProjectService.findLocalCounterpart(relativePath);
+        if (!localPath) {
+            vscode.window.showWarningMessage(`No local counterpart found for ${relativePath} in the workspace SFDX project.`);
+            return undefined;
+        }
+
+        const org = this.enhancedOrgManager.getOrg(file.orgId);
+        return {
+            leftPath: file.filePath,
+            rightPath: localPath,
+            leftLabel: org?.alias || org?.username || 'Unknown Org',
+            rightLabel: LocalProjectService.LOCAL_PROJECT_LABEL
+        };
+    }
+
+    /**
+     * Show the snapshots in which an org file changed and diff the picked version against the one before it
+     */
+    public async showFileHistory(file: OrgFile): Promise<void> {
+        if (!file.filePath) {
+            throw new Error(`File path not available for ${file.name}`);
+        }
+
+        if (LocalProjectService.isLocalProject(file.orgId) || !this.orgSnapshotService) {
+            vscode.window.showInformationMessage(`No snapshot history is kept for ${file.name}. Select an org file.`);
+            return;
+        }
+
+        const relativePath = this.enhancedOrgManager.getCachedRelativePath(file.orgId, file.filePath);
+        const history = relativePath ? await this.orgSnapshotService.getFileHistory(file.orgId, relativePath) : [];
+
+        if (!relativePath || history.length === 0) {
+            vscode.window.showInformationMessage(`No snapshot history found for ${file.name}. Snapshots are taken when the org is refreshed.`);
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            history.map((entry, index) => ({
+                label: OrgSnapshotService.getLabel(entry.snapshot),
+                description: entry.change,
+                detail: index === history.length - 1 ? 'Oldest recorded version' : undefined,
+                index
+            })),
+            { placeHolder: `History of ${file.name} - select a version to diff against the previous one` }
+        );
+        if (!picked) {
+            return;
+        }
+
+        const current = history[picked.index].snapshot;
+        const previous = history[picked.index + 1]?.snapshot;
+
+        await this.fileCompareService.openDiff(
+            await this.orgSnapshotService.getFileVersion(previous, relativePath),
+            await this.orgSnapshotService.getFileVersion(current, relativePath),
+            `${file.name}: ${previous ? OrgSnapshotService.getLabel(previous) : '(none)'} ↔ ${OrgSnapshotService.getLabel(current)}`
+        );
+    }
+
+    /**
+     * Refresh an org's source files without progress notifications, for background refreshes
+     * @returns The snapshot taken of the refreshed source, if snapshots are enabled
+     */
+    public async refreshOrgInBackground(orgId: string): Promise<OrgSnapshot | undefined> {
+        const org = this.enhancedOrgManager.getOrg(orgId);
+        if (!org) {
+            throw new Error(`Organization with ID "${orgId}" not found`);
+        }
+
+        const sourceDirectory = await this.enhancedOrgManager.refreshOrgSource(orgId);
+
+        // Only orgs whose files were loaded show them in the tree
+        if (this.orgFilesCache.has(orgId)) {
+            const folderItems = await this.traverseSourceDirectory(orgId, sourceDirectory);
+            this.orgFilesCache.set(orgId, folderItems);
+            this.orgRefreshTimestamps.set(orgId, new Date());
+            this.orgCacheService.cacheOrgFiles(orgId, org, folderItems, sourceDirectory);
+        }
+
+        const snapshot = await this.captureSnapshot(org, sourceDirectory);
+        this._onDidChangeTreeData.fire();
+        return snapshot;
+    }
+
     /**
      * Refresh a specific org's source files with progress indicator
      */
@@ -179,7 +337,7 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
                 this.orgRefreshTimestamps.delete(orgId);
                 
                 // Use enhanced org manager's refresh method
-                await this.enhancedOrgManager.refreshOrgSource(orgId);
+                const sourceDirectory = await this.enhancedOrgManager.refreshOrgSource(orgId);
                 progress.updateStep(60, 'Source retrieval complete');
                 
                 // Reload org files if expanded
@@ -187,6 +345,9 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
                     const orgFiles = await this.getOrgFiles(orgId, true); // Force refresh from Salesforce
                     console.log(`✅ Refreshed from Salesforce ${org.alias || org.username}: ${orgFiles.length} file types`);
                     vscode.window.showInformationMessage(`Successfully refreshed ${org.alias || org.username} from Salesforce: ${orgFiles.length} file types`);
+                } else {
+                    // getOrgFiles takes the snapshot for expanded orgs
+                    await this.captureSnapshot(org, sourceDirectory);
                 }
                 
                 progress.completeStep(1);
@@ -300,6 +461,11 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
             collapsibleState = isExpanded ? 
                 vscode.TreeItemCollapsibleState.Expanded : 
                 vscode.TreeItemCollapsibleState.Collapsed;
+        } else if (element.type === ItemType.MetadataType || element.type === ItemType.Component) {
+            // Lazy items load their children on expand, so they are collapsible before any are known
+            collapsibleState = this.expandedFolders.includes(element.id) ?
+                vscode.TreeItemCollapsibleState.Expanded :
+                vscode.TreeItemCollapsibleState.Collapsed;
         } else if (element.children && element.children.length > 0) {
             // Check if this folder is expanded
             const isExpanded = element.type === ItemType.Folder && this.expandedFolders.includes(element.id);
@@ -312,7 +478,12 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
 
         if (element.type === ItemType.Org) {
             treeItem.iconPath = new vscode.ThemeIcon('organization');
-            if (element.id === 'no-orgs') {
+            if (LocalProjectService.isLocalProject(element.orgId)) {
+                treeItem.iconPath = new vscode.ThemeIcon('root-folder');
+                treeItem.contextValue = 'localProject';
+                treeItem.description = '(workspace)';
+                treeItem.tooltip = `${element.label} - SFDX project in the current workspace`;
+            } else if (element.id === 'no-orgs') {
                 // Special case for "add org" button
                 treeItem.command = {
                     command: 'sf-org-source-compare.selectOrg',
@@ -335,9 +506,18 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
                         treeItem.description = '(never)';
                         treeItem.tooltip = `${element.label} - Never refreshed - Right-click for options`;
                     }
+                    if (this.orgCacheService.getReferenceOrgId() === element.orgId) {
+                        treeItem.description = `${treeItem.description} - reference`;
+                        treeItem.tooltip = `${treeItem.tooltip} - Files of other organizations are compared with this one`;
+                    }
                 }
             }
         } else if (element.type === ItemType.File) {
+            if (element.orgId && element.file?.filePath) {
+                // Decorated by ReferenceDecorationProvider with how the file compares with the reference org
+                treeItem.resourceUri = ReferenceDecorationProvider.toUri(element.orgId, element.file.filePath);
+            }
+
             // Check if this file is selected for comparison
             const selectedFiles = this.fileCompareService.getSelectedFiles();
             // For search results, use the original file id for comparison
@@ -393,6 +573,18 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
                     arguments: [element]
                 };
             }
+        } else if (element.type === ItemType.MetadataType) {
+            treeItem.iconPath = new vscode.ThemeIcon('symbol-namespace');
+            treeItem.tooltip = `${element.label} - Expand to list the components in the organization`;
+        } else if (element.type === ItemType.Component) {
+            treeItem.iconPath = new vscode.ThemeIcon('symbol-class');
+            treeItem.tooltip = `${element.component?.type} ${element.label} - Expand to fetch its files from the organization`;
+        } else if (element.type === ItemType.Snapshot && element.snapshot) {
+            const snapshot = element.snapshot;
+            treeItem.iconPath = new vscode.ThemeIcon('history');
+            treeItem.contextValue = 'orgSnapshot';
+            treeItem.description = `${snapshot.fileCount} files`;
+            treeItem.tooltip = `Snapshot of ${snapshot.orgLabel} taken ${snapshot.createdAt.toLocaleString()} - Right-click to compare`;
         } else if (element.type === ItemType.Folder) {
             if (element.id === 'comparison-progress') {
                 // Special styling for comparison progress
@@ -403,22 +595,207 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
             } else {
                 // No icon for regular folders
                 treeItem.iconPath = undefined;
+
+                if (this.getBundleDirectory(element)) {
+                    treeItem.contextValue = 'bundleFolder';
+                    const selectionIndex = this.selectedBundles.findIndex(bundle => bundle.id === element.id);
+                    if (selectionIndex >= 0) {
+                        treeItem.label = `[${selectionIndex + 1}] ${element.label}`;
+                        treeItem.tooltip = `Selected as ${selectionIndex === 0 ? 'first' : 'second'} bundle for comparison - right-click to unselect`;
+                    }
+                }
             }
         }
 
         return treeItem;
     }
 
+    /**
+     * Select an LWC or Aura bundle folder for comparison - selecting a second one compares the two bundles
+     * Selecting a selected bundle again unselects it
+     */
+    public async selectBundle(folder: TreeItem): Promise<void> {
+        const directory = this.getBundleDirectory(folder);
+        const bundleType = directory ? BundleComparisonService.getBundleType(directory) : undefined;
+        if (!directory || !bundleType) {
+            throw new Error(`${folder.label} is not an LWC or Aura bundle`);
+        }
+
+        const existingIndex = this.selectedBundles.findIndex(bundle => bundle.id === folder.id);
+        if (existingIndex >= 0) {
+            this.selectedBundles.splice(existingIndex, 1);
+            this._onDidChangeTreeData.fire();
+            return;
+        }
+
+        this.selectedBundles.push({
+            id: folder.id,
+            source: { label: `${this.getSourceLabel(folder.orgId)}: ${folder.label}`, directory, bundleType }
+        });
+        this._onDidChangeTreeData.fire();
+        if (this.selectedBundles.length < 2) {
+            return;
+        }
+
+        const [left, right] = this.selectedBundles;
+        this.selectedBundles = [];
+        this._onDidChangeTreeData.fire();
+        await this.showBundleComparison(await this.bundleComparisonService.compareBundles(left.source, right.source));
+    }
+
+    /**
+     * List the paired files of two bundles with their status and diff the picked pair, until the list is dismissed
+     */
+    private async showBundleComparison(result: BundleComparisonResult): Promise<void> {
+        const statusLabels: Record<ComparisonStatus, string> = {
+            [ComparisonStatus.Changed]: 'modified',
+            [ComparisonStatus.Identical]: 'identical',
+            [ComparisonStatus.OnlyInLeft]: `only in ${result.left.label}`,
+            [ComparisonStatus.OnlyInRight]: `only in ${result.right.label}`
+        };
+        const differences = result.files.filter(file => file.status !== ComparisonStatus.Identical).length;
+        const items = result.files.map(file => ({
+            label: file.key === file.role ? file.role.charAt(0).toUpperCase() + file.role.slice(1) : file.key,
+            description: statusLabels[file.status],
+            detail: [file.leftPath, file.rightPath].filter(filePath => filePath).map(filePath => path.basename(filePath!)).join(' ↔ '),
+            file
+        }));
+
+        for (;;) {
+            const picked = await vscode.window.showQuickPick(items, {
+                placeHolder: `${result.left.label} ↔ ${result.right.label}: ${differences} of ${result.files.length} files differ - select a file to diff`
+            });
+            if (!picked) {
+                return;
+            }
+
+            const { leftPath, rightPath } = picked.file;
+            if (leftPath && rightPath) {
+                await this.fileCompareService.openDiff(
+                    leftPath,
+                    rightPath,
+                    `${result.left.label}: ${path.basename(leftPath)} ↔ ${result.right.label}: ${path.basename(rightPath)}`
+                );
+            } else {
+                await vscode.window.showTextDocument(vscode.Uri.file((leftPath || rightPath)!));
+            }
+        }
+    }
+
+    /**
+     * Get the directory of an LWC or Aura bundle folder from the files it contains
+     */
+    private getBundleDirectory(folder: TreeItem): string | undefined {
+        const filePath = folder.children?.find(child => child.type === ItemType.File && child.file?.filePath)?.file?.filePath;
+        const directory = filePath ? path.dirname(filePath) : undefined;
+        return directory && BundleComparisonService.getBundleType(directory) ? directory : undefined;
+    }
+
+    /**
+     * Get the label of an org or the local project
+     */
+    private getSourceLabel(orgId: string | undefined): string {
+        if (LocalProjectService.isLocalProject(orgId)) {
+            return LocalProjectService.LOCAL_PROJECT_LABEL;
+        }
+        const org = orgId ? this.enhancedOrgManager.getOrg(orgId) : undefined;
+        return org?.alias || org?.username || 'Unknown Org';
+    }
+
+    /**
+     * Set the org the files of other orgs are compared with
+     */
+    public async setReferenceOrg(orgId: string): Promise<void> {
+        const org = this.enhancedOrgManager.getOrg(orgId);
+        if (!org) {
+            throw new Error(`Organization with ID "${orgId}" not found`);
+        }
+
+        await this.orgCacheService.setReferenceOrgId(orgId);
+        if (!this.orgCacheService.hasContentHashes(orgId)) {
+            vscode.window.showInformationMessage(`${org.alias || org.username} is the reference organization. Expand or refresh it to compare other organizations' files with it.`);
+        }
+
+        await this.updateReferenceContext();
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Stop comparing the files of orgs with a reference org
+     */
+    public async clearReferenceOrg(): Promise<void> {
+        await this.orgCacheService.setReferenceOrgId(undefined);
+        this.hideIdentical = false;
+        await this.updateReferenceContext();
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Show or hide files identical to the reference org, so that only drift remains
+     */
+    public async setHideIdentical(hideIdentical: boolean): Promise<void> {
+        this.hideIdentical = hideIdentical;
+        await this.updateReferenceContext();
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Update the context keys the reference org actions of the view are shown by
+     */
+    private async updateReferenceContext(): Promise<void> {
+        await vscode.commands.executeCommand('setContext', 'sfOrgCompare.hasReferenceOrg', this.orgCacheService.getReferenceOrgId() !== undefined);
+        await vscode.commands.executeCommand('setContext', 'sfOrgCompare.hideIdentical', this.hideIdentical);
+    }
+
+    /**
+     * Drop files identical to the reference org, and folders left without files, while identical files are hidden
+     */
+    private filterIdentical(items: TreeItem[]): TreeItem[] {
+        if (!this.hideIdentical) {
+            return items;
+        }
+        return items.filter(item => !this.isIdenticalToReference(item));
+    }
+
+    /**
+     * Check whether a file, or every file of a folder, is identical to the reference org
+     */
+    private isIdenticalToReference(item: TreeItem): boolean {
+        if (item.type === ItemType.File) {
+            return !!item.orgId && !!item.file?.filePath &&
+                this.orgCacheService.compareWithReference(item.orgId, item.file.filePath) === 'identical';
+        }
+        return item.type === ItemType.Folder && !!item.children && item.children.every(child => this.isIdenticalToReference(child));
+    }
+
     public async getChildren(element?: TreeItem): Promise<TreeItem[]> {
         if (!element) {
             return this.getRootItems();
         }
 
+        if (element.type === ItemType.Org && LocalProjectService.isLocalProject(element.orgId)) {
+            return this.getLocalProjectFiles();
+        }
+
+        if (element.type === ItemType.Org && element.orgId && this.isLazyMode()) {
+            if (!this.expandedOrgs.includes(element.orgId)) {
+                this.expandedOrgs.push(element.orgId);
+            }
+            return [...await this.getSnapshotItems(element.orgId), ...await this.getLazyTypeItems(element.orgId)];
+        }
+
+        if ((element.type === ItemType.MetadataType || element.type === ItemType.Component) && element.orgId) {
+            if (!this.expandedFolders.includes(element.id)) {
+                this.expandedFolders.push(element.id);
+            }
+            return this.getLazyChildren(element);
+        }
+
         if (element.type === ItemType.Org && element.orgId) {
             // Check if we have cached files for this org
             if (this.orgFilesCache.has(element.orgId)) {
                 console.log('Returning cached files for org expansion:', element.orgId);
-                return this.orgFilesCache.get(element.orgId) || [];
+                return [...await this.getSnapshotItems(element.orgId), ...this.filterIdentical(this.orgFilesCache.get(element.orgId) || [])];
             } else {
                 // No cached files - load them when expanding org
                 console.log('Auto-expanding org via getChildren:', element.orgId);
@@ -437,7 +814,7 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
                         console.log(`${element.label} expanded - showing placeholder, click refresh to load files`);
                     }
                     
-                    return orgFiles;
+                    return [...await this.getSnapshotItems(element.orgId), ...this.filterIdentical(orgFiles)];
                 } catch (error) {
                     console.error('Error auto-expanding org:', error);
                     await this.userErrorReporter.reportOperationFailure(
@@ -457,7 +834,7 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
                 this.expandedFolders.push(element.id);
                 console.log('Expanded folder:', element.id);
             }
-            return element.children;
+            return this.filterIdentical(element.children);
         }
 
         return element.children || [];
@@ -482,6 +859,16 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
 
 
 
+        // Show the workspace SFDX project as a pseudo-org
+        if (this.localProjectService.hasProject()) {
+            items.push({
+                id: LocalProjectService.LOCAL_PROJECT_ORG_ID,
+                label: `${LocalProjectService.LOCAL_PROJECT_LABEL} (${this.localProjectService.getProjectName()})`,
+                type: ItemType.Org,
+                orgId: LocalProjectService.LOCAL_PROJECT_ORG_ID
+            });
+        }
+
         if (orgs.length === 0) {
             items.push({
                 id: 'no-orgs',
@@ -556,7 +943,8 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
             // Save to persistent cache
             const org = this.enhancedOrgManager.getOrg(orgId);
             if (org) {
-                this.orgCacheService.cacheOrgFiles(orgId, org, folderItems);
+                this.orgCacheService.cacheOrgFiles(orgId, org, folderItems, sourceDirectory);
+                await this.captureSnapshot(org, sourceDirectory);
             }
             
             return folderItems;
@@ -571,6 +959,160 @@ export class SfOrgCompareProvider implements vscode.TreeDataProvider<TreeItem> {
         }
     }
 
+    /**
+     * Keep a snapshot of freshly retrieved source - a failing snapshot never fails the refresh
+     */
+    private async captureSnapshot(org: SalesforceOrg, sourceDirectory: string): Promise<OrgSnapshot | undefined> {
+        if (!this.orgSnapshotService?.isEnabled()) {
+            return undefined;
+        }
+
+        try {
+            return await this.orgSnapshotService.createSnapshot(org, sourceDirectory);
+        } catch (error) {
+            console.warn(`Failed to create snapshot of ${org.alias || org.username}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Check whether org trees are listed on demand instead of walking a full retrieval
+     */
+    private isLazyMode(): boolean {
+        return ConfigurationManager.getInstance().getTreeMode() === 'lazy';
+    }
+
+    /**
+     * Build the metadata type items of an org in lazy mode
+     */
+    private async getLazyTypeItems(orgId: string): Promise<TreeItem[]> {
+        try {
+            const types = await this.enhancedOrgManager.getBrowsableMetadataTypes(orgId);
+            return types.map(({ type, label }) => ({
+                id: `${orgId}-type-${type}`,
+                label,
+                type: ItemType.MetadataType,
+                orgId,
+                metadataType: type
+            }));
+        } catch (error) {
+            console.error('Error listing metadata types:', error);
+            return [];
+        }
+    }
+
+    /**
+     * List the components of a metadata type item, or fetch the files of a component item, once until refreshed
+     */
+    private async getLazyChildren(element: TreeItem): Promise<TreeItem[]> {
+        const cached = this.lazyItemsCache.get(element.id);
+        if (cached) {
+            return cached;
+        }
+
+        const orgId = element.orgId!;
+        try {
+            let items: TreeItem[];
+            if (element.type === ItemType.MetadataType) {
+                const components = await this.enhancedOrgManager.listMetadataComponents(orgId, element.metadataType!);
+                items = components.map(component => ({
+                    id: `${element.id}-${component.fullName}`,
+                    label: component.fullName,
+                    type: ItemType.Component,
+                    orgId,
+                    component
+                }));
+            } else {
+                const files = await this.enhancedOrgManager.retrieveComponentFiles(orgId, element.component!);
+                items = files.map(file => ({
+                    id: file.id,
+                    label: file.name,
+                    type: ItemType.File,
+                    orgId,
+                    file
+                }));
+            }
+
+            this.lazyItemsCache.set(element.id, items);
+            return items;
+        } catch (error) {
+            console.error(`Error loading ${element.label}:`, error);
+            await this.userErrorReporter.reportOperationFailure(
+                `Load ${element.label}`,
+                error as Error,
+                { orgId }
+            );
+            return [];
+        }
+    }
+
+    /**
+     * Forget the lazily loaded items of an org
+     */
+    private clearLazyItems(orgId: string): void {
+        for (const id of [...this.lazyItemsCache.keys()].filter(id => id.startsWith(`${orgId}-type-`))) {
+            this.lazyItemsCache.delete(id);
+        }
+    }
+
+    /**
+     * Build the "Snapshots" folder listed first under an org, if the org has any
+     */
+    private async getSnapshotItems(orgId: string): Promise<TreeItem[]> {
+        const snapshots = await this.orgSnapshotService?.getSnapshots(orgId) || [];
+        if (snapshots.length === 0) {
+            return [];
+        }
+
+        return [{
+            id: `${orgId}-snapshots`,
+            label: `Snapshots (${snapshots.length})`,
+            type: ItemType.Folder,
+            orgId,
+            children: snapshots.map(snapshot => ({
+                id: `${orgId}-snapshot-${snapshot.id}`,
+                label: OrgSnapshotService.getLabel(snapshot),
+                type: ItemType.Snapshot,
+                orgId,
+                snapshot
+            }))
+        }];
+    }
+
+    /**
+     * Build TreeItems for the package directories of the local SFDX project
+     */
+    private async getLocalProjectFiles(): Promise<TreeItem[]> {
+        if (this.localProjectItems) {
+            return this.localProjectItems;
+        }
+
+        const orgId = LocalProjectService.LOCAL_PROJECT_ORG_ID;
+        const sourceRoots = this.localProjectService.getSourceRoots();
+        let items: TreeItem[];
+
+        if (sourceRoots.length === 1) {
+            items = await this.traverseSourceDirectory(orgId, sourceRoots[0]);
+        } else {
+            // Show one folder per package directory when the project has several
+            items = [];
+            for (const packageDirectory of this.localProjectService.getPackageDirectories()) {
+                const packageName = path.basename(packageDirectory);
+                const children = await this.traverseDirectory(orgId, packageDirectory, `${orgId}-${packageName}`);
+                items.push({
+                    id: `${orgId}-${packageName}`,
+                    label: packageName,
+                    type: ItemType.Folder,
+                    orgId,
+                    children: children.length > 0 ? children : undefined
+                });
+            }
+        }
+
+        this.localProjectItems = items;
+        return items;
+    }
+
     /**
      * Traverse the SFDX source directory and create TreeItems from the actual folder structure
      */
@@ -1,6 +1,7 @@
 import { spawn, exec } from 'child_process';
 import { promisify } from 'util';
-import { SF_CONFIG } from '../config';
+import * as path from 'path';
+import { SF_CONFIG } from '../config/Constants';
 
 /**
  * Secure command execution utility to prevent command injection vulnerabilities
@@ -33,6 +34,36 @@ export class SecureCommandExecutor {
         '--version'
     ] as const;
 
+    // deploy is not part of the whitelist, so that only executeProjectDeploy can issue it
+    private static readonly DEPLOY_OPERATIONS = ['deploy'] as const;
+
+    // Whitelist of allowed deployment test levels
+    private static readonly ALLOWED_TEST_LEVELS = [
+        'NoTestRun',
+        'RunLocalTests',
+        'RunAllTestsInOrg'
+    ] as const;
+
+    // Whitelist of git operations used by the org history repositories
+    private static readonly ALLOWED_GIT_OPERATIONS = [
+        'init',
+        'config',
+        'add',
+        'commit',
+        'commit-tree',
+        'update-ref',
+        'rev-parse',
+        'rev-list',
+        'log',
+        'diff',
+        'ls-tree',
+        'read-tree',
+        'checkout-index',
+        'reflog',
+        'replace',
+        'gc'
+    ] as const;
+
     // Whitelist of allowed metadata types
     private static readonly ALLOWED_METADATA_TYPES = [
         'ApexClass',
@@ -76,7 +107,25 @@ export class SecureCommandExecutor {
             timeout?: number;
             cwd?: string;
             orgIdentifier?: string;
+            /** Resolve on a non-zero exit code, for --json commands reporting failures in their output */
+            ignoreExitCode?: boolean;
         } = {}
+    ): Promise<{ stdout: string; stderr: string }> {
+        return this.executeAllowedCommand(command, args, options, this.ALLOWED_OPERATIONS);
+    }
+
+    /**
+     * Validate and execute an SF CLI command whose operation is one of allowedOperations
+     */
+    private static async executeAllowedCommand(
+        command: string,
+        args: string[],
+        options: {
+            timeout?: number;
+            cwd?: string;
+            ignoreExitCode?: boolean;
+        },
+        allowedOperations: readonly string[]
     ): Promise<{ stdout: string; stderr: string }> {
         // Validate base command
         if (!this.isAllowedCommand(command)) {
@@ -89,27 +138,86 @@ export class SecureCommandExecutor {
         // Validate arguments for suspicious content
         this.validateArguments(sanitizedArgs);
 
+        // Validate the subcommand and operation against the whitelists
+        this.validateOperation(sanitizedArgs, allowedOperations);
+
         // Set timeout from configuration
         const timeout = options.timeout || SF_CONFIG.TIMEOUTS.CLI_COMMAND;
 
+        // On Windows, we need shell mode to execute .cmd files properly
+        const useShell = process.platform === 'win32' && (command === 'sf' || command === 'sfdx');
+
+        return this.runProcess(command, sanitizedArgs, {
+            timeout,
+            cwd: options.cwd,
+            shell: useShell,
+            ignoreExitCode: options.ignoreExitCode
+        });
+    }
+
+    /**
+     * Execute a git command against the repository at gitDir, optionally with a separate work tree
+     * Arguments are passed without a shell, so only the git operation itself is checked against a whitelist
+     */
+    public static async executeGit(
+        gitDir: string,
+        args: string[],
+        options: {
+            workTree?: string;
+            env?: Record<string, string>;
+            timeout?: number;
+        } = {}
+    ): Promise<{ stdout: string; stderr: string }> {
+        if (!gitDir || !path.isAbsolute(gitDir)) {
+            throw new Error(`Invalid git directory: ${gitDir}`);
+        }
+
+        const [operation] = args;
+        if (!this.ALLOWED_GIT_OPERATIONS.includes(operation as any)) {
+            throw new Error(`Security violation: Git operation '${operation}' is not allowed`);
+        }
+
+        if (args.some(arg => typeof arg !== 'string' || arg.includes('\0'))) {
+            throw new Error('Security violation: Invalid git argument');
+        }
+
+        const globalArgs = ['--git-dir', gitDir];
+        if (options.workTree) {
+            globalArgs.push('--work-tree', options.workTree);
+        }
+
+        return this.runProcess('git', [...globalArgs, ...args], {
+            timeout: options.timeout || SF_CONFIG.TIMEOUTS.CLI_COMMAND,
+            cwd: options.workTree,
+            env: options.env,
+            shell: false
+        });
+    }
+
+    /**
+     * Spawn a process and collect its output, killing it when it exceeds the timeout
+     */
+    private static runProcess(
+        command: string,
+        args: string[],
+        options: {
+            timeout: number;
+            cwd?: string;
+            env?: Record<string, string>;
+            shell: boolean;
+            ignoreExitCode?: boolean;
+        }
+    ): Promise<{ stdout: string; stderr: string }> {
         return new Promise((resolve, reject) => {
             let stdout = '';
             let stderr = '';
             let processCompleted = false;
 
-            // On Windows, we need to use shell mode for .cmd files or find the .exe
-            let finalCommand = command;
-            let useShell = false;
-            
-            if (process.platform === 'win32' && (command === 'sf' || command === 'sfdx')) {
-                // For Windows, we need shell mode to execute .cmd files properly
-                useShell = true;
-            }
-
-            const childProcess = spawn(finalCommand, sanitizedArgs, {
+            const childProcess = spawn(command, args, {
                 cwd: options.cwd,
+                env: options.env ? { ...process.env, ...options.env } : undefined,
                 stdio: ['ignore', 'pipe', 'pipe'],
-                shell: useShell // Use shell only when necessary for Windows .cmd files
+                shell: options.shell // Use shell only when necessary for Windows .cmd files
             });
 
             // Set timeout
@@ -125,9 +233,9 @@ export class SecureCommandExecutor {
                         }
                     }, SF_CONFIG.TIMEOUTS.PROCESS_KILL);
                     
-                    reject(new Error(`Command timeout: ${command} ${sanitizedArgs.join(' ')}`));
+                    reject(new Error(`Command timeout: ${command} ${args.join(' ')}`));
                 }
-            }, timeout);
+            }, options.timeout);
 
             childProcess.stdout?.on('data', (data: Buffer) => {
                 stdout += data.toString();
@@ -150,7 +258,7 @@ export class SecureCommandExecutor {
                     processCompleted = true;
                     clearTimeout(timeoutHandle);
 
-                    if (code === 0) {
+                    if (code === 0 || options.ignoreExitCode) {
                         resolve({ stdout, stderr });
                     } else {
                         reject(new Error(`Command failed with code ${code}: ${stderr || 'Unknown error'}`));
@@ -222,17 +330,22 @@ export class SecureCommandExecutor {
 
     /**
      * Execute SF project retrieve start command safely
+     * The source is retrieved into the project directory, the manifest path is relative to it
      */
     public static async executeProjectRetrieve(
         manifestPath: string,
         orgIdentifier: string,
-        targetDir?: string
+        projectDir: string,
+        timeout: number = SF_CONFIG.TIMEOUTS.CLI_COMMAND
     ): Promise<{ stdout: string; stderr: string }> {
         // Validate inputs
         this.validateFilePath(manifestPath);
         this.validateOrgIdentifier(orgIdentifier);
+        if (!projectDir || !path.isAbsolute(projectDir)) {
+            throw new Error(`Invalid project directory: ${projectDir}`);
+        }
 
-        const args = [
+        return this.executeCommand('sf', [
             'project',
             'retrieve',
             'start',
@@ -241,15 +354,58 @@ export class SecureCommandExecutor {
             '--target-org',
             orgIdentifier,
             '--json'
+        ], { cwd: projectDir, timeout });
+    }
+
+    /**
+     * Execute SF project deploy start command safely
+     * The project directory holds the staged source, the manifest path is relative to it
+     * The JSON output is returned for failed deployments too, it lists the component failures
+     */
+    public static async executeProjectDeploy(
+        manifestPath: string,
+        orgIdentifier: string,
+        projectDir: string,
+        options: {
+            dryRun: boolean;
+            testLevel?: string;
+        }
+    ): Promise<{ stdout: string; stderr: string }> {
+        // Validate inputs
+        this.validateFilePath(manifestPath);
+        this.validateOrgIdentifier(orgIdentifier);
+        if (!projectDir || !path.isAbsolute(projectDir)) {
+            throw new Error(`Invalid project directory: ${projectDir}`);
+        }
+
+        const args = [
+            'project',
+            'deploy',
+            'start',
+            '--manifest',
+            manifestPath,
+            '--target-org',
+            orgIdentifier,
+            '--wait',
+            String(Math.ceil(SF_CONFIG.TIMEOUTS.DEPLOYMENT / 60000)),
+            '--json'
         ];
 
-        const options: any = {};
-        if (targetDir) {
-            this.validateFilePath(targetDir);
-            options.cwd = targetDir;
+        if (options.dryRun) {
+            args.push('--dry-run');
+        }
+
+        if (options.testLevel) {
+            this.validateTestLevel(options.testLevel);
+            args.push('--test-level', options.testLevel);
         }
 
-        return this.executeCommand('sf', args, options);
+        return this.executeAllowedCommand('sf', args, {
+            cwd: projectDir,
+            // Leave the CLI time to report a deployment that ran into its wait limit
+            timeout: SF_CONFIG.TIMEOUTS.DEPLOYMENT + SF_CONFIG.TIMEOUTS.SHORT,
+            ignoreExitCode: true
+        }, this.DEPLOY_OPERATIONS);
     }
 
     /**
@@ -341,6 +497,31 @@ export class SecureCommandExecutor {
         return suspiciousPatterns.some(pattern => pattern.test(input));
     }
 
+    private static validateOperation(args: string[], allowedOperations: readonly string[]): void {
+        const [subcommand, operation] = args;
+
+        if (subcommand?.startsWith('-')) {
+            if (!allowedOperations.includes(subcommand)) {
+                throw new Error(`Security violation: Flag '${subcommand}' is not allowed`);
+            }
+            return;
+        }
+
+        if (!this.ALLOWED_SUBCOMMANDS.includes(subcommand as any)) {
+            throw new Error(`Security violation: Subcommand '${subcommand}' is not allowed`);
+        }
+
+        if (!allowedOperations.includes(operation)) {
+            throw new Error(`Security violation: Operation '${subcommand} ${operation}' is not allowed`);
+        }
+    }
+
+    private static validateTestLevel(testLevel: string): void {
+        if (!this.ALLOWED_TEST_LEVELS.includes(testLevel as any)) {
+            throw new Error(`Unsupported test level: ${testLevel}`);
+        }
+    }
+
     private static validateOrgIdentifier(orgId: string): void {
         if (!orgId || typeof orgId !== 'string') {
             throw new Error('Invalid org identifier: must be a non-empty string');
@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BundleComparisonResult, BundleFileComparison, BundleFileRole, BundleSource, ComparisonStatus } from '../types';
+import { OrgComparisonService } from './OrgComparisonService';
+
+/**
+ * Role of each bundle file, by the part of its name following the bundle name
+ */
+const ROLE_SUFFIXES: Record<BundleSource['bundleType'], Record<string, BundleFileRole>> = {
+    lwc: {
+        '.js': BundleFileRole.Controller,
+        '.ts': BundleFileRole.Controller,
+        '.html': BundleFileRole.Template,
+        '.css': BundleFileRole.Css,
+        '.js-meta.xml': BundleFileRole.Meta,
+        '.svg': BundleFileRole.Svg
+    },
+    aura: {
+        '.cmp': BundleFileRole.Template,
+        '.app': BundleFileRole.Template,
+        '.evt': BundleFileRole.Template,
+        '.intf': BundleFileRole.Template,
+        '.tokens': BundleFileRole.Template,
+        'Controller.js': BundleFileRole.Controller,
+        'Helper.js': BundleFileRole.Helper,
+        'Renderer.js': BundleFileRole.Renderer,
+        '.css': BundleFileRole.Css,
+        '.design': BundleFileRole.Design,
+        '.auradoc': BundleFileRole.Documentation,
+        '.svg': BundleFileRole.Svg
+    }
+};
+
+/** Display order of the roles */
+const ROLE_ORDER = Object.values(BundleFileRole);
+
+/**
+ * Service comparing two LWC or Aura bundles file by file
+ *
+ * Files are paired by their role in the bundle rather than by name, so bundles with different names
+ * (e.g. orderList and orderListV2) compare controller with controller and template with template.
+ * Files without a role of their own, such as further modules or tests, are paired by their bundle-relative path.
+ */
+export class BundleComparisonService {
+
+    constructor(private orgComparisonService: OrgComparisonService = new OrgComparisonService()) {}
+
+    /**
+     * Get the bundle type of a directory, i.e. whether it is a folder below lwc/ or aura/
+     */
+    public static getBundleType(directory: string): BundleSource['bundleType'] | undefined {
+        const container = path.basename(path.dirname(directory));
+        return container === 'lwc' || container === 'aura' ? container : undefined;
+    }
+
+    /**
+     * Get the role of a bundle file
+     * @param relativePath Forward-slash path relative to the bundle directory
+     */
+    public static getFileRole(bundleType: BundleSource['bundleType'], bundleName: string, relativePath: string): BundleFileRole {
+        if (relativePath.includes('/') || !relativePath.startsWith(bundleName)) {
+            return BundleFileRole.Other;
+        }
+
+        const suffix = relativePath.substring(bundleName.length);
+        if (bundleType === 'aura' && suffix.endsWith('-meta.xml')) {
+            return BundleFileRole.Meta;
+        }
+        return ROLE_SUFFIXES[bundleType][suffix] || BundleFileRole.Other;
+    }
+
+    /**
+     * Pair the files of two bundles by role and compare each pair
+     */
+    public async compareBundles(left: BundleSource, right: BundleSource): Promise<BundleComparisonResult> {
+        if (left.bundleType !== right.bundleType) {
+            throw new Error(`Cannot compare the ${left.bundleType.toUpperCase()} bundle ${left.label} with the ${right.bundleType.toUpperCase()} bundle ${right.label}`);
+        }
+
+        const leftFiles = await this.collectBundleFiles(left);
+        const rightFiles = await this.collectBundleFiles(right);
+        const files: BundleFileComparison[] = [];
+
+        for (const key of new Set([...leftFiles.keys(), ...rightFiles.keys()])) {
+            const leftFile = leftFiles.get(key);
+            const rightFile = rightFiles.get(key);
+            let status: ComparisonStatus;
+
+            if (leftFile && rightFile) {
+                status = await this.orgComparisonService.filesEqual(leftFile.filePath, rightFile.filePath)
+                    ? ComparisonStatus.Identical
+                    : ComparisonStatus.Changed;
+            } else {
+                status = leftFile ? ComparisonStatus.OnlyInLeft : ComparisonStatus.OnlyInRight;
+            }
+
+            files.push({
+                role: (leftFile || rightFile)!.role,
+                key,
+                status,
+                leftPath: leftFile?.filePath,
+                rightPath: rightFile?.filePath
+            });
+        }
+
+        files.sort((a, b) => ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role) || a.key.localeCompare(b.key));
+        return { left, right, files };
+    }
+
+    /**
+     * Collect the files of a bundle keyed by their role, or by their bundle-relative path when they have none
+     */
+    private async collectBundleFiles(bundle: BundleSource): Promise<Map<string, { role: BundleFileRole; filePath: string }>> {
+        if (!fs.existsSync(bundle.directory)) {
+            throw new Error(`Bundle directory does not exist: ${bundle.directory}`);
+        }
+
+        const bundleName = path.basename(bundle.directory);
+        const files = new Map<string, { role: BundleFileRole; filePath: string }>();
+        const walk = async (directory: string): Promise<void> => {
+            for (const entry of await fs.promises.readdir(directory, { withFileTypes: true })) {
+                const filePath = path.join(directory, entry.name);
+                if (entry.isDirectory()) {
+                    await walk(filePath);
+                    continue;
+                }
+
+                const relativePath = path.relative(bundle.directory, filePath).split(path.sep).join('/');
+                const role = BundleComparisonService.getFileRole(bundle.bundleType, bundleName, relativePath);
+                files.set(role === BundleFileRole.Other ? relativePath : role, { role, filePath });
+            }
+        };
+        await walk(bundle.directory);
+
+        return files;
+    }
+}
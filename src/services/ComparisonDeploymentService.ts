@@ -0,0 +1,290 @@
+import * as vscode from 'vscode';
+import { ComparisonSource, ComparisonStatus, OrgComparisonResult } from '../types';
+import { UserErrorReporter } from '../errors/UserErrorReporter';
+import { ProgressManager } from '../progress/ProgressManager';
+import { DeploymentService } from './DeploymentService';
+import { LocalProjectService } from './LocalProjectService';
+import { DESTRUCTIVE_CHANGES_FILE_NAMES, DestructiveChangesTiming, ManifestManager } from './ManifestManager';
+import { OrgComparisonService } from './OrgComparisonService';
+import { OrgSnapshotService } from './OrgSnapshotService';
+
+/**
+ * Service guiding the user from a comparison to a package.xml, destructive changes or a deployment of its differences
+ * Each workflow asks for the deployment direction and the components first; nothing changes an org without confirmation.
+ */
+export class ComparisonDeploymentService {
+
+    constructor(
+        private manifestManager: ManifestManager,
+        private orgComparisonService: OrgComparisonService,
+        private deploymentService: DeploymentService,
+        private userErrorReporter: UserErrorReporter
+    ) {}
+
+    /**
+     * Let the user pick a deployment direction and the differing components, then preview or save their package.xml
+     */
+    public async generateDeploymentManifest(result: OrgComparisonResult): Promise<void> {
+        const direction = await this.pickDeploymentDirection(result);
+        if (!direction || this.rejectNonOrgTarget(direction.target, 'A package.xml')) {
+            return;
+        }
+
+        const components = OrgComparisonService.getComponents(result.entries.filter(entry =>
+            entry.status === ComparisonStatus.Changed || entry.status === direction.onlyInSource
+        ));
+        if (components.length === 0) {
+            vscode.window.showInformationMessage(`No components to deploy from ${direction.source.label} to ${direction.target.label}.`);
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            components.map(component => ({ label: component.fullName, description: component.type, picked: true, component })),
+            { canPickMany: true, placeHolder: `Select the components to deploy to ${direction.target.label}` }
+        );
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const selectedComponents = selected.map(item => item.component);
+        const action = await vscode.window.showQuickPick(['Preview', 'Save to Workspace'], { placeHolder: 'What do you want to do with the package.xml?' });
+        if (action === 'Preview') {
+            const document = await vscode.workspace.openTextDocument({
+                content: this.manifestManager.generateManifest(direction.target.id, selectedComponents),
+                language: 'xml'
+            });
+            await vscode.window.showTextDocument(document);
+        } else if (action === 'Save to Workspace') {
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, 'manifest', 'package.xml') : undefined,
+                filters: { 'Package Manifest': ['xml'] },
+                saveLabel: 'Save'
+            });
+            if (!target) {
+                return;
+            }
+
+            await this.manifestManager.saveManifestToFile(direction.target.id, target.fsPath, selectedComponents);
+            const open = await vscode.window.showInformationMessage(
+                `Saved package.xml with ${selectedComponents.length} components to ${target.fsPath}`,
+                'Open'
+            );
+            if (open === 'Open') {
+                await vscode.window.showTextDocument(target);
+            }
+        }
+    }
+
+    /**
+     * Let the user pick the components only present in the deployment target, then preview and save their destructive changes
+     */
+    public async generateDestructiveChangesManifest(result: OrgComparisonResult): Promise<void> {
+        const direction = await this.pickDeploymentDirection(result);
+        if (!direction || this.rejectNonOrgTarget(direction.target, 'Destructive changes')) {
+            return;
+        }
+
+        const components = OrgComparisonService.getComponentsOnlyIn(result.entries, direction.onlyInTarget);
+        if (components.length === 0) {
+            vscode.window.showInformationMessage(`No components exist only in ${direction.target.label}.`);
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            components.map(component => ({ label: component.fullName, description: component.type, picked: true, component })),
+            { canPickMany: true, placeHolder: `Select the components to delete from ${direction.target.label}` }
+        );
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const timing = await vscode.window.showQuickPick([
+            { label: 'After deployment', description: DESTRUCTIVE_CHANGES_FILE_NAMES.post, timing: 'post' as DestructiveChangesTiming },
+            { label: 'Before deployment', description: DESTRUCTIVE_CHANGES_FILE_NAMES.pre, timing: 'pre' as DestructiveChangesTiming }
+        ], { placeHolder: 'When should the components be deleted?' });
+        if (!timing) {
+            return;
+        }
+
+        const selectedComponents = selected.map(item => item.component);
+        const targetFiles = OrgComparisonService.getSourceFiles(result, direction.target);
+
+        const references = await ProgressManager.getInstance().withProgress('DESTRUCTIVE_CHANGES', async (progress) => {
+            progress.startStep(0, `Searching ${direction.target.label} for references`);
+            const found = await this.orgComparisonService.findReferences(selectedComponents, targetFiles);
+            progress.completeStep(0);
+            return found;
+        });
+
+        // Show the file to be saved before asking for confirmation
+        const document = await vscode.workspace.openTextDocument({
+            content: this.manifestManager.generateDestructiveChanges(direction.target.id, selectedComponents),
+            language: 'xml'
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+
+        const detail = references.length === 0
+            ? `No references to these components were found in ${direction.target.label}.`
+            : `These components are still referenced in ${direction.target.label}:\n\n` + references.map(reference =>
+                `• ${reference.component.type} ${reference.component.fullName}: ${reference.referencedBy.slice(0, 5).join(', ')}` +
+                (reference.referencedBy.length > 5 ? ` and ${reference.referencedBy.length - 5} more` : '')
+            ).join('\n');
+        const confirmation = await vscode.window.showWarningMessage(
+            `Delete ${selectedComponents.length} components from ${direction.target.label}?`,
+            { modal: true, detail },
+            'Save to Workspace'
+        );
+        if (confirmation !== 'Save to Workspace') {
+            return;
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = DESTRUCTIVE_CHANGES_FILE_NAMES[timing.timing];
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, 'manifest', fileName) : undefined,
+            filters: { 'Destructive Changes': ['xml'] },
+            saveLabel: 'Save'
+        });
+        if (!target) {
+            return;
+        }
+
+        await this.manifestManager.saveDestructiveChangesToFile(direction.target.id, target.fsPath, selectedComponents);
+        vscode.window.showInformationMessage(
+            `Saved ${fileName} with ${selectedComponents.length} components to ${target.fsPath}. ` +
+            `Deploy it together with a package.xml, e.g. with --${timing.timing}-destructive-changes.`
+        );
+    }
+
+    /**
+     * Let the user pick differing components, validate their deployment to the target and deploy them once confirmed
+     */
+    public async deployComparisonDifferences(result: OrgComparisonResult): Promise<void> {
+        const direction = await this.pickDeploymentDirection(result);
+        if (!direction || this.rejectNonOrgTarget(direction.target, 'Deployments')) {
+            return;
+        }
+
+        const components = OrgComparisonService.getComponents(result.entries.filter(entry =>
+            entry.status === ComparisonStatus.Changed || entry.status === direction.onlyInSource
+        ));
+        if (components.length === 0) {
+            vscode.window.showInformationMessage(`No components to deploy from ${direction.source.label} to ${direction.target.label}.`);
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            components.map(component => ({ label: component.fullName, description: component.type, picked: true, component })),
+            { canPickMany: true, placeHolder: `Select the components to deploy to ${direction.target.label}` }
+        );
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const testLevel = await vscode.window.showQuickPick([
+            { label: 'Default', description: 'Use the default test level of the organization', value: undefined },
+            { label: 'NoTestRun', description: 'Run no tests (not allowed in production)', value: 'NoTestRun' },
+            { label: 'RunLocalTests', description: 'Run all tests except managed package tests', value: 'RunLocalTests' },
+            { label: 'RunAllTestsInOrg', description: 'Run all tests in the organization', value: 'RunAllTestsInOrg' }
+        ], { placeHolder: 'Select the test level' });
+        if (!testLevel) {
+            return;
+        }
+
+        const selectedComponents = selected.map(item => item.component);
+        let stagingDir: string | undefined;
+
+        try {
+            const validation = await ProgressManager.getInstance().withProgress('DEPLOYMENT_VALIDATION', async (progress) => {
+                progress.startStep(0, `Staging ${selectedComponents.length} components from ${direction.source.label}`);
+                stagingDir = await this.deploymentService.stageComponents(
+                    selectedComponents,
+                    OrgComparisonService.getSourceFiles(result, direction.source),
+                    direction.target.id
+                );
+                progress.completeStep(0);
+
+                progress.startStep(1, `Validating deployment to ${direction.target.label}`);
+                const validationResult = await this.deploymentService.validate(stagingDir, direction.target.id, testLevel.value);
+                progress.completeStep(1);
+                return validationResult;
+            });
+
+            if (!validation.success) {
+                await this.userErrorReporter.reportDeploymentFailure(direction.target.label, validation);
+                return;
+            }
+
+            const confirmation = await vscode.window.showWarningMessage(
+                `Validation succeeded. Deploy ${selectedComponents.length} components from ${direction.source.label} to ${direction.target.label}?`,
+                { modal: true, detail: 'This changes the target organization and cannot be undone from this extension.' },
+                'Deploy'
+            );
+            if (confirmation !== 'Deploy') {
+                return;
+            }
+
+            const deployment = await ProgressManager.getInstance().withProgress('DEPLOYMENT', async (progress) => {
+                progress.startStep(0, `Deploying to ${direction.target.label}`);
+                const deploymentResult = await this.deploymentService.deploy(stagingDir!, direction.target.id, testLevel.value);
+                progress.completeStep(0);
+                return deploymentResult;
+            });
+
+            if (!deployment.success) {
+                await this.userErrorReporter.reportDeploymentFailure(direction.target.label, deployment);
+                return;
+            }
+
+            vscode.window.showInformationMessage(
+                `Deployed ${deployment.numberComponentsDeployed} components to ${direction.target.label}. Refresh the organization to update the comparison.`
+            );
+        } finally {
+            if (stagingDir) {
+                await this.deploymentService.cleanup(stagingDir);
+            }
+        }
+    }
+
+    /**
+     * Warn when the deployment target is the local project or a snapshot rather than an organization
+     * @param subject What is refused, e.g. "Deployments"
+     * @returns Whether the target was rejected
+     */
+    private rejectNonOrgTarget(target: ComparisonSource, subject: string): boolean {
+        if (LocalProjectService.isLocalProject(target.id)) {
+            vscode.window.showWarningMessage(`${subject} can only target an organization, not the local project.`);
+            return true;
+        }
+
+        if (OrgSnapshotService.isSnapshotSource(target.id)) {
+            vscode.window.showWarningMessage(`${subject} can only target an organization, not a snapshot.`);
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Ask which side of a comparison is deployed to the other
+     */
+    private async pickDeploymentDirection(result: OrgComparisonResult) {
+        return vscode.window.showQuickPick([
+            {
+                label: `${result.left.label} → ${result.right.label}`,
+                source: result.left,
+                target: result.right,
+                onlyInSource: ComparisonStatus.OnlyInLeft as const,
+                onlyInTarget: ComparisonStatus.OnlyInRight as const
+            },
+            {
+                label: `${result.right.label} → ${result.left.label}`,
+                source: result.right,
+                target: result.left,
+                onlyInSource: ComparisonStatus.OnlyInRight as const,
+                onlyInTarget: ComparisonStatus.OnlyInLeft as const
+            }
+        ], { placeHolder: 'Select the deployment direction' });
+    }
+}
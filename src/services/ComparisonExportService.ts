@@ -0,0 +1,424 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MetadataPathResolver } from '../metadata/MetadataPathResolver';
+import { OrgComparisonService } from './OrgComparisonService';
+import { TextDiffService } from './TextDiffService';
+import { ContentNormalizer } from './ContentNormalizer';
+import {
+    ComparisonFilePair,
+    ComparisonReport,
+    ComparisonReportEntry,
+    ComparisonStatus,
+    ExportFormat,
+    OrgComparisonResult,
+    SideBySideRow
+} from '../types';
+
+/** File extension written for each export format */
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+    [ExportFormat.Html]: 'html',
+    [ExportFormat.Markdown]: 'md',
+    [ExportFormat.Json]: 'json',
+    [ExportFormat.Csv]: 'csv',
+    [ExportFormat.Junit]: 'xml'
+};
+
+/** Display names of the comparison statuses */
+const STATUS_LABELS: Record<ComparisonStatus, string> = {
+    [ComparisonStatus.Changed]: 'Changed',
+    [ComparisonStatus.OnlyInLeft]: 'Only in left',
+    [ComparisonStatus.OnlyInRight]: 'Only in right',
+    [ComparisonStatus.Identical]: 'Identical'
+};
+
+/** Reports with more changed files than this only list the rest without diffs */
+const MAX_HTML_DIFFS = 200;
+
+/** Files larger than this are listed without a diff */
+const MAX_DIFF_FILE_SIZE = 512 * 1024;
+
+/**
+ * Service turning single-file or org-wide comparison results into shareable reports
+ */
+export class ComparisonExportService {
+
+    constructor(private textDiffService: TextDiffService) {}
+
+    /**
+     * Build a report from an org-wide comparison, listing every component that is not identical
+     */
+    public fromOrgComparison(result: OrgComparisonResult): ComparisonReport {
+        return {
+            title: `${result.left.label} ↔ ${result.right.label}`,
+            leftLabel: result.left.label,
+            rightLabel: result.right.label,
+            generatedAt: new Date(),
+            summary: OrgComparisonService.summarize(result.entries),
+            entries: result.entries
+                .filter(entry => entry.status !== ComparisonStatus.Identical)
+                .map(entry => this.createEntry(entry.relativePath, entry.status, entry.leftPath, entry.rightPath))
+        };
+    }
+
+    /**
+     * Build a report for two individual files
+     */
+    public async fromFilePair(pair: ComparisonFilePair, relativePath?: string): Promise<ComparisonReport> {
+        const [leftContent, rightContent] = await Promise.all([
+            fs.promises.readFile(pair.leftPath),
+            fs.promises.readFile(pair.rightPath)
+        ]);
+        const status = leftContent.equals(rightContent) ? ComparisonStatus.Identical : ComparisonStatus.Changed;
+        const summary = OrgComparisonService.summarize([]);
+        summary[status] = 1;
+
+        return {
+            title: `${pair.leftLabel} ↔ ${pair.rightLabel}: ${path.basename(pair.rightPath)}`,
+            leftLabel: pair.leftLabel,
+            rightLabel: pair.rightLabel,
+            generatedAt: new Date(),
+            summary,
+            entries: [this.createEntry(relativePath || path.basename(pair.rightPath), status, pair.leftPath, pair.rightPath)]
+        };
+    }
+
+    /**
+     * Render a report in the requested format
+     */
+    public async render(report: ComparisonReport, format: ExportFormat): Promise<string> {
+        switch (format) {
+            case ExportFormat.Html:
+                return this.renderHtml(report);
+            case ExportFormat.Markdown:
+                return this.renderMarkdown(report);
+            case ExportFormat.Json:
+                return this.renderJson(report);
+            case ExportFormat.Csv:
+                return this.renderCsv(report);
+            case ExportFormat.Junit:
+                return this.renderJunit(report);
+        }
+    }
+
+    /**
+     * Render a report and write it to a file
+     */
+    public async exportToFile(report: ComparisonReport, format: ExportFormat, filePath: string): Promise<void> {
+        const content = await this.render(report, format);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, content, 'utf8');
+        console.log(`📤 Exported ${report.entries.length} comparison entries as ${format} to ${filePath}`);
+    }
+
+    /**
+     * Get a file name for a report, e.g. "uat-vs-prod-2024-05-01.html"
+     */
+    public static getDefaultFileName(report: ComparisonReport, format: ExportFormat): string {
+        const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'org';
+        const date = report.generatedAt.toISOString().substring(0, 10);
+        return `${slug(report.leftLabel)}-vs-${slug(report.rightLabel)}-${date}.${EXPORT_FILE_EXTENSIONS[format]}`;
+    }
+
+    /**
+     * Create a report entry, resolving the metadata component of the path
+     */
+    private createEntry(relativePath: string, status: ComparisonStatus, leftPath?: string, rightPath?: string): ComparisonReportEntry {
+        const component = MetadataPathResolver.resolve(relativePath);
+        return {
+            relativePath,
+            metadataType: component?.type,
+            componentName: component?.fullName || relativePath,
+            status,
+            leftPath,
+            rightPath
+        };
+    }
+
+    /**
+     * Render machine-readable JSON
+     */
+    private renderJson(report: ComparisonReport): string {
+        return JSON.stringify({
+            title: report.title,
+            left: report.leftLabel,
+            right: report.rightLabel,
+            generatedAt: report.generatedAt.toISOString(),
+            summary: report.summary,
+            entries: report.entries
+        }, null, 2);
+    }
+
+    /**
+     * Render one CSV row per entry
+     */
+    private renderCsv(report: ComparisonReport): string {
+        const escape = (value: string | undefined) => {
+            const text = value ?? '';
+            return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+
+        const rows = [['status', 'metadataType', 'component', 'relativePath', 'leftPath', 'rightPath']];
+        for (const entry of report.entries) {
+            rows.push([entry.status, entry.metadataType ?? '', entry.componentName, entry.relativePath, entry.leftPath ?? '', entry.rightPath ?? '']);
+        }
+
+        return rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+    }
+
+    /**
+     * Render a Markdown summary suitable for pull request comments
+     * Single-file reports include the unified diff
+     */
+    private async renderMarkdown(report: ComparisonReport): Promise<string> {
+        const escape = (value: string) => value.replace(/\|/g, '\\|');
+        const lines = [
+            `## ${report.title}`,
+            '',
+            `Generated ${report.generatedAt.toISOString()}`,
+            '',
+            '| Changed | Only in ' + escape(report.leftLabel) + ' | Only in ' + escape(report.rightLabel) + ' | Identical |',
+            '| ---: | ---: | ---: | ---: |',
+            `| ${report.summary.changed} | ${report.summary.onlyInLeft} | ${report.summary.onlyInRight} | ${report.summary.identical} |`,
+            ''
+        ];
+
+        const listed = report.entries.filter(entry => entry.status !== ComparisonStatus.Identical);
+        if (listed.length === 0) {
+            lines.push('No differences found.');
+            return lines.join('\n') + '\n';
+        }
+
+        lines.push('| Status | Type | Component | Path |', '| --- | --- | --- | --- |');
+        for (const entry of listed) {
+            const status = this.getStatusLabel(report, entry.status) + (entry.allowed ? ' (allowed)' : '');
+            lines.push(`| ${status} | ${entry.metadataType ?? ''} | ${escape(entry.componentName)} | \`${escape(entry.relativePath)}\` |`);
+        }
+
+        if (report.entries.length === 1 && listed[0].status === ComparisonStatus.Changed) {
+            const diff = await this.getUnifiedDiff(report, listed[0]);
+            if (diff) {
+                lines.push('', '<details><summary>Diff</summary>', '', '```diff', diff, '```', '', '</details>');
+            }
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Render a JUnit XML report for CI servers, with one test suite per metadata type and one failing test per difference
+     * Allowed differences are reported as skipped tests
+     */
+    private async renderJunit(report: ComparisonReport): Promise<string> {
+        const escape = (value: string) => value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+
+        const suites = new Map<string, ComparisonReportEntry[]>();
+        for (const entry of report.entries.filter(entry => entry.status !== ComparisonStatus.Identical)) {
+            const suiteName = entry.metadataType || 'Other';
+            suites.set(suiteName, [...(suites.get(suiteName) || []), entry]);
+        }
+
+        const totals = { tests: 0, failures: 0, skipped: 0 };
+        const suiteXml: string[] = [];
+        for (const [suiteName, entries] of [...suites.entries()].sort((a, b) => a[0].localeCompare(b[0]))) {
+            const skipped = entries.filter(entry => entry.allowed).length;
+            totals.tests += entries.length;
+            totals.failures += entries.length - skipped;
+            totals.skipped += skipped;
+
+            const cases: string[] = [];
+            for (const entry of entries) {
+                const label = escape(this.getStatusLabel(report, entry.status));
+                let result: string;
+                if (entry.allowed) {
+                    result = `<skipped message="${label} (allowed)"/>`;
+                } else {
+                    const diff = entry.status === ComparisonStatus.Changed ? await this.getUnifiedDiff(report, entry) : undefined;
+                    result = `<failure message="${label}" type="${entry.status}">${escape(diff ?? entry.relativePath)}</failure>`;
+                }
+                cases.push(`    <testcase classname="${escape(suiteName)}" name="${escape(entry.relativePath)}">\n      ${result}\n    </testcase>`);
+            }
+
+            suiteXml.push(
+                `  <testsuite name="${escape(suiteName)}" tests="${entries.length}" failures="${entries.length - skipped}" skipped="${skipped}">\n` +
+                cases.join('\n') +
+                '\n  </testsuite>'
+            );
+        }
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<testsuites name="${escape(report.title)}" tests="${totals.tests}" failures="${totals.failures}" skipped="${totals.skipped}" timestamp="${report.generatedAt.toISOString()}">`,
+            ...suiteXml,
+            '</testsuites>',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Render a self-contained HTML report with side-by-side diffs of the changed files
+     */
+    private async renderHtml(report: ComparisonReport): Promise<string> {
+        const escape = (value: string | number | undefined) => String(value ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+
+        const rows = report.entries.map((entry, index) => `
+            <tr>
+                <td class="status ${entry.status}">${escape(this.getStatusLabel(report, entry.status))}</td>
+                <td>${escape(entry.metadataType)}</td>
+                <td>${entry.status === ComparisonStatus.Changed ? `<a href="#diff-${index}">${escape(entry.componentName)}</a>` : escape(entry.componentName)}</td>
+                <td class="path">${escape(entry.relativePath)}</td>
+            </tr>`).join('');
+
+        const diffs: string[] = [];
+        let diffCount = 0;
+        for (const [index, entry] of report.entries.entries()) {
+            if (entry.status !== ComparisonStatus.Changed) {
+                continue;
+            }
+
+            let body: string;
+            if (diffCount >= MAX_HTML_DIFFS) {
+                body = `<p class="note">Diff omitted - the report is limited to ${MAX_HTML_DIFFS} diffs.</p>`;
+            } else {
+                const sideBySide = await this.getSideBySide(entry);
+                body = sideBySide
+                    ? `<table class="diff">${sideBySide.map(row => this.renderHtmlDiffRow(row, escape)).join('')}</table>`
+                    : '<p class="note">Diff omitted - binary or very large file.</p>';
+                diffCount++;
+            }
+
+            diffs.push(`
+                <details id="diff-${index}" open>
+                    <summary>${escape(entry.relativePath)}</summary>
+                    ${body}
+                </details>`);
+        }
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escape(report.title)}</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 24px; color: #1f2328; background: #ffffff; }
+        h1 { font-size: 22px; margin-bottom: 4px; }
+        .meta { color: #656d76; margin-bottom: 20px; }
+        .summary { display: flex; gap: 12px; margin-bottom: 24px; }
+        .summary div { border: 1px solid #d0d7de; border-radius: 6px; padding: 10px 16px; }
+        .summary strong { display: block; font-size: 20px; }
+        table { border-collapse: collapse; width: 100%; margin-bottom: 24px; }
+        th, td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; vertical-align: top; }
+        th { background: #f6f8fa; }
+        td.path { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+        td.status.changed { color: #9a6700; }
+        td.status.onlyInLeft { color: #cf222e; }
+        td.status.onlyInRight { color: #1a7f37; }
+        details { margin-bottom: 16px; border: 1px solid #d0d7de; border-radius: 6px; }
+        summary { padding: 8px 12px; background: #f6f8fa; cursor: pointer; font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+        table.diff { margin: 0; table-layout: fixed; font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 12px; }
+        table.diff td { border: none; padding: 0 6px; white-space: pre-wrap; word-break: break-all; }
+        table.diff td.num { width: 48px; color: #656d76; text-align: right; user-select: none; }
+        table.diff td.removed { background: #ffebe9; }
+        table.diff td.added { background: #e6ffec; }
+        .note { padding: 8px 12px; color: #656d76; margin: 0; }
+        @media (prefers-color-scheme: dark) {
+            body { color: #e6edf3; background: #0d1117; }
+            .meta, .note, table.diff td.num { color: #8d96a0; }
+            th, summary { background: #161b22; }
+            th, td, .summary div, details { border-color: #30363d; }
+            table.diff td.removed { background: #3d1d20; }
+            table.diff td.added { background: #1b3326; }
+        }
+    </style>
+</head>
+<body>
+    <h1>${escape(report.title)}</h1>
+    <div class="meta">Generated ${escape(report.generatedAt.toISOString())} · left: ${escape(report.leftLabel)} · right: ${escape(report.rightLabel)}</div>
+    <div class="summary">
+        <div><strong>${report.summary.changed}</strong>Changed</div>
+        <div><strong>${report.summary.onlyInLeft}</strong>Only in ${escape(report.leftLabel)}</div>
+        <div><strong>${report.summary.onlyInRight}</strong>Only in ${escape(report.rightLabel)}</div>
+        <div><strong>${report.summary.identical}</strong>Identical</div>
+    </div>
+    <table>
+        <tr><th>Status</th><th>Type</th><th>Component</th><th>Path</th></tr>
+        ${rows}
+    </table>
+    ${diffs.join('')}
+</body>
+</html>
+`;
+    }
+
+    /**
+     * Render one side-by-side diff row
+     */
+    private renderHtmlDiffRow(row: SideBySideRow, escape: (value: string | number | undefined) => string): string {
+        const leftClass = row.kind === 'changed' || row.kind === 'removed' ? ' removed' : '';
+        const rightClass = row.kind === 'changed' || row.kind === 'added' ? ' added' : '';
+        return `<tr><td class="num">${escape(row.left?.number)}</td><td class="code${leftClass}">${escape(row.left?.text)}</td>` +
+            `<td class="num">${escape(row.right?.number)}</td><td class="code${rightClass}">${escape(row.right?.text)}</td></tr>`;
+    }
+
+    /**
+     * Get the side-by-side rows of a changed entry, or undefined for binary and oversized files
+     */
+    private async getSideBySide(entry: ComparisonReportEntry): Promise<SideBySideRow[] | undefined> {
+        const contents = await this.readDiffableContents(entry);
+        return contents ? this.textDiffService.toSideBySide(this.textDiffService.diffLines(contents[0], contents[1])) : undefined;
+    }
+
+    /**
+     * Get the unified diff of a changed entry
+     */
+    private async getUnifiedDiff(report: ComparisonReport, entry: ComparisonReportEntry): Promise<string | undefined> {
+        const contents = await this.readDiffableContents(entry);
+        if (!contents) {
+            return undefined;
+        }
+        const hunks = this.textDiffService.toHunks(this.textDiffService.diffLines(contents[0], contents[1]));
+        return this.textDiffService.toUnifiedText(hunks, `${report.leftLabel}/${entry.relativePath}`, `${report.rightLabel}/${entry.relativePath}`);
+    }
+
+    /**
+     * Read both sides of an entry as text, skipping binary and oversized files
+     */
+    private async readDiffableContents(entry: ComparisonReportEntry): Promise<[string, string] | undefined> {
+        if (!entry.leftPath || !entry.rightPath) {
+            return undefined;
+        }
+
+        const [leftStats, rightStats] = await Promise.all([fs.promises.stat(entry.leftPath), fs.promises.stat(entry.rightPath)]);
+        if (leftStats.size > MAX_DIFF_FILE_SIZE || rightStats.size > MAX_DIFF_FILE_SIZE) {
+            return undefined;
+        }
+
+        const [leftContent, rightContent] = await Promise.all([fs.promises.readFile(entry.leftPath), fs.promises.readFile(entry.rightPath)]);
+        if (ContentNormalizer.isBinary(leftContent) || ContentNormalizer.isBinary(rightContent)) {
+            return undefined;
+        }
+
+        return [leftContent.toString('utf8'), rightContent.toString('utf8')];
+    }
+
+    /**
+     * Get the status label with the org names filled in
+     */
+    private getStatusLabel(report: ComparisonReport, status: ComparisonStatus): string {
+        if (status === ComparisonStatus.OnlyInLeft) {
+            return `Only in ${report.leftLabel}`;
+        }
+        if (status === ComparisonStatus.OnlyInRight) {
+            return `Only in ${report.rightLabel}`;
+        }
+        return STATUS_LABELS[status];
+    }
+}
@@ -0,0 +1,135 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComparisonSource, ComponentMatrix, ComponentMatrixCell, MetadataComponentRef } from '../types';
+import { MetadataPathResolver } from '../metadata/MetadataPathResolver';
+import { OrgComparisonService } from './OrgComparisonService';
+
+/**
+ * Service building an N-way presence/content matrix for a single component across many sources
+ */
+export class ComponentMatrixService {
+
+    constructor(private orgComparisonService: OrgComparisonService) {}
+
+    /**
+     * Locate a component in every source, hash its content and group sources with identical content
+     */
+    public async buildMatrix(component: MetadataComponentRef, sources: ComparisonSource[]): Promise<ComponentMatrix> {
+        console.log(`🧮 Building matrix for ${component.type} ${component.fullName} across ${sources.length} sources`);
+
+        const cells: ComponentMatrixCell[] = [];
+
+        for (const source of sources) {
+            const files = await this.findComponentFiles(component, source);
+            const present = Object.keys(files).length > 0;
+
+            cells.push({
+                sourceId: source.id,
+                sourceLabel: source.label,
+                retrieved: source.rootDirectories.some(rootDirectory => fs.existsSync(rootDirectory)),
+                present,
+                files,
+                hash: present ? await this.hashComponent(files) : undefined
+            });
+        }
+
+        ComponentMatrixService.assignGroups(cells);
+
+        const groupCount = new Set(cells.map(cell => cell.group).filter(Boolean)).size;
+        console.log(`✅ Matrix complete: present in ${cells.filter(cell => cell.present).length}/${cells.length} sources, ${groupCount} distinct versions`);
+
+        return {
+            component,
+            cells,
+            builtAt: new Date()
+        };
+    }
+
+    /**
+     * Find all files belonging to a component in a source, keyed by source-relative path
+     */
+    public async findComponentFiles(component: MetadataComponentRef, source: ComparisonSource): Promise<Record<string, string>> {
+        const folder = MetadataPathResolver.getFolderForType(component.type);
+        if (!folder) {
+            throw new Error(`Unsupported metadata type: ${component.type}`);
+        }
+
+        // Only walk the top-level folder of the type instead of the whole source tree
+        const topFolder = folder.split('/')[0];
+        const folderSource: ComparisonSource = {
+            ...source,
+            rootDirectories: source.rootDirectories.map(rootDirectory => path.join(rootDirectory, topFolder))
+                .filter(directory => fs.existsSync(directory))
+        };
+        const folderFiles = await this.orgComparisonService.collectFiles(folderSource);
+        const files: Record<string, string> = {};
+
+        for (const [relativePath, absolutePath] of [...folderFiles.entries()].sort((a, b) => a[0].localeCompare(b[0]))) {
+            const sourceRelativePath = `${topFolder}/${relativePath}`;
+            const resolved = MetadataPathResolver.resolve(sourceRelativePath);
+            if (resolved && MetadataPathResolver.isSameComponent(resolved, component)) {
+                files[sourceRelativePath] = absolutePath;
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Get the source-relative file paths present in both cells, e.g. for a pairwise diff
+     */
+    public static getSharedFiles(left: ComponentMatrixCell, right: ComponentMatrixCell): string[] {
+        return Object.keys(left.files).filter(relativePath => relativePath in right.files).sort();
+    }
+
+    /**
+     * Label cells with identical content hashes A, B, C... in order of first appearance
+     */
+    public static assignGroups(cells: ComponentMatrixCell[]): void {
+        const groups = new Map<string, string>();
+
+        for (const cell of cells) {
+            if (!cell.hash) {
+                cell.group = undefined;
+                continue;
+            }
+
+            if (!groups.has(cell.hash)) {
+                groups.set(cell.hash, ComponentMatrixService.getGroupLabel(groups.size));
+            }
+            cell.group = groups.get(cell.hash);
+        }
+    }
+
+    /**
+     * Hash every file of a component including its name, so renamed bundle files count as a difference
+     */
+    private async hashComponent(files: Record<string, string>): Promise<string> {
+        const hash = crypto.createHash('sha256');
+
+        for (const relativePath of Object.keys(files).sort()) {
+            hash.update(relativePath);
+            hash.update('\0');
+            hash.update(await this.orgComparisonService.readComparableContent(files[relativePath]));
+            hash.update('\0');
+        }
+
+        return hash.digest('hex');
+    }
+
+    /**
+     * Convert a zero-based index to a spreadsheet-style label (A..Z, AA, AB...)
+     */
+    private static getGroupLabel(index: number): string {
+        let label = '';
+        let remaining = index;
+
+        do {
+            label = String.fromCharCode(65 + (remaining % 26)) + label;
+            remaining = Math.floor(remaining / 26) - 1;
+        } while (remaining >= 0);
+
+        return label;
+    }
+}
@@ -0,0 +1,373 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MetadataXmlParser, XmlElement, XmlElementRange } from '../metadata/MetadataXmlParser';
+import { DiffIgnoreRule } from '../types';
+
+/**
+ * Single step of an element path, optionally filtered by the text of a child element
+ */
+interface XPathStep {
+    name: string;
+    predicate?: { child: string; value: string };
+}
+
+/**
+ * Parsed element path - absolute ("/A/b") or matching at any depth ("//b")
+ */
+interface XPathExpression {
+    steps: XPathStep[];
+    anywhere: boolean;
+}
+
+/**
+ * Ignore rule with its patterns compiled
+ */
+interface CompiledIgnoreRule {
+    fileExtensions: string[];
+    xpaths: XPathExpression[];
+    patterns: RegExp[];
+    ignoreWhitespace: boolean;
+    ignoreComments: boolean;
+}
+
+/** Extensions using // line and block comments */
+const CODE_COMMENT_EXTENSIONS = ['.cls', '.trigger', '.apex', '.js', '.ts'];
+
+/** Extensions using block comments only */
+const BLOCK_COMMENT_EXTENSIONS = ['.css'];
+
+/** Extensions using <!-- --> comments */
+const MARKUP_COMMENT_EXTENSIONS = [
+    '.xml', '.html', '.cmp', '.app', '.evt', '.intf', '.design', '.page', '.component', '.svg', '.auradoc', '.tokens'
+];
+
+const XPATH_STEP = /^([A-Za-z_][\w.:-]*|\*)(?:\[\s*([A-Za-z_][\w.:-]*)\s*=\s*(['"])(.*)\3\s*\])?$/;
+
+/**
+ * Normalizes file content according to the configured ignore rules so that files
+ * differing only in ignored ways (API version bumps, whitespace, comments...) compare as identical
+ */
+export class ContentNormalizer {
+    private compiledKey: string | undefined;
+    private compiledRules: CompiledIgnoreRule[] = [];
+
+    constructor(private rulesProvider: () => DiffIgnoreRule[] = () => []) {}
+
+    /**
+     * Check whether any ignore rule applies to a file
+     */
+    public hasRulesFor(filePath: string): boolean {
+        return this.getRulesFor(filePath).length > 0;
+    }
+
+    /**
+     * Get a key identifying the current ignore rules, e.g. to tell whether content was normalized under other rules
+     */
+    public getRulesKey(): string {
+        return JSON.stringify(this.rulesProvider());
+    }
+
+    /**
+     * Check whether two files are identical once the ignore rules are applied
+     */
+    public async areFilesEquivalent(leftPath: string, rightPath: string): Promise<boolean> {
+        const [leftContent, rightContent] = await Promise.all([
+            fs.promises.readFile(leftPath),
+            fs.promises.readFile(rightPath)
+        ]);
+
+        if (leftContent.equals(rightContent)) {
+            return true;
+        }
+        if (!this.hasRulesFor(rightPath) || ContentNormalizer.isBinary(leftContent) || ContentNormalizer.isBinary(rightContent)) {
+            return false;
+        }
+
+        return this.normalize(leftPath, leftContent.toString('utf8')) === this.normalize(rightPath, rightContent.toString('utf8'));
+    }
+
+    /**
+     * Apply every ignore rule matching the file: XML paths first, then comments, patterns and whitespace
+     */
+    public normalize(filePath: string, content: string): string {
+        const rules = this.getRulesFor(filePath);
+        if (rules.length === 0) {
+            return content;
+        }
+
+        let normalized = content.replace(/^\uFEFF/, '');
+
+        const xpaths = rules.flatMap(rule => rule.xpaths);
+        if (xpaths.length > 0 && ContentNormalizer.isXmlFile(filePath)) {
+            normalized = this.removeXmlElements(normalized, xpaths);
+        }
+
+        if (rules.some(rule => rule.ignoreComments)) {
+            normalized = this.stripComments(filePath, normalized);
+        }
+
+        for (const pattern of rules.flatMap(rule => rule.patterns)) {
+            normalized = normalized.replace(pattern, '');
+        }
+
+        if (rules.some(rule => rule.ignoreWhitespace)) {
+            normalized = normalized
+                .replace(/\r\n?/g, '\n')
+                .split('\n')
+                .map(line => line.trim().replace(/[ \t]+/g, ' '))
+                .filter(line => line !== '')
+                .join('\n');
+        }
+
+        return normalized;
+    }
+
+    /**
+     * Validate ignore rules, returning a message for every invalid pattern or element path
+     */
+    public static validateRules(rules: DiffIgnoreRule[]): string[] {
+        const errors: string[] = [];
+
+        for (const rule of rules) {
+            for (const pattern of rule.patterns || []) {
+                try {
+                    new RegExp(pattern, 'gm');
+                } catch (error) {
+                    errors.push(`Invalid ignore pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+            for (const xpath of rule.xpaths || []) {
+                if (!ContentNormalizer.parseXPath(xpath)) {
+                    errors.push(`Invalid ignore element path "${xpath}"`);
+                }
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Check whether content looks binary (static resources, images...) - ignore rules never apply to it
+     */
+    public static isBinary(content: Buffer): boolean {
+        return content.subarray(0, 8000).includes(0);
+    }
+
+    /**
+     * Check whether a file is XML metadata or markup that element paths apply to
+     */
+    public static isXmlFile(filePath: string): boolean {
+        return filePath.toLowerCase().endsWith('.xml');
+    }
+
+    /**
+     * Get the compiled rules applying to a file, recompiling when the configured rules change
+     */
+    private getRulesFor(filePath: string): CompiledIgnoreRule[] {
+        const rules = this.rulesProvider();
+        const key = JSON.stringify(rules);
+        if (key !== this.compiledKey) {
+            this.compiledRules = rules.map(rule => this.compileRule(rule));
+            this.compiledKey = key;
+        }
+
+        const fileName = filePath.toLowerCase();
+        return this.compiledRules.filter(rule =>
+            rule.fileExtensions.length === 0 || rule.fileExtensions.some(extension => fileName.endsWith(extension))
+        );
+    }
+
+    /**
+     * Compile the patterns and element paths of a rule, skipping invalid ones
+     */
+    private compileRule(rule: DiffIgnoreRule): CompiledIgnoreRule {
+        const patterns: RegExp[] = [];
+        for (const pattern of rule.patterns || []) {
+            try {
+                patterns.push(new RegExp(pattern, 'gm'));
+            } catch (error) {
+                console.warn(`Skipping invalid ignore pattern "${pattern}":`, error);
+            }
+        }
+
+        const xpaths: XPathExpression[] = [];
+        for (const xpath of rule.xpaths || []) {
+            const expression = ContentNormalizer.parseXPath(xpath);
+            if (expression) {
+                xpaths.push(expression);
+            } else {
+                console.warn(`Skipping invalid ignore element path "${xpath}"`);
+            }
+        }
+
+        return {
+            fileExtensions: (rule.fileExtensions || []).map(extension => extension.toLowerCase()),
+            xpaths,
+            patterns,
+            ignoreWhitespace: !!rule.ignoreWhitespace,
+            ignoreComments: !!rule.ignoreComments
+        };
+    }
+
+    /**
+     * Remove the elements matching any of the paths, including the indentation and line break around them
+     * Documents that cannot be parsed are returned unchanged
+     */
+    private removeXmlElements(xml: string, xpaths: XPathExpression[]): string {
+        const ranges = new Map<XmlElement, XmlElementRange>();
+        let root: XmlElement;
+        try {
+            root = MetadataXmlParser.parse(xml, ranges);
+        } catch (error) {
+            console.warn('Could not apply element ignore rules:', error);
+            return xml;
+        }
+
+        const removals: XmlElementRange[] = [];
+        const walk = (element: XmlElement, chain: XmlElement[]): void => {
+            const elementPath = [...chain, element];
+            if (xpaths.some(xpath => this.matchesXPath(elementPath, xpath))) {
+                removals.push(ranges.get(element)!);
+                return;
+            }
+            element.children.forEach(child => walk(child, elementPath));
+        };
+        walk(root, []);
+
+        let result = xml;
+        for (const range of removals.sort((a, b) => b.start - a.start)) {
+            let start = range.start;
+            let end = range.end;
+            while (start > 0 && (result[start - 1] === ' ' || result[start - 1] === '\t')) {
+                start--;
+            }
+            const trailing = /^[ \t]*\r?\n/.exec(result.substring(end));
+            if ((start === 0 || result[start - 1] === '\n') && trailing) {
+                end += trailing[0].length;
+            }
+            result = result.substring(0, start) + result.substring(end);
+        }
+
+        return result;
+    }
+
+    /**
+     * Check whether the path from the root to an element matches an element path
+     */
+    private matchesXPath(elementPath: XmlElement[], xpath: XPathExpression): boolean {
+        const { steps, anywhere } = xpath;
+        if (anywhere ? elementPath.length < steps.length : elementPath.length !== steps.length) {
+            return false;
+        }
+
+        const offset = elementPath.length - steps.length;
+        return steps.every((step, index) => {
+            const element = elementPath[offset + index];
+            if (step.name !== '*' && step.name !== element.name) {
+                return false;
+            }
+            return !step.predicate || element.children.some(child =>
+                child.name === step.predicate!.child && child.text.trim() === step.predicate!.value
+            );
+        });
+    }
+
+    /**
+     * Remove comments in the syntax of the file type
+     */
+    private stripComments(filePath: string, content: string): string {
+        const extension = path.extname(filePath).toLowerCase();
+
+        if (MARKUP_COMMENT_EXTENSIONS.includes(extension)) {
+            return content.replace(/<!--[\s\S]*?-->/g, '');
+        }
+        if (CODE_COMMENT_EXTENSIONS.includes(extension) || BLOCK_COMMENT_EXTENSIONS.includes(extension)) {
+            return this.stripCodeComments(content, CODE_COMMENT_EXTENSIONS.includes(extension));
+        }
+        return content;
+    }
+
+    /**
+     * Remove block and optionally line comments, leaving string literals intact
+     */
+    private stripCodeComments(content: string, lineComments: boolean): string {
+        let result = '';
+        let index = 0;
+
+        while (index < content.length) {
+            const char = content[index];
+
+            if (char === '\'' || char === '"' || char === '`') {
+                let end = index + 1;
+                while (end < content.length && content[end] !== char && (char === '`' || content[end] !== '\n')) {
+                    end += content[end] === '\\' ? 2 : 1;
+                }
+                result += content.substring(index, end + 1);
+                index = end + 1;
+            } else if (content.startsWith('/*', index)) {
+                const end = content.indexOf('*/', index + 2);
+                index = end < 0 ? content.length : end + 2;
+            } else if (lineComments && content.startsWith('//', index)) {
+                const end = content.indexOf('\n', index);
+                index = end < 0 ? content.length : end;
+            } else {
+                result += char;
+                index++;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Parse a simple element path: "/Root/child", "//child", "//parent/*" or "//child[key='value']"
+     */
+    private static parseXPath(xpath: string): XPathExpression | undefined {
+        const trimmed = xpath.trim();
+        const anywhere = trimmed.startsWith('//');
+        if (!anywhere && !trimmed.startsWith('/')) {
+            return undefined;
+        }
+
+        const steps: XPathStep[] = [];
+        for (const segment of ContentNormalizer.splitXPath(trimmed.substring(anywhere ? 2 : 1))) {
+            const match = XPATH_STEP.exec(segment.trim());
+            if (!match) {
+                return undefined;
+            }
+            steps.push({
+                name: match[1],
+                predicate: match[2] ? { child: match[2], value: match[4] } : undefined
+            });
+        }
+
+        return steps.length > 0 ? { steps, anywhere } : undefined;
+    }
+
+    /**
+     * Split a path on "/" outside of predicates
+     */
+    private static splitXPath(xpath: string): string[] {
+        const segments: string[] = [];
+        let depth = 0;
+        let current = '';
+
+        for (const char of xpath) {
+            if (char === '[') {
+                depth++;
+            } else if (char === ']') {
+                depth--;
+            }
+
+            if (char === '/' && depth === 0) {
+                segments.push(current);
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+        segments.push(current);
+
+        return segments;
+    }
+}
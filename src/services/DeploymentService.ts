@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EnhancedOrgManager } from '../metadata/EnhancedOrgManager';
+import { MetadataPathResolver } from '../metadata/MetadataPathResolver';
+import { ConfigurationManager, SF_CONFIG } from '../config';
+import { SalesforceCliAdapter } from '../core/SalesforceCliAdapter';
+import { SfCliAdapter } from '../core/SfCliAdapter';
+import { ManifestManager } from './ManifestManager';
+import { DeploymentComponentFailure, DeploymentResult, DeploymentTestFailure, MetadataComponentRef } from '../types';
+
+/** Manifest location inside a staging project */
+const STAGED_MANIFEST_PATH = 'manifest/package.xml';
+
+/** Package directory the staged source is copied to */
+const STAGED_SOURCE_PATH = path.join('force-app', 'main', 'default');
+
+/**
+ * Service staging selected components of a comparison into a temporary project and deploying them to an organization
+ * Every deployment is validated (check-only) first; the real deployment is a separate, explicit step
+ */
+export class DeploymentService {
+    private config: ConfigurationManager;
+
+    constructor(
+        private enhancedOrgManager: EnhancedOrgManager,
+        private manifestManager: ManifestManager,
+        private cliAdapter: SalesforceCliAdapter = new SfCliAdapter()
+    ) {
+        this.config = ConfigurationManager.getInstance();
+    }
+
+    /**
+     * Copy every file of the components into a new staging project and write its package.xml
+     * @param sourceFiles Source-relative paths mapped to absolute paths of the files on the deployed side
+     * @returns The staging project directory
+     */
+    public async stageComponents(
+        components: MetadataComponentRef[],
+        sourceFiles: Map<string, string>,
+        targetOrgId: string
+    ): Promise<string> {
+        const componentKeys = new Set(components.map(component => `${component.type}:${component.fullName}`));
+        const stagingDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), `${SF_CONFIG.FS.TEMP_DIR_PREFIX}-deploy-`));
+
+        try {
+            let fileCount = 0;
+            for (const [relativePath, filePath] of sourceFiles) {
+                const component = MetadataPathResolver.resolve(relativePath);
+                if (!component || !componentKeys.has(`${component.type}:${component.fullName}`)) {
+                    continue;
+                }
+
+                const stagedPath = path.join(stagingDir, STAGED_SOURCE_PATH, ...relativePath.split('/'));
+                await fs.promises.mkdir(path.dirname(stagedPath), { recursive: true });
+                await fs.promises.copyFile(filePath, stagedPath);
+                fileCount++;
+            }
+
+            if (fileCount === 0) {
+                throw new Error('None of the selected components has source files to deploy');
+            }
+
+            const projectConfig = {
+                packageDirectories: [{ path: 'force-app', default: true }],
+                namespace: '',
+                sourceApiVersion: this.config.getApiVersion()
+            };
+            await fs.promises.writeFile(path.join(stagingDir, 'sfdx-project.json'), JSON.stringify(projectConfig, null, 2), 'utf8');
+
+            await fs.promises.mkdir(path.join(stagingDir, path.dirname(STAGED_MANIFEST_PATH)), { recursive: true });
+            await this.manifestManager.saveManifestToFile(targetOrgId, path.join(stagingDir, STAGED_MANIFEST_PATH), components);
+
+            console.log(`📦 Staged ${fileCount} files of ${components.length} components in ${stagingDir}`);
+            return stagingDir;
+        } catch (error) {
+            await this.cleanup(stagingDir);
+            throw error;
+        }
+    }
+
+    /**
+     * Run a check-only deployment of a staging project
+     */
+    public async validate(stagingDir: string, targetOrgId: string, testLevel?: string): Promise<DeploymentResult> {
+        return this.runDeployment(stagingDir, targetOrgId, true, testLevel);
+    }
+
+    /**
+     * Deploy a staging project - only call this after a successful validation confirmed by the user
+     */
+    public async deploy(stagingDir: string, targetOrgId: string, testLevel?: string): Promise<DeploymentResult> {
+        return this.runDeployment(stagingDir, targetOrgId, false, testLevel);
+    }
+
+    /**
+     * Remove a staging project
+     */
+    public async cleanup(stagingDir: string): Promise<void> {
+        try {
+            await fs.promises.rm(stagingDir, { recursive: true, force: true });
+        } catch (error) {
+            console.warn(`Failed to remove staging directory ${stagingDir}:`, error);
+        }
+    }
+
+    /**
+     * Parse the JSON output of "sf project deploy start"
+     */
+    public static parseDeployOutput(stdout: string, checkOnly: boolean): DeploymentResult {
+        let output: any;
+        try {
+            output = JSON.parse(stdout);
+        } catch {
+            return DeploymentService.createErrorResult(checkOnly, stdout.trim() || 'The Salesforce CLI returned no output');
+        }
+
+        const result = output?.result;
+        if (!result || typeof result.status !== 'string') {
+            return DeploymentService.createErrorResult(checkOnly, output?.message || 'The Salesforce CLI returned no deployment result');
+        }
+
+        const toArray = (value: any): any[] => value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+        const componentFailures: DeploymentComponentFailure[] = toArray(result.details?.componentFailures).map(failure => ({
+            type: failure.componentType || '',
+            fullName: failure.fullName || '',
+            problem: failure.problem || 'Unknown problem',
+            fileName: failure.fileName || undefined,
+            lineNumber: failure.lineNumber ? Number(failure.lineNumber) : undefined
+        }));
+
+        const testFailures: DeploymentTestFailure[] = toArray(result.details?.runTestResult?.failures).map(failure => ({
+            name: failure.name || '',
+            methodName: failure.methodName || '',
+            message: failure.message || ''
+        }));
+
+        return {
+            success: result.success === true || result.success === 'true' || result.status === 'Succeeded',
+            checkOnly,
+            id: result.id,
+            status: result.status,
+            numberComponentsDeployed: Number(result.numberComponentsDeployed) || 0,
+            numberComponentsTotal: Number(result.numberComponentsTotal) || 0,
+            componentFailures,
+            testFailures,
+            errorMessage: componentFailures.length === 0 && testFailures.length === 0 && result.status !== 'Succeeded'
+                ? result.errorMessage || output.message
+                : undefined
+        };
+    }
+
+    /**
+     * Run a validation or deployment against the target organization
+     */
+    private async runDeployment(stagingDir: string, targetOrgId: string, checkOnly: boolean, testLevel?: string): Promise<DeploymentResult> {
+        const org = this.enhancedOrgManager.getOrg(targetOrgId);
+        if (!org) {
+            throw new Error(`Organization not found: ${targetOrgId}`);
+        }
+
+        const orgIdentifier = org.alias || org.username;
+        console.log(`🚀 ${checkOnly ? 'Validating' : 'Deploying'} ${stagingDir} to ${orgIdentifier}`);
+
+        const { stdout } = await this.cliAdapter.deploy(STAGED_MANIFEST_PATH, orgIdentifier, stagingDir, {
+            dryRun: checkOnly,
+            testLevel
+        });
+
+        const result = DeploymentService.parseDeployOutput(stdout, checkOnly);
+        console.log(`${result.success ? '✅' : '❌'} ${checkOnly ? 'Validation' : 'Deployment'} ${result.id || ''} finished with status ${result.status}`);
+        return result;
+    }
+
+    /**
+     * Create the result of a deployment the CLI could not start
+     */
+    private static createErrorResult(checkOnly: boolean, errorMessage: string): DeploymentResult {
+        return {
+            success: false,
+            checkOnly,
+            status: 'Error',
+            numberComponentsDeployed: 0,
+            numberComponentsTotal: 0,
+            componentFailures: [],
+            testFailures: [],
+            errorMessage
+        };
+    }
+}
@@ -7,6 +7,8 @@ import { EnhancedOrgManager } from '../metadata/EnhancedOrgManager';
 import { ProgressManager } from '../progress/ProgressManager';
 import { ConfigurationManager, SF_CONFIG } from '../config';
 import { ErrorHandler, ErrorHandlingStrategy, ErrorUtils } from '../errors/ErrorHandler';
+import { LocalProjectService } from './LocalProjectService';
+import { ContentNormalizer } from './ContentNormalizer';
 
 export class FileCompareService {
     private selectedFiles: OrgFile[] = [];
@@ -19,9 +21,11 @@ export class FileCompareService {
     private config: ConfigurationManager;
     private errorHandler: ErrorHandler;
     private progressManager: ProgressManager;
+    private contentNormalizer: ContentNormalizer;
 
-    constructor(enhancedOrgManager: EnhancedOrgManager) {
+    constructor(enhancedOrgManager: EnhancedOrgManager, contentNormalizer?: ContentNormalizer) {
         this.config = ConfigurationManager.getInstance();
+        this.contentNormalizer = contentNormalizer || new ContentNormalizer(() => this.config.getIgnoreRules());
         this.errorHandler = ErrorHandler.getInstance();
         this.progressManager = ProgressManager.getInstance();
         this.enhancedOrgManager = enhancedOrgManager;
@@ -102,11 +106,8 @@ export class FileCompareService {
                 vscode.commands.executeCommand('sf-org-source-compare.refreshTreeView');
 
                 // Get org names for progress messages
-                const org1 = this.enhancedOrgManager.getOrg(file1.orgId);
-                const org2 = this.enhancedOrgManager.getOrg(file2.orgId);
-                
-                const org1Name = org1?.alias || org1?.username || 'Unknown Org';
-                const org2Name = org2?.alias || org2?.username || 'Unknown Org';
+                const org1Name = this.getOrgDisplayName(file1.orgId);
+                const org2Name = this.getOrgDisplayName(file2.orgId);
                 progress.completeStep(0);
                 
                 // Read file contents
@@ -125,16 +126,21 @@ export class FileCompareService {
                 progress.startStep(2, 'Analyzing file differences');
                 this.updateDetailedStatusBar('Analyzing differences...');
                 this.updateStatusBarItem();
-                await new Promise(resolve => setTimeout(resolve, 200)); // Brief analysis simulation
+                const title = `${org1Name}: ${file1.name} ↔ ${org2Name}: ${file2.name}`;
+                const onlyIgnoredDifferences = await this.differsOnlyInIgnoredContent(uri1.fsPath, uri2.fsPath);
                 progress.completeStep(2);
 
+                if (onlyIgnoredDifferences) {
+                    this.updateDetailedStatusBar('Files are identical after applying ignore rules');
+                    this.offerIgnoredDiff(uri1, uri2, title);
+                    return;
+                }
+
                 // Open comparison
                 progress.startStep(3, 'Opening comparison view');
                 this.updateDetailedStatusBar('Opening comparison view...');
                 this.updateStatusBarItem();
                 
-                const title = `${org1Name}: ${file1.name} ↔ ${org2Name}: ${file2.name}`;
-                
                 await vscode.commands.executeCommand(
                     'vscode.diff',
                     uri1,
@@ -189,8 +195,7 @@ export class FileCompareService {
             const content = await this.enhancedOrgManager.getFileContentById(file.orgId, file.id);
             
             // Get org name for the file name
-            const org = this.enhancedOrgManager.getOrg(file.orgId);
-            const orgName = this.sanitizeFileName(org?.alias || org?.username || 'UnknownOrg');
+            const orgName = this.sanitizeFileName(this.getOrgDisplayName(file.orgId));
             
             // Create a meaningful file name: OrgName_FileName
             const sanitizedFileName = this.sanitizeFileName(file.name);
@@ -214,6 +219,65 @@ export class FileCompareService {
         }
     }
 
+    /**
+     * Open a diff of two files unless they only differ in content covered by the ignore rules
+     */
+    public async openDiff(leftPath: string, rightPath: string, title: string): Promise<void> {
+        const leftUri = vscode.Uri.file(leftPath);
+        const rightUri = vscode.Uri.file(rightPath);
+
+        if (await this.differsOnlyInIgnoredContent(leftPath, rightPath)) {
+            this.offerIgnoredDiff(leftUri, rightUri, title);
+            return;
+        }
+
+        await vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, title);
+    }
+
+    /**
+     * Check whether two files differ, but not once the ignore rules are applied
+     */
+    private async differsOnlyInIgnoredContent(leftPath: string, rightPath: string): Promise<boolean> {
+        if (!this.contentNormalizer.hasRulesFor(rightPath)) {
+            return false;
+        }
+
+        try {
+            const [leftContent, rightContent] = await Promise.all([
+                fs.promises.readFile(leftPath),
+                fs.promises.readFile(rightPath)
+            ]);
+            return !leftContent.equals(rightContent) && await this.contentNormalizer.areFilesEquivalent(leftPath, rightPath);
+        } catch (error) {
+            console.warn('Could not apply ignore rules, showing the full diff:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Tell the user that only ignored content differs and offer the full diff anyway
+     */
+    private offerIgnoredDiff(leftUri: vscode.Uri, rightUri: vscode.Uri, title: string): void {
+        vscode.window.showInformationMessage(
+            `${title}: the files only differ in content covered by the diff ignore rules.`,
+            'Show Diff Anyway'
+        ).then(choice => {
+            if (choice === 'Show Diff Anyway') {
+                vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, title);
+            }
+        });
+    }
+
+    /**
+     * Get the name shown for an org, including the local project pseudo-org
+     */
+    public getOrgDisplayName(orgId: string): string {
+        if (LocalProjectService.isLocalProject(orgId)) {
+            return LocalProjectService.LOCAL_PROJECT_LABEL;
+        }
+        const org = this.enhancedOrgManager.getOrg(orgId);
+        return org?.alias || org?.username || 'Unknown Org';
+    }
 
     private getLanguageFromFileName(fileName: string): string {
         const extension = fileName.split('.').pop()?.toLowerCase();
@@ -0,0 +1,244 @@
+import * as fs from 'fs';
+import { MetadataXmlParser, XmlElement } from '../metadata/MetadataXmlParser';
+import { SemanticXmlDiffService } from './SemanticXmlDiffService';
+import { FlowComparisonResult, FlowConnectorChange, FlowElementChange, SemanticChangeKind } from '../types';
+
+/**
+ * Flow elements drawn as nodes on the canvas
+ */
+const FLOW_NODE_ELEMENTS = [
+    'actionCalls', 'apexPluginCalls', 'assignments', 'collectionProcessors', 'customErrors', 'decisions',
+    'loops', 'orchestratedStages', 'recordCreates', 'recordDeletes', 'recordLookups', 'recordRollbacks',
+    'recordUpdates', 'screens', 'start', 'steps', 'subflows', 'transforms', 'waits'
+];
+
+/**
+ * Flow resources referenced by nodes but not drawn on the canvas
+ */
+const FLOW_RESOURCE_ELEMENTS = [
+    'choices', 'constants', 'dynamicChoiceSets', 'formulas', 'stages', 'textTemplates', 'variables'
+];
+
+/**
+ * Elements pointing at the next node through a targetReference
+ */
+const CONNECTOR_ELEMENTS = [
+    'connector', 'defaultConnector', 'faultConnector', 'nextValueConnector', 'noMoreValuesConnector'
+];
+
+/** Canvas coordinates change whenever someone tidies the layout and carry no meaning */
+const LAYOUT_ELEMENTS = ['locationX', 'locationY'];
+
+/** Name used for the start element, which has no name of its own */
+const START_NODE_NAME = '(start)';
+
+/** Separator used between path segments, matching semantic XML changes */
+const PATH_SEPARATOR = ' › ';
+
+/**
+ * Service comparing two flows structurally - nodes and resources by name, connectors by source and target
+ */
+export class FlowComparisonService {
+
+    constructor(private semanticXmlDiffService: SemanticXmlDiffService) {}
+
+    /**
+     * Check whether a file is a flow definition
+     */
+    public static isFlowFile(fileName: string): boolean {
+        return fileName.endsWith('.flow-meta.xml');
+    }
+
+    /**
+     * Compare two flow files
+     */
+    public async compareFiles(leftPath: string, rightPath: string): Promise<FlowComparisonResult> {
+        const [leftXml, rightXml] = await Promise.all([
+            fs.promises.readFile(leftPath, 'utf8'),
+            fs.promises.readFile(rightPath, 'utf8')
+        ]);
+        return this.compareXml(leftXml, rightXml);
+    }
+
+    /**
+     * Compare two flow documents
+     */
+    public compareXml(leftXml: string, rightXml: string): FlowComparisonResult {
+        const leftFlow = this.parseFlow(leftXml);
+        const rightFlow = this.parseFlow(rightXml);
+
+        const properties = this.semanticXmlDiffService.compareElements(
+            this.withoutChildren(leftFlow, [...FLOW_NODE_ELEMENTS, ...FLOW_RESOURCE_ELEMENTS]),
+            this.withoutChildren(rightFlow, [...FLOW_NODE_ELEMENTS, ...FLOW_RESOURCE_ELEMENTS])
+        );
+        const nodes = this.compareNamedElements(leftFlow, rightFlow, FLOW_NODE_ELEMENTS);
+        const resources = this.compareNamedElements(leftFlow, rightFlow, FLOW_RESOURCE_ELEMENTS);
+        const connectors = this.compareConnectors(this.collectConnectors(leftFlow), this.collectConnectors(rightFlow));
+
+        console.log(`🌊 Flow comparison: ${nodes.length} node, ${connectors.length} connector, ${resources.length} resource and ${properties.length} property changes`);
+
+        return {
+            leftStatus: this.getChildText(leftFlow, 'status'),
+            rightStatus: this.getChildText(rightFlow, 'status'),
+            leftApiVersion: this.getChildText(leftFlow, 'apiVersion'),
+            rightApiVersion: this.getChildText(rightFlow, 'apiVersion'),
+            properties,
+            nodes,
+            resources,
+            connectors,
+            identical: properties.length === 0 && nodes.length === 0 && resources.length === 0 && connectors.length === 0
+        };
+    }
+
+    /**
+     * Collect every connector of a flow keyed by "source › connector path"
+     */
+    public collectConnectors(flow: XmlElement): Map<string, { source: string; connector: string; target: string }> {
+        const connectors = new Map<string, { source: string; connector: string; target: string }>();
+
+        for (const node of flow.children.filter(child => FLOW_NODE_ELEMENTS.includes(child.name))) {
+            const source = this.getElementName(node);
+            const walk = (element: XmlElement, prefix: string): void => {
+                for (const child of element.children) {
+                    if (CONNECTOR_ELEMENTS.includes(child.name)) {
+                        const target = this.getChildText(child, 'targetReference');
+                        if (target) {
+                            const connector = `${prefix}${child.name}`;
+                            connectors.set(`${source}${PATH_SEPARATOR}${connector}`, { source, connector, target });
+                        }
+                    } else if (child.children.length > 0) {
+                        const key = SemanticXmlDiffService.getElementKey(child);
+                        walk(child, `${prefix}${child.name}${key ? `[${key}]` : ''}${PATH_SEPARATOR}`);
+                    }
+                }
+            };
+            walk(node, '');
+        }
+
+        return connectors;
+    }
+
+    /**
+     * Parse a document and make sure it is a flow
+     */
+    private parseFlow(xml: string): XmlElement {
+        const root = MetadataXmlParser.parse(xml);
+        if (root.name !== 'Flow') {
+            throw new Error(`Expected a Flow but found ${root.name}`);
+        }
+        return root;
+    }
+
+    /**
+     * Match elements of the given types by name and report added, removed and modified ones
+     * Connectors and canvas positions are excluded - connectors are reported separately
+     */
+    private compareNamedElements(leftFlow: XmlElement, rightFlow: XmlElement, elementTypes: string[]): FlowElementChange[] {
+        const leftElements = this.indexElements(leftFlow, elementTypes);
+        const rightElements = this.indexElements(rightFlow, elementTypes);
+        const keys = [...new Set([...leftElements.keys(), ...rightElements.keys()])].sort((a, b) => a.localeCompare(b));
+        const changes: FlowElementChange[] = [];
+
+        for (const key of keys) {
+            const left = leftElements.get(key);
+            const right = rightElements.get(key);
+            const element = (left || right)!;
+            const change = {
+                elementType: element.name,
+                name: this.getElementName(element),
+                label: this.getChildText(right || element, 'label')
+            };
+
+            if (left && right) {
+                const details = this.semanticXmlDiffService.compareElements(
+                    this.withoutChildren(left, [...CONNECTOR_ELEMENTS, ...LAYOUT_ELEMENTS], true),
+                    this.withoutChildren(right, [...CONNECTOR_ELEMENTS, ...LAYOUT_ELEMENTS], true)
+                );
+                if (details.length > 0) {
+                    changes.push({ ...change, kind: SemanticChangeKind.Changed, details });
+                }
+            } else {
+                changes.push({ ...change, kind: left ? SemanticChangeKind.Removed : SemanticChangeKind.Added, details: [] });
+            }
+        }
+
+        return changes;
+    }
+
+    /**
+     * Report connectors that were added, removed or now point at a different target
+     */
+    private compareConnectors(
+        left: Map<string, { source: string; connector: string; target: string }>,
+        right: Map<string, { source: string; connector: string; target: string }>
+    ): FlowConnectorChange[] {
+        const keys = [...new Set([...left.keys(), ...right.keys()])].sort((a, b) => a.localeCompare(b));
+        const changes: FlowConnectorChange[] = [];
+
+        for (const key of keys) {
+            const leftConnector = left.get(key);
+            const rightConnector = right.get(key);
+            const connector = (leftConnector || rightConnector)!;
+
+            if (leftConnector?.target === rightConnector?.target) {
+                continue;
+            }
+
+            let kind = SemanticChangeKind.Changed;
+            if (!leftConnector) {
+                kind = SemanticChangeKind.Added;
+            } else if (!rightConnector) {
+                kind = SemanticChangeKind.Removed;
+            }
+
+            changes.push({
+                kind,
+                source: connector.source,
+                connector: connector.connector,
+                leftTarget: leftConnector?.target,
+                rightTarget: rightConnector?.target
+            });
+        }
+
+        return changes;
+    }
+
+    /**
+     * Index the elements of the given types by "type:name"
+     */
+    private indexElements(flow: XmlElement, elementTypes: string[]): Map<string, XmlElement> {
+        const elements = new Map<string, XmlElement>();
+        for (const child of flow.children) {
+            if (elementTypes.includes(child.name)) {
+                elements.set(`${child.name}:${this.getElementName(child)}`, child);
+            }
+        }
+        return elements;
+    }
+
+    /**
+     * Get the API name of a flow element
+     */
+    private getElementName(element: XmlElement): string {
+        return element.name === 'start' ? START_NODE_NAME : this.getChildText(element, 'name') || '(unnamed)';
+    }
+
+    /**
+     * Get the text of a direct child element
+     */
+    private getChildText(element: XmlElement, childName: string): string | undefined {
+        return element.children.find(child => child.name === childName)?.text;
+    }
+
+    /**
+     * Copy an element without the named children, optionally removing them at every depth
+     */
+    private withoutChildren(element: XmlElement, names: string[], recursive: boolean = false): XmlElement {
+        return {
+            ...element,
+            children: element.children
+                .filter(child => !names.includes(child.name))
+                .map(child => recursive ? this.withoutChildren(child, names, true) : child)
+        };
+    }
+}
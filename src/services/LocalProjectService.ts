@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComparisonSource } from '../types';
+import { SfdxProject } from '../core/SfdxProject';
+
+/**
+ * Service exposing the SFDX project of the open workspace as a pseudo-org source
+ */
+export class LocalProjectService {
+    /** Org ID used for files that belong to the local SFDX project */
+    public static readonly LOCAL_PROJECT_ORG_ID = 'local-project';
+
+    /** Display name used wherever an org name is shown */
+    public static readonly LOCAL_PROJECT_LABEL = 'Local Project';
+
+    /**
+     * Check whether an org ID refers to the local SFDX project
+     */
+    public static isLocalProject(orgId: string | undefined): boolean {
+        return orgId === LocalProjectService.LOCAL_PROJECT_ORG_ID;
+    }
+
+    /**
+     * Get the root directory of the first workspace folder containing an sfdx-project.json
+     */
+    public getProjectRoot(): string | undefined {
+        const workspaceFolders = vscode.workspace.workspaceFolders || [];
+
+        for (const folder of workspaceFolders) {
+            if (SfdxProject.isProject(folder.uri.fsPath)) {
+                return folder.uri.fsPath;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Check whether the workspace contains an SFDX project
+     */
+    public hasProject(): boolean {
+        return this.getProjectRoot() !== undefined;
+    }
+
+    /**
+     * Get the project name from sfdx-project.json, falling back to the folder name
+     */
+    public getProjectName(): string {
+        const projectRoot = this.getProjectRoot();
+        if (!projectRoot) {
+            return LocalProjectService.LOCAL_PROJECT_LABEL;
+        }
+        return SfdxProject.readConfig(projectRoot)?.name || path.basename(projectRoot);
+    }
+
+    /**
+     * Get absolute paths of all package directories declared in sfdx-project.json
+     */
+    public getPackageDirectories(): string[] {
+        const projectRoot = this.getProjectRoot();
+        if (!projectRoot) {
+            return [];
+        }
+
+        return SfdxProject.getPackageDirectories(projectRoot);
+    }
+
+    /**
+     * Get the metadata source roots - the main/default folder when present, the package directory otherwise
+     */
+    public getSourceRoots(): string[] {
+        const projectRoot = this.getProjectRoot();
+        return projectRoot ? SfdxProject.getSourceRoots(projectRoot) : [];
+    }
+
+    /**
+     * Find the local file matching a path relative to an org source directory (e.g. "classes/Foo.cls")
+     */
+    public findLocalCounterpart(relativePath: string): string | undefined {
+        const segments = relativePath.split(/[\\/]/);
+
+        for (const sourceRoot of this.getSourceRoots()) {
+            const candidate = path.join(sourceRoot, ...segments);
+            if (fs.existsSync(candidate)) {
+                return candidate;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Get the local project as a comparison source
+     */
+    public getComparisonSource(): ComparisonSource {
+        return {
+            id: LocalProjectService.LOCAL_PROJECT_ORG_ID,
+            label: LocalProjectService.LOCAL_PROJECT_LABEL,
+            rootDirectories: this.getSourceRoots()
+        };
+    }
+}
@@ -3,18 +3,11 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { ConfigurationManager, SF_CONFIG } from '../config';
 import { ErrorHandler, ErrorUtils } from '../errors/ErrorHandler';
+import { MetadataComponentRef, RetrievalEngine } from '../types';
+import { AVAILABLE_METADATA_TYPES, MetadataType } from '../core/MetadataTypes';
+import { PackageXmlBuilder } from '../core/PackageXmlBuilder';
 
-/**
- * Metadata type definition for manifest generation
- */
-export interface MetadataType {
-    name: string;
-    displayName: string;
-    description: string;
-    category: string;
-    enabled: boolean;
-    members?: string[];
-}
+export { AVAILABLE_METADATA_TYPES, type MetadataType } from '../core/MetadataTypes';
 
 /**
  * Org-specific manifest configuration
@@ -26,64 +19,9 @@ export interface OrgManifestConfig {
     enabledMetadataTypes: string[];
     customMembers: Map<string, string[]>; // metadata type -> specific members
     apiVersion: string;
+    retrievalEngine?: RetrievalEngine; // defaults to the Salesforce CLI
 }
 
-/**
- * Predefined metadata types available for selection
- */
-export const AVAILABLE_METADATA_TYPES: MetadataType[] = [
-    // Apex
-    { name: 'ApexClass', displayName: 'Apex Classes', description: 'Apex class files (.cls)', category: 'Apex', enabled: true },
-    { name: 'ApexTrigger', displayName: 'Apex Triggers', description: 'Apex trigger files (.trigger)', category: 'Apex', enabled: true },
-    { name: 'ApexTestSuite', displayName: 'Apex Test Suites', description: 'Test suite definitions', category: 'Apex', enabled: true },
-    
-    // Lightning Components
-    { name: 'LightningComponentBundle', displayName: 'Lightning Web Components', description: 'LWC bundles', category: 'Components', enabled: true },
-    { name: 'AuraDefinitionBundle', displayName: 'Aura Components', description: 'Aura component bundles', category: 'Components', enabled: true },
-    
-    // Objects and Fields
-    { name: 'CustomObject', displayName: 'Custom Objects', description: 'Custom object definitions', category: 'Objects', enabled: true },
-    { name: 'CustomField', displayName: 'Custom Fields', description: 'Custom field definitions', category: 'Objects', enabled: false },
-    { name: 'CustomMetadata', displayName: 'Custom Metadata Types', description: 'Custom metadata type definitions', category: 'Objects', enabled: false },
-    
-    // Flows and Automation
-    { name: 'Flow', displayName: 'Flows', description: 'Flow definitions', category: 'Automation', enabled: true },
-    { name: 'WorkflowRule', displayName: 'Workflow Rules', description: 'Workflow rule definitions', category: 'Automation', enabled: false },
-    { name: 'ProcessBuilder', displayName: 'Process Builder', description: 'Process builder definitions', category: 'Automation', enabled: false },
-    
-    // User Interface
-    { name: 'Layout', displayName: 'Page Layouts', description: 'Page layout definitions', category: 'UI', enabled: true },
-    { name: 'ListView', displayName: 'List Views', description: 'List view definitions', category: 'UI', enabled: false },
-    { name: 'FlexiPage', displayName: 'Lightning Pages', description: 'Lightning page definitions', category: 'UI', enabled: false },
-    
-    // Security
-    { name: 'PermissionSet', displayName: 'Permission Sets', description: 'Permission set definitions', category: 'Security', enabled: true },
-    { name: 'Profile', displayName: 'Profiles', description: 'Profile definitions', category: 'Security', enabled: false },
-    { name: 'Role', displayName: 'Roles', description: 'Role hierarchy definitions', category: 'Security', enabled: false },
-    
-    // Communication
-    { name: 'EmailTemplate', displayName: 'Email Templates', description: 'Email template definitions', category: 'Communication', enabled: false },
-    { name: 'LetterHead', displayName: 'Letterheads', description: 'Letterhead definitions', category: 'Communication', enabled: false },
-    
-    // Analytics
-    { name: 'Report', displayName: 'Reports', description: 'Report definitions', category: 'Analytics', enabled: false },
-    { name: 'Dashboard', displayName: 'Dashboards', description: 'Dashboard definitions', category: 'Analytics', enabled: false },
-    { name: 'ReportType', displayName: 'Report Types', description: 'Custom report type definitions', category: 'Analytics', enabled: false },
-    
-    // Static Resources
-    { name: 'StaticResource', displayName: 'Static Resources', description: 'Static resource files', category: 'Resources', enabled: false },
-    { name: 'ContentAsset', displayName: 'Content Assets', description: 'Content asset files', category: 'Resources', enabled: false },
-    
-    // Integration
-    { name: 'RemoteSiteSetting', displayName: 'Remote Site Settings', description: 'Remote site setting definitions', category: 'Integration', enabled: false },
-    { name: 'NamedCredential', displayName: 'Named Credentials', description: 'Named credential definitions', category: 'Integration', enabled: false },
-    
-    // Validation and Business Logic
-    { name: 'ValidationRule', displayName: 'Validation Rules', description: 'Validation rule definitions', category: 'Business Logic', enabled: false },
-    { name: 'AssignmentRule', displayName: 'Assignment Rules', description: 'Assignment rule definitions', category: 'Business Logic', enabled: false },
-    { name: 'AutoResponseRule', displayName: 'Auto-Response Rules', description: 'Auto-response rule definitions', category: 'Business Logic', enabled: false }
-];
-
 /**
  * Default manifest configuration for new orgs
  */
@@ -91,7 +29,21 @@ export const DEFAULT_MANIFEST_CONFIG: Omit<OrgManifestConfig, 'orgId' | 'orgAlia
     lastModified: new Date(),
     enabledMetadataTypes: AVAILABLE_METADATA_TYPES.filter(type => type.enabled).map(type => type.name),
     customMembers: new Map(),
-    apiVersion: '58.0'
+    apiVersion: '58.0',
+    retrievalEngine: 'cli'
+};
+
+/**
+ * Destructive changes are processed before (pre) or after (post) the components of package.xml are deployed
+ */
+export type DestructiveChangesTiming = 'pre' | 'post';
+
+/**
+ * File names the Metadata API expects for each destructive changes timing
+ */
+export const DESTRUCTIVE_CHANGES_FILE_NAMES: Record<DestructiveChangesTiming, string> = {
+    pre: 'destructiveChanges.xml',
+    post: 'destructiveChangesPost.xml'
 };
 
 /**
@@ -179,8 +131,15 @@ export class ManifestManager {
 
     /**
      * Generate package.xml manifest for an org
+     * When components are given, the manifest lists exactly those members instead of the configured types
      */
-    public generateManifest(orgId: string): string {
+    public generateManifest(orgId: string, components?: MetadataComponentRef[]): string {
+        if (components) {
+            // Avoid creating a stored configuration for targets such as the local project
+            const apiVersion = this.orgConfigs.get(orgId)?.apiVersion || this.config.getApiVersion();
+            return PackageXmlBuilder.forComponents(components, apiVersion);
+        }
+
         const config = this.getOrgManifestConfig(orgId);
         const enabledTypes = this.getEnabledMetadataTypes(orgId);
         
@@ -188,40 +147,27 @@ export class ManifestManager {
         console.log(`🔧 DEBUG: Config enabled types:`, config.enabledMetadataTypes);
         console.log(`🔧 DEBUG: Resolved enabled types:`, enabledTypes.map(t => t.name));
         
-        let manifestContent = `<?xml version="1.0" encoding="UTF-8"?>
-<Package xmlns="http://soap.sforce.com/2006/04/metadata">`;
+        return PackageXmlBuilder.forTypes(enabledTypes.map(type => type.name), config.apiVersion, config.customMembers);
+    }
 
-        // Add each enabled metadata type
-        for (const type of enabledTypes) {
-            const customMembers = config.customMembers.get(type.name);
-            const members = customMembers && customMembers.length > 0 ? customMembers : ['*'];
-            
-            manifestContent += `
-    <types>`;
-            
-            for (const member of members) {
-                manifestContent += `
-        <members>${member}</members>`;
-            }
-            
-            manifestContent += `
-        <name>${type.name}</name>
-    </types>`;
+    /**
+     * Generate destructiveChanges.xml content deleting the given components
+     * The format is that of package.xml, except that wildcards are not allowed
+     */
+    public generateDestructiveChanges(orgId: string, components: MetadataComponentRef[]): string {
+        const wildcard = components.find(component => component.fullName.includes('*'));
+        if (wildcard) {
+            throw new Error(`Destructive changes cannot use wildcards: ${wildcard.type} ${wildcard.fullName}`);
         }
-        
-        manifestContent += `
-    <version>${config.apiVersion}</version>
-</Package>`;
-
-        return manifestContent;
+        return this.generateManifest(orgId, components);
     }
 
     /**
      * Save manifest to file
      */
-    public async saveManifestToFile(orgId: string, filePath: string): Promise<void> {
+    public async saveManifestToFile(orgId: string, filePath: string, components?: MetadataComponentRef[]): Promise<void> {
         try {
-            const manifest = this.generateManifest(orgId);
+            const manifest = this.generateManifest(orgId, components);
             await fs.promises.writeFile(filePath, manifest, 'utf8');
             console.log(`Manifest saved to: ${filePath}`);
         } catch (error) {
@@ -233,6 +179,23 @@ export class ManifestManager {
         }
     }
 
+    /**
+     * Save destructive changes to file
+     */
+    public async saveDestructiveChangesToFile(orgId: string, filePath: string, components: MetadataComponentRef[]): Promise<void> {
+        try {
+            const destructiveChanges = this.generateDestructiveChanges(orgId, components);
+            await fs.promises.writeFile(filePath, destructiveChanges, 'utf8');
+            console.log(`Destructive changes saved to: ${filePath}`);
+        } catch (error) {
+            const standardError = this.errorHandler.standardizeError(
+                error as Error,
+                'Destructive changes file save'
+            );
+            throw new Error(standardError.userMessage || standardError.message);
+        }
+    }
+
     /**
      * Get manifest statistics for an org
      */
@@ -302,7 +265,8 @@ export class ManifestManager {
                     lastModified: new Date(configData.lastModified),
                     enabledMetadataTypes: configData.enabledMetadataTypes || DEFAULT_MANIFEST_CONFIG.enabledMetadataTypes,
                     customMembers: new Map(Object.entries(configData.customMembers || {})),
-                    apiVersion: configData.apiVersion || DEFAULT_MANIFEST_CONFIG.apiVersion
+                    apiVersion: configData.apiVersion || DEFAULT_MANIFEST_CONFIG.apiVersion,
+                    retrievalEngine: configData.retrievalEngine || DEFAULT_MANIFEST_CONFIG.retrievalEngine
                 };
                 
                 this.orgConfigs.set(orgId, config);
@@ -328,7 +292,8 @@ export class ManifestManager {
                     lastModified: config.lastModified.toISOString(),
                     enabledMetadataTypes: config.enabledMetadataTypes,
                     customMembers: Object.fromEntries(config.customMembers),
-                    apiVersion: config.apiVersion
+                    apiVersion: config.apiVersion,
+                    retrievalEngine: config.retrievalEngine
                 };
             }
             
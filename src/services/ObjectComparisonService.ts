@@ -0,0 +1,157 @@
+import { CustomField, EnhancedObjectMetadata, ObjectComparisonResult, ObjectMemberCategory, ObjectMemberComparisonRow, ValidationRule } from '../types';
+
+/**
+ * Attribute column shown for an object member category
+ */
+export interface ObjectMemberColumn {
+    name: string;
+    label: string;
+    boolean: boolean;
+}
+
+/**
+ * Attributes compared per member category, in display order
+ */
+export const OBJECT_MEMBER_COLUMNS: Record<ObjectMemberCategory, ObjectMemberColumn[]> = {
+    [ObjectMemberCategory.Field]: [
+        { name: 'label', label: 'Label', boolean: false },
+        { name: 'type', label: 'Type', boolean: false },
+        { name: 'length', label: 'Length', boolean: false },
+        { name: 'required', label: 'Required', boolean: true },
+        { name: 'unique', label: 'Unique', boolean: true },
+        { name: 'formula', label: 'Formula', boolean: false }
+    ],
+    [ObjectMemberCategory.ValidationRule]: [
+        { name: 'active', label: 'Active', boolean: true },
+        { name: 'errorConditionFormula', label: 'Error Condition', boolean: false },
+        { name: 'errorMessage', label: 'Error Message', boolean: false },
+        { name: 'errorDisplayField', label: 'Display Field', boolean: false }
+    ]
+};
+
+/**
+ * Display names of the member categories
+ */
+export const OBJECT_MEMBER_CATEGORY_LABELS: Record<ObjectMemberCategory, string> = {
+    [ObjectMemberCategory.Field]: 'Custom Fields',
+    [ObjectMemberCategory.ValidationRule]: 'Validation Rules'
+};
+
+/**
+ * Service comparing the custom fields and validation rules of an object as described in two orgs
+ */
+export class ObjectComparisonService {
+
+    /**
+     * Compare two described objects, aligning fields by API name and validation rules by name
+     * API names are matched case-insensitively, as Salesforce treats them
+     */
+    public compareMetadata(left: EnhancedObjectMetadata, right: EnhancedObjectMetadata): ObjectComparisonResult {
+        const rows: ObjectMemberComparisonRow[] = [
+            ...this.compareMembers(
+                ObjectMemberCategory.Field,
+                this.indexMembers(left.customFields || [], field => this.getFieldValues(field)),
+                this.indexMembers(right.customFields || [], field => this.getFieldValues(field))
+            ),
+            ...this.compareMembers(
+                ObjectMemberCategory.ValidationRule,
+                this.indexMembers(left.validationRules || [], rule => this.getValidationRuleValues(rule)),
+                this.indexMembers(right.validationRules || [], rule => this.getValidationRuleValues(rule))
+            )
+        ];
+
+        const differing = rows.filter(row => ObjectComparisonService.isDifferent(row)).length;
+        console.log(`🧱 Object comparison for ${right.fullName}: ${differing} of ${rows.length} members differ`);
+
+        return {
+            objectName: right.fullName || left.fullName,
+            leftLabel: left.label,
+            rightLabel: right.label,
+            rows,
+            identical: differing === 0
+        };
+    }
+
+    /**
+     * Check whether a row is missing on one side or has differing attributes
+     */
+    public static isDifferent(row: ObjectMemberComparisonRow): boolean {
+        return !row.left || !row.right || row.differences.length > 0;
+    }
+
+    /**
+     * Match members by lower-cased name and report the columns whose values differ
+     */
+    private compareMembers(
+        category: ObjectMemberCategory,
+        left: Map<string, { name: string; values: Record<string, string> }>,
+        right: Map<string, { name: string; values: Record<string, string> }>
+    ): ObjectMemberComparisonRow[] {
+        const keys = [...new Set([...left.keys(), ...right.keys()])].sort((a, b) => a.localeCompare(b));
+
+        return keys.map(key => {
+            const leftMember = left.get(key);
+            const rightMember = right.get(key);
+            const differences = leftMember && rightMember
+                ? OBJECT_MEMBER_COLUMNS[category]
+                    .filter(column => leftMember.values[column.name] !== rightMember.values[column.name])
+                    .map(column => column.name)
+                : [];
+
+            return {
+                category,
+                name: (rightMember || leftMember)!.name,
+                left: leftMember?.values,
+                right: rightMember?.values,
+                differences
+            };
+        });
+    }
+
+    /**
+     * Index members by lower-cased API name with their comparable values
+     */
+    private indexMembers<T extends { fullName: string }>(
+        members: T[],
+        getValues: (member: T) => Record<string, string>
+    ): Map<string, { name: string; values: Record<string, string> }> {
+        const index = new Map<string, { name: string; values: Record<string, string> }>();
+        for (const member of members) {
+            index.set(member.fullName.toLowerCase(), { name: member.fullName, values: getValues(member) });
+        }
+        return index;
+    }
+
+    /**
+     * Get the comparable values of a custom field
+     */
+    private getFieldValues(field: CustomField): Record<string, string> {
+        return {
+            label: field.label ?? '',
+            type: field.type ?? '',
+            length: field.length ? String(field.length) : '',
+            required: String(!!field.required),
+            unique: String(!!field.unique),
+            formula: this.normalizeText(field.formula)
+        };
+    }
+
+    /**
+     * Get the comparable values of a validation rule
+     */
+    private getValidationRuleValues(rule: ValidationRule): Record<string, string> {
+        return {
+            active: String(!!rule.active),
+            errorConditionFormula: this.normalizeText(rule.errorConditionFormula),
+            errorMessage: this.normalizeText(rule.errorMessage),
+            errorDisplayField: rule.errorDisplayField ?? ''
+        };
+    }
+
+    /**
+     * Normalize line endings and surrounding whitespace of formulas and messages
+     */
+    private normalizeText(value: string | undefined): string {
+        return (value ?? '').replace(/\r\n/g, '\n').trim();
+    }
+}
@@ -1,7 +1,10 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import { TreeItem, SalesforceOrg } from '../types';
+import { ContentNormalizer } from './ContentNormalizer';
+import { MetadataPathResolver } from '../metadata/MetadataPathResolver';
 
 export interface OrgCacheMetadata {
     orgId: string;
@@ -16,12 +19,37 @@ export interface CacheIndex {
     lastUpdated: Date;
 }
 
+/**
+ * Normalized content hashes of an org's cached files, keyed by forward-slash path relative to its source directory
+ * Size and modification time tell whether a hash still matches the file on disk
+ */
+export interface OrgContentHashes {
+    sourceDirectory: string;
+    rulesKey: string; // ignore rules the hashes were computed with
+    files: { [relativePath: string]: { hash: string; size: number; modified: number } };
+}
+
+/**
+ * How a file compares with the file at the same path in the reference org
+ * - missingInReference: the reference has the file's component, but not this file of it
+ * - extra: the reference does not have the file's component at all
+ */
+export type ReferenceFileStatus = 'identical' | 'modified' | 'missingInReference' | 'extra';
+
 export class OrgCacheService {
     private cacheDirectory: string;
     private cacheIndexPath: string;
     private cacheIndex: CacheIndex = { orgs: {}, lastUpdated: new Date() };
-
-    constructor(private context: vscode.ExtensionContext) {
+    private contentHashes: Map<string, OrgContentHashes> = new Map();
+    private componentKeys: WeakMap<OrgContentHashes, Set<string>> = new WeakMap();
+    private _onDidChangeContentHashes: vscode.EventEmitter<string | undefined> = new vscode.EventEmitter<string | undefined>();
+    /** Fires with the org whose hashes changed, or nothing when the reference org changed */
+    readonly onDidChangeContentHashes: vscode.Event<string | undefined> = this._onDidChangeContentHashes.event;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private contentNormalizer: ContentNormalizer = new ContentNormalizer()
+    ) {
         this.cacheDirectory = path.join(context.globalStorageUri.fsPath, 'orgCache');
         this.cacheIndexPath = path.join(this.cacheDirectory, 'cache_index.json');
         this.ensureCacheDirectory();
@@ -100,6 +128,13 @@ export class OrgCacheService {
         return path.join(this.cacheDirectory, `${orgId}_metadata.json`);
     }
 
+    /**
+     * Get file path for org's content hashes
+     */
+    private getOrgHashesPath(orgId: string): string {
+        return path.join(this.cacheDirectory, `${orgId}_hashes.json`);
+    }
+
     /**
      * Check if org has cached files
      */
@@ -133,8 +168,9 @@ export class OrgCacheService {
 
     /**
      * Cache files for an org
+     * @param sourceDirectory Directory the files were listed from - when given, their content hashes are cached too
      */
-    public cacheOrgFiles(orgId: string, org: SalesforceOrg, files: TreeItem[]): void {
+    public cacheOrgFiles(orgId: string, org: SalesforceOrg, files: TreeItem[], sourceDirectory?: string): void {
         try {
             const filesPath = this.getOrgFilesPath(orgId);
             const metadataPath = this.getOrgMetadataPath(orgId);
@@ -159,12 +195,96 @@ export class OrgCacheService {
             this.cacheIndex.orgs[orgId] = metadata;
             this.saveCacheIndex();
 
+            if (sourceDirectory) {
+                this.saveContentHashes(orgId, this.hashFiles(sourceDirectory, this.collectFilePaths(files), this.contentHashes.get(orgId)));
+            }
+
             console.log(`💾 Cached ${files.length} file types for org ${org.alias || org.username} (${metadata.fileCount} total files)`);
         } catch (error) {
             console.error(`❌ Failed to cache files for org ${orgId}:`, error);
         }
     }
 
+    /**
+     * Get the normalized content hashes of an org's cached files, keyed by source-relative path
+     * Files changed since they were hashed, or hashed under other ignore rules, are hashed again
+     * @param sourceDirectory Directory the hashes must have been computed for
+     */
+    public getFileHashes(orgId: string, sourceDirectory: string): Map<string, string> | null {
+        const cached = this.loadContentHashes(orgId);
+        if (!cached || path.resolve(cached.sourceDirectory) !== path.resolve(sourceDirectory)) {
+            return null;
+        }
+
+        const relativePaths = Object.keys(cached.files);
+        const hashes = this.hashFiles(
+            cached.sourceDirectory,
+            relativePaths.map(relativePath => path.join(cached.sourceDirectory, relativePath)),
+            cached
+        );
+        const changed = hashes.rulesKey !== cached.rulesKey ||
+            Object.keys(hashes.files).length !== relativePaths.length ||
+            relativePaths.some(relativePath => hashes.files[relativePath]?.hash !== cached.files[relativePath].hash);
+        if (changed) {
+            this.saveContentHashes(orgId, hashes);
+        }
+
+        return new Map(Object.entries(hashes.files).map(([relativePath, entry]) => [relativePath, entry.hash]));
+    }
+
+    /**
+     * Check if org has content hashes
+     */
+    public hasContentHashes(orgId: string): boolean {
+        return this.loadContentHashes(orgId) !== undefined;
+    }
+
+    /**
+     * Compare a cached file of an org with the file at the same path in the reference org
+     * @returns Nothing when no reference org is set, the org is the reference or either org has no hashes
+     */
+    public compareWithReference(orgId: string, filePath: string): ReferenceFileStatus | undefined {
+        const referenceOrgId = this.getReferenceOrgId();
+        if (!referenceOrgId || referenceOrgId === orgId) {
+            return undefined;
+        }
+
+        const cached = this.loadContentHashes(orgId);
+        const reference = this.loadContentHashes(referenceOrgId);
+        if (!cached || !reference) {
+            return undefined;
+        }
+
+        const relativePath = path.relative(cached.sourceDirectory, filePath).split(path.sep).join('/');
+        const entry = cached.files[relativePath];
+        if (!entry || cached.rulesKey !== reference.rulesKey) {
+            return undefined;
+        }
+
+        const referenceEntry = reference.files[relativePath];
+        if (referenceEntry) {
+            return referenceEntry.hash === entry.hash ? 'identical' : 'modified';
+        }
+
+        const component = MetadataPathResolver.resolve(relativePath);
+        return component && this.getComponentKeys(reference).has(`${component.type}:${component.fullName}`) ? 'missingInReference' : 'extra';
+    }
+
+    /**
+     * Get the org other orgs' files are compared with in the tree
+     */
+    public getReferenceOrgId(): string | undefined {
+        return this.context.globalState.get<string>('referenceOrgId');
+    }
+
+    /**
+     * Set the org other orgs' files are compared with in the tree, or clear it
+     */
+    public async setReferenceOrgId(orgId: string | undefined): Promise<void> {
+        await this.context.globalState.update('referenceOrgId', orgId);
+        this._onDidChangeContentHashes.fire(undefined);
+    }
+
     /**
      * Get cache metadata for an org
      */
@@ -179,6 +299,7 @@ export class OrgCacheService {
         try {
             const filesPath = this.getOrgFilesPath(orgId);
             const metadataPath = this.getOrgMetadataPath(orgId);
+            const hashesPath = this.getOrgHashesPath(orgId);
 
             // Remove files
             if (fs.existsSync(filesPath)) {
@@ -187,6 +308,12 @@ export class OrgCacheService {
             if (fs.existsSync(metadataPath)) {
                 fs.unlinkSync(metadataPath);
             }
+            if (fs.existsSync(hashesPath)) {
+                fs.unlinkSync(hashesPath);
+            }
+            if (this.contentHashes.delete(orgId)) {
+                this._onDidChangeContentHashes.fire(orgId);
+            }
 
             // Remove from index
             delete this.cacheIndex.orgs[orgId];
@@ -255,6 +382,109 @@ export class OrgCacheService {
         return count;
     }
 
+    /**
+     * Collect the paths of all files in tree structure
+     */
+    private collectFilePaths(items: TreeItem[]): string[] {
+        const filePaths: string[] = [];
+        for (const item of items) {
+            if (item.type === 'file' && item.file?.filePath) {
+                filePaths.push(item.file.filePath);
+            } else if (item.children) {
+                filePaths.push(...this.collectFilePaths(item.children));
+            }
+        }
+        return filePaths;
+    }
+
+    /**
+     * Hash the normalized content of files, reusing the hashes of files unchanged since the previous run
+     */
+    private hashFiles(sourceDirectory: string, filePaths: string[], previous?: OrgContentHashes): OrgContentHashes {
+        const rulesKey = this.contentNormalizer.getRulesKey();
+        const hashes: OrgContentHashes = { sourceDirectory, rulesKey, files: {} };
+        const reusable = previous && previous.sourceDirectory === sourceDirectory && previous.rulesKey === rulesKey ? previous.files : {};
+
+        for (const filePath of filePaths) {
+            const relativePath = path.relative(sourceDirectory, filePath).split(path.sep).join('/');
+            try {
+                const stats = fs.statSync(filePath);
+                const known = reusable[relativePath];
+                if (known && known.size === stats.size && known.modified === stats.mtimeMs) {
+                    hashes.files[relativePath] = known;
+                    continue;
+                }
+
+                let content = fs.readFileSync(filePath);
+                if (this.contentNormalizer.hasRulesFor(filePath) && !ContentNormalizer.isBinary(content)) {
+                    content = Buffer.from(this.contentNormalizer.normalize(filePath, content.toString('utf8')), 'utf8');
+                }
+                hashes.files[relativePath] = {
+                    hash: crypto.createHash('sha256').update(content).digest('hex'),
+                    size: stats.size,
+                    modified: stats.mtimeMs
+                };
+            } catch {
+                // Files deleted since they were listed are left out
+            }
+        }
+
+        return hashes;
+    }
+
+    /**
+     * Load an org's content hashes, from memory or disk
+     */
+    private loadContentHashes(orgId: string): OrgContentHashes | undefined {
+        let hashes = this.contentHashes.get(orgId);
+        if (!hashes) {
+            try {
+                const hashesPath = this.getOrgHashesPath(orgId);
+                if (!fs.existsSync(hashesPath)) {
+                    return undefined;
+                }
+                hashes = JSON.parse(fs.readFileSync(hashesPath, 'utf8')) as OrgContentHashes;
+                this.contentHashes.set(orgId, hashes);
+            } catch (error) {
+                console.error(`❌ Failed to load content hashes for org ${orgId}:`, error);
+                return undefined;
+            }
+        }
+        return hashes;
+    }
+
+    /**
+     * Save an org's content hashes to memory and disk
+     */
+    private saveContentHashes(orgId: string, hashes: OrgContentHashes): void {
+        this.contentHashes.set(orgId, hashes);
+        this._onDidChangeContentHashes.fire(orgId);
+        try {
+            fs.writeFileSync(this.getOrgHashesPath(orgId), JSON.stringify(hashes), 'utf8');
+            console.log(`💾 Saved content hashes of ${Object.keys(hashes.files).length} files for org ${orgId}`);
+        } catch (error) {
+            console.error(`❌ Failed to save content hashes for org ${orgId}:`, error);
+        }
+    }
+
+    /**
+     * Get the keys (type:fullName) of the components the hashed files belong to
+     */
+    private getComponentKeys(hashes: OrgContentHashes): Set<string> {
+        let keys = this.componentKeys.get(hashes);
+        if (!keys) {
+            keys = new Set();
+            for (const relativePath of Object.keys(hashes.files)) {
+                const component = MetadataPathResolver.resolve(relativePath);
+                if (component) {
+                    keys.add(`${component.type}:${component.fullName}`);
+                }
+            }
+            this.componentKeys.set(hashes, keys);
+        }
+        return keys;
+    }
+
     /**
      * calculate directory size recursively
      */
@@ -0,0 +1,315 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComparisonEntry, ComparisonSource, ComparisonStatus, ComponentReference, MetadataComponentRef, OrgComparisonResult } from '../types';
+import { SF_CONFIG } from '../config/Constants';
+import { MetadataPathResolver } from '../metadata/MetadataPathResolver';
+import { ContentNormalizer } from './ContentNormalizer';
+
+/** Files larger than this are not searched for references */
+const MAX_REFERENCE_SCAN_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Service for comparing the complete retrieved source trees of two organizations
+ */
+export class OrgComparisonService {
+
+    constructor(private contentNormalizer: ContentNormalizer = new ContentNormalizer()) {}
+
+    /**
+     * Compare two sources and categorize every file as changed, identical or only present on one side
+     */
+    public async compareSources(left: ComparisonSource, right: ComparisonSource): Promise<OrgComparisonResult> {
+        console.log(`🔍 Comparing ${left.label} ↔ ${right.label}`);
+
+        const leftFiles = await this.collectFiles(left);
+        const rightFiles = await this.collectFiles(right);
+        const relativePaths = new Set<string>([...leftFiles.keys(), ...rightFiles.keys()]);
+        const entries: ComparisonEntry[] = [];
+
+        for (const relativePath of relativePaths) {
+            const leftPath = leftFiles.get(relativePath);
+            const rightPath = rightFiles.get(relativePath);
+            let status: ComparisonStatus;
+
+            if (leftPath && rightPath) {
+                // Cached content hashes spare reading both files
+                const leftHash = left.contentHashes?.get(relativePath);
+                const rightHash = right.contentHashes?.get(relativePath);
+                const identical = leftHash && rightHash ? leftHash === rightHash : await this.filesEqual(leftPath, rightPath);
+                status = identical ? ComparisonStatus.Identical : ComparisonStatus.Changed;
+            } else if (leftPath) {
+                status = ComparisonStatus.OnlyInLeft;
+            } else {
+                status = ComparisonStatus.OnlyInRight;
+            }
+
+            entries.push({
+                relativePath,
+                metadataFolder: OrgComparisonService.getMetadataFolder(relativePath),
+                status,
+                leftPath,
+                rightPath
+            });
+        }
+
+        entries.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+
+        const summary = OrgComparisonService.summarize(entries);
+        console.log(`✅ Comparison complete: ${summary.changed} changed, ${summary.onlyInLeft} only in ${left.label}, ${summary.onlyInRight} only in ${right.label}, ${summary.identical} identical`);
+
+        return {
+            left,
+            right,
+            entries,
+            comparedAt: new Date()
+        };
+    }
+
+    /**
+     * Collect all files of a source keyed by their forward-slash path relative to the source root
+     */
+    public async collectFiles(source: ComparisonSource): Promise<Map<string, string>> {
+        const files = new Map<string, string>();
+
+        for (const rootDirectory of source.rootDirectories) {
+            if (!fs.existsSync(rootDirectory)) {
+                console.warn(`Comparison root does not exist: ${rootDirectory}`);
+                continue;
+            }
+            await this.walkDirectory(rootDirectory, rootDirectory, files, 0);
+        }
+
+        return files;
+    }
+
+    /**
+     * Check whether two files have identical content, ignoring differences covered by the ignore rules
+     */
+    public async filesEqual(leftPath: string, rightPath: string): Promise<boolean> {
+        if (this.contentNormalizer.hasRulesFor(rightPath)) {
+            return this.contentNormalizer.areFilesEquivalent(leftPath, rightPath);
+        }
+
+        const [leftStats, rightStats] = await Promise.all([
+            fs.promises.stat(leftPath),
+            fs.promises.stat(rightPath)
+        ]);
+
+        if (leftStats.size !== rightStats.size) {
+            return false;
+        }
+
+        const [leftContent, rightContent] = await Promise.all([
+            fs.promises.readFile(leftPath),
+            fs.promises.readFile(rightPath)
+        ]);
+
+        return leftContent.equals(rightContent);
+    }
+
+    /**
+     * Read a file as compared, i.e. with the ignore rules applied to text content
+     */
+    public async readComparableContent(filePath: string): Promise<Buffer> {
+        const content = await fs.promises.readFile(filePath);
+        if (!this.contentNormalizer.hasRulesFor(filePath) || ContentNormalizer.isBinary(content)) {
+            return content;
+        }
+        return Buffer.from(this.contentNormalizer.normalize(filePath, content.toString('utf8')), 'utf8');
+    }
+
+    /**
+     * Find files that still reference any of the components, e.g. Apex using a class that is about to be deleted
+     * Matching is textual on the API name, so the result is a hint rather than a complete dependency analysis
+     * @param files Source-relative paths mapped to absolute paths of the files to search
+     */
+    public async findReferences(components: MetadataComponentRef[], files: Map<string, string>): Promise<ComponentReference[]> {
+        const componentKeys = new Set(components.map(component => OrgComparisonService.getComponentKey(component)));
+        const searches = components.map(component => ({
+            component,
+            patterns: OrgComparisonService.getReferencePatterns(component),
+            referencedBy: [] as string[]
+        }));
+
+        for (const [relativePath, filePath] of files) {
+            const owner = MetadataPathResolver.resolve(relativePath);
+            if (owner && componentKeys.has(OrgComparisonService.getComponentKey(owner))) {
+                continue;
+            }
+
+            const stats = await fs.promises.stat(filePath);
+            if (stats.size > MAX_REFERENCE_SCAN_SIZE) {
+                continue;
+            }
+            const content = await fs.promises.readFile(filePath);
+            if (ContentNormalizer.isBinary(content)) {
+                continue;
+            }
+
+            const text = content.toString('utf8');
+            for (const search of searches) {
+                if (search.patterns.some(pattern => pattern.test(text))) {
+                    search.referencedBy.push(relativePath);
+                }
+            }
+        }
+
+        return searches
+            .filter(search => search.referencedBy.length > 0)
+            .map(({ component, referencedBy }) => ({ component, referencedBy }));
+    }
+
+    /**
+     * Group comparison entries by their top-level metadata folder
+     */
+    public static groupByMetadataFolder(entries: ComparisonEntry[]): Map<string, ComparisonEntry[]> {
+        const groups = new Map<string, ComparisonEntry[]>();
+
+        for (const entry of entries) {
+            const group = groups.get(entry.metadataFolder) || [];
+            group.push(entry);
+            groups.set(entry.metadataFolder, group);
+        }
+
+        return new Map([...groups.entries()].sort((a, b) => a[0].localeCompare(b[0])));
+    }
+
+    /**
+     * Count comparison entries per status
+     */
+    public static summarize(entries: ComparisonEntry[]): Record<ComparisonStatus, number> {
+        const summary: Record<ComparisonStatus, number> = {
+            [ComparisonStatus.Changed]: 0,
+            [ComparisonStatus.OnlyInLeft]: 0,
+            [ComparisonStatus.OnlyInRight]: 0,
+            [ComparisonStatus.Identical]: 0
+        };
+
+        for (const entry of entries) {
+            summary[entry.status]++;
+        }
+
+        return summary;
+    }
+
+    /**
+     * Get the metadata folder (e.g. "classes", "lwc") a relative path belongs to
+     */
+    public static getMetadataFolder(relativePath: string): string {
+        const segments = relativePath.split('/');
+        return segments.length > 1 ? segments[0] : '(root)';
+    }
+
+    /**
+     * Get the files present on one side of a comparison, keyed by their source-relative path
+     */
+    public static getSourceFiles(result: OrgComparisonResult, source: ComparisonSource): Map<string, string> {
+        const files = new Map<string, string>();
+
+        for (const entry of result.entries) {
+            const filePath = source === result.left ? entry.leftPath : entry.rightPath;
+            if (filePath) {
+                files.set(entry.relativePath, filePath);
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Get the distinct metadata components the entries belong to, sorted by type and name
+     * Files outside of known metadata folders are skipped
+     */
+    public static getComponents(entries: ComparisonEntry[]): MetadataComponentRef[] {
+        const components = new Map<string, MetadataComponentRef>();
+
+        for (const entry of entries) {
+            const component = MetadataPathResolver.resolve(entry.relativePath);
+            if (component) {
+                components.set(`${component.type}:${component.fullName}`, component);
+            }
+        }
+
+        return [...components.values()].sort((a, b) => a.type.localeCompare(b.type) || a.fullName.localeCompare(b.fullName));
+    }
+
+    /**
+     * Get the components that exist only on one side, i.e. none of their files is present on the other side
+     * Object children are left out when their whole object is missing, as deleting the object removes them
+     */
+    public static getComponentsOnlyIn(
+        entries: ComparisonEntry[],
+        status: ComparisonStatus.OnlyInLeft | ComparisonStatus.OnlyInRight
+    ): MetadataComponentRef[] {
+        const otherSide = new Set(
+            OrgComparisonService.getComponents(entries.filter(entry => entry.status !== status))
+                .map(component => OrgComparisonService.getComponentKey(component))
+        );
+        const missing = OrgComparisonService.getComponents(entries.filter(entry => entry.status === status))
+            .filter(component => !otherSide.has(OrgComparisonService.getComponentKey(component)));
+        const missingObjects = new Set(missing.filter(component => component.type === 'CustomObject').map(component => component.fullName));
+
+        return missing.filter(component =>
+            !MetadataPathResolver.getFolderForType(component.type)?.startsWith('objects/*/') ||
+            !missingObjects.has(component.fullName.split('.')[0])
+        );
+    }
+
+    /**
+     * Get a key identifying a component across sources
+     */
+    private static getComponentKey(component: MetadataComponentRef): string {
+        return `${component.type}:${component.fullName}`;
+    }
+
+    /**
+     * Get the patterns matching references to a component by its API name
+     * Lightning web components are referenced as c/name or <c-kebab-name>, Aura components as c:name
+     */
+    private static getReferencePatterns(component: MetadataComponentRef): RegExp[] {
+        const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const name = component.fullName.substring(component.fullName.lastIndexOf('/') + 1);
+
+        switch (component.type) {
+            case 'LightningComponentBundle': {
+                const kebabName = name.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+                return [new RegExp(`c/${escape(name)}(?![\\w-])`), new RegExp(`(?<![\\w-])c-${escape(kebabName)}(?![\\w-])`)];
+            }
+            case 'AuraDefinitionBundle':
+                return [new RegExp(`c:${escape(name)}(?![\\w-])`)];
+            default: {
+                // Object children such as Account.Region__c are referenced by their own name
+                const memberName = MetadataPathResolver.getFolderForType(component.type)?.startsWith('objects/*/')
+                    ? name.substring(name.indexOf('.') + 1)
+                    : name;
+                return [new RegExp(`(?<![\\w-])${escape(memberName)}(?![\\w-])`, 'i')];
+            }
+        }
+    }
+
+    /**
+     * Recursively walk a directory collecting file paths
+     */
+    private async walkDirectory(rootDirectory: string, dirPath: string, files: Map<string, string>, depth: number): Promise<void> {
+        if (depth > SF_CONFIG.FS.MAX_DIRECTORY_DEPTH) {
+            console.warn(`Maximum directory depth reached at: ${dirPath}`);
+            return;
+        }
+
+        const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+
+        for (const entry of entries) {
+            const fullPath = path.join(dirPath, entry.name);
+
+            if (entry.isDirectory()) {
+                await this.walkDirectory(rootDirectory, fullPath, files, depth + 1);
+            } else if (entry.isFile()) {
+                const relativePath = path.relative(rootDirectory, fullPath).split(path.sep).join('/');
+                // First root wins when several package directories contain the same path
+                if (!files.has(relativePath)) {
+                    files.set(relativePath, fullPath);
+                }
+            }
+        }
+    }
+}
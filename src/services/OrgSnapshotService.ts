@@ -0,0 +1,436 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigurationManager, SF_CONFIG } from '../config';
+import { SecureCommandExecutor } from '../security/SecureCommandExecutor';
+import { ComparisonSource, OrgSnapshot, SalesforceOrg, SnapshotDiffEntry, SnapshotFileChange, SnapshotRetention } from '../types';
+
+/** Prefix of comparison source ids referring to a snapshot */
+const SNAPSHOT_SOURCE_PREFIX = 'snapshot:';
+
+/** Global storage folder holding one git repository per organization */
+const HISTORY_DIRECTORY = 'orgHistory';
+
+/** Commit log format: record separator, hash, commit date and the Snapshot, Org and Files trailers */
+const LOG_FORMAT = '%x1e%H%x1f%cI%x1f' + ['Snapshot', 'Org', 'Files']
+    .map(key => `%(trailers:key=${key},valueonly,separator=%x20)`)
+    .join('%x1f');
+
+/** Change letters of "git log --name-status" */
+const FILE_CHANGES: Record<string, SnapshotFileChange['change']> = {
+    A: 'added',
+    M: 'modified',
+    T: 'modified',
+    D: 'deleted'
+};
+
+/**
+ * Service keeping the history of each organization's retrieved source in a local git repository
+ * Every refresh is committed as a snapshot; snapshots are checked out to temporary directories when compared
+ */
+export class OrgSnapshotService {
+    private historyDirectory: string;
+    private checkoutDirectory: string;
+    private snapshots: Map<string, OrgSnapshot[]> = new Map();
+    private config: ConfigurationManager;
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.historyDirectory = path.join(context.globalStorageUri.fsPath, HISTORY_DIRECTORY);
+        this.checkoutDirectory = path.join(os.tmpdir(), SF_CONFIG.FS.TEMP_DIR_PREFIX, 'snapshots');
+        this.config = ConfigurationManager.getInstance();
+    }
+
+    /**
+     * Check whether snapshots are taken at all
+     */
+    public isEnabled(): boolean {
+        return this.config.getSnapshotRetention().maxCount > 0;
+    }
+
+    /**
+     * Commit a retrieved source directory to the org's history and apply the retention limits
+     */
+    public async createSnapshot(org: SalesforceOrg, sourceDirectory: string, createdAt: Date = new Date()): Promise<OrgSnapshot> {
+        const gitDir = this.getRepositoryDirectory(org.id);
+        await this.ensureRepository(gitDir);
+
+        // Commit hashes change when old snapshots are pruned, so snapshots are identified by their creation time
+        const id = createdAt.toISOString().replace(/[:.]/g, '-');
+        const orgLabel = org.alias || org.username;
+        const fileCount = await this.countFiles(sourceDirectory);
+        const date = createdAt.toISOString();
+
+        await SecureCommandExecutor.executeGit(gitDir, ['add', '--all'], { workTree: sourceDirectory });
+        // Unchanged refreshes are recorded too, so every refresh shows up as a snapshot
+        await SecureCommandExecutor.executeGit(gitDir, [
+            'commit', '--quiet', '--allow-empty', '--no-verify',
+            '-m', `Refresh ${orgLabel}`,
+            '-m', `Snapshot: ${id}\nOrg: ${orgLabel}\nFiles: ${fileCount}`
+        ], {
+            workTree: sourceDirectory,
+            env: { GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }
+        });
+        this.snapshots.delete(org.id);
+
+        console.log(`📸 Committed snapshot of ${orgLabel} with ${fileCount} files`);
+
+        await this.applyRetention(org.id, this.config.getSnapshotRetention(), createdAt);
+        return (await this.getSnapshot(org.id, id))!;
+    }
+
+    /**
+     * Get the snapshots of an organization, newest first
+     */
+    public async getSnapshots(orgId: string): Promise<OrgSnapshot[]> {
+        if (!this.snapshots.has(orgId)) {
+            this.snapshots.set(orgId, await this.loadSnapshots(orgId));
+        }
+        return [...this.snapshots.get(orgId)!];
+    }
+
+    /**
+     * Get a snapshot of an organization by id
+     */
+    public async getSnapshot(orgId: string, snapshotId: string): Promise<OrgSnapshot | undefined> {
+        return (await this.getSnapshots(orgId)).find(snapshot => snapshot.id === snapshotId);
+    }
+
+    /**
+     * Get the snapshots in which a file was added, modified or deleted, newest first
+     * @param relativePath Forward-slash path relative to the retrieved source directory
+     */
+    public async getFileHistory(orgId: string, relativePath: string): Promise<SnapshotFileChange[]> {
+        const gitDir = this.getRepositoryDirectory(orgId);
+        if (!fs.existsSync(gitDir)) {
+            return [];
+        }
+
+        const { stdout } = await SecureCommandExecutor.executeGit(gitDir, [
+            'log', `--format=${LOG_FORMAT}`, '--name-status', '--no-renames', '--', relativePath
+        ]);
+
+        return stdout.split('\x1e').filter(record => record.trim()).map(record => {
+            const [header, ...changes] = record.trim().split('\n').filter(line => line.trim());
+            const status = changes.map(line => line.split('\t')[0]).find(letter => FILE_CHANGES[letter]);
+            return {
+                snapshot: this.parseSnapshot(orgId, header),
+                change: FILE_CHANGES[status || 'M']
+            };
+        });
+    }
+
+    /**
+     * Get the files added, modified or deleted between two snapshots of an organization
+     */
+    public async getChangedFiles(from: OrgSnapshot, to: OrgSnapshot): Promise<SnapshotDiffEntry[]> {
+        const gitDir = this.getRepositoryDirectory(to.orgId);
+        const { stdout } = await SecureCommandExecutor.executeGit(gitDir, ['diff', '--name-status', '--no-renames', '-z', from.commit, to.commit]);
+
+        // -z output alternates status letters and unquoted paths
+        const fields = stdout.split('\0');
+        const entries: SnapshotDiffEntry[] = [];
+        for (let i = 0; i + 1 < fields.length; i += 2) {
+            entries.push({ relativePath: fields[i + 1], change: FILE_CHANGES[fields[i]] || 'modified' });
+        }
+        return entries;
+    }
+
+    /**
+     * Check out a single file of a snapshot
+     * @param snapshot Snapshot to read from; without one, or if the file is not part of it, an empty file is returned
+     * @returns The path of the checked out file
+     */
+    public async getFileVersion(snapshot: OrgSnapshot | undefined, relativePath: string): Promise<string> {
+        const filePath = snapshot ? path.join(snapshot.directory, ...relativePath.split('/')) : undefined;
+        if (snapshot && filePath && !fs.existsSync(filePath)) {
+            // Files are only ever added to this directory, diff editors may still show the ones checked out before
+            const fileDirectory = `${snapshot.directory}-files`;
+            const checkedOutPath = path.join(fileDirectory, ...relativePath.split('/'));
+            if (fs.existsSync(checkedOutPath)) {
+                return checkedOutPath;
+            }
+
+            const gitDir = this.getRepositoryDirectory(snapshot.orgId);
+            const { stdout } = await SecureCommandExecutor.executeGit(gitDir, ['ls-tree', '--name-only', snapshot.commit, '--', relativePath]);
+            if (stdout.trim()) {
+                await this.checkout(snapshot, fileDirectory, [relativePath]);
+                return checkedOutPath;
+            }
+        }
+
+        if (filePath && fs.existsSync(filePath)) {
+            return filePath;
+        }
+
+        // Keep the file name so the diff editor picks the right language
+        const emptyFile = path.join(this.checkoutDirectory, 'empty', path.posix.basename(relativePath));
+        await fs.promises.mkdir(path.dirname(emptyFile), { recursive: true });
+        await fs.promises.writeFile(emptyFile, '');
+        return emptyFile;
+    }
+
+    /**
+     * Delete a snapshot from the history of its organization
+     */
+    public async deleteSnapshot(orgId: string, snapshotId: string): Promise<void> {
+        const snapshots = await this.getSnapshots(orgId);
+        const snapshot = snapshots.find(existing => existing.id === snapshotId);
+        if (!snapshot) {
+            return;
+        }
+
+        await this.rewriteHistory(orgId, snapshots.filter(existing => existing.id !== snapshotId));
+        console.log(`🗑️ Deleted snapshot ${snapshotId} of ${snapshot.orgLabel}`);
+    }
+
+    /**
+     * Delete the snapshots exceeding the retention count or older than the retention age
+     * @returns The deleted snapshots
+     */
+    public async applyRetention(orgId: string, retention: SnapshotRetention, now: Date = new Date()): Promise<OrgSnapshot[]> {
+        const maxAge = retention.maxAgeDays > 0 ? retention.maxAgeDays * 24 * 60 * 60 * 1000 : Infinity;
+        const snapshots = await this.getSnapshots(orgId);
+        const isExpired = (snapshot: OrgSnapshot, index: number): boolean =>
+            (retention.maxCount > 0 && index >= retention.maxCount) ||
+            now.getTime() - snapshot.createdAt.getTime() > maxAge;
+
+        const expired = snapshots.filter(isExpired);
+        const kept = snapshots.filter((snapshot, index) => !isExpired(snapshot, index));
+        if (expired.length > 0 && kept.length > 0 && snapshots.indexOf(expired[0]) === kept.length) {
+            // Only the oldest snapshots expired, which happens on every refresh once the limits are reached
+            await this.truncateHistory(orgId, kept);
+        } else if (expired.length > 0) {
+            await this.rewriteHistory(orgId, kept);
+        }
+
+        return expired;
+    }
+
+    /**
+     * Check out a snapshot and get its comparison source
+     */
+    public async getComparisonSource(snapshot: OrgSnapshot): Promise<ComparisonSource> {
+        if (!fs.existsSync(snapshot.directory)) {
+            const partialDirectory = `${snapshot.directory}-partial`;
+            await this.checkout(snapshot, partialDirectory);
+            await fs.promises.rename(partialDirectory, snapshot.directory);
+        }
+
+        return {
+            id: OrgSnapshotService.getSourceId(snapshot),
+            label: OrgSnapshotService.getLabel(snapshot),
+            rootDirectories: [snapshot.directory]
+        };
+    }
+
+    /**
+     * Find the snapshot a comparison source id refers to
+     */
+    public async findBySourceId(sourceId: string): Promise<OrgSnapshot | undefined> {
+        if (!OrgSnapshotService.isSnapshotSource(sourceId)) {
+            return undefined;
+        }
+
+        const reference = sourceId.substring(SNAPSHOT_SOURCE_PREFIX.length);
+        const separator = reference.lastIndexOf('/');
+        return this.getSnapshot(reference.substring(0, separator), reference.substring(separator + 1));
+    }
+
+    /**
+     * Get the comparison source id of a snapshot
+     */
+    public static getSourceId(snapshot: OrgSnapshot): string {
+        return `${SNAPSHOT_SOURCE_PREFIX}${snapshot.orgId}/${snapshot.id}`;
+    }
+
+    /**
+     * Check if a comparison source id refers to a snapshot rather than an organization
+     */
+    public static isSnapshotSource(sourceId: string | undefined): boolean {
+        return !!sourceId && sourceId.startsWith(SNAPSHOT_SOURCE_PREFIX);
+    }
+
+    /**
+     * Get the display label of a snapshot, e.g. "Prod @ 10/18/2026, 7:41 AM"
+     */
+    public static getLabel(snapshot: OrgSnapshot): string {
+        const time = snapshot.createdAt.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+        return `${snapshot.orgLabel} @ ${time}`;
+    }
+
+    /**
+     * Get the git directory holding the history of an organization
+     */
+    private getRepositoryDirectory(orgId: string): string {
+        return path.join(this.historyDirectory, `${OrgSnapshotService.toFileName(orgId)}.git`);
+    }
+
+    /**
+     * Create the history repository of an organization if it does not exist yet
+     */
+    private async ensureRepository(gitDir: string): Promise<void> {
+        if (fs.existsSync(path.join(gitDir, 'HEAD'))) {
+            return;
+        }
+
+        await fs.promises.mkdir(gitDir, { recursive: true });
+        await SecureCommandExecutor.executeGit(gitDir, ['init', '--bare', '--quiet']);
+
+        // Keep retrieved files byte for byte and commit independently of the user's git settings
+        const settings: [string, string][] = [
+            ['user.name', 'SF Org Source Compare'],
+            ['user.email', 'sf-org-source-compare@localhost'],
+            ['core.autocrlf', 'false'],
+            ['commit.gpgsign', 'false']
+        ];
+        for (const [key, value] of settings) {
+            await SecureCommandExecutor.executeGit(gitDir, ['config', key, value]);
+        }
+
+        console.log(`📁 Created org history repository: ${gitDir}`);
+    }
+
+    /**
+     * Read the snapshots of an organization from its history repository
+     */
+    private async loadSnapshots(orgId: string): Promise<OrgSnapshot[]> {
+        const gitDir = this.getRepositoryDirectory(orgId);
+        if (!fs.existsSync(gitDir)) {
+            return [];
+        }
+
+        try {
+            const { stdout } = await SecureCommandExecutor.executeGit(gitDir, ['log', `--format=${LOG_FORMAT}`]);
+            return stdout.split('\x1e')
+                .filter(record => record.trim())
+                .map(record => this.parseSnapshot(orgId, record.trim()));
+        } catch (error) {
+            // A repository without commits has no log
+            console.warn(`Failed to read snapshot history of org ${orgId}:`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Parse a commit formatted with LOG_FORMAT
+     */
+    private parseSnapshot(orgId: string, header: string): OrgSnapshot {
+        const [commit, date, id, orgLabel, fileCount] = header.split('\x1f').map(field => field.trim());
+        return {
+            id: id || commit,
+            commit,
+            orgId,
+            orgLabel: orgLabel || orgId,
+            createdAt: new Date(date),
+            directory: path.join(this.checkoutDirectory, OrgSnapshotService.toFileName(orgId), commit),
+            fileCount: Number(fileCount) || 0
+        };
+    }
+
+    /**
+     * Drop the snapshots older than the given ones by grafting the oldest kept snapshot as the root of the history
+     * Grafting leaves the kept commits as they are, so the history is only rewritten, and the objects of dropped
+     * snapshots deleted, once there are as many dropped snapshots left in the repository as there are kept ones.
+     * @param snapshots Snapshots to keep, newest first, which are the newest snapshots of the history
+     */
+    private async truncateHistory(orgId: string, snapshots: OrgSnapshot[]): Promise<void> {
+        const gitDir = this.getRepositoryDirectory(orgId);
+        this.snapshots.delete(orgId);
+        await SecureCommandExecutor.executeGit(gitDir, ['replace', '--force', '--graft', snapshots[snapshots.length - 1].commit]);
+
+        const { stdout } = await SecureCommandExecutor.executeGit(gitDir, ['rev-list', '--count', 'HEAD'], {
+            env: { GIT_NO_REPLACE_OBJECTS: '1' }
+        });
+        if (Number(stdout.trim()) - snapshots.length >= snapshots.length) {
+            await this.rewriteHistory(orgId, snapshots);
+        }
+    }
+
+    /**
+     * Replace the history of an organization by the given snapshots, keeping their content and dates
+     * @param snapshots Snapshots to keep, newest first
+     */
+    private async rewriteHistory(orgId: string, snapshots: OrgSnapshot[]): Promise<void> {
+        const gitDir = this.getRepositoryDirectory(orgId);
+        this.snapshots.delete(orgId);
+        // Checkouts are keyed by commit, which the rewrite changes
+        await fs.promises.rm(path.join(this.checkoutDirectory, OrgSnapshotService.toFileName(orgId)), { recursive: true, force: true });
+
+        if (snapshots.length === 0) {
+            await fs.promises.rm(gitDir, { recursive: true, force: true });
+            return;
+        }
+
+        let parent: string | undefined;
+        for (const snapshot of [...snapshots].reverse()) {
+            const { stdout: message } = await SecureCommandExecutor.executeGit(gitDir, ['log', '-1', '--format=%B', snapshot.commit]);
+            const date = snapshot.createdAt.toISOString();
+            const args = ['commit-tree', '-m', message.trim()];
+            if (parent) {
+                args.push('-p', parent);
+            }
+            args.push(`${snapshot.commit}^{tree}`);
+
+            const { stdout } = await SecureCommandExecutor.executeGit(gitDir, args, {
+                env: { GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }
+            });
+            parent = stdout.trim();
+        }
+
+        await SecureCommandExecutor.executeGit(gitDir, ['update-ref', 'HEAD', parent!]);
+        // Grafts of truncated histories refer to commits that are no longer part of the history
+        const { stdout: grafts } = await SecureCommandExecutor.executeGit(gitDir, ['replace', '--list']);
+        if (grafts.trim()) {
+            await SecureCommandExecutor.executeGit(gitDir, ['replace', '--delete', ...grafts.trim().split(/\s+/)]);
+        }
+        // Drop the objects only the removed snapshots referenced
+        await SecureCommandExecutor.executeGit(gitDir, ['reflog', 'expire', '--expire=now', '--all']);
+        await SecureCommandExecutor.executeGit(gitDir, ['gc', '--prune=now', '--quiet']);
+    }
+
+    /**
+     * Check out the files of a snapshot into a directory, using a temporary index so the repository index is untouched
+     * @param relativePaths Files to add to the directory; without them the directory is replaced by the whole snapshot
+     */
+    private async checkout(snapshot: OrgSnapshot, directory: string, relativePaths?: string[]): Promise<void> {
+        const gitDir = this.getRepositoryDirectory(snapshot.orgId);
+        // Each checkout gets its own index, concurrent checkouts into the same directory would overwrite a shared one
+        const indexDirectory = await fs.promises.mkdtemp(path.join(os.tmpdir(), `${SF_CONFIG.FS.TEMP_DIR_PREFIX}-index-`));
+        const env = { GIT_INDEX_FILE: path.join(indexDirectory, 'index') };
+
+        if (!relativePaths) {
+            await fs.promises.rm(directory, { recursive: true, force: true });
+        }
+        await fs.promises.mkdir(directory, { recursive: true });
+
+        try {
+            await SecureCommandExecutor.executeGit(gitDir, ['read-tree', snapshot.commit], { env });
+            await SecureCommandExecutor.executeGit(
+                gitDir,
+                relativePaths ? ['checkout-index', '--force', '--', ...relativePaths] : ['checkout-index', '--all', '--force'],
+                { workTree: directory, env }
+            );
+        } finally {
+            await fs.promises.rm(indexDirectory, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Count the files below a directory
+     */
+    private async countFiles(directory: string): Promise<number> {
+        let count = 0;
+        for (const entry of await fs.promises.readdir(directory, { withFileTypes: true })) {
+            count += entry.isDirectory() ? await this.countFiles(path.join(directory, entry.name)) : 1;
+        }
+        return count;
+    }
+
+    /**
+     * Turn an org id into a safe file name
+     */
+    private static toFileName(orgId: string): string {
+        return orgId.replace(/[^\w.-]/g, '_');
+    }
+}
@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import { MetadataXmlParser, XmlElement } from '../metadata/MetadataXmlParser';
+import { PermissionCategory, PermissionComparisonResult, PermissionComparisonRow } from '../types';
+
+/**
+ * Permission column shown for a category
+ */
+export interface PermissionColumn {
+    name: string;
+    label: string;
+    boolean: boolean;
+}
+
+/**
+ * How a repeated XML element maps to a permission category
+ */
+interface PermissionElementMapping {
+    element: string;
+    category: PermissionCategory;
+    keyElement: string;
+}
+
+/**
+ * Permissions compared per category, in display order
+ */
+export const PERMISSION_COLUMNS: Record<PermissionCategory, PermissionColumn[]> = {
+    [PermissionCategory.Object]: [
+        { name: 'allowRead', label: 'Read', boolean: true },
+        { name: 'allowCreate', label: 'Create', boolean: true },
+        { name: 'allowEdit', label: 'Edit', boolean: true },
+        { name: 'allowDelete', label: 'Delete', boolean: true },
+        { name: 'viewAllRecords', label: 'View All', boolean: true },
+        { name: 'modifyAllRecords', label: 'Modify All', boolean: true }
+    ],
+    [PermissionCategory.Field]: [
+        { name: 'readable', label: 'Read', boolean: true },
+        { name: 'editable', label: 'Edit', boolean: true }
+    ],
+    [PermissionCategory.ApexClass]: [
+        { name: 'enabled', label: 'Enabled', boolean: true }
+    ],
+    [PermissionCategory.Tab]: [
+        { name: 'visibility', label: 'Visibility', boolean: false }
+    ],
+    [PermissionCategory.UserPermission]: [
+        { name: 'enabled', label: 'Enabled', boolean: true }
+    ]
+};
+
+/**
+ * Display names of the permission categories
+ */
+export const PERMISSION_CATEGORY_LABELS: Record<PermissionCategory, string> = {
+    [PermissionCategory.Object]: 'Object Permissions',
+    [PermissionCategory.Field]: 'Field-Level Security',
+    [PermissionCategory.ApexClass]: 'Apex Class Access',
+    [PermissionCategory.Tab]: 'Tab Visibility',
+    [PermissionCategory.UserPermission]: 'User Permissions'
+};
+
+/** Profiles use tabVisibilities, permission sets use tabSettings */
+const PERMISSION_ELEMENTS: PermissionElementMapping[] = [
+    { element: 'objectPermissions', category: PermissionCategory.Object, keyElement: 'object' },
+    { element: 'fieldPermissions', category: PermissionCategory.Field, keyElement: 'field' },
+    { element: 'classAccesses', category: PermissionCategory.ApexClass, keyElement: 'apexClass' },
+    { element: 'tabVisibilities', category: PermissionCategory.Tab, keyElement: 'tab' },
+    { element: 'tabSettings', category: PermissionCategory.Tab, keyElement: 'tab' },
+    { element: 'userPermissions', category: PermissionCategory.UserPermission, keyElement: 'name' }
+];
+
+const SUPPORTED_ROOTS = ['Profile', 'PermissionSet'];
+
+/**
+ * Service comparing object, field, class, tab and user permissions of two profiles or permission sets
+ */
+export class PermissionComparisonService {
+
+    /**
+     * Check whether a file is a profile or permission set
+     */
+    public static isPermissionFile(fileName: string): boolean {
+        return fileName.endsWith('.profile-meta.xml') || fileName.endsWith('.permissionset-meta.xml');
+    }
+
+    /**
+     * Compare the permissions of two profile or permission set files
+     */
+    public async compareFiles(leftPath: string, rightPath: string): Promise<PermissionComparisonResult> {
+        const [leftXml, rightXml] = await Promise.all([
+            fs.promises.readFile(leftPath, 'utf8'),
+            fs.promises.readFile(rightPath, 'utf8')
+        ]);
+        return this.compareXml(leftXml, rightXml);
+    }
+
+    /**
+     * Compare the permissions of two profile or permission set documents
+     * Missing boolean permissions count as false, so an absent entry equals an entry granting nothing
+     */
+    public compareXml(leftXml: string, rightXml: string): PermissionComparisonResult {
+        const leftRoot = this.parseRoot(leftXml);
+        const rightRoot = this.parseRoot(rightXml);
+        const leftPermissions = this.extractPermissions(leftRoot);
+        const rightPermissions = this.extractPermissions(rightRoot);
+        const rows: PermissionComparisonRow[] = [];
+
+        for (const category of Object.values(PermissionCategory)) {
+            const leftEntries = leftPermissions.get(category)!;
+            const rightEntries = rightPermissions.get(category)!;
+            const subjects = [...new Set([...leftEntries.keys(), ...rightEntries.keys()])].sort((a, b) => a.localeCompare(b));
+
+            for (const subject of subjects) {
+                const left = leftEntries.get(subject);
+                const right = rightEntries.get(subject);
+                const differences = PERMISSION_COLUMNS[category]
+                    .filter(column => PermissionComparisonService.getEffectiveValue(column, left) !== PermissionComparisonService.getEffectiveValue(column, right))
+                    .map(column => column.name);
+
+                rows.push({ category, subject, left, right, differences });
+            }
+        }
+
+        console.log(`🔐 Permission comparison: ${rows.filter(row => row.differences.length > 0).length} of ${rows.length} entries differ`);
+
+        return {
+            leftType: leftRoot.name,
+            rightType: rightRoot.name,
+            rows
+        };
+    }
+
+    /**
+     * Get the value a permission effectively has, treating missing booleans as false
+     */
+    public static getEffectiveValue(column: PermissionColumn, values: Record<string, string> | undefined): string {
+        const value = values?.[column.name];
+        if (column.boolean) {
+            return value === 'true' ? 'true' : 'false';
+        }
+        return value ?? '';
+    }
+
+    /**
+     * Parse a document and make sure it is a profile or permission set
+     */
+    private parseRoot(xml: string): XmlElement {
+        const root = MetadataXmlParser.parse(xml);
+        if (!SUPPORTED_ROOTS.includes(root.name)) {
+            throw new Error(`Expected a Profile or PermissionSet but found ${root.name}`);
+        }
+        return root;
+    }
+
+    /**
+     * Collect permission values per category and subject
+     */
+    private extractPermissions(root: XmlElement): Map<PermissionCategory, Map<string, Record<string, string>>> {
+        const permissions = new Map<PermissionCategory, Map<string, Record<string, string>>>();
+        for (const category of Object.values(PermissionCategory)) {
+            permissions.set(category, new Map());
+        }
+
+        for (const child of root.children) {
+            const mapping = PERMISSION_ELEMENTS.find(candidate => candidate.element === child.name);
+            if (!mapping) {
+                continue;
+            }
+
+            const values: Record<string, string> = {};
+            for (const valueElement of child.children) {
+                values[valueElement.name] = valueElement.text;
+            }
+
+            const subject = values[mapping.keyElement];
+            if (subject) {
+                permissions.get(mapping.category)!.set(subject, values);
+            }
+        }
+
+        return permissions;
+    }
+}
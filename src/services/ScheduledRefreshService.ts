@@ -0,0 +1,279 @@
+import * as vscode from 'vscode';
+import { ConfigurationManager, EXTENSION_CONFIG_KEYS, SF_CONFIG } from '../config';
+import { EnhancedOrgManager } from '../metadata/EnhancedOrgManager';
+import { MetadataPathResolver } from '../metadata/MetadataPathResolver';
+import { SfOrgCompareProvider } from '../providers/SfOrgCompareProvider';
+import { OrgDrift, SalesforceOrg, SnapshotDiffEntry } from '../types';
+import { AVAILABLE_METADATA_TYPES } from './ManifestManager';
+import { OrgSnapshotService } from './OrgSnapshotService';
+
+/** Command opening the diff of a detected drift */
+const SHOW_DRIFT_COMMAND = 'sf-org-source-compare.showDrift';
+
+/**
+ * Service refreshing selected orgs on an interval and reporting the changes since the previous snapshot
+ * Drift is announced with a notification and kept in a status bar badge until it is viewed
+ */
+export class ScheduledRefreshService implements vscode.Disposable {
+    private timer: NodeJS.Timeout | undefined;
+    private isRunning: boolean = false;
+    private drift: Map<string, OrgDrift> = new Map();
+    private statusBarItem: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+    private config: ConfigurationManager;
+
+    constructor(
+        private enhancedOrgManager: EnhancedOrgManager,
+        private sfOrgCompareProvider: SfOrgCompareProvider,
+        private orgSnapshotService: OrgSnapshotService
+    ) {
+        this.config = ConfigurationManager.getInstance();
+
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.statusBarItem.command = SHOW_DRIFT_COMMAND;
+
+        const scheduleKeys = [EXTENSION_CONFIG_KEYS.KEYS.SCHEDULED_REFRESH_INTERVAL, EXTENSION_CONFIG_KEYS.KEYS.SCHEDULED_REFRESH_ORGS];
+        this.disposables.push(
+            this.statusBarItem,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (scheduleKeys.some(key => event.affectsConfiguration(`${EXTENSION_CONFIG_KEYS.SECTION}.${key}`))) {
+                    this.start();
+                }
+            })
+        );
+    }
+
+    /**
+     * Start (or restart) the refresh timer with the configured interval
+     */
+    public start(): void {
+        this.stop();
+
+        const { intervalMinutes } = this.config.getScheduledRefresh();
+        if (intervalMinutes <= 0) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.runScheduledRefresh().catch(error => console.error('Scheduled refresh failed:', error));
+        }, intervalMinutes * 60 * 1000);
+        console.log(`⏰ Scheduled refresh every ${intervalMinutes} minutes`);
+    }
+
+    /**
+     * Stop the refresh timer
+     */
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    /**
+     * Get the orgs refreshed on schedule
+     */
+    public getScheduledOrgs(): SalesforceOrg[] {
+        const { orgs } = this.config.getScheduledRefresh();
+        return this.enhancedOrgManager.getOrgs().filter(org =>
+            orgs.includes(org.username) || (!!org.alias && orgs.includes(org.alias))
+        );
+    }
+
+    /**
+     * Let the user pick the orgs refreshed on schedule and the refresh interval, saved as user settings
+     */
+    public async configure(): Promise<void> {
+        const scheduled = this.getScheduledOrgs();
+        const picks = await vscode.window.showQuickPick(
+            this.enhancedOrgManager.getOrgs().map(org => ({
+                label: org.alias || org.username,
+                description: org.username,
+                picked: scheduled.includes(org),
+                org
+            })),
+            { canPickMany: true, placeHolder: 'Select the organizations to refresh on schedule' }
+        );
+        if (!picks) {
+            return;
+        }
+
+        const { intervalMinutes } = this.config.getScheduledRefresh();
+        const interval = await vscode.window.showInputBox({
+            prompt: 'Minutes between scheduled refreshes (0 disables them)',
+            value: String(intervalMinutes || 60),
+            validateInput: value => {
+                const minutes = Number(value);
+                if (!Number.isInteger(minutes) || minutes < 0) {
+                    return 'Enter a whole number of minutes';
+                }
+                if (minutes > 0 && minutes < SF_CONFIG.SCHEDULED_REFRESH.MIN_INTERVAL_MINUTES) {
+                    return `Refreshes cannot run more often than every ${SF_CONFIG.SCHEDULED_REFRESH.MIN_INTERVAL_MINUTES} minutes`;
+                }
+                return undefined;
+            }
+        });
+        if (interval === undefined) {
+            return;
+        }
+
+        // Saving the settings restarts the timer through the configuration listener
+        await this.config.set(
+            EXTENSION_CONFIG_KEYS.KEYS.SCHEDULED_REFRESH_ORGS,
+            picks.map(pick => pick.org.alias || pick.org.username),
+            vscode.ConfigurationTarget.Global
+        );
+        await this.config.set(EXTENSION_CONFIG_KEYS.KEYS.SCHEDULED_REFRESH_INTERVAL, Number(interval), vscode.ConfigurationTarget.Global);
+
+        vscode.window.showInformationMessage(Number(interval) > 0 && picks.length > 0
+            ? `Refreshing ${picks.length} organization(s) every ${interval} minutes`
+            : 'Scheduled refresh is disabled');
+    }
+
+    /**
+     * Refresh the scheduled orgs and report the ones that drifted from their previous snapshot
+     * Runs are skipped while a previous run is still in progress
+     */
+    public async runScheduledRefresh(): Promise<OrgDrift[]> {
+        if (this.isRunning) {
+            return [];
+        }
+
+        this.isRunning = true;
+        const detected: OrgDrift[] = [];
+        try {
+            for (const org of this.getScheduledOrgs()) {
+                try {
+                    const drift = await this.refreshOrg(org);
+                    if (drift) {
+                        detected.push(drift);
+                    }
+                } catch (error) {
+                    // A failing org must not stop the others from being refreshed
+                    console.warn(`Scheduled refresh of ${org.alias || org.username} failed:`, error);
+                }
+            }
+        } finally {
+            this.isRunning = false;
+        }
+
+        for (const drift of detected) {
+            this.drift.set(drift.orgId, drift);
+            this.notify(drift);
+        }
+        this.updateStatusBar();
+
+        return detected;
+    }
+
+    /**
+     * Get the drift not yet viewed, most recent first
+     */
+    public getDrift(): OrgDrift[] {
+        return [...this.drift.values()].sort((a, b) => b.detectedAt.getTime() - a.detectedAt.getTime());
+    }
+
+    /**
+     * Mark the drift of an org as viewed
+     */
+    public acknowledge(orgId: string): void {
+        this.drift.delete(orgId);
+        this.updateStatusBar();
+    }
+
+    /**
+     * Summarize changed files by metadata type, e.g. "Prod: 3 Apex Classes, 1 Flows changed"
+     */
+    public static summarizeDrift(orgLabel: string, changes: SnapshotDiffEntry[]): string {
+        const componentsByType = new Map<string, Set<string>>();
+        for (const change of changes) {
+            const component = MetadataPathResolver.resolve(change.relativePath);
+            const type = component?.type || '';
+            const components = componentsByType.get(type) || new Set<string>();
+            components.add(component?.fullName || change.relativePath);
+            componentsByType.set(type, components);
+        }
+
+        const parts = [...componentsByType.entries()]
+            .sort((a, b) => b[1].size - a[1].size || a[0].localeCompare(b[0]))
+            .map(([type, components]) => {
+                const label = type
+                    ? AVAILABLE_METADATA_TYPES.find(metadataType => metadataType.name === type)?.displayName || type
+                    : 'other files';
+                return `${components.size} ${label}`;
+            });
+
+        return `${orgLabel}: ${parts.join(', ')} changed`;
+    }
+
+    /**
+     * Refresh one org and compare its new snapshot with the one before it
+     */
+    private async refreshOrg(org: SalesforceOrg): Promise<OrgDrift | undefined> {
+        const orgLabel = org.alias || org.username;
+        const [previous] = await this.orgSnapshotService.getSnapshots(org.id);
+
+        console.log(`⏰ Scheduled refresh of ${orgLabel}`);
+        const current = await this.sfOrgCompareProvider.refreshOrgInBackground(org.id);
+        if (!previous || !current) {
+            return undefined;
+        }
+
+        // Retention may have rewritten the history, so look the previous snapshot up again
+        const previousSnapshot = await this.orgSnapshotService.getSnapshot(org.id, previous.id);
+        if (!previousSnapshot) {
+            return undefined;
+        }
+
+        const changes = await this.orgSnapshotService.getChangedFiles(previousSnapshot, current);
+        if (changes.length === 0) {
+            return undefined;
+        }
+
+        return {
+            orgId: org.id,
+            orgLabel,
+            previous: previousSnapshot,
+            current,
+            changes,
+            summary: ScheduledRefreshService.summarizeDrift(orgLabel, changes),
+            detectedAt: new Date()
+        };
+    }
+
+    /**
+     * Announce drift with a notification linking to its diff
+     */
+    private notify(drift: OrgDrift): void {
+        vscode.window.showWarningMessage(drift.summary, 'Show Diff').then(selection => {
+            if (selection === 'Show Diff') {
+                vscode.commands.executeCommand(SHOW_DRIFT_COMMAND, drift.orgId);
+            }
+        });
+    }
+
+    /**
+     * Show the number of drifted orgs in the status bar, hiding the badge when there is none
+     */
+    private updateStatusBar(): void {
+        const drift = this.getDrift();
+        if (drift.length === 0) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        this.statusBarItem.text = `$(warning) SF Drift: ${drift.length === 1 ? drift[0].orgLabel : `${drift.length} orgs`}`;
+        this.statusBarItem.tooltip = `${drift.map(entry => entry.summary).join('\n')}\nClick to view the differences`;
+        this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        this.statusBarItem.show();
+    }
+
+    /**
+     * Stop the timer and release the status bar item
+     */
+    public dispose(): void {
+        this.stop();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
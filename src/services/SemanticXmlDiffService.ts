@@ -0,0 +1,248 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { MetadataXmlParser, XmlElement } from '../metadata/MetadataXmlParser';
+import { SemanticChangeKind, SemanticXmlChange, SemanticXmlDiffResult } from '../types';
+
+/**
+ * Child elements identifying an entry of a repeated metadata element
+ * Several names form a compound key, e.g. a layout assignment is unique per layout and record type
+ */
+const ELEMENT_KEYS: Record<string, string[]> = {
+    actionOverrides: ['actionName', 'formFactor', 'pageOrSobjectType'],
+    applicationVisibilities: ['application'],
+    categoryGroupVisibilities: ['dataCategoryGroup'],
+    classAccesses: ['apexClass'],
+    customMetadataTypeAccesses: ['name'],
+    customPermissions: ['name'],
+    customSettingAccesses: ['name'],
+    externalDataSourceAccesses: ['externalDataSource'],
+    fieldPermissions: ['field'],
+    flowAccesses: ['flow'],
+    layoutAssignments: ['layout', 'recordType'],
+    layoutItems: ['field', 'customLink', 'button', 'canvas', 'component', 'scontrol', 'page'],
+    layoutSections: ['label'],
+    loginIpRanges: ['startAddress', 'endAddress'],
+    objectPermissions: ['object'],
+    pageAccesses: ['apexPage'],
+    picklistValues: ['picklist'],
+    platformActionListItems: ['actionName'],
+    profileActionOverrides: ['actionName', 'formFactor', 'pageOrSobjectType', 'recordType'],
+    quickActionListItems: ['quickActionName'],
+    recordTypeVisibilities: ['recordType'],
+    relatedLists: ['relatedList'],
+    searchLayouts: ['type'],
+    tabSettings: ['tab'],
+    tabVisibilities: ['tab'],
+    userPermissions: ['name'],
+    value: ['valueName'],
+    values: ['fullName', 'valueName']
+};
+
+/** Key children tried for repeated elements without an explicit entry above */
+const FALLBACK_KEYS = ['fullName', 'name', 'developerName'];
+
+/** Separator used between path segments in reported changes */
+const PATH_SEPARATOR = ' › ';
+
+/**
+ * Order-insensitive view of an XML element - repeated children are keyed instead of indexed
+ */
+interface NormalizedNode {
+    value?: string;
+    children: Map<string, NormalizedNode>;
+    canonical: string;
+}
+
+/**
+ * Service comparing metadata XML files by meaning rather than by line
+ */
+export class SemanticXmlDiffService {
+
+    /**
+     * Check whether a file is a metadata XML file that can be compared semantically
+     */
+    public static isSemanticCandidate(fileName: string): boolean {
+        return fileName.endsWith('-meta.xml');
+    }
+
+    /**
+     * Semantically compare two metadata XML files
+     */
+    public async compareFiles(leftPath: string, rightPath: string): Promise<SemanticXmlDiffResult> {
+        const [leftXml, rightXml] = await Promise.all([
+            fs.promises.readFile(leftPath, 'utf8'),
+            fs.promises.readFile(rightPath, 'utf8')
+        ]);
+        return this.compareXml(leftXml, rightXml);
+    }
+
+    /**
+     * Semantically compare two metadata XML documents
+     */
+    public compareXml(leftXml: string, rightXml: string): SemanticXmlDiffResult {
+        const leftRoot = MetadataXmlParser.parse(leftXml);
+        const rightRoot = MetadataXmlParser.parse(rightXml);
+        const changes = this.compareElements(leftRoot, rightRoot);
+
+        return {
+            rootElement: leftRoot.name,
+            changes,
+            identical: changes.length === 0
+        };
+    }
+
+    /**
+     * Semantically compare two parsed elements, e.g. the same flow node in two orgs
+     */
+    public compareElements(left: XmlElement, right: XmlElement): SemanticXmlChange[] {
+        const changes: SemanticXmlChange[] = [];
+
+        if (left.name !== right.name) {
+            changes.push({
+                kind: SemanticChangeKind.Changed,
+                element: left.name,
+                path: '(root element)',
+                leftValue: left.name,
+                rightValue: right.name
+            });
+        } else {
+            this.diffNodes(this.normalize(left), this.normalize(right), [], changes);
+        }
+
+        return changes.sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Get the key of a repeated element from its identifying children
+     */
+    public static getElementKey(element: XmlElement): string | undefined {
+        const keyNames = ELEMENT_KEYS[element.name] || FALLBACK_KEYS;
+        const keyParts = keyNames
+            .map(keyName => element.children.find(child => child.name === keyName && child.children.length === 0)?.text)
+            .filter((value): value is string => value !== undefined && value !== '');
+
+        if (keyParts.length === 0) {
+            return undefined;
+        }
+        return ELEMENT_KEYS[element.name] ? keyParts.join(' / ') : keyParts[0];
+    }
+
+    /**
+     * Convert an element to a normalized node keyed by child name and identity
+     */
+    private normalize(element: XmlElement): NormalizedNode {
+        const attributes = Object.entries(element.attributes).filter(([name]) => !name.startsWith('xmlns'));
+
+        if (element.children.length === 0 && attributes.length === 0) {
+            return { value: element.text, children: new Map(), canonical: JSON.stringify(element.text) };
+        }
+
+        const children = new Map<string, NormalizedNode>();
+
+        for (const [name, value] of attributes) {
+            children.set(`@${name}`, { value, children: new Map(), canonical: JSON.stringify(value) });
+        }
+
+        const nameCounts = new Map<string, number>();
+        for (const child of element.children) {
+            nameCounts.set(child.name, (nameCounts.get(child.name) || 0) + 1);
+        }
+
+        for (const child of element.children) {
+            const normalizedChild = this.normalize(child);
+            const explicitKey = SemanticXmlDiffService.getElementKey(child);
+            let key: string;
+
+            if (explicitKey !== undefined) {
+                key = `${child.name}[${explicitKey}]`;
+            } else if (nameCounts.get(child.name) === 1) {
+                key = child.name;
+            } else {
+                // Unkeyed repeated elements are identified by content, so reordering them is not a change
+                key = `${child.name}[#${crypto.createHash('sha1').update(normalizedChild.canonical).digest('hex').substring(0, 8)}]`;
+            }
+
+            let uniqueKey = key;
+            for (let occurrence = 2; children.has(uniqueKey); occurrence++) {
+                uniqueKey = `${key}~${occurrence}`;
+            }
+            children.set(uniqueKey, normalizedChild);
+        }
+
+        const canonical = '{' + [...children.entries()]
+            .sort((a, b) => a[0].localeCompare(b[0]))
+            .map(([key, node]) => `${JSON.stringify(key)}:${node.canonical}`)
+            .join(',') + (element.text.trim() ? `,#text:${JSON.stringify(element.text)}` : '') + '}';
+
+        return { value: element.text.trim() ? element.text : undefined, children, canonical };
+    }
+
+    /**
+     * Recursively collect the differences between two normalized nodes
+     */
+    private diffNodes(left: NormalizedNode, right: NormalizedNode, path: string[], changes: SemanticXmlChange[]): void {
+        if (left.canonical === right.canonical) {
+            return;
+        }
+
+        if (left.children.size === 0 || right.children.size === 0) {
+            changes.push(this.createChange(SemanticChangeKind.Changed, path, left, right));
+            return;
+        }
+
+        const keys = new Set<string>([...left.children.keys(), ...right.children.keys()]);
+
+        for (const key of keys) {
+            const leftChild = left.children.get(key);
+            const rightChild = right.children.get(key);
+
+            if (leftChild && rightChild) {
+                this.diffNodes(leftChild, rightChild, [...path, key], changes);
+            } else if (leftChild) {
+                changes.push(this.createChange(SemanticChangeKind.Removed, [...path, key], leftChild, undefined));
+            } else if (rightChild) {
+                changes.push(this.createChange(SemanticChangeKind.Added, [...path, key], undefined, rightChild));
+            }
+        }
+    }
+
+    /**
+     * Build a reported change for a path
+     */
+    private createChange(kind: SemanticChangeKind, path: string[], left?: NormalizedNode, right?: NormalizedNode): SemanticXmlChange {
+        return {
+            kind,
+            element: path.length > 0 ? path[0].replace(/\[.*$/, '') : '(root element)',
+            path: path.length > 0 ? path.join(PATH_SEPARATOR) : '(root element)',
+            leftValue: left ? this.describe(left) : undefined,
+            rightValue: right ? this.describe(right) : undefined
+        };
+    }
+
+    /**
+     * Render a node as a single line, e.g. "editable=true, readable=true"
+     */
+    private describe(node: NormalizedNode): string {
+        if (node.children.size === 0) {
+            return node.value ?? '';
+        }
+
+        const leaves: string[] = [];
+        const collect = (current: NormalizedNode, prefix: string): void => {
+            if (current.value !== undefined && current.children.size > 0) {
+                leaves.push(`${prefix || '#text'}=${current.value}`);
+            }
+            for (const [key, child] of [...current.children.entries()].sort((a, b) => a[0].localeCompare(b[0]))) {
+                const childPath = prefix ? `${prefix}.${key}` : key;
+                if (child.children.size === 0) {
+                    leaves.push(`${childPath}=${child.value ?? ''}`);
+                } else {
+                    collect(child, childPath);
+                }
+            }
+        };
+        collect(node, '');
+
+        return leaves.join(', ');
+    }
+}
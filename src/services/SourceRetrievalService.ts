@@ -2,11 +2,39 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { spawn } from 'child_process';
-import { SalesforceOrg, OrgFile } from '../types';
+import { SalesforceOrg, OrgFile, MetadataComponentRef, RetrievalEngine } from '../types';
 import { ConfigurationManager, SF_CONFIG } from '../config';
 import { ErrorHandler, ErrorType, ErrorHandlingStrategy, ErrorUtils } from '../errors/ErrorHandler';
 import { ManifestManager } from './ManifestManager';
+import { RetrievedFile, SalesforceCliAdapter } from '../core/SalesforceCliAdapter';
+import { SfCliAdapter } from '../core/SfCliAdapter';
+import { MetadataApiRetriever } from '../core/MetadataApiRetriever';
+import { SfdxProject } from '../core/SfdxProject';
+import { PackageXmlBuilder } from '../core/PackageXmlBuilder';
+
+/** File recording the components of the last retrieval, kept in the org directory next to package.xml */
+const RETRIEVAL_STATE_FILE = 'retrieval-state.json';
+
+/** Manifest listing the components of an incremental retrieval */
+const INCREMENTAL_MANIFEST_FILE = 'package-incremental.xml';
+
+/**
+ * Object children listed alongside CustomObject, as their changes do not always update the object's lastModifiedDate
+ * and their deletion does not update it at all
+ */
+const OBJECT_CHILD_TYPES = ['CustomField', 'ValidationRule'];
+
+/**
+ * Components of the last retrieval of an org
+ */
+interface RetrievalState {
+    /** When the last retrieval started (ISO 8601) */
+    retrievedAt: string;
+    /** Retrieved files relative to the org directory, keyed by "Type:fullName" */
+    components: Record<string, string[]>;
+    /** Listed children of each object as sorted "Type:fullName" keys, keyed by object name */
+    objectChildren?: Record<string, string[]>;
+}
 
 /**
  * Service for retrieving source code from Salesforce orgs using SFDX manifest approach
@@ -14,13 +42,16 @@ import { ManifestManager } from './ManifestManager';
 export class SourceRetrievalService {
     private tempDir: string;
     private orgTempDirs: Map<string, string> = new Map();
-    private cliCommand: string | null = null;
     private activeRetrievals: Map<string, Promise<string>> = new Map();
     private config: ConfigurationManager;
     private errorHandler: ErrorHandler;
     private manifestManager: ManifestManager;
 
-    constructor(manifestManager: ManifestManager) {
+    constructor(
+        manifestManager: ManifestManager,
+        private cliAdapter: SalesforceCliAdapter = new SfCliAdapter(),
+        private metadataApiRetriever: MetadataApiRetriever = new MetadataApiRetriever()
+    ) {
         this.manifestManager = manifestManager;
         this.config = ConfigurationManager.getInstance();
         this.errorHandler = ErrorHandler.getInstance();
@@ -69,19 +100,34 @@ export class SourceRetrievalService {
         console.log(`Starting source retrieval for org: ${org.alias || org.username}`);
 
         try {
-            // Ensure CLI is available
-            await this.ensureCLIAvailable();
+            // Ensure CLI is available, unless the org is retrieved without it
+            if (this.getRetrievalEngine(org) === 'cli') {
+                await this.cliAdapter.ensureAvailable();
+            }
 
             // Initialize SFDX project structure if needed
             await this.ensureProjectStructure(orgTempDir);
 
-            // Create package.xml manifest using ManifestManager
-            console.log(`🚨 ABOUT TO CALL createManifest for org: ${org.alias || org.username}`);
-            const manifestPath = await this.createManifest(org, orgTempDir);
-            console.log(`🚨 RETURNED FROM createManifest: ${manifestPath}`);
-
-            // Retrieve source using manifest
-            await this.executeSourceRetrieval(org, manifestPath, orgTempDir);
+            const previousState = this.loadRetrievalState(org.id);
+            if (previousState) {
+                // Merge the components changed since the previous retrieval into its directory
+                await this.executeIncrementalRetrieval(org, previousState, orgTempDir);
+            } else {
+                const startedAt = new Date();
+                const objectChildren = await this.listObjectChildrenForState(org);
+
+                // Create package.xml manifest using ManifestManager
+                console.log(`🚨 ABOUT TO CALL createManifest for org: ${org.alias || org.username}`);
+                const manifestPath = await this.createManifest(org, orgTempDir);
+                console.log(`🚨 RETURNED FROM createManifest: ${manifestPath}`);
+
+                // Retrieve source using manifest
+                const retrievedFiles = await this.executeSourceRetrieval(org, manifestPath, orgTempDir);
+                const components = this.groupRetrievedFiles(orgTempDir, retrievedFiles, this.getEnabledTypeNames(org.id));
+                if (Object.keys(components).length > 0) {
+                    await this.saveRetrievalState(orgTempDir, { retrievedAt: startedAt.toISOString(), components, objectChildren });
+                }
+            }
 
             // Return the path to the source directory
             const sourceDir = path.join(orgTempDir, 'force-app', 'main', 'default');
@@ -127,36 +173,322 @@ export class SourceRetrievalService {
     }
 
     /**
-     * Ensure proper SFDX project structure exists
+     * Check whether the next retrieval of an org can build on the previous one
      */
-    private async ensureProjectStructure(orgTempDir: string): Promise<void> {
+    public canRetrieveIncrementally(orgId: string): boolean {
+        return !!this.loadRetrievalState(orgId);
+    }
+
+    /**
+     * Retrieve the components modified, added or removed since the previous retrieval, using the
+     * lastModifiedDate reported by "sf org list metadata", and merge them into the org directory
+     * Types whose members cannot be listed are retrieved in full, as are all types when listing them takes more calls
+     * than SF_CONFIG.RETRIEVAL.MAX_LIST_METADATA_CALLS, and objects whose listed children differ from the previous
+     * retrieval are retrieved again, so that deleted fields and validation rules are removed
+     */
+    private async executeIncrementalRetrieval(org: SalesforceOrg, previousState: RetrievalState, orgTempDir: string): Promise<void> {
+        const orgIdentifier = org.alias || org.username;
+        const startedAt = new Date();
+        const modifiedSince = Date.parse(previousState.retrievedAt) - SF_CONFIG.RETRIEVAL.CLOCK_SKEW_MARGIN;
+        const manifestConfig = this.manifestManager.getOrgManifestConfig(org.id);
+        const enabledTypes = this.getEnabledTypeNames(org.id);
+
+        const requested: MetadataComponentRef[] = [];
+        const listedComponents = new Set<string>();
+        const fullyRetrievedTypes = new Set<string>();
+        const listedObjectChildren: Record<string, string[]> = {};
+        const listed = await this.listLastModifiedDates(enabledTypes, org, listedObjectChildren);
+
+        for (const type of enabledTypes) {
+            const customMembers = manifestConfig.customMembers.get(type);
+            const hasCustomMembers = !!customMembers && customMembers.length > 0;
+            const lastModifiedDates = listed.get(type);
+
+            if (!lastModifiedDates) {
+                fullyRetrievedTypes.add(type);
+                requested.push(...(hasCustomMembers ? customMembers! : ['*']).map(fullName => ({ type, fullName })));
+                continue;
+            }
+
+            for (const [fullName, lastModified] of lastModifiedDates) {
+                if (hasCustomMembers && !customMembers!.includes(fullName)) {
+                    continue;
+                }
+
+                const key = `${type}:${fullName}`;
+                listedComponents.add(key);
+                // Objects are retrieved again when their children were not recorded or differ, e.g. after a field was deleted
+                const childrenChanged = type === 'CustomObject' && (!previousState.objectChildren
+                    || String(previousState.objectChildren[fullName] || []) !== String(listedObjectChildren[fullName] || []));
+                if (!previousState.components[key] || lastModified > modifiedSince || childrenChanged) {
+                    requested.push({ type, fullName });
+                }
+            }
+        }
+
+        // Children are recorded only along with the objects they were listed for
+        const objectChildren = listed.has('CustomObject') ? listedObjectChildren : undefined;
+
+        let retrieved: Record<string, string[]> = {};
+        if (requested.length > 0) {
+            const manifestPath = path.join(orgTempDir, INCREMENTAL_MANIFEST_FILE);
+            await fs.promises.writeFile(manifestPath, this.manifestManager.generateManifest(org.id, requested), 'utf8');
+            retrieved = this.groupRetrievedFiles(orgTempDir, await this.executeSourceRetrieval(org, manifestPath, orgTempDir), enabledTypes);
+        }
+
+        const components: Record<string, string[]> = {};
+        let removedCount = 0;
+        for (const [key, files] of Object.entries(previousState.components)) {
+            const type = key.substring(0, key.indexOf(':'));
+            const stillExists = fullyRetrievedTypes.has(type) ? !!retrieved[key] : listedComponents.has(key);
+
+            if (!stillExists) {
+                await this.removeRetrievedFiles(orgTempDir, files);
+                removedCount++;
+                continue;
+            }
+
+            // Bundles may have lost files since they were last retrieved
+            const currentFiles = retrieved[key];
+            if (currentFiles) {
+                await this.removeRetrievedFiles(orgTempDir, files.filter(file => !currentFiles.includes(file)));
+            }
+            components[key] = currentFiles || files;
+        }
+
+        for (const [key, files] of Object.entries(retrieved)) {
+            components[key] = components[key] || files;
+        }
+
+        await this.saveRetrievalState(orgTempDir, { retrievedAt: startedAt.toISOString(), components, objectChildren });
+        console.log(`⚡ Incremental retrieval for ${orgIdentifier}: ${requested.length} components retrieved, ${removedCount} removed`);
+    }
+
+    /**
+     * List the members of metadata types with their last modification time
+     * @param objectChildren Filled with the children of each object when listing CustomObject
+     * @returns Times by member full name for each type that could be listed
+     */
+    private async listLastModifiedDates(types: Set<string>, org: SalesforceOrg, objectChildren: Record<string, string[]>): Promise<Map<string, Map<string, number>>> {
+        const listedTypes = types.has('CustomObject') ? [...new Set([...types, ...OBJECT_CHILD_TYPES])] : [...types];
+        const batches = this.getListingBatches(listedTypes, org);
+        if (batches.length > SF_CONFIG.RETRIEVAL.MAX_LIST_METADATA_CALLS) {
+            console.log(`Listing ${listedTypes.length} types of ${org.alias || org.username} takes ${batches.length} calls, retrieving all of them`);
+            return new Map();
+        }
+
+        const lastModifiedDates = await this.listMetadata(batches, org);
+        const objectDates = lastModifiedDates.get('CustomObject');
+        if (objectDates) {
+            const children = this.groupObjectChildren(lastModifiedDates);
+            if (!children) {
+                // Without their children, changes of the objects cannot be told
+                lastModifiedDates.delete('CustomObject');
+                return lastModifiedDates;
+            }
+
+            for (const [objectName, objectChildList] of Object.entries(children)) {
+                for (const child of objectChildList) {
+                    if (child.lastModified > (objectDates.get(objectName) ?? Infinity)) {
+                        objectDates.set(objectName, child.lastModified);
+                    }
+                }
+                objectChildren[objectName] = objectChildList.map(child => child.key).sort();
+            }
+        }
+
+        return lastModifiedDates;
+    }
+
+    /**
+     * Group the listed children of every object, keyed by object name
+     * @returns undefined if one of the child types could not be listed
+     */
+    private groupObjectChildren(lastModifiedDates: Map<string, Map<string, number>>): Record<string, { key: string; lastModified: number }[]> | undefined {
+        const objectChildren: Record<string, { key: string; lastModified: number }[]> = {};
+        for (const childType of OBJECT_CHILD_TYPES) {
+            const members = lastModifiedDates.get(childType);
+            if (!members) {
+                return undefined;
+            }
+
+            for (const [fullName, lastModified] of members) {
+                const objectName = fullName.split('.')[0];
+                objectChildren[objectName] = objectChildren[objectName] || [];
+                objectChildren[objectName].push({ key: `${childType}:${fullName}`, lastModified });
+            }
+        }
+        return objectChildren;
+    }
+
+    /**
+     * List the children of every object for the retrieval state of a full retrieval
+     * @returns undefined if objects are not retrieved, incremental retrieval is disabled or the children cannot be listed,
+     * in which case the next incremental retrieval retrieves every object again
+     */
+    private async listObjectChildrenForState(org: SalesforceOrg): Promise<Record<string, string[]> | undefined> {
+        if (!this.config.isIncrementalRetrievalEnabled() || !this.getEnabledTypeNames(org.id).has('CustomObject')) {
+            return undefined;
+        }
+
+        const children = this.groupObjectChildren(await this.listMetadata(this.getListingBatches(OBJECT_CHILD_TYPES, org), org));
+        if (!children) {
+            return undefined;
+        }
+
+        const objectChildren: Record<string, string[]> = {};
+        for (const [objectName, objectChildList] of Object.entries(children)) {
+            objectChildren[objectName] = objectChildList.map(child => child.key).sort();
+        }
+        return objectChildren;
+    }
+
+    /**
+     * Split types into the calls listing them: one type per "sf org list metadata" call, while the Metadata API lists several at once
+     */
+    private getListingBatches(types: string[], org: SalesforceOrg): string[][] {
+        const batchSize = this.getRetrievalEngine(org) === 'metadataApi' ? MetadataApiRetriever.MAX_LIST_QUERIES : 1;
+        const batches: string[][] = [];
+        for (let i = 0; i < types.length; i += batchSize) {
+            batches.push(types.slice(i, i + batchSize));
+        }
+        return batches;
+    }
+
+    /**
+     * Run "sf org list metadata" for each batch of types, or list them through the Metadata API, a few calls at a time
+     * @returns Times by member full name for each type, leaving out the types of failed calls
+     */
+    private async listMetadata(batches: string[][], org: SalesforceOrg): Promise<Map<string, Map<string, number>>> {
+        const lastModifiedDates = new Map<string, Map<string, number>>();
+        const concurrency = SF_CONFIG.RETRIEVAL.LIST_METADATA_CONCURRENCY;
+
+        for (let i = 0; i < batches.length; i += concurrency) {
+            await Promise.all(batches.slice(i, i + concurrency).map(async types => {
+                try {
+                    const items = await this.listMetadataBatch(types, org);
+                    for (const type of types) {
+                        lastModifiedDates.set(type, new Map());
+                    }
+                    // Members without a usable date are always treated as modified
+                    for (const item of items) {
+                        lastModifiedDates.get(item.type)?.set(item.fullName, Date.parse(item.lastModifiedDate) || Infinity);
+                    }
+                } catch (error) {
+                    console.warn(`Cannot list ${types.join(', ')} members of ${org.alias || org.username}:`, error);
+                }
+            }));
+        }
+
+        return lastModifiedDates;
+    }
+
+    /**
+     * List the members of a batch of types in one call
+     */
+    private async listMetadataBatch(types: string[], org: SalesforceOrg): Promise<{ type: string; fullName: string; lastModifiedDate: string }[]> {
+        if (this.getRetrievalEngine(org) === 'metadataApi') {
+            return this.metadataApiRetriever.listMetadata(types, org.username);
+        }
+
+        const [type] = types;
+        const { stdout } = await this.cliAdapter.listMetadata(type, org.alias || org.username);
+        const response = JSON.parse(stdout);
+        if (response.status !== 0) {
+            throw new Error(response.message || `Listing ${type} failed`);
+        }
+        const items: any[] = Array.isArray(response.result) ? response.result : response.result ? [response.result] : [];
+        return items.map(item => ({ ...item, type }));
+    }
+
+    /**
+     * Group the files of a retrieve result by component, as relative paths of the org directory
+     * Decomposed object children belong to their object unless their own type is retrieved
+     */
+    private groupRetrievedFiles(orgTempDir: string, files: RetrievedFile[], enabledTypes: Set<string>): Record<string, string[]> {
+        const components: Record<string, string[]> = {};
+
+        for (const file of files) {
+            if (!file.filePath || !file.type || !file.fullName || file.state === 'Failed') {
+                continue;
+            }
+
+            const isObjectChild = !enabledTypes.has(file.type) && enabledTypes.has('CustomObject') && file.fullName.includes('.');
+            const key = isObjectChild ? `CustomObject:${file.fullName.split('.')[0]}` : `${file.type}:${file.fullName}`;
+            const relativePath = path.isAbsolute(file.filePath) ? path.relative(orgTempDir, file.filePath) : file.filePath;
+
+            components[key] = components[key] || [];
+            if (!components[key].includes(relativePath)) {
+                components[key].push(relativePath);
+            }
+        }
+
+        return components;
+    }
+
+    /**
+     * Delete files of removed components, along with the folders they leave empty
+     */
+    private async removeRetrievedFiles(orgTempDir: string, relativePaths: string[]): Promise<void> {
+        const sourceDir = path.join(orgTempDir, 'force-app', 'main', 'default');
+
+        for (const relativePath of relativePaths) {
+            const filePath = path.resolve(orgTempDir, relativePath);
+            if (!filePath.startsWith(sourceDir + path.sep)) {
+                continue;
+            }
+
+            await fs.promises.rm(filePath, { force: true });
+
+            let directory = path.dirname(filePath);
+            while (directory.startsWith(sourceDir + path.sep) && fs.existsSync(directory) && fs.readdirSync(directory).length === 0) {
+                await fs.promises.rmdir(directory);
+                directory = path.dirname(directory);
+            }
+        }
+    }
+
+    /**
+     * Load the components of the previous retrieval of an org
+     * @returns undefined if there is none or incremental retrieval is disabled
+     */
+    private loadRetrievalState(orgId: string): RetrievalState | undefined {
+        if (!this.config.isIncrementalRetrievalEnabled()) {
+            return undefined;
+        }
+
+        const statePath = path.join(this.tempDir, `org-${orgId}`, RETRIEVAL_STATE_FILE);
         try {
-            // Create sfdx-project.json if it doesn't exist
-            const projectConfigPath = path.join(orgTempDir, 'sfdx-project.json');
-            if (!fs.existsSync(projectConfigPath)) {
-                const projectConfig = {
-                    packageDirectories: [
-                        {
-                            path: 'force-app',
-                            default: true
-                        }
-                    ],
-                    namespace: '',
-                    sourceApiVersion: this.config.getApiVersion()
-                };
-                await fs.promises.writeFile(projectConfigPath, JSON.stringify(projectConfig, null, 2), 'utf8');
-                console.log(`Created sfdx-project.json at: ${projectConfigPath}`);
+            if (fs.existsSync(statePath) && this.getRetrievedSourceDirectory(orgId)) {
+                const state = JSON.parse(fs.readFileSync(statePath, 'utf8')) as RetrievalState;
+                return state.retrievedAt && state.components ? state : undefined;
             }
+        } catch (error) {
+            console.warn(`Ignoring unreadable retrieval state ${statePath}:`, error);
+        }
+        return undefined;
+    }
 
-            // Create force-app directory structure
-            const forceAppDir = path.join(orgTempDir, 'force-app');
-            const mainDir = path.join(forceAppDir, 'main');
-            const defaultDir = path.join(mainDir, 'default');
-            
-            this.ensureDirectory(forceAppDir);
-            this.ensureDirectory(mainDir);
-            this.ensureDirectory(defaultDir);
-            
+    /**
+     * Record the components of a retrieval for the next incremental retrieval
+     */
+    private async saveRetrievalState(orgTempDir: string, state: RetrievalState): Promise<void> {
+        await fs.promises.writeFile(path.join(orgTempDir, RETRIEVAL_STATE_FILE), JSON.stringify(state, null, 2), 'utf8');
+    }
+
+    /**
+     * Get the names of the metadata types retrieved for an org
+     */
+    private getEnabledTypeNames(orgId: string): Set<string> {
+        return new Set(this.manifestManager.getEnabledMetadataTypes(orgId).map(type => type.name));
+    }
+
+    /**
+     * Ensure proper SFDX project structure exists
+     */
+    private async ensureProjectStructure(orgTempDir: string): Promise<void> {
+        try {
+            await SfdxProject.create(orgTempDir, this.config.getApiVersion());
             console.log(`Ensured project structure in: ${orgTempDir}`);
         } catch (error) {
             console.warn('Failed to create project structure:', error);
@@ -225,81 +557,31 @@ export class SourceRetrievalService {
         try {
             console.log(`🔍 Listing metadata types available in org: ${org.alias || org.username}`);
             
-            if (!this.cliCommand) {
-                console.warn('CLI command not available for metadata type listing');
-                return;
-            }
-
-            const orgIdentifier = org.alias || org.username;
-            const args = [
+            const { stdout } = await this.cliAdapter.execute([
                 'org', 'list', 'metadata-types',
-                '--target-org', orgIdentifier,
+                '--target-org', org.alias || org.username,
                 '--json'
-            ];
-
-            console.log(`Executing: ${this.cliCommand} ${args.join(' ')}`);
-
-            return new Promise((resolve) => {
-                const childProcess = spawn(this.cliCommand!, args, { 
-                    cwd: orgTempDir,
-                    stdio: 'pipe',
-                    env: { ...process.env },
-                    shell: true
-                });
-
-                let stdout = '';
-                let stderr = '';
-
-                childProcess.stdout?.on('data', (data) => {
-                    stdout += data.toString();
-                });
-
-                childProcess.stderr?.on('data', (data) => {
-                    stderr += data.toString();
-                });
-
-                childProcess.on('close', (code: number) => {
-                    if (code === 0 && stdout.trim()) {
-                        try {
-                            const response = JSON.parse(stdout);
-                            if (response.result && response.result.metadataTypes) {
-                                const testSuiteTypes = response.result.metadataTypes.filter((type: any) => 
-                                    type.xmlName && type.xmlName.toLowerCase().includes('test')
-                                );
-                                
-                                console.log(`🧪 Test-related metadata types found:`, 
-                                    testSuiteTypes.map((t: any) => `${t.xmlName} (${t.directoryName})`).join(', '));
-                                
-                                const apexTestSuite = response.result.metadataTypes.find((type: any) => 
-                                    type.xmlName === 'ApexTestSuite'
-                                );
-                                
-                                if (apexTestSuite) {
-                                    console.log(`✅ ApexTestSuite found! Directory: ${apexTestSuite.directoryName}, Suffix: ${apexTestSuite.suffix}`);
-                                } else {
-                                    console.log(`❌ ApexTestSuite NOT found in org metadata types`);
-                                }
-                            }
-                        } catch (parseError) {
-                            console.warn('Could not parse metadata types response:', parseError);
-                        }
-                    } else {
-                        console.warn('Failed to list metadata types:', stderr);
-                    }
-                    resolve();
-                });
+            ], { cwd: orgTempDir, timeout: 10000 });
 
-                childProcess.on('error', (error) => {
-                    console.warn('Error listing metadata types:', error);
-                    resolve();
-                });
+            const response = JSON.parse(stdout);
+            if (response.result && response.result.metadataTypes) {
+                const testSuiteTypes = response.result.metadataTypes.filter((type: any) => 
+                    type.xmlName && type.xmlName.toLowerCase().includes('test')
+                );
+                
+                console.log(`🧪 Test-related metadata types found:`, 
+                    testSuiteTypes.map((t: any) => `${t.xmlName} (${t.directoryName})`).join(', '));
                 
-                // Timeout after 10 seconds
-                setTimeout(() => {
-                    childProcess.kill();
-                    resolve();
-                }, 10000);
-            });
+                const apexTestSuite = response.result.metadataTypes.find((type: any) => 
+                    type.xmlName === 'ApexTestSuite'
+                );
+                
+                if (apexTestSuite) {
+                    console.log(`✅ ApexTestSuite found! Directory: ${apexTestSuite.directoryName}, Suffix: ${apexTestSuite.suffix}`);
+                } else {
+                    console.log(`❌ ApexTestSuite NOT found in org metadata types`);
+                }
+            }
         } catch (error) {
             console.warn('Error in listOrgMetadataTypes:', error);
         }
@@ -359,173 +641,25 @@ export class SourceRetrievalService {
 </Package>`;
     }
 
+
     /**
-     * Ensure Salesforce CLI is available
+     * Execute SFDX source retrieval using manifest, with the retrieval engine selected for the org
+     * @returns The retrieved files
      */
-    private async ensureCLIAvailable(): Promise<void> {
-        if (this.cliCommand) {
-            return; // Already detected
-        }
-
-        // Try common CLI commands with shell enabled for proper PATH resolution
-        const possibleCommands = ['sf', 'sfdx'];
-
-        for (const cmd of possibleCommands) {
-            if (await this.testCLICommand(cmd)) {
-                this.cliCommand = cmd;
-                console.log(`Found CLI command: ${cmd}`);
-                return;
-            }
+    private async executeSourceRetrieval(org: SalesforceOrg, manifestPath: string, orgTempDir: string): Promise<RetrievedFile[]> {
+        if (this.getRetrievalEngine(org) === 'metadataApi') {
+            return this.metadataApiRetriever.retrieve(org.username, manifestPath, orgTempDir, this.config.getTimeout('cli_command'));
         }
-
-        throw new Error('Salesforce CLI not found. Please install SF CLI or ensure it is in your PATH.');
+        return this.cliAdapter.retrieve(org.alias || org.username, manifestPath, orgTempDir, this.config.getTimeout('cli_command'));
     }
 
     /**
-     * Test if a CLI command works
+     * Get the engine an org is retrieved with
      */
-    private async testCLICommand(command: string): Promise<boolean> {
-        return new Promise((resolve) => {
-            const childProcess = spawn(command, ['--version'], { 
-                stdio: 'pipe',
-                env: { ...process.env }, // Inherit all environment variables including PATH
-                shell: true // Enable shell for better command resolution
-            });
-            let resolved = false;
-            
-            const timeout = setTimeout(() => {
-                if (!resolved) {
-                    resolved = true;
-                    childProcess.kill();
-                    resolve(false);
-                }
-            }, SF_CONFIG.TIMEOUTS.PROCESS_KILL);
-
-            childProcess.on('close', (code: number) => {
-                if (!resolved) {
-                    resolved = true;
-                    clearTimeout(timeout);
-                    resolve(code === 0);
-                }
-            });
-
-            childProcess.on('error', () => {
-                if (!resolved) {
-                    resolved = true;
-                    clearTimeout(timeout);
-                    resolve(false);
-                }
-            });
-        });
+    private getRetrievalEngine(org: SalesforceOrg): RetrievalEngine {
+        return this.manifestManager.getOrgManifestConfig(org.id, org.alias).retrievalEngine || 'cli';
     }
 
-    /**
-     * Execute SFDX source retrieval using manifest
-     */
-    private async executeSourceRetrieval(org: SalesforceOrg, manifestPath: string, orgTempDir: string): Promise<void> {
-        const orgIdentifier = org.alias || org.username;
-        
-        if (!this.cliCommand) {
-            throw new Error('CLI command not available');
-        }
-
-        const args = [
-            'project', 'retrieve', 'start',
-            '--manifest', manifestPath,
-            '--target-org', orgIdentifier,
-            '--json'
-        ];
-
-        console.log(`Executing: ${this.cliCommand} ${args.join(' ')}`);
-
-        return new Promise((resolve, reject) => {
-            const childProcess = spawn(this.cliCommand!, args, { 
-                cwd: orgTempDir,
-                stdio: 'pipe',
-                env: { ...process.env }, // Inherit all environment variables including PATH
-                shell: true // Enable shell for better command resolution
-            });
-
-            let stdout = '';
-            let stderr = '';
-            let processCompleted = false;
-
-            // Add timeout to prevent hanging
-            const timeout = setTimeout(() => {
-                if (!processCompleted) {
-                    console.error(`Command timeout after 60 seconds for ${orgIdentifier}`);
-                    childProcess.kill();
-                    processCompleted = true;
-                    reject(new Error('Command timeout - SF CLI command took too long to execute'));
-                }
-            }, this.config.getTimeout('cli_command')); // CLI command timeout
-
-            childProcess.stdout?.on('data', (data: any) => {
-                const chunk = data.toString();
-                stdout += chunk;
-                console.log(`STDOUT chunk: ${chunk.substring(0, 200)}...`); // Log first 200 chars
-            });
-
-            childProcess.stderr?.on('data', (data: any) => {
-                const chunk = data.toString();
-                stderr += chunk;
-                console.log(`STDERR chunk: ${chunk.substring(0, 200)}...`); // Log first 200 chars
-            });
-
-            childProcess.on('close', (code: number) => {
-                if (!processCompleted) {
-                    processCompleted = true;
-                    clearTimeout(timeout);
-                    
-                    console.log(`Process closed with code: ${code} for ${orgIdentifier}`);
-                    console.log(`Full STDOUT length: ${stdout.length}`);
-                    console.log(`Full STDERR length: ${stderr.length}`);
-                    
-                    if (code === 0) {
-                        console.log(`Source retrieval successful for ${orgIdentifier}`);
-                        
-                        // Parse and log the JSON response for debugging
-                        try {
-                            if (stdout.trim()) {
-                                const response = JSON.parse(stdout);
-                                console.log(`📊 SFDX Response Status: ${response.status}`);
-                                if (response.result) {
-                                    console.log(`📦 Retrieved files count: ${response.result.length || 0}`);
-                                    if (response.result.length > 0) {
-                                        console.log(`📄 Retrieved files:`, response.result.map((f: any) => f.fullName || f.fileName).join(', '));
-                                    }
-                                }
-                            }
-                        } catch (parseError) {
-                            console.warn('Could not parse SFDX JSON response:', parseError);
-                            console.log(`Raw STDOUT: ${stdout.substring(0, 500)}...`);
-                        }
-                        
-                        resolve();
-                    } else {
-                        console.error(`Source retrieval failed for ${orgIdentifier}. Exit code: ${code}`);
-                        console.error(`STDERR: ${stderr}`);
-                        reject(new Error(`SFDX source retrieval failed: ${stderr}`));
-                    }
-                }
-            });
-
-            childProcess.on('error', (error: any) => {
-                if (!processCompleted) {
-                    processCompleted = true;
-                    clearTimeout(timeout);
-                    console.error(`Process error for ${orgIdentifier}:`, error);
-                    reject(new Error(`Failed to execute SFDX command: ${error.message}`));
-                }
-            });
-
-            childProcess.on('exit', (code: number, signal: string) => {
-                console.log(`Process exited with code: ${code}, signal: ${signal} for ${orgIdentifier}`);
-            });
-        });
-    }
-
-
     /**
      * Get file content from retrieved source
      */
@@ -544,6 +678,46 @@ export class SourceRetrievalService {
         }
     }
 
+    /**
+     * Retrieve individual components into a project of their own, leaving the org's full retrieval untouched
+     * @returns The retrieved files, with absolute paths
+     */
+    public async retrieveComponents(org: SalesforceOrg, components: MetadataComponentRef[]): Promise<RetrievedFile[]> {
+        const componentDir = path.join(this.tempDir, `org-${org.id}-components`);
+        this.ensureDirectory(componentDir);
+
+        if (this.getRetrievalEngine(org) === 'cli') {
+            await this.cliAdapter.ensureAvailable();
+        }
+        await this.ensureProjectStructure(componentDir);
+
+        const manifestPath = path.join(componentDir, 'package.xml');
+        await fs.promises.writeFile(manifestPath, PackageXmlBuilder.forComponents(components, this.config.getApiVersion()), 'utf8');
+
+        const files = await this.executeSourceRetrieval(org, manifestPath, componentDir);
+        return files
+            .filter(file => file.filePath && file.state !== 'Failed')
+            .map(file => ({ ...file, filePath: path.resolve(componentDir, file.filePath!) }));
+    }
+
+    /**
+     * Get the directory components fetched on demand are written to, in source format
+     */
+    public getComponentSourceDirectory(orgId: string): string {
+        return path.join(this.tempDir, `org-${orgId}-components`, 'force-app', 'main', 'default');
+    }
+
+    /**
+     * Get the source directory of a previous retrieval without retrieving again
+     */
+    public getRetrievedSourceDirectory(orgId: string): string | undefined {
+        const sourceDir = path.join(this.tempDir, `org-${orgId}`, 'force-app', 'main', 'default');
+        if (fs.existsSync(sourceDir) && fs.readdirSync(sourceDir).length > 0) {
+            return sourceDir;
+        }
+        return undefined;
+    }
+
     /**
      * Get or create temp directory for an org
      */
@@ -0,0 +1,248 @@
+import { DiffLine, DiffLineKind, MergeSide, SideBySideRow, TextDiffHunk } from '../types';
+
+/** Largest line matrix diffed exactly; bigger changed regions are reported as a block replacement */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line-based text diff used by reports and merges
+ */
+export class TextDiffService {
+
+    /**
+     * Split text into lines, ignoring the final line break
+     */
+    public static splitLines(text: string): string[] {
+        const lines = text.split(/\r?\n/);
+        if (lines.length > 1 && lines[lines.length - 1] === '') {
+            lines.pop();
+        }
+        return text === '' ? [] : lines;
+    }
+
+    /**
+     * Diff two texts line by line
+     * Common prefix and suffix are matched first, the changed region in between through a longest common subsequence
+     */
+    public diffLines(leftText: string, rightText: string): DiffLine[] {
+        const left = TextDiffService.splitLines(leftText);
+        const right = TextDiffService.splitLines(rightText);
+
+        let prefix = 0;
+        while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) {
+            prefix++;
+        }
+
+        let suffix = 0;
+        while (
+            suffix < left.length - prefix &&
+            suffix < right.length - prefix &&
+            left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+        ) {
+            suffix++;
+        }
+
+        const lines: DiffLine[] = [];
+        for (let index = 0; index < prefix; index++) {
+            lines.push({ kind: DiffLineKind.Equal, text: left[index], leftNumber: index + 1, rightNumber: index + 1 });
+        }
+
+        lines.push(...this.diffRegion(
+            left.slice(prefix, left.length - suffix),
+            right.slice(prefix, right.length - suffix),
+            prefix,
+            prefix
+        ));
+
+        for (let index = 0; index < suffix; index++) {
+            const leftIndex = left.length - suffix + index;
+            const rightIndex = right.length - suffix + index;
+            lines.push({ kind: DiffLineKind.Equal, text: left[leftIndex], leftNumber: leftIndex + 1, rightNumber: rightIndex + 1 });
+        }
+
+        return lines;
+    }
+
+    /**
+     * Group changed lines into hunks with the given number of context lines around them
+     */
+    public toHunks(lines: DiffLine[], context: number = 3): TextDiffHunk[] {
+        const hunks: TextDiffHunk[] = [];
+        let current: { start: number; end: number } | undefined;
+        const ranges: { start: number; end: number }[] = [];
+
+        lines.forEach((line, index) => {
+            if (line.kind === DiffLineKind.Equal) {
+                return;
+            }
+            const start = Math.max(0, index - context);
+            const end = Math.min(lines.length - 1, index + context);
+            if (current && start <= current.end + 1) {
+                current.end = end;
+            } else {
+                current = { start, end };
+                ranges.push(current);
+            }
+        });
+
+        for (const range of ranges) {
+            const hunkLines = lines.slice(range.start, range.end + 1);
+            hunks.push({
+                leftStart: this.getStartNumber(lines, range.start, 'leftNumber'),
+                leftCount: hunkLines.filter(line => line.kind !== DiffLineKind.Added).length,
+                rightStart: this.getStartNumber(lines, range.start, 'rightNumber'),
+                rightCount: hunkLines.filter(line => line.kind !== DiffLineKind.Removed).length,
+                lines: hunkLines
+            });
+        }
+
+        return hunks;
+    }
+
+    /**
+     * Pair removed and added lines into side-by-side rows
+     */
+    public toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+        const rows: SideBySideRow[] = [];
+        let index = 0;
+
+        while (index < lines.length) {
+            const line = lines[index];
+            if (line.kind === DiffLineKind.Equal) {
+                rows.push({
+                    kind: DiffLineKind.Equal,
+                    left: { number: line.leftNumber!, text: line.text },
+                    right: { number: line.rightNumber!, text: line.text }
+                });
+                index++;
+                continue;
+            }
+
+            const removed: DiffLine[] = [];
+            const added: DiffLine[] = [];
+            while (index < lines.length && lines[index].kind !== DiffLineKind.Equal) {
+                (lines[index].kind === DiffLineKind.Removed ? removed : added).push(lines[index]);
+                index++;
+            }
+
+            for (let pair = 0; pair < Math.max(removed.length, added.length); pair++) {
+                const left = removed[pair];
+                const right = added[pair];
+                rows.push({
+                    kind: left && right ? 'changed' : left ? DiffLineKind.Removed : DiffLineKind.Added,
+                    left: left ? { number: left.leftNumber!, text: left.text } : undefined,
+                    right: right ? { number: right.rightNumber!, text: right.text } : undefined
+                });
+            }
+        }
+
+        return rows;
+    }
+
+    /**
+     * Render hunks in unified diff format
+     */
+    public toUnifiedText(hunks: TextDiffHunk[], leftName: string, rightName: string): string {
+        const output = [`--- ${leftName}`, `+++ ${rightName}`];
+
+        for (const hunk of hunks) {
+            output.push(`@@ -${hunk.leftStart},${hunk.leftCount} +${hunk.rightStart},${hunk.rightCount} @@`);
+            for (const line of hunk.lines) {
+                const marker = line.kind === DiffLineKind.Added ? '+' : line.kind === DiffLineKind.Removed ? '-' : ' ';
+                output.push(`${marker}${line.text}`);
+            }
+        }
+
+        return output.join('\n');
+    }
+
+    /**
+     * Merge the two sides of a diff, taking the changed lines of each hunk from the side chosen for it
+     * The hunks must come from toHunks on the same lines; hunks without a choice keep the right side
+     */
+    public mergeHunks(lines: DiffLine[], hunks: TextDiffHunk[], choices: MergeSide[]): string[] {
+        const hunkIndexes = new Map<DiffLine, number>();
+        hunks.forEach((hunk, index) => hunk.lines.forEach(line => hunkIndexes.set(line, index)));
+
+        const merged: string[] = [];
+        for (const line of lines) {
+            if (line.kind === DiffLineKind.Equal) {
+                merged.push(line.text);
+                continue;
+            }
+
+            const hunkIndex = hunkIndexes.get(line);
+            const side = (hunkIndex !== undefined ? choices[hunkIndex] : undefined) || MergeSide.Right;
+            if ((line.kind === DiffLineKind.Removed) === (side === MergeSide.Left)) {
+                merged.push(line.text);
+            }
+        }
+
+        return merged;
+    }
+
+    /**
+     * Diff the changed region between the common prefix and suffix
+     */
+    private diffRegion(left: string[], right: string[], leftOffset: number, rightOffset: number): DiffLine[] {
+        const removed = (index: number): DiffLine => ({ kind: DiffLineKind.Removed, text: left[index], leftNumber: leftOffset + index + 1 });
+        const added = (index: number): DiffLine => ({ kind: DiffLineKind.Added, text: right[index], rightNumber: rightOffset + index + 1 });
+
+        if (left.length === 0 || right.length === 0 || left.length * right.length > MAX_LCS_CELLS) {
+            return [...left.map((_, index) => removed(index)), ...right.map((_, index) => added(index))];
+        }
+
+        // lengths[i][j] = length of the LCS of left[i..] and right[j..]
+        const columns = right.length + 1;
+        const lengths = new Uint32Array((left.length + 1) * columns);
+        for (let i = left.length - 1; i >= 0; i--) {
+            for (let j = right.length - 1; j >= 0; j--) {
+                lengths[i * columns + j] = left[i] === right[j]
+                    ? lengths[(i + 1) * columns + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+            }
+        }
+
+        const lines: DiffLine[] = [];
+        let i = 0;
+        let j = 0;
+        while (i < left.length && j < right.length) {
+            if (left[i] === right[j]) {
+                lines.push({ kind: DiffLineKind.Equal, text: left[i], leftNumber: leftOffset + i + 1, rightNumber: rightOffset + j + 1 });
+                i++;
+                j++;
+            } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+                lines.push(removed(i++));
+            } else {
+                lines.push(added(j++));
+            }
+        }
+        while (i < left.length) {
+            lines.push(removed(i++));
+        }
+        while (j < right.length) {
+            lines.push(added(j++));
+        }
+
+        return lines;
+    }
+
+    /**
+     * Get the line number a hunk starts at on one side, as used in unified diff headers
+     */
+    private getStartNumber(lines: DiffLine[], from: number, side: 'leftNumber' | 'rightNumber'): number {
+        for (let index = from; index < lines.length; index++) {
+            const number = lines[index][side];
+            if (number !== undefined) {
+                return number;
+            }
+        }
+        // Side has no lines in the hunk - like unified diff, point at the line the hunk follows
+        for (let index = from - 1; index >= 0; index--) {
+            const number = lines[index][side];
+            if (number !== undefined) {
+                return number;
+            }
+        }
+        return 0;
+    }
+}
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { CliUsageError, parseCliArguments } from '../../cli/CliArguments';
+import { ComparisonStatus, ExportFormat } from '../../types';
+
+suite('CliArguments Test Suite', () => {
+    test('should parse an org against a directory comparison', () => {
+        const options = parseCliArguments([
+            '--source-org', 'prod',
+            '--target-dir=./force-app',
+            '--types', 'ApexClass, Flow',
+            '--format', 'JUnit',
+            '--allow', 'ApexClass:Legacy*',
+            '--allow', 'flows/**',
+            '--fail-on', 'changed,onlyInRight'
+        ]);
+
+        assert.deepStrictEqual(options.source, { kind: 'org', identifier: 'prod' });
+        assert.deepStrictEqual(options.target, { kind: 'directory', path: './force-app' });
+        assert.deepStrictEqual(options.metadataTypes, ['ApexClass', 'Flow']);
+        assert.strictEqual(options.format, ExportFormat.Junit);
+        assert.deepStrictEqual(options.policy.allow, ['ApexClass:Legacy*', 'flows/**']);
+        assert.deepStrictEqual(options.policy.failOn, [ComparisonStatus.Changed, ComparisonStatus.OnlyInRight]);
+    });
+
+    test('should default to JSON and failing on every difference', () => {
+        const options = parseCliArguments(['--source-org', 'uat', '--target-org', 'prod']);
+
+        assert.strictEqual(options.format, ExportFormat.Json);
+        assert.deepStrictEqual(options.policy.failOn, [ComparisonStatus.Changed, ComparisonStatus.OnlyInLeft, ComparisonStatus.OnlyInRight]);
+        assert.ok(options.metadataTypes.includes('ApexClass'));
+        assert.deepStrictEqual(parseCliArguments(['--source-org', 'uat', '--target-org', 'prod', '--fail-on', 'none']).policy.failOn, []);
+    });
+
+    test('should reject incomplete or conflicting arguments', () => {
+        assert.throws(() => parseCliArguments(['--source-org', 'uat']), CliUsageError);
+        assert.throws(() => parseCliArguments(['--source-org', 'uat', '--source-dir', '.', '--target-org', 'prod']), /either --source-org or --source-dir/);
+        assert.throws(() => parseCliArguments(['--source-org', 'uat', '--target-org', 'prod', '--format', 'html']), /Unsupported format/);
+        assert.throws(() => parseCliArguments(['--source-org', 'uat', '--target-org']), /Missing value for --target-org/);
+        assert.throws(() => parseCliArguments(['--source-org', 'uat', '--target-org', 'prod', '--fail-on', 'identical']), /Unknown --fail-on status/);
+        assert.throws(() => parseCliArguments(['--unknown']), /Unknown option/);
+    });
+
+    test('should not require sources for help', () => {
+        assert.strictEqual(parseCliArguments(['--help']).help, true);
+    });
+});
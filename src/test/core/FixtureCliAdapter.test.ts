@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FixtureCliAdapter } from '../../core/FixtureCliAdapter';
+import { PackageXmlBuilder } from '../../core/PackageXmlBuilder';
+
+suite('FixtureCliAdapter Test Suite', () => {
+    let workDir: string;
+    let fixtureDir: string;
+    let projectDir: string;
+    let adapter: FixtureCliAdapter;
+
+    const writeFile = (relativePath: string, content: string): void => {
+        const filePath = path.join(fixtureDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content, 'utf8');
+    };
+
+    const writeManifest = (components: { type: string; fullName: string }[]): string => {
+        const manifestPath = path.join(projectDir, 'package.xml');
+        fs.writeFileSync(manifestPath, PackageXmlBuilder.forComponents(components, '58.0'), 'utf8');
+        return manifestPath;
+    };
+
+    setup(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixture-adapter-test-'));
+        fixtureDir = path.join(workDir, 'fixtures');
+        projectDir = path.join(workDir, 'project');
+        fs.mkdirSync(projectDir);
+        adapter = new FixtureCliAdapter(fixtureDir);
+
+        writeFile('dev/source/classes/Invoice.cls', 'public class Invoice {}');
+        writeFile('dev/source/classes/Invoice.cls-meta.xml', '<ApexClass/>');
+        writeFile('dev/source/classes/Payment.cls', 'public class Payment {}');
+        writeFile('dev/source/objects/Order__c/Order__c.object-meta.xml', '<CustomObject/>');
+        writeFile('dev/source/objects/Order__c/fields/Total__c.field-meta.xml', '<CustomField/>');
+        writeFile('prod/source/classes/Invoice.cls', 'public class Invoice { Decimal total; }');
+    });
+
+    teardown(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    test('should list the org folders as authenticated orgs when no orgs.json is recorded', async () => {
+        const { stdout } = await adapter.listOrgs();
+        const response = JSON.parse(stdout);
+
+        assert.strictEqual(response.status, 0);
+        assert.deepStrictEqual(response.result.nonScratchOrgs.map((org: any) => org.alias), ['dev', 'prod']);
+    });
+
+    test('should derive metadata listings from the source tree unless a listing is recorded', async () => {
+        const modified = new Date('2024-03-01T10:00:00.000Z');
+        fs.utimesSync(path.join(fixtureDir, 'dev/source/classes/Invoice.cls-meta.xml'), modified, modified);
+        fs.utimesSync(path.join(fixtureDir, 'dev/source/classes/Invoice.cls'), modified, modified);
+
+        const derived = JSON.parse((await adapter.listMetadata('ApexClass', 'dev')).stdout);
+        assert.deepStrictEqual(derived.result.map((item: any) => item.fullName), ['Invoice', 'Payment']);
+        assert.strictEqual(derived.result[0].lastModifiedDate, modified.toISOString());
+
+        writeFile('dev/metadata/ApexClass.json', JSON.stringify({ status: 0, result: [{ fullName: 'Recorded' }] }));
+        const recorded = JSON.parse((await adapter.listMetadata('ApexClass', 'dev')).stdout);
+        assert.deepStrictEqual(recorded.result, [{ fullName: 'Recorded' }]);
+    });
+
+    test('should retrieve the requested members together with the children of requested objects', async () => {
+        const manifestPath = writeManifest([
+            { type: 'ApexClass', fullName: 'Invoice' },
+            { type: 'CustomObject', fullName: 'Order__c' }
+        ]);
+
+        const files = await adapter.retrieve('dev', manifestPath, projectDir);
+
+        assert.deepStrictEqual(files.map(file => `${file.type}:${file.fullName}`).sort(), [
+            'ApexClass:Invoice',
+            'ApexClass:Invoice',
+            'CustomField:Order__c.Total__c',
+            'CustomObject:Order__c'
+        ]);
+        const retrievedClass = path.join(projectDir, 'force-app/main/default/classes/Invoice.cls');
+        assert.strictEqual(fs.readFileSync(retrievedClass, 'utf8'), 'public class Invoice {}');
+        assert.ok(!fs.existsSync(path.join(projectDir, 'force-app/main/default/classes/Payment.cls')));
+    });
+
+    test('should replay recorded queries and commands and reject failed or unknown ones', async () => {
+        writeFile('dev/queries.json', JSON.stringify([
+            { query: 'SELECT Id FROM ApexClass', tooling: true, response: { status: 0, result: { records: [{ Id: '01p' }] } } }
+        ]));
+        const args = ['org', 'list', 'metadata-types', '--target-org', 'dev', '--json'];
+        writeFile('dev/commands.json', JSON.stringify([
+            { args, response: { status: 1, message: 'Session expired' } }
+        ]));
+
+        const { stdout } = await adapter.query('SELECT  Id\n FROM ApexClass', 'dev', true);
+        assert.deepStrictEqual(JSON.parse(stdout).result.records, [{ Id: '01p' }]);
+
+        await assert.rejects(adapter.query('SELECT Id FROM ApexClass', 'dev'), /No fixture response recorded/);
+        await assert.rejects(adapter.execute(args), /Session expired/);
+        assert.strictEqual(JSON.parse((await adapter.execute(args, { ignoreExitCode: true })).stdout).status, 1);
+        await assert.rejects(adapter.describeSObject('Account', 'staging'), /No fixture recorded for org staging/);
+    });
+});
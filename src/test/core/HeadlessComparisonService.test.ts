@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HeadlessComparisonService } from '../../core/HeadlessComparisonService';
+import { FixtureCliAdapter } from '../../core/FixtureCliAdapter';
+import { ComparisonEntry, ComparisonStatus } from '../../types';
+
+suite('HeadlessComparisonService Test Suite', () => {
+    let workDir: string;
+    let service: HeadlessComparisonService;
+
+    const options = () => ({ metadataTypes: ['ApexClass'], apiVersion: '58.0', workDirectory: path.join(workDir, 'work') });
+
+    const writeFile = (relativePath: string, content: string): void => {
+        const filePath = path.join(workDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content, 'utf8');
+    };
+
+    const entry = (relativePath: string, status: ComparisonStatus): ComparisonEntry => ({
+        relativePath,
+        metadataFolder: relativePath.split('/')[0],
+        status
+    });
+
+    setup(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'headless-comparison-test-'));
+        service = new HeadlessComparisonService();
+    });
+
+    teardown(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    test('should compare an SFDX project by its package directories with a plain directory', async () => {
+        writeFile('project/sfdx-project.json', JSON.stringify({ packageDirectories: [{ path: 'force-app', default: true }] }));
+        writeFile('project/force-app/main/default/classes/Invoice.cls', 'public class Invoice {}');
+        writeFile('project/force-app/main/default/classes/Payment.cls', 'public class Payment {}');
+        writeFile('backup/classes/Invoice.cls', 'public class Invoice { Decimal total; }');
+
+        const result = await service.compare(
+            { kind: 'directory', path: path.join(workDir, 'project') },
+            { kind: 'directory', path: path.join(workDir, 'backup') },
+            options()
+        );
+
+        assert.strictEqual(result.left.label, 'project');
+        assert.deepStrictEqual(result.entries.map(comparison => [comparison.relativePath, comparison.status]), [
+            ['classes/Invoice.cls', ComparisonStatus.Changed],
+            ['classes/Payment.cls', ComparisonStatus.OnlyInLeft]
+        ]);
+    });
+
+    test('should compare orgs replayed from fixtures without the Salesforce CLI', async () => {
+        writeFile('fixtures/dev/source/classes/Invoice.cls', 'public class Invoice { Decimal total; }');
+        writeFile('fixtures/dev/source/lwc/invoiceCard/invoiceCard.js', 'export default class InvoiceCard {}');
+        writeFile('fixtures/prod/source/classes/Invoice.cls', 'public class Invoice {}');
+        const fixtureService = new HeadlessComparisonService(new FixtureCliAdapter(path.join(workDir, 'fixtures')));
+
+        const result = await fixtureService.compare({ kind: 'org', identifier: 'dev' }, { kind: 'org', identifier: 'prod' }, options());
+
+        assert.deepStrictEqual(result.entries.map(comparison => [comparison.relativePath, comparison.status]), [
+            ['classes/Invoice.cls', ComparisonStatus.Changed]
+        ]);
+    });
+
+    test('should reject directories that do not exist', async () => {
+        await assert.rejects(
+            service.resolveSource({ kind: 'directory', path: path.join(workDir, 'missing') }, options()),
+            /Source directory does not exist/
+        );
+    });
+
+    test('should leave out allowed differences and statuses that do not fail', () => {
+        const entries = [
+            entry('classes/Invoice.cls', ComparisonStatus.Changed),
+            entry('classes/LegacyInvoice.cls', ComparisonStatus.Changed),
+            entry('lwc/invoiceCard/invoiceCard.js', ComparisonStatus.Changed),
+            entry('flows/Approval.flow-meta.xml', ComparisonStatus.OnlyInRight),
+            entry('classes/Same.cls', ComparisonStatus.Identical)
+        ];
+
+        const drift = HeadlessComparisonService.findUnexpectedDrift(entries, {
+            failOn: [ComparisonStatus.Changed],
+            allow: ['ApexClass:Legacy*', 'lwc/**']
+        });
+
+        assert.deepStrictEqual(drift.map(comparison => comparison.relativePath), ['classes/Invoice.cls']);
+    });
+});
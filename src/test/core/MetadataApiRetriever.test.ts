@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as esbuild from 'esbuild';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip = require('jszip');
+import { MetadataApiConnection, MetadataApiRetriever } from '../../core/MetadataApiRetriever';
+import { PackageXmlBuilder } from '../../core/PackageXmlBuilder';
+
+suite('MetadataApiRetriever Test Suite', () => {
+    let projectDir: string;
+    let manifestPath: string;
+    let requests: any[];
+    let connects: string[];
+
+    const createConnection = (status: Record<string, any>): MetadataApiConnection => ({
+        metadata: {
+            retrieve: async (request) => {
+                requests.push(request);
+                return { id: '09S000000000001' };
+            },
+            checkRetrieveStatus: async () => ({ done: true, success: true, status: 'Succeeded', zipFile: '', ...status }),
+            list: async (queries) => queries.map(({ type }) => ({ fullName: 'Invoice', type, fileName: 'classes/Invoice.cls', lastModifiedDate: '2024-03-01T10:00:00.000Z' }))
+        }
+    });
+
+    const createZip = async (files: Record<string, string>): Promise<string> => {
+        const zip = new JSZip();
+        for (const [name, content] of Object.entries(files)) {
+            zip.file(name, content);
+        }
+        return zip.generateAsync({ type: 'base64' });
+    };
+
+    setup(() => {
+        projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mdapi-retriever-test-'));
+        manifestPath = path.join(projectDir, 'package.xml');
+        fs.writeFileSync(manifestPath, PackageXmlBuilder.forComponents([
+            { type: 'ApexClass', fullName: 'Invoice' },
+            { type: 'CustomObject', fullName: 'Order__c' }
+        ], '58.0'), 'utf8');
+        requests = [];
+        connects = [];
+    });
+
+    teardown(() => {
+        fs.rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    test('should retrieve the manifest and write the zip in source format', async () => {
+        const zipFile = await createZip({
+            'package.xml': '<Package/>',
+            'classes/Invoice.cls': 'public class Invoice {}',
+            'classes/Invoice.cls-meta.xml': '<ApexClass/>',
+            'objects/Order__c.object': '<CustomObject xmlns="http://soap.sforce.com/2006/04/metadata">\n    <fields>\n        <fullName>Total__c</fullName>\n    </fields>\n</CustomObject>\n'
+        });
+        const retriever = new MetadataApiRetriever(async org => {
+            connects.push(org);
+            return createConnection({ zipFile });
+        });
+
+        const files = await retriever.retrieve('dev', manifestPath, projectDir);
+        await retriever.listMetadata(['ApexClass'], 'dev');
+
+        assert.deepStrictEqual(connects, ['dev']);
+        assert.strictEqual(requests[0].apiVersion, 58);
+        assert.deepStrictEqual(requests[0].unpackaged.types.map((type: any) => type.name).sort(), ['ApexClass', 'CustomObject']);
+        assert.deepStrictEqual(files.map(file => `${file.type}:${file.fullName}`).sort(), [
+            'ApexClass:Invoice',
+            'ApexClass:Invoice',
+            'CustomField:Order__c.Total__c',
+            'CustomObject:Order__c'
+        ]);
+        const sourceDir = path.join(projectDir, 'force-app/main/default');
+        assert.strictEqual(fs.readFileSync(path.join(sourceDir, 'classes/Invoice.cls'), 'utf8'), 'public class Invoice {}');
+        assert.ok(fs.existsSync(path.join(sourceDir, 'objects/Order__c/fields/Total__c.field-meta.xml')));
+        assert.ok(!fs.existsSync(path.join(sourceDir, 'package.xml')));
+    });
+
+    test('should reject failed retrievals and reconnect after a failed connection', async () => {
+        let attempts = 0;
+        const retriever = new MetadataApiRetriever(async () => {
+            attempts++;
+            if (attempts === 1) {
+                throw new Error('No authorization information found for dev');
+            }
+            return createConnection({ success: false, status: 'Failed', errorMessage: 'INVALID_SESSION_ID' });
+        });
+
+        await assert.rejects(retriever.retrieve('dev', manifestPath, projectDir), /No authorization information/);
+        await assert.rejects(retriever.retrieve('dev', manifestPath, projectDir), /Metadata API retrieval failed: INVALID_SESSION_ID/);
+        assert.strictEqual(attempts, 2);
+    });
+
+    test('should not write files outside of the retrieved source directory', async () => {
+        const zipFile = await createZip({
+            '/classes/Invoice.cls': 'public class Invoice {}',
+            'objects/Order__c.object': '<CustomObject xmlns="http://soap.sforce.com/2006/04/metadata">\n    <fields>\n        <fullName>../../../../../Evil</fullName>\n    </fields>\n</CustomObject>\n'
+        });
+        const retriever = new MetadataApiRetriever(async () => createConnection({ zipFile }));
+
+        await assert.rejects(retriever.retrieve('dev', manifestPath, projectDir), /file outside of force-app/);
+        assert.deepStrictEqual(fs.readdirSync(projectDir), ['package.xml']);
+    });
+
+    test('should load @salesforce/core when bundled like the extension', async function () {
+        this.timeout(120000);
+        const rootDir = path.resolve(__dirname, '../../..');
+        const { extensionOptions } = require(path.join(rootDir, 'esbuild.js'));
+        const outfile = path.join(projectDir, 'MetadataApiRetriever.js');
+        await esbuild.build({
+            ...extensionOptions,
+            entryPoints: [path.join(rootDir, 'src/core/MetadataApiRetriever.ts')],
+            outfile,
+            sourcemap: false,
+            plugins: []
+        });
+        const bundled: typeof import('../../core/MetadataApiRetriever') = require(outfile);
+        const disableLogFile = process.env.SF_DISABLE_LOG_FILE;
+
+        // Connecting to an unknown org must get as far as looking up its authorization
+        await assert.rejects(new bundled.MetadataApiRetriever().listMetadata(['ApexClass'], 'no-such-org'), /No authorization information found/);
+        assert.strictEqual(process.env.SF_DISABLE_LOG_FILE, disableLogFile);
+    });
+});
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { MetadataFormatConverter } from '../../core/MetadataFormatConverter';
+
+suite('MetadataFormatConverter Test Suite', () => {
+    const objectXml = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<CustomObject xmlns="http://soap.sforce.com/2006/04/metadata">',
+        '    <compactLayouts>',
+        '        <fullName>Order_Layout</fullName>',
+        '        <label>Order Layout</label>',
+        '    </compactLayouts>',
+        '    <fields>',
+        '        <fullName>Total__c</fullName>',
+        '        <type>Currency</type>',
+        '    </fields>',
+        '    <label>Order</label>',
+        '</CustomObject>',
+        ''
+    ].join('\n');
+
+    test('should decompose an object into its object file and one file per child', () => {
+        const files = MetadataFormatConverter.decomposeObject('Order__c.object', objectXml);
+
+        assert.deepStrictEqual([...files.keys()].sort(), [
+            'objects/Order__c/Order__c.object-meta.xml',
+            'objects/Order__c/compactLayouts/Order_Layout.compactLayout-meta.xml',
+            'objects/Order__c/fields/Total__c.field-meta.xml'
+        ]);
+        assert.strictEqual(files.get('objects/Order__c/fields/Total__c.field-meta.xml'), [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<CustomField xmlns="http://soap.sforce.com/2006/04/metadata">',
+            '    <fullName>Total__c</fullName>',
+            '    <type>Currency</type>',
+            '</CustomField>',
+            ''
+        ].join('\n'));
+        assert.strictEqual(files.get('objects/Order__c/Order__c.object-meta.xml'), [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<CustomObject xmlns="http://soap.sforce.com/2006/04/metadata">',
+            '    <label>Order</label>',
+            '</CustomObject>',
+            ''
+        ].join('\n'));
+    });
+
+    test('should add the -meta.xml suffix only to files without a companion and drop package.xml', () => {
+        const files = new Map<string, Buffer>([
+            ['package.xml', Buffer.from('<Package/>')],
+            ['classes/Invoice.cls', Buffer.from('public class Invoice {}')],
+            ['classes/Invoice.cls-meta.xml', Buffer.from('<ApexClass/>')],
+            ['layouts/Account-Account Layout.layout', Buffer.from('<Layout/>')],
+            ['lwc/orderList/orderList.js', Buffer.from('export default class {}')],
+            ['lwc/orderList/orderList.js-meta.xml', Buffer.from('<LightningComponentBundle/>')],
+            ['objects/Order__c.object', Buffer.from(objectXml)]
+        ]);
+
+        const converted = MetadataFormatConverter.toSourceFormat(files);
+
+        assert.deepStrictEqual([...converted.keys()].sort(), [
+            'classes/Invoice.cls',
+            'classes/Invoice.cls-meta.xml',
+            'layouts/Account-Account Layout.layout-meta.xml',
+            'lwc/orderList/orderList.js',
+            'lwc/orderList/orderList.js-meta.xml',
+            'objects/Order__c/Order__c.object-meta.xml',
+            'objects/Order__c/compactLayouts/Order_Layout.compactLayout-meta.xml',
+            'objects/Order__c/fields/Total__c.field-meta.xml'
+        ]);
+        assert.strictEqual(converted.get('classes/Invoice.cls')?.toString(), 'public class Invoice {}');
+    });
+});
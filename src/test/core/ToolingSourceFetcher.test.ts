@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FixtureCliAdapter } from '../../core/FixtureCliAdapter';
+import { ToolingSourceFetcher } from '../../core/ToolingSourceFetcher';
+import { MetadataPathResolver } from '../../metadata/MetadataPathResolver';
+
+suite('ToolingSourceFetcher Test Suite', () => {
+    let fixtureDir: string;
+    let fetcher: ToolingSourceFetcher;
+
+    const recordQueries = (queries: { query: string; records: any[] }[]): void => {
+        fs.mkdirSync(path.join(fixtureDir, 'dev'), { recursive: true });
+        fs.writeFileSync(path.join(fixtureDir, 'dev', 'queries.json'), JSON.stringify(queries.map(entry => ({
+            query: entry.query,
+            tooling: true,
+            response: { status: 0, result: { records: entry.records } }
+        }))), 'utf8');
+    };
+
+    setup(() => {
+        fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tooling-fetcher-test-'));
+        fetcher = new ToolingSourceFetcher(new FixtureCliAdapter(fixtureDir));
+    });
+
+    teardown(() => {
+        fs.rmSync(fixtureDir, { recursive: true, force: true });
+    });
+
+    test('should fetch Apex bodies and list unmanaged components', async () => {
+        recordQueries([
+            { query: "SELECT Name, Body FROM ApexClass WHERE Name = 'Invoice' AND NamespacePrefix = null", records: [{ Name: 'Invoice', Body: 'public class Invoice {}' }] },
+            { query: 'SELECT Name FROM ApexTrigger WHERE NamespacePrefix = null ORDER BY Name', records: [{ Name: 'InvoiceTrigger' }, { Name: 'OrderTrigger' }] }
+        ]);
+
+        const files = await fetcher.fetchComponent('dev', { type: 'ApexClass', fullName: 'Invoice' });
+
+        assert.deepStrictEqual([...files.entries()], [['classes/Invoice.cls', 'public class Invoice {}']]);
+        assert.deepStrictEqual(await fetcher.listComponents('ApexTrigger', 'dev'), ['InvoiceTrigger', 'OrderTrigger']);
+    });
+
+    test('should fetch LWC resources and Aura definitions at the paths a retrieval writes', async () => {
+        recordQueries([
+            {
+                query: "SELECT FilePath, Source FROM LightningComponentResource WHERE LightningComponentBundle.DeveloperName = 'orderList' AND LightningComponentBundle.NamespacePrefix = null",
+                records: [
+                    { FilePath: 'lwc/orderList/orderList.js', Source: 'export default class OrderList {}' },
+                    { FilePath: 'lwc/orderList/orderList.js-meta.xml', Source: '<LightningComponentBundle/>' },
+                    { FilePath: 'lwc/orderList/__tests__/orderList.test.js', Source: "describe('c-order-list', () => {});" }
+                ]
+            },
+            {
+                query: "SELECT DefType, Source FROM AuraDefinition WHERE AuraDefinitionBundle.DeveloperName = 'invoiceCard' AND AuraDefinitionBundle.NamespacePrefix = null",
+                records: [
+                    { DefType: 'COMPONENT', Source: '<aura:component/>' },
+                    { DefType: 'CONTROLLER', Source: '({})' }
+                ]
+            }
+        ]);
+
+        const lwcFiles = await fetcher.fetchComponent('dev', { type: 'LightningComponentBundle', fullName: 'orderList' });
+        const auraFiles = await fetcher.fetchComponent('dev', { type: 'AuraDefinitionBundle', fullName: 'invoiceCard' });
+
+        assert.deepStrictEqual([...lwcFiles.keys()], ['lwc/orderList/orderList.js', 'lwc/orderList/orderList.js-meta.xml', 'lwc/orderList/__tests__/orderList.test.js']);
+        assert.deepStrictEqual([...auraFiles.keys()], ['aura/invoiceCard/invoiceCard.cmp', 'aura/invoiceCard/invoiceCardController.js']);
+        for (const relativePath of [...lwcFiles.keys(), ...auraFiles.keys()]) {
+            assert.ok(MetadataPathResolver.resolve(relativePath), `${relativePath} should resolve to its component`);
+        }
+    });
+
+    test('should reject unsupported types, invalid names and missing components', async () => {
+        recordQueries([
+            { query: "SELECT Name, Body FROM ApexClass WHERE Name = 'Missing' AND NamespacePrefix = null", records: [] }
+        ]);
+
+        await assert.rejects(fetcher.fetchComponent('dev', { type: 'Flow', fullName: 'Invoice_Flow' }), /cannot be fetched/);
+        await assert.rejects(fetcher.fetchComponent('dev', { type: 'ApexClass', fullName: "x' OR Name = 'y" }), /Invalid ApexClass name/);
+        await assert.rejects(fetcher.fetchComponent('dev', { type: 'ApexClass', fullName: 'Missing' }), /was not found in dev/);
+    });
+});
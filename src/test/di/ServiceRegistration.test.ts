@@ -56,6 +56,7 @@ suite('Service Registration Test Suite', () => {
                 ServiceTokens.CONFIGURATION_MANAGER,
                 ServiceTokens.ERROR_HANDLER,
                 ServiceTokens.SECURE_COMMAND_EXECUTOR,
+                ServiceTokens.SALESFORCE_CLI_ADAPTER,
                 ServiceTokens.METADATA_REGISTRY,
                 ServiceTokens.METADATA_CONFIGURATION,
                 ServiceTokens.PARALLEL_PROCESSOR,
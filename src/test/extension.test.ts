@@ -6,6 +6,7 @@ import { EnhancedOrgManager } from '../metadata/EnhancedOrgManager';
 import { FileCompareService } from '../services/FileCompareService';
 import { SfOrgCompareProvider } from '../providers/SfOrgCompareProvider';
 import { OrgCacheService } from '../services/OrgCacheService';
+import { LocalProjectService } from '../services/LocalProjectService';
 import { 
     createMockContext, 
     setupVSCodeMocks, 
@@ -93,7 +94,7 @@ suite('Extension Test Suite', () => {
             enhancedOrgManager = new EnhancedOrgManager(mockContext);
             fileCompareService = new FileCompareService(enhancedOrgManager);
             orgCacheService = new OrgCacheService(mockContext);
-            provider = new SfOrgCompareProvider(enhancedOrgManager, fileCompareService, orgCacheService);
+            provider = new SfOrgCompareProvider(enhancedOrgManager, fileCompareService, orgCacheService, new LocalProjectService());
         });
 
         test('should handle openCompareView command', async () => {
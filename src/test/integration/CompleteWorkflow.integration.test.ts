@@ -8,6 +8,7 @@ import { EnhancedOrgManager } from '../../metadata/EnhancedOrgManager';
 import { SourceRetrievalService } from '../../services/SourceRetrievalService';
 import { ManifestManager } from '../../services/ManifestManager';
 import { OrgCacheService } from '../../services/OrgCacheService';
+import { LocalProjectService } from '../../services/LocalProjectService';
 import { SalesforceOrg, TreeItem, ItemType } from '../../types';
 
 suite('Complete Workflow Integration Tests', () => {
@@ -142,7 +143,7 @@ suite('Complete Workflow Integration Tests', () => {
         sourceRetrievalService = new SourceRetrievalService(manifestManager);
         fileCompareService = new FileCompareService(enhancedOrgManager);
         orgCacheService = new OrgCacheService(mockContext);
-        sfOrgCompareProvider = new SfOrgCompareProvider(enhancedOrgManager, fileCompareService, orgCacheService);
+        sfOrgCompareProvider = new SfOrgCompareProvider(enhancedOrgManager, fileCompareService, orgCacheService, new LocalProjectService());
 
         await enhancedOrgManager.initialize();
     });
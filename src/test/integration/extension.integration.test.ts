@@ -5,6 +5,7 @@ import { EnhancedOrgManager } from '../../metadata/EnhancedOrgManager';
 import { FileCompareService } from '../../services/FileCompareService';
 import { SfOrgCompareProvider } from '../../providers/SfOrgCompareProvider';
 import { OrgCacheService } from '../../services/OrgCacheService';
+import { LocalProjectService } from '../../services/LocalProjectService';
 import { SalesforceOrg, OrgFile, ItemType } from '../../types';
 
 suite('Extension Integration Test Suite', () => {
@@ -124,7 +125,7 @@ suite('Extension Integration Test Suite', () => {
             getOrgFilesByType: sinon.stub().resolves(new Map()),
             getFileContent: sinon.stub().resolves('mock content')
         } as any;
-        provider = new SfOrgCompareProvider(enhancedOrgManager, fileCompareService, orgCacheService);
+        provider = new SfOrgCompareProvider(enhancedOrgManager, fileCompareService, orgCacheService, new LocalProjectService());
     });
 
     teardown(() => {
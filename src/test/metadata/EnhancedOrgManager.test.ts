@@ -391,6 +391,14 @@ suite('EnhancedOrgManager Tests', () => {
             
             assert.strictEqual(result, '');
         });
+
+        test('should report Tooling API errors of on-demand files instead of empty content', async () => {
+            sinon.stub(enhancedOrgManager, 'getCachedSourceDirectory').returns(undefined);
+            sinon.stub(enhancedOrgManager, 'fetchComponentSource').rejects(new Error('INVALID_SESSION_ID'));
+            const fileId = EnhancedOrgManager.getOnDemandFileId(sampleOrg.id, 'classes/Invoice.cls');
+
+            await assert.rejects(enhancedOrgManager.getFileContentById(sampleOrg.id, fileId), /INVALID_SESSION_ID/);
+        });
     });
 
     suite('Analysis and Statistics', () => {
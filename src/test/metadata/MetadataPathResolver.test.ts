@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { MetadataPathResolver } from '../../metadata/MetadataPathResolver';
+
+suite('MetadataPathResolver Test Suite', () => {
+    suite('resolve', () => {
+        test('should resolve single-file components and their meta files', () => {
+            assert.deepStrictEqual(MetadataPathResolver.resolve('classes/Foo.cls'), { type: 'ApexClass', fullName: 'Foo' });
+            assert.deepStrictEqual(MetadataPathResolver.resolve('classes/Foo.cls-meta.xml'), { type: 'ApexClass', fullName: 'Foo' });
+            assert.deepStrictEqual(MetadataPathResolver.resolve('flows/My_Flow.flow-meta.xml'), { type: 'Flow', fullName: 'My_Flow' });
+            assert.deepStrictEqual(
+                MetadataPathResolver.resolve('layouts/Account-Account Layout.layout-meta.xml'),
+                { type: 'Layout', fullName: 'Account-Account Layout' }
+            );
+            assert.deepStrictEqual(
+                MetadataPathResolver.resolve('customMetadata/Setting.Default.md-meta.xml'),
+                { type: 'CustomMetadata', fullName: 'Setting.Default' }
+            );
+        });
+
+        test('should resolve bundle files to the bundle', () => {
+            assert.deepStrictEqual(MetadataPathResolver.resolve('lwc/myCard/myCard.html'), { type: 'LightningComponentBundle', fullName: 'myCard' });
+            assert.deepStrictEqual(MetadataPathResolver.resolve('aura/MyCmp/MyCmpController.js'), { type: 'AuraDefinitionBundle', fullName: 'MyCmp' });
+            assert.strictEqual(MetadataPathResolver.resolve('lwc/jsconfig.json'), undefined);
+        });
+
+        test('should resolve objects and their children', () => {
+            assert.deepStrictEqual(MetadataPathResolver.resolve('objects/Account/Account.object-meta.xml'), { type: 'CustomObject', fullName: 'Account' });
+            assert.deepStrictEqual(
+                MetadataPathResolver.resolve('objects/Account/fields/Tier__c.field-meta.xml'),
+                { type: 'CustomField', fullName: 'Account.Tier__c' }
+            );
+            assert.strictEqual(MetadataPathResolver.resolve('objects/Account/unknown/Foo.xml'), undefined);
+        });
+
+        test('should keep folder names for foldered types', () => {
+            assert.deepStrictEqual(
+                MetadataPathResolver.resolve('reports/Sales/Pipeline.report-meta.xml'),
+                { type: 'Report', fullName: 'Sales/Pipeline' }
+            );
+        });
+
+        test('should return undefined for unknown folders', () => {
+            assert.strictEqual(MetadataPathResolver.resolve('unknownFolder/Foo.xml'), undefined);
+            assert.strictEqual(MetadataPathResolver.resolve('package.xml'), undefined);
+        });
+    });
+
+    suite('toSourceRelativePath', () => {
+        test('should prefer the given source roots', () => {
+            assert.strictEqual(
+                MetadataPathResolver.toSourceRelativePath('/project/unpackaged/classes/Foo.cls', ['/project/force-app/main/default', '/project/unpackaged']),
+                'classes/Foo.cls'
+            );
+        });
+
+        test('should fall back to the main/default marker', () => {
+            assert.strictEqual(
+                MetadataPathResolver.toSourceRelativePath('/tmp/org-1/force-app/main/default/lwc/card/card.js'),
+                'lwc/card/card.js'
+            );
+            assert.strictEqual(MetadataPathResolver.toSourceRelativePath('/somewhere/else/Foo.cls'), undefined);
+        });
+    });
+
+    test('should map types back to folders', () => {
+        assert.strictEqual(MetadataPathResolver.getFolderForType('ApexTrigger'), 'triggers');
+        assert.strictEqual(MetadataPathResolver.getFolderForType('CustomField'), 'objects/*/fields');
+        assert.strictEqual(MetadataPathResolver.getFolderForType('NotAType'), undefined);
+        assert.ok(MetadataPathResolver.getSupportedTypes().includes('ValidationRule'));
+    });
+});
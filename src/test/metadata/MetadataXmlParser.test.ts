@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { MetadataXmlParser } from '../../metadata/MetadataXmlParser';
+
+suite('MetadataXmlParser Test Suite', () => {
+    test('should parse nested elements, attributes and text', () => {
+        const root = MetadataXmlParser.parse(`<?xml version="1.0" encoding="UTF-8"?>
+<Profile xmlns="http://soap.sforce.com/2006/04/metadata">
+    <!-- generated -->
+    <fieldPermissions>
+        <editable>true</editable>
+        <field>Account.Name</field>
+    </fieldPermissions>
+    <custom>false</custom>
+</Profile>`);
+
+        assert.strictEqual(root.name, 'Profile');
+        assert.strictEqual(root.attributes.xmlns, 'http://soap.sforce.com/2006/04/metadata');
+        assert.strictEqual(root.text, '');
+        assert.deepStrictEqual(root.children.map(child => child.name), ['fieldPermissions', 'custom']);
+        assert.strictEqual(root.children[0].children[1].text, 'Account.Name');
+    });
+
+    test('should decode entities and keep CDATA verbatim', () => {
+        const root = MetadataXmlParser.parse('<a><b>x &lt; 1 &amp;&amp; y &#62; 2</b><c><![CDATA[<b>&amp;</b>]]></c><d/></a>');
+
+        assert.strictEqual(root.children[0].text, 'x < 1 && y > 2');
+        assert.strictEqual(root.children[1].text, '<b>&amp;</b>');
+        assert.strictEqual(root.children[2].text, '');
+    });
+
+    test('should report mismatched and unclosed elements with line numbers', () => {
+        assert.throws(() => MetadataXmlParser.parse('<a>\n<b></c>\n</a>'), /line 2: Expected <\/b> but found <\/c>/);
+        assert.throws(() => MetadataXmlParser.parse('<a><b>'), /Unclosed element <b>/);
+        assert.throws(() => MetadataXmlParser.parse('<a/><b/>'), /Unexpected content after root element/);
+    });
+});
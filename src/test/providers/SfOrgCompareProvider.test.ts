@@ -5,6 +5,9 @@ import { SfOrgCompareProvider } from '../../providers/SfOrgCompareProvider';
 import { EnhancedOrgManager } from '../../metadata/EnhancedOrgManager';
 import { FileCompareService } from '../../services/FileCompareService';
 import { OrgCacheService } from '../../services/OrgCacheService';
+import { LocalProjectService } from '../../services/LocalProjectService';
+import { OrgSnapshotService } from '../../services/OrgSnapshotService';
+import { ConfigurationManager } from '../../config';
 import { SalesforceOrg, OrgFile, TreeItem, ItemType } from '../../types';
 
 suite('SfOrgCompareProvider Test Suite', () => {
@@ -78,7 +81,7 @@ suite('SfOrgCompareProvider Test Suite', () => {
         mockOrgCacheService.hasCachedFiles.returns(false);
         mockOrgCacheService.getCachedFiles.returns(null);
 
-        provider = new SfOrgCompareProvider(mockEnhancedOrgManager as any, mockFileCompareService as any, mockOrgCacheService as any);
+        provider = new SfOrgCompareProvider(mockEnhancedOrgManager as any, mockFileCompareService as any, mockOrgCacheService as any, sinon.createStubInstance(LocalProjectService) as any);
     });
 
     teardown(() => {
@@ -87,7 +90,7 @@ suite('SfOrgCompareProvider Test Suite', () => {
 
     suite('Constructor', () => {
         test('should initialize with empty expanded orgs and cache', () => {
-            const newProvider = new SfOrgCompareProvider(mockEnhancedOrgManager as any, mockFileCompareService as any, mockOrgCacheService as any);
+            const newProvider = new SfOrgCompareProvider(mockEnhancedOrgManager as any, mockFileCompareService as any, mockOrgCacheService as any, sinon.createStubInstance(LocalProjectService) as any);
             assert.ok(newProvider);
         });
     });
@@ -624,7 +627,7 @@ suite('SfOrgCompareProvider Test Suite', () => {
     suite('edge cases and error handling', () => {
         test('should handle provider with no dependencies', () => {
             try {
-                new SfOrgCompareProvider(null as any, null as any, null as any);
+                new SfOrgCompareProvider(null as any, null as any, null as any, null as any);
                 assert.fail('Should throw error with null dependencies');
             } catch (error) {
                 // Expected behavior
@@ -687,4 +690,126 @@ suite('SfOrgCompareProvider Test Suite', () => {
             assert.ok(!(provider as any).expandedOrgs.includes('org1-id'));
         });
     });
+
+    suite('lazy tree mode', () => {
+        setup(() => {
+            sinon.stub(ConfigurationManager.prototype, 'getTreeMode').returns('lazy');
+            mockEnhancedOrgManager.getBrowsableMetadataTypes.resolves([{ type: 'ApexClass', label: 'Apex Classes' }]);
+            mockEnhancedOrgManager.listMetadataComponents.resolves([{ type: 'ApexClass', fullName: 'TestClass' }]);
+            mockEnhancedOrgManager.retrieveComponentFiles.resolves([{ ...sampleFile1, id: 'org1-id:classes/TestClass.cls', filePath: '/tmp/lazy/classes/TestClass.cls' }]);
+        });
+
+        test('should list metadata types, components and files on expand without retrieving the org', async () => {
+            const [typeItem] = await provider.getChildren(sampleTreeItem);
+            assert.strictEqual(typeItem.type, ItemType.MetadataType);
+            assert.strictEqual(provider.getTreeItem(typeItem).collapsibleState, vscode.TreeItemCollapsibleState.Collapsed);
+
+            const [componentItem] = await provider.getChildren(typeItem);
+            assert.strictEqual(componentItem.type, ItemType.Component);
+            assert.deepStrictEqual(componentItem.component, { type: 'ApexClass', fullName: 'TestClass' });
+
+            const [fileItem] = await provider.getChildren(componentItem);
+            assert.strictEqual(fileItem.type, ItemType.File);
+            assert.strictEqual(fileItem.file?.filePath, '/tmp/lazy/classes/TestClass.cls');
+
+            assert.ok(mockEnhancedOrgManager.listMetadataComponents.calledOnceWith('org1-id', 'ApexClass'));
+            assert.ok(mockEnhancedOrgManager.getOrgSourceDirectory.notCalled);
+        });
+
+        test('should list components again after the org is refreshed', async () => {
+            const [typeItem] = await provider.getChildren(sampleTreeItem);
+            await provider.getChildren(typeItem);
+            await provider.getChildren(typeItem);
+            assert.strictEqual(mockEnhancedOrgManager.listMetadataComponents.callCount, 1);
+
+            await provider.refreshOrg('org1-id');
+            await provider.getChildren(typeItem);
+
+            assert.strictEqual(mockEnhancedOrgManager.listMetadataComponents.callCount, 2);
+            assert.ok(mockEnhancedOrgManager.clearFetchedComponents.calledWith('org1-id'));
+            assert.ok(mockEnhancedOrgManager.refreshOrgSource.notCalled);
+        });
+    });
+
+    suite('reference org', () => {
+        const fileItem = (name: string): TreeItem => ({
+            id: `org1-id-classes-${name}`,
+            label: name,
+            type: ItemType.File,
+            orgId: 'org1-id',
+            file: { ...sampleFile1, id: `org1-id-classes-${name}`, name, filePath: `/tmp/org1/classes/${name}` }
+        });
+
+        setup(() => {
+            mockOrgCacheService.getReferenceOrgId.returns('org2-id');
+            mockOrgCacheService.compareWithReference.callsFake((orgId: string, filePath: string) =>
+                filePath.endsWith('Changed.cls') ? 'modified' : 'identical'
+            );
+        });
+
+        test('should hide files identical to the reference org and folders left without files', async () => {
+            const changedFolder: TreeItem = { id: 'org1-id-classes', label: 'classes', type: ItemType.Folder, orgId: 'org1-id', children: [fileItem('Same.cls'), fileItem('Changed.cls')] };
+            const identicalFolder: TreeItem = { id: 'org1-id-triggers', label: 'triggers', type: ItemType.Folder, orgId: 'org1-id', children: [fileItem('Same.trigger')] };
+            (provider as any).orgFilesCache.set('org1-id', [changedFolder, identicalFolder]);
+
+            assert.strictEqual((await provider.getChildren(sampleTreeItem)).length, 2);
+
+            await provider.setHideIdentical(true);
+
+            assert.deepStrictEqual((await provider.getChildren(sampleTreeItem)).map(item => item.label), ['classes']);
+            assert.deepStrictEqual((await provider.getChildren(changedFolder)).map(item => item.label), ['Changed.cls']);
+            assert.ok(executeCommandStub.calledWith('setContext', 'sfOrgCompare.hideIdentical', true));
+        });
+
+        test('should give file nodes a resource URI for the reference decorations', () => {
+            const treeItem = provider.getTreeItem(fileItem('Changed.cls'));
+
+            assert.strictEqual(treeItem.resourceUri?.scheme, 'sf-org-compare');
+            assert.strictEqual(treeItem.resourceUri?.query, 'org1-id');
+        });
+    });
+
+    suite('local counterpart', () => {
+        let mockLocalProjectService: sinon.SinonStubbedInstance<LocalProjectService>;
+        const componentFile: OrgFile = { ...sampleFile1, name: 'orderList.js', filePath: '/tmp/org-org1-id-components/force-app/main/default/lwc/orderList/orderList.js' };
+
+        setup(() => {
+            mockLocalProjectService = sinon.createStubInstance(LocalProjectService);
+            provider = new SfOrgCompareProvider(mockEnhancedOrgManager as any, mockFileCompareService as any, mockOrgCacheService as any, mockLocalProjectService as any);
+        });
+
+        test('should pair a file with the local file at its path below its own cached source directory', async () => {
+            mockEnhancedOrgManager.getCachedRelativePath.returns('lwc/orderList/orderList.js');
+            mockLocalProjectService.findLocalCounterpart.withArgs('lwc/orderList/orderList.js').returns('/workspace/force-app/main/default/lwc/orderList/orderList.js');
+
+            const filePair = await provider.getLocalFilePair(componentFile);
+
+            assert.strictEqual(filePair?.rightPath, '/workspace/force-app/main/default/lwc/orderList/orderList.js');
+            assert.ok(mockEnhancedOrgManager.getCachedRelativePath.calledWith('org1-id', componentFile.filePath));
+            assert.ok(mockEnhancedOrgManager.getRetrievedSourceDirectory.notCalled);
+        });
+
+        test('should not retrieve the org when the file is not cached', async () => {
+            mockEnhancedOrgManager.getCachedRelativePath.returns(undefined);
+
+            assert.strictEqual(await provider.getLocalFilePair(componentFile), undefined);
+            assert.ok(showWarningMessageStub.calledOnce);
+            assert.ok(mockEnhancedOrgManager.getRetrievedSourceDirectory.notCalled);
+            assert.ok(mockLocalProjectService.findLocalCounterpart.notCalled);
+        });
+
+        test('should look up the snapshot history by the path below the cached source directory', async () => {
+            const mockOrgSnapshotService = sinon.createStubInstance(OrgSnapshotService);
+            mockOrgSnapshotService.getFileHistory.resolves([]);
+            provider = new SfOrgCompareProvider(mockEnhancedOrgManager as any, mockFileCompareService as any, mockOrgCacheService as any, mockLocalProjectService as any, mockOrgSnapshotService as any);
+            mockEnhancedOrgManager.getCachedRelativePath.onFirstCall().returns('lwc/orderList/orderList.js').onSecondCall().returns(undefined);
+
+            await provider.showFileHistory(componentFile);
+            await provider.showFileHistory(componentFile);
+
+            assert.ok(mockOrgSnapshotService.getFileHistory.calledOnceWith('org1-id', 'lwc/orderList/orderList.js'));
+            assert.strictEqual(showInformationMessageStub.callCount, 2);
+            assert.ok(mockEnhancedOrgManager.getRetrievedSourceDirectory.notCalled);
+        });
+    });
 });
\ No newline at end of file
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import { SecureCommandExecutor } from '../../security/SecureCommandExecutor';
+
+suite('SecureCommandExecutor Test Suite', () => {
+    let runProcess: sinon.SinonStub;
+
+    setup(() => {
+        runProcess = sinon.stub(SecureCommandExecutor as any, 'runProcess').resolves({ stdout: '{}', stderr: '' });
+    });
+
+    teardown(() => {
+        sinon.restore();
+    });
+
+    test('should only deploy through executeProjectDeploy', async () => {
+        await assert.rejects(
+            SecureCommandExecutor.executeCommand('sf', ['project', 'deploy', 'start', '--manifest', 'package.xml', '--target-org', 'prod']),
+            /Operation 'project deploy' is not allowed/
+        );
+        assert.ok(runProcess.notCalled);
+
+        await SecureCommandExecutor.executeProjectDeploy('package.xml', 'prod', '/tmp/deploy-project', { dryRun: true });
+
+        assert.deepStrictEqual(runProcess.firstCall.args[1].slice(0, 3), ['project', 'deploy', 'start']);
+        assert.ok(runProcess.firstCall.args[1].includes('--dry-run'));
+    });
+
+    test('should validate the org and project directory of a retrieval', async () => {
+        await assert.rejects(SecureCommandExecutor.executeProjectRetrieve('package.xml', 'prod name', '/tmp/retrieve-project'), /Invalid org identifier format/);
+        await assert.rejects(SecureCommandExecutor.executeProjectRetrieve('package.xml', 'prod', 'retrieve-project'), /Invalid project directory/);
+        assert.ok(runProcess.notCalled);
+
+        await SecureCommandExecutor.executeProjectRetrieve('package.xml', 'prod', '/tmp/retrieve-project', 60000);
+
+        assert.deepStrictEqual(runProcess.firstCall.args[1], ['project', 'retrieve', 'start', '--manifest', 'package.xml', '--target-org', 'prod', '--json']);
+        assert.strictEqual(runProcess.firstCall.args[2].cwd, '/tmp/retrieve-project');
+        assert.strictEqual(runProcess.firstCall.args[2].timeout, 60000);
+        assert.strictEqual(runProcess.firstCall.args[2].shell, process.platform === 'win32');
+    });
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BundleComparisonService } from '../../services/BundleComparisonService';
+import { BundleFileRole, BundleSource, ComparisonStatus } from '../../types';
+
+suite('BundleComparisonService Test Suite', () => {
+    let service: BundleComparisonService;
+    let workDir: string;
+
+    const writeBundle = (relativeDirectory: string, files: Record<string, string>): string => {
+        const directory = path.join(workDir, relativeDirectory);
+        for (const [relativePath, content] of Object.entries(files)) {
+            const filePath = path.join(directory, relativePath);
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, content, 'utf8');
+        }
+        return directory;
+    };
+
+    setup(() => {
+        service = new BundleComparisonService();
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundle-comparison-test-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    test('should resolve the role of bundle files', () => {
+        assert.strictEqual(BundleComparisonService.getFileRole('lwc', 'orderList', 'orderList.js'), BundleFileRole.Controller);
+        assert.strictEqual(BundleComparisonService.getFileRole('lwc', 'orderList', 'orderList.html'), BundleFileRole.Template);
+        assert.strictEqual(BundleComparisonService.getFileRole('lwc', 'orderList', 'orderList.js-meta.xml'), BundleFileRole.Meta);
+        assert.strictEqual(BundleComparisonService.getFileRole('lwc', 'orderList', 'utils.js'), BundleFileRole.Other);
+        assert.strictEqual(BundleComparisonService.getFileRole('lwc', 'orderList', '__tests__/orderList.test.js'), BundleFileRole.Other);
+        assert.strictEqual(BundleComparisonService.getFileRole('aura', 'Invoice', 'InvoiceHelper.js'), BundleFileRole.Helper);
+        assert.strictEqual(BundleComparisonService.getFileRole('aura', 'Invoice', 'Invoice.cmp'), BundleFileRole.Template);
+        assert.strictEqual(BundleComparisonService.getFileRole('aura', 'Invoice', 'Invoice.cmp-meta.xml'), BundleFileRole.Meta);
+        assert.strictEqual(BundleComparisonService.getBundleType(path.join(workDir, 'aura', 'Invoice')), 'aura');
+        assert.strictEqual(BundleComparisonService.getBundleType(path.join(workDir, 'classes', 'Invoice')), undefined);
+    });
+
+    test('should pair files of differently named bundles by role', async () => {
+        const left: BundleSource = {
+            label: 'dev: orderList',
+            bundleType: 'lwc',
+            directory: writeBundle('dev/lwc/orderList', {
+                'orderList.js': 'export default class OrderList {}',
+                'orderList.html': '<template></template>',
+                'orderList.js-meta.xml': '<LightningComponentBundle/>',
+                'utils.js': 'export const total = 0;'
+            })
+        };
+        const right: BundleSource = {
+            label: 'prod: orderListV2',
+            bundleType: 'lwc',
+            directory: writeBundle('prod/lwc/orderListV2', {
+                'orderListV2.js': 'export default class OrderListV2 {}',
+                'orderListV2.html': '<template></template>',
+                'orderListV2.css': ':host { display: block; }',
+                'orderListV2.js-meta.xml': '<LightningComponentBundle/>'
+            })
+        };
+
+        const result = await service.compareBundles(left, right);
+
+        assert.deepStrictEqual(result.files.map(file => [file.key, file.status]), [
+            [BundleFileRole.Template, ComparisonStatus.Identical],
+            [BundleFileRole.Controller, ComparisonStatus.Changed],
+            [BundleFileRole.Css, ComparisonStatus.OnlyInRight],
+            [BundleFileRole.Meta, ComparisonStatus.Identical],
+            ['utils.js', ComparisonStatus.OnlyInLeft]
+        ]);
+        assert.ok(result.files[1].rightPath?.endsWith('orderListV2.js'));
+    });
+
+    test('should refuse to compare an LWC with an Aura bundle', async () => {
+        const left: BundleSource = { label: 'dev: invoice', bundleType: 'lwc', directory: writeBundle('dev/lwc/invoice', { 'invoice.js': '' }) };
+        const right: BundleSource = { label: 'dev: Invoice', bundleType: 'aura', directory: writeBundle('dev/aura/Invoice', { 'Invoice.cmp': '' }) };
+
+        await assert.rejects(service.compareBundles(left, right), /Cannot compare the LWC bundle/);
+    });
+});
@@ -0,0 +1,156 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { ComparisonDeploymentService } from '../../services/ComparisonDeploymentService';
+import { DeploymentService } from '../../services/DeploymentService';
+import { LocalProjectService } from '../../services/LocalProjectService';
+import { ManifestManager } from '../../services/ManifestManager';
+import { OrgComparisonService } from '../../services/OrgComparisonService';
+import { UserErrorReporter } from '../../errors/UserErrorReporter';
+import { ProgressManager } from '../../progress/ProgressManager';
+import { ComparisonStatus, DeploymentResult, OrgComparisonResult } from '../../types';
+
+suite('ComparisonDeploymentService Test Suite', () => {
+    let service: ComparisonDeploymentService;
+    let manifestManager: sinon.SinonStubbedInstance<ManifestManager>;
+    let orgComparisonService: sinon.SinonStubbedInstance<OrgComparisonService>;
+    let deploymentService: sinon.SinonStubbedInstance<DeploymentService>;
+    let reportDeploymentFailure: sinon.SinonStub;
+    let showQuickPick: sinon.SinonStub;
+    let showWarningMessage: sinon.SinonStub;
+    let openTextDocument: sinon.SinonStub;
+
+    const result: OrgComparisonResult = {
+        left: { id: 'dev-id', label: 'dev', rootDirectories: ['/tmp/dev'] },
+        right: { id: 'prod-id', label: 'prod', rootDirectories: ['/tmp/prod'] },
+        entries: [
+            { relativePath: 'classes/Invoice.cls', metadataFolder: 'classes', status: ComparisonStatus.Changed, leftPath: '/tmp/dev/classes/Invoice.cls', rightPath: '/tmp/prod/classes/Invoice.cls' },
+            { relativePath: 'classes/Added.cls', metadataFolder: 'classes', status: ComparisonStatus.OnlyInLeft, leftPath: '/tmp/dev/classes/Added.cls' },
+            { relativePath: 'classes/Legacy.cls', metadataFolder: 'classes', status: ComparisonStatus.OnlyInRight, rightPath: '/tmp/prod/classes/Legacy.cls' },
+            { relativePath: 'classes/Same.cls', metadataFolder: 'classes', status: ComparisonStatus.Identical, leftPath: '/tmp/dev/classes/Same.cls', rightPath: '/tmp/prod/classes/Same.cls' }
+        ],
+        comparedAt: new Date()
+    };
+
+    const deploymentResult = (success: boolean, checkOnly: boolean): DeploymentResult => ({
+        success,
+        checkOnly,
+        status: success ? 'Succeeded' : 'Failed',
+        numberComponentsDeployed: success ? 2 : 0,
+        numberComponentsTotal: 2,
+        componentFailures: [],
+        testFailures: []
+    });
+
+    /** Answer the quick picks in order: the direction, the components (all picked) and then the given answers */
+    const answerQuickPicks = (directionIndex: number, ...answers: ((items: any[]) => any)[]): void => {
+        showQuickPick.onCall(0).callsFake(async (items: any[]) => items[directionIndex]);
+        showQuickPick.onCall(1).callsFake(async (items: any[]) => items);
+        answers.forEach((answer, index) => showQuickPick.onCall(index + 2).callsFake(async (items: any[]) => answer(items)));
+    };
+
+    setup(() => {
+        manifestManager = sinon.createStubInstance(ManifestManager);
+        orgComparisonService = sinon.createStubInstance(OrgComparisonService);
+        deploymentService = sinon.createStubInstance(DeploymentService);
+        reportDeploymentFailure = sinon.stub().resolves();
+
+        showQuickPick = sinon.stub(vscode.window, 'showQuickPick');
+        showWarningMessage = sinon.stub(vscode.window, 'showWarningMessage');
+        sinon.stub(vscode.window, 'showInformationMessage').resolves(undefined);
+        sinon.stub(vscode.window, 'showTextDocument').resolves();
+        openTextDocument = sinon.stub(vscode.workspace, 'openTextDocument').resolves({} as vscode.TextDocument);
+        sinon.stub(ProgressManager, 'getInstance').returns({
+            withProgress: async (_operationKey: string, task: (progress: any) => Promise<any>) => task({ startStep: () => undefined, completeStep: () => undefined })
+        } as any);
+
+        deploymentService.stageComponents.resolves('/tmp/staging');
+        manifestManager.generateManifest.returns('<Package/>');
+
+        service = new ComparisonDeploymentService(
+            manifestManager as any,
+            orgComparisonService as any,
+            deploymentService as any,
+            { reportDeploymentFailure } as unknown as UserErrorReporter
+        );
+    });
+
+    teardown(() => {
+        sinon.restore();
+    });
+
+    test('should preview the package.xml of the changed components and those only in the source', async () => {
+        answerQuickPicks(0, () => 'Preview');
+
+        await service.generateDeploymentManifest(result);
+
+        assert.deepStrictEqual(manifestManager.generateManifest.firstCall.args, ['prod-id', [
+            { type: 'ApexClass', fullName: 'Added' },
+            { type: 'ApexClass', fullName: 'Invoice' }
+        ]]);
+        assert.strictEqual(openTextDocument.firstCall.args[0].content, '<Package/>');
+    });
+
+    test('should not generate a package.xml for the local project', async () => {
+        const localResult: OrgComparisonResult = { ...result, right: { ...result.right, id: LocalProjectService.LOCAL_PROJECT_ORG_ID } };
+        answerQuickPicks(0);
+
+        await service.generateDeploymentManifest(localResult);
+
+        assert.ok(showWarningMessage.calledWithMatch(/not the local project/));
+        assert.strictEqual(showQuickPick.callCount, 1);
+        assert.ok(manifestManager.generateManifest.notCalled);
+    });
+
+    test('should not generate destructive changes for a snapshot', async () => {
+        const snapshotResult: OrgComparisonResult = { ...result, right: { ...result.right, id: 'snapshot:prod-id/20240301-120000' } };
+        answerQuickPicks(0);
+
+        await service.generateDestructiveChangesManifest(snapshotResult);
+
+        assert.ok(showWarningMessage.calledWithMatch(/not a snapshot/));
+        assert.strictEqual(showQuickPick.callCount, 1);
+        assert.ok(orgComparisonService.findReferences.notCalled);
+        assert.ok(manifestManager.generateDestructiveChanges.notCalled);
+    });
+
+    test('should not deploy when the validation fails', async () => {
+        answerQuickPicks(0, items => items.find((item: any) => item.value === 'RunLocalTests'));
+        deploymentService.validate.resolves(deploymentResult(false, true));
+
+        await service.deployComparisonDifferences(result);
+
+        assert.ok(deploymentService.validate.calledWith('/tmp/staging', 'prod-id', 'RunLocalTests'));
+        assert.ok(reportDeploymentFailure.calledOnce);
+        assert.ok(showWarningMessage.notCalled);
+        assert.ok(deploymentService.deploy.notCalled);
+        assert.ok(deploymentService.cleanup.calledWith('/tmp/staging'));
+    });
+
+    test('should deploy a validated deployment once confirmed', async () => {
+        answerQuickPicks(1, items => items[0]);
+        deploymentService.validate.resolves(deploymentResult(true, true));
+        deploymentService.deploy.resolves(deploymentResult(true, false));
+        showWarningMessage.resolves('Deploy');
+
+        await service.deployComparisonDifferences(result);
+
+        assert.deepStrictEqual(deploymentService.stageComponents.firstCall.args[0], [
+            { type: 'ApexClass', fullName: 'Invoice' },
+            { type: 'ApexClass', fullName: 'Legacy' }
+        ]);
+        assert.ok(deploymentService.deploy.calledWith('/tmp/staging', 'dev-id', undefined));
+        assert.ok(reportDeploymentFailure.notCalled);
+        assert.ok(deploymentService.cleanup.calledWith('/tmp/staging'));
+    });
+
+    test('should refuse to deploy to a snapshot', async () => {
+        const snapshotResult: OrgComparisonResult = { ...result, right: { ...result.right, id: 'snapshot:prod-id/20240301-120000' } };
+        answerQuickPicks(0);
+
+        await service.deployComparisonDifferences(snapshotResult);
+
+        assert.ok(showWarningMessage.calledOnce);
+        assert.ok(deploymentService.stageComponents.notCalled);
+    });
+});
@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ComparisonExportService } from '../../services/ComparisonExportService';
+import { TextDiffService } from '../../services/TextDiffService';
+import { ComparisonStatus, ExportFormat, OrgComparisonResult } from '../../types';
+
+suite('ComparisonExportService Test Suite', () => {
+    let workDir: string;
+    let service: ComparisonExportService;
+    let result: OrgComparisonResult;
+
+    const writeFile = (relativePath: string, content: string): string => {
+        const filePath = path.join(workDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content, 'utf8');
+        return filePath;
+    };
+
+    setup(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'comparison-export-test-'));
+        service = new ComparisonExportService(new TextDiffService());
+
+        result = {
+            left: { id: 'uat', label: 'UAT', rootDirectories: [] },
+            right: { id: 'prod', label: 'Prod', rootDirectories: [] },
+            comparedAt: new Date(),
+            entries: [
+                {
+                    relativePath: 'classes/Invoice.cls',
+                    metadataFolder: 'classes',
+                    status: ComparisonStatus.Changed,
+                    leftPath: writeFile('left/classes/Invoice.cls', 'public class Invoice {\n    Integer total;\n}\n'),
+                    rightPath: writeFile('right/classes/Invoice.cls', 'public class Invoice {\n    Decimal total; // <b>\n}\n')
+                },
+                {
+                    relativePath: 'classes/Legacy, "Old".cls',
+                    metadataFolder: 'classes',
+                    status: ComparisonStatus.OnlyInLeft,
+                    leftPath: writeFile('left/classes/Legacy.cls', 'public class Legacy {}\n')
+                },
+                {
+                    relativePath: 'classes/Same.cls',
+                    metadataFolder: 'classes',
+                    status: ComparisonStatus.Identical,
+                    leftPath: writeFile('left/classes/Same.cls', 'public class Same {}\n'),
+                    rightPath: writeFile('right/classes/Same.cls', 'public class Same {}\n')
+                }
+            ]
+        };
+    });
+
+    teardown(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    test('should list only components that differ', () => {
+        const report = service.fromOrgComparison(result);
+
+        assert.deepStrictEqual(report.entries.map(entry => entry.componentName), ['Invoice', 'Legacy, "Old"']);
+        assert.strictEqual(report.entries[0].metadataType, 'ApexClass');
+        assert.strictEqual(report.summary[ComparisonStatus.Identical], 1);
+    });
+
+    test('should quote CSV values containing separators and quotes', async () => {
+        const csv = await service.render(service.fromOrgComparison(result), ExportFormat.Csv);
+        const lines = csv.trim().split('\r\n');
+
+        assert.strictEqual(lines[0], 'status,metadataType,component,relativePath,leftPath,rightPath');
+        assert.strictEqual(lines.length, 3);
+        assert.ok(lines[2].startsWith('onlyInLeft,ApexClass,"Legacy, ""Old""","classes/Legacy, ""Old"".cls",'));
+    });
+
+    test('should render JSON with the summary and entries', async () => {
+        const json = JSON.parse(await service.render(service.fromOrgComparison(result), ExportFormat.Json));
+
+        assert.strictEqual(json.left, 'UAT');
+        assert.strictEqual(json.summary.changed, 1);
+        assert.strictEqual(json.entries.length, 2);
+    });
+
+    test('should render a Markdown summary with a diff for single files', async () => {
+        const orgMarkdown = await service.render(service.fromOrgComparison(result), ExportFormat.Markdown);
+        assert.ok(orgMarkdown.includes('| 1 | 1 | 0 | 1 |'));
+        assert.ok(orgMarkdown.includes('| Changed | ApexClass | Invoice | `classes/Invoice.cls` |'));
+        assert.ok(!orgMarkdown.includes('```diff'));
+
+        const [changed] = result.entries;
+        const fileReport = await service.fromFilePair(
+            { leftPath: changed.leftPath!, rightPath: changed.rightPath!, leftLabel: 'UAT', rightLabel: 'Prod' },
+            changed.relativePath
+        );
+        const fileMarkdown = await service.render(fileReport, ExportFormat.Markdown);
+        assert.ok(fileMarkdown.includes('```diff'));
+        assert.ok(fileMarkdown.includes('-    Integer total;\n+    Decimal total; // <b>'));
+    });
+
+    test('should render JUnit failures per difference and skip allowed ones', async () => {
+        const report = service.fromOrgComparison(result);
+        report.entries[1].allowed = true;
+
+        const junit = await service.render(report, ExportFormat.Junit);
+
+        assert.ok(junit.includes('<testsuites name="UAT ↔ Prod" tests="2" failures="1" skipped="1"'));
+        assert.ok(junit.includes('<testcase classname="ApexClass" name="classes/Invoice.cls">'));
+        assert.ok(junit.includes('<failure message="Changed" type="changed">'));
+        assert.ok(junit.includes('+    Decimal total; // &lt;b&gt;'));
+        assert.ok(junit.includes('<skipped message="Only in UAT (allowed)"/>'));
+        assert.ok(junit.includes('name="classes/Legacy, &quot;Old&quot;.cls"'));
+    });
+
+    test('should render escaped side-by-side diffs in HTML', async () => {
+        const html = await service.render(service.fromOrgComparison(result), ExportFormat.Html);
+
+        assert.ok(html.startsWith('<!DOCTYPE html>'));
+        assert.ok(html.includes('Decimal total; // &lt;b&gt;'));
+        assert.ok(!html.includes('<b>'));
+        assert.ok(html.includes('<a href="#diff-0">Invoice</a>'));
+    });
+
+    test('should write the report to a file', async () => {
+        const report = service.fromOrgComparison(result);
+        const target = path.join(workDir, 'exports', ComparisonExportService.getDefaultFileName(report, ExportFormat.Csv));
+
+        await service.exportToFile(report, ExportFormat.Csv, target);
+
+        assert.ok(path.basename(target).startsWith('uat-vs-prod-'));
+        assert.ok(fs.readFileSync(target, 'utf8').includes('classes/Invoice.cls'));
+    });
+});
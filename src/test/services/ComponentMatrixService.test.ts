@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ComponentMatrixService } from '../../services/ComponentMatrixService';
+import { OrgComparisonService } from '../../services/OrgComparisonService';
+import { ComparisonSource, ComponentMatrixCell } from '../../types';
+
+suite('ComponentMatrixService Test Suite', () => {
+    let service: ComponentMatrixService;
+    let workDir: string;
+    let sources: ComparisonSource[];
+
+    const writeFile = (root: string, relativePath: string, content: string): void => {
+        const filePath = path.join(root, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content, 'utf8');
+    };
+
+    const cellOf = (cells: ComponentMatrixCell[], sourceId: string): ComponentMatrixCell =>
+        cells.find(cell => cell.sourceId === sourceId)!;
+
+    setup(() => {
+        service = new ComponentMatrixService(new OrgComparisonService());
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'component-matrix-test-'));
+
+        const roots = ['dev', 'qa', 'uat', 'prod'].map(name => path.join(workDir, name));
+        const [dev, qa, uat, prod] = roots;
+
+        writeFile(dev, 'classes/Promo.cls', 'public class Promo { Integer v2; }');
+        writeFile(dev, 'classes/Promo.cls-meta.xml', '<ApexClass/>');
+        writeFile(qa, 'classes/Promo.cls', 'public class Promo { Integer v2; }');
+        writeFile(qa, 'classes/Promo.cls-meta.xml', '<ApexClass/>');
+        writeFile(uat, 'classes/Promo.cls', 'public class Promo { Integer v1; }');
+        writeFile(uat, 'classes/Promo.cls-meta.xml', '<ApexClass/>');
+        writeFile(prod, 'classes/Other.cls', 'public class Other {}');
+
+        writeFile(dev, 'lwc/promoCard/promoCard.js', 'export default class PromoCard {}');
+        writeFile(dev, 'lwc/promoCard/promoCard.html', '<template></template>');
+        writeFile(qa, 'lwc/promoCard/promoCard.js', 'export default class PromoCard {}');
+
+        sources = [
+            { id: 'dev', label: 'Dev', rootDirectories: [dev] },
+            { id: 'qa', label: 'QA', rootDirectories: [qa] },
+            { id: 'uat', label: 'UAT', rootDirectories: [uat] },
+            { id: 'prod', label: 'Prod', rootDirectories: [prod] },
+            { id: 'sandbox', label: 'Sandbox', rootDirectories: [] }
+        ];
+    });
+
+    teardown(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    suite('buildMatrix', () => {
+        test('should report presence per source', async () => {
+            const matrix = await service.buildMatrix({ type: 'ApexClass', fullName: 'Promo' }, sources);
+
+            assert.strictEqual(matrix.cells.length, 5);
+            assert.deepStrictEqual(matrix.cells.map(cell => cell.present), [true, true, true, false, false]);
+            assert.strictEqual(cellOf(matrix.cells, 'prod').retrieved, true);
+            assert.strictEqual(cellOf(matrix.cells, 'sandbox').retrieved, false);
+        });
+
+        test('should group sources with identical content', async () => {
+            const matrix = await service.buildMatrix({ type: 'ApexClass', fullName: 'Promo' }, sources);
+
+            assert.strictEqual(cellOf(matrix.cells, 'dev').group, 'A');
+            assert.strictEqual(cellOf(matrix.cells, 'qa').group, 'A');
+            assert.strictEqual(cellOf(matrix.cells, 'uat').group, 'B');
+            assert.strictEqual(cellOf(matrix.cells, 'prod').group, undefined);
+            assert.strictEqual(cellOf(matrix.cells, 'dev').hash, cellOf(matrix.cells, 'qa').hash);
+        });
+
+        test('should collect the class and its meta file', async () => {
+            const matrix = await service.buildMatrix({ type: 'ApexClass', fullName: 'Promo' }, sources);
+
+            assert.deepStrictEqual(Object.keys(cellOf(matrix.cells, 'dev').files), [
+                'classes/Promo.cls',
+                'classes/Promo.cls-meta.xml'
+            ]);
+        });
+
+        test('should treat a bundle with a missing file as a different version', async () => {
+            const matrix = await service.buildMatrix({ type: 'LightningComponentBundle', fullName: 'promoCard' }, sources);
+            const dev = cellOf(matrix.cells, 'dev');
+            const qa = cellOf(matrix.cells, 'qa');
+
+            assert.strictEqual(Object.keys(dev.files).length, 2);
+            assert.notStrictEqual(dev.group, qa.group);
+            assert.deepStrictEqual(ComponentMatrixService.getSharedFiles(dev, qa), ['lwc/promoCard/promoCard.js']);
+        });
+
+        test('should reject unsupported metadata types', async () => {
+            await assert.rejects(
+                service.buildMatrix({ type: 'NotAType', fullName: 'Promo' }, sources),
+                /Unsupported metadata type/
+            );
+        });
+    });
+
+    suite('assignGroups', () => {
+        test('should continue labels past Z', () => {
+            const cells: ComponentMatrixCell[] = Array.from({ length: 28 }, (_, index) => ({
+                sourceId: `org-${index}`,
+                sourceLabel: `Org ${index}`,
+                retrieved: true,
+                present: true,
+                files: {},
+                hash: `hash-${index}`
+            }));
+
+            ComponentMatrixService.assignGroups(cells);
+
+            assert.strictEqual(cells[0].group, 'A');
+            assert.strictEqual(cells[25].group, 'Z');
+            assert.strictEqual(cells[26].group, 'AA');
+            assert.strictEqual(cells[27].group, 'AB');
+        });
+    });
+});
@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContentNormalizer } from '../../services/ContentNormalizer';
+import { DiffIgnoreRule } from '../../types';
+
+suite('ContentNormalizer Test Suite', () => {
+    let rules: DiffIgnoreRule[];
+    let normalizer: ContentNormalizer;
+
+    setup(() => {
+        rules = [];
+        normalizer = new ContentNormalizer(() => rules);
+    });
+
+    test('should leave content untouched without matching rules', () => {
+        rules = [{ fileExtensions: ['.cls'], ignoreWhitespace: true }];
+        const content = '<Flow>\n    <label>A</label>   \n</Flow>';
+
+        assert.strictEqual(normalizer.hasRulesFor('flows/A.flow-meta.xml'), false);
+        assert.strictEqual(normalizer.normalize('flows/A.flow-meta.xml', content), content);
+    });
+
+    test('should remove XML elements matched by element paths', () => {
+        rules = [{ fileExtensions: ['-meta.xml'], xpaths: ['/ApexClass/apiVersion'] }];
+        const left = '<?xml version="1.0"?>\n<ApexClass>\n    <apiVersion>58.0</apiVersion>\n    <status>Active</status>\n</ApexClass>\n';
+        const right = '<?xml version="1.0"?>\n<ApexClass>\n    <apiVersion>61.0</apiVersion>\n    <status>Active</status>\n</ApexClass>\n';
+
+        assert.strictEqual(
+            normalizer.normalize('classes/A.cls-meta.xml', left),
+            '<?xml version="1.0"?>\n<ApexClass>\n    <status>Active</status>\n</ApexClass>\n'
+        );
+        assert.strictEqual(normalizer.normalize('classes/A.cls-meta.xml', left), normalizer.normalize('classes/A.cls-meta.xml', right));
+    });
+
+    test('should match element paths at any depth and with predicates', () => {
+        rules = [{ xpaths: ["//fieldPermissions[field='Account.Secret__c']"] }];
+        const xml = [
+            '<Profile>',
+            '    <fieldPermissions>',
+            '        <field>Account.Secret__c</field>',
+            '        <readable>true</readable>',
+            '    </fieldPermissions>',
+            '    <fieldPermissions>',
+            '        <field>Account.Name</field>',
+            '        <readable>true</readable>',
+            '    </fieldPermissions>',
+            '</Profile>'
+        ].join('\n');
+
+        const normalized = normalizer.normalize('profiles/Admin.profile-meta.xml', xml);
+
+        assert.ok(!normalized.includes('Secret__c'));
+        assert.ok(normalized.includes('Account.Name'));
+    });
+
+    test('should strip Apex comments but keep string literals', () => {
+        rules = [{ fileExtensions: ['.cls'], ignoreComments: true, ignoreWhitespace: true }];
+        const left = 'public class A {\n    // old note\n    String url = \'https://example.com\'; /* inline */\n}\n';
+        const right = 'public class A {\n    /**\n     * New doc\n     */\n    String url = \'https://example.com\';\n}';
+
+        assert.strictEqual(normalizer.normalize('classes/A.cls', left), normalizer.normalize('classes/A.cls', right));
+        assert.ok(normalizer.normalize('classes/A.cls', left).includes('https://example.com'));
+    });
+
+    test('should remove regex matches', () => {
+        rules = [{ fileExtensions: ['.js'], patterns: ['^\\s*console\\.log\\(.*\\);?$'] }];
+        const content = 'export default class A {\n    run() {\n        console.log(\'debug\');\n    }\n}';
+
+        assert.ok(!normalizer.normalize('lwc/a/a.js', content).includes('console.log'));
+    });
+
+    test('should compare files on disk after applying rules', async () => {
+        const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'content-normalizer-test-'));
+        try {
+            const leftPath = path.join(workDir, 'left.trigger');
+            const rightPath = path.join(workDir, 'right.trigger');
+            fs.writeFileSync(leftPath, 'trigger T on Account (before insert) {}\r\n', 'utf8');
+            fs.writeFileSync(rightPath, 'trigger T on Account (before insert) {}   \n\n', 'utf8');
+
+            assert.strictEqual(await normalizer.areFilesEquivalent(leftPath, rightPath), false);
+
+            rules = [{ fileExtensions: ['.trigger'], ignoreWhitespace: true }];
+            assert.strictEqual(await normalizer.areFilesEquivalent(leftPath, rightPath), true);
+        } finally {
+            fs.rmSync(workDir, { recursive: true, force: true });
+        }
+    });
+
+    test('should report invalid patterns and element paths', () => {
+        const errors = ContentNormalizer.validateRules([
+            { patterns: ['(unclosed'], xpaths: ['apiVersion', '//apiVersion'] }
+        ]);
+
+        assert.strictEqual(errors.length, 2);
+        assert.ok(errors[0].includes('(unclosed'));
+        assert.ok(errors[1].includes('"apiVersion"'));
+    });
+});
@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DeploymentService } from '../../services/DeploymentService';
+import { EnhancedOrgManager } from '../../metadata/EnhancedOrgManager';
+import { ManifestManager } from '../../services/ManifestManager';
+import { MetadataComponentRef } from '../../types';
+
+suite('DeploymentService Test Suite', () => {
+    let workDir: string;
+    let service: DeploymentService;
+    let manifestComponents: MetadataComponentRef[] | undefined;
+
+    setup(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deployment-service-test-'));
+        manifestComponents = undefined;
+
+        const manifestManager = {
+            saveManifestToFile: async (_orgId: string, filePath: string, components?: MetadataComponentRef[]) => {
+                manifestComponents = components;
+                await fs.promises.writeFile(filePath, '<Package/>', 'utf8');
+            }
+        } as unknown as ManifestManager;
+
+        service = new DeploymentService({} as EnhancedOrgManager, manifestManager);
+    });
+
+    teardown(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    test('should stage every file of the selected components', async () => {
+        const files = new Map<string, string>();
+        for (const relativePath of ['lwc/card/card.js', 'lwc/card/card.html', 'classes/Other.cls']) {
+            const filePath = path.join(workDir, relativePath);
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, relativePath, 'utf8');
+            files.set(relativePath, filePath);
+        }
+
+        const components = [{ type: 'LightningComponentBundle', fullName: 'card' }];
+        const stagingDir = await service.stageComponents(components, files, 'target-org');
+
+        try {
+            const stagedSource = path.join(stagingDir, 'force-app', 'main', 'default');
+            assert.ok(fs.existsSync(path.join(stagedSource, 'lwc', 'card', 'card.js')));
+            assert.ok(fs.existsSync(path.join(stagedSource, 'lwc', 'card', 'card.html')));
+            assert.ok(!fs.existsSync(path.join(stagedSource, 'classes')));
+            assert.ok(fs.existsSync(path.join(stagingDir, 'sfdx-project.json')));
+            assert.ok(fs.existsSync(path.join(stagingDir, 'manifest', 'package.xml')));
+            assert.deepStrictEqual(manifestComponents, components);
+        } finally {
+            await service.cleanup(stagingDir);
+        }
+
+        assert.ok(!fs.existsSync(stagingDir));
+    });
+
+    test('should refuse to stage components without files', async () => {
+        await assert.rejects(
+            service.stageComponents([{ type: 'ApexClass', fullName: 'Missing' }], new Map(), 'target-org'),
+            /None of the selected components/
+        );
+    });
+
+    test('should parse successful validations', () => {
+        const result = DeploymentService.parseDeployOutput(JSON.stringify({
+            status: 0,
+            result: { id: '0Af000000000001', status: 'Succeeded', success: true, numberComponentsDeployed: 3, numberComponentsTotal: 3, details: {} }
+        }), true);
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.checkOnly, true);
+        assert.strictEqual(result.numberComponentsDeployed, 3);
+        assert.deepStrictEqual(result.componentFailures, []);
+    });
+
+    test('should parse component and test failures', () => {
+        const result = DeploymentService.parseDeployOutput(JSON.stringify({
+            status: 1,
+            name: 'FailedDeployError',
+            message: 'Deploy failed.',
+            result: {
+                id: '0Af000000000002',
+                status: 'Failed',
+                success: false,
+                details: {
+                    componentFailures: {
+                        componentType: 'ApexClass',
+                        fullName: 'Invoice',
+                        problem: 'Variable does not exist: total',
+                        lineNumber: '12'
+                    },
+                    runTestResult: {
+                        failures: [{ name: 'InvoiceTest', methodName: 'testTotal', message: 'Assertion failed' }]
+                    }
+                }
+            }
+        }), false);
+
+        assert.strictEqual(result.success, false);
+        assert.deepStrictEqual(result.componentFailures, [
+            { type: 'ApexClass', fullName: 'Invoice', problem: 'Variable does not exist: total', fileName: undefined, lineNumber: 12 }
+        ]);
+        assert.deepStrictEqual(result.testFailures, [{ name: 'InvoiceTest', methodName: 'testTotal', message: 'Assertion failed' }]);
+        assert.strictEqual(result.errorMessage, undefined);
+    });
+
+    test('should report CLI errors without a deployment result', () => {
+        const result = DeploymentService.parseDeployOutput(JSON.stringify({
+            status: 1,
+            name: 'NoOrgFound',
+            message: 'No authorization information found for prod.'
+        }), true);
+
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.errorMessage, 'No authorization information found for prod.');
+        assert.strictEqual(DeploymentService.parseDeployOutput('not json', true).errorMessage, 'not json');
+    });
+});
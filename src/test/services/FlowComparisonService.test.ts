@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import { FlowComparisonService } from '../../services/FlowComparisonService';
+import { SemanticXmlDiffService } from '../../services/SemanticXmlDiffService';
+import { SemanticChangeKind } from '../../types';
+
+suite('FlowComparisonService Test Suite', () => {
+    let service: FlowComparisonService;
+
+    const flow = (options: { status?: string; apiVersion?: string; body: string }): string =>
+        `<?xml version="1.0" encoding="UTF-8"?>
+<Flow xmlns="http://soap.sforce.com/2006/04/metadata">
+    <apiVersion>${options.apiVersion || '60.0'}</apiVersion>
+    <label>Route Case</label>
+    <processType>AutoLaunchedFlow</processType>
+    <status>${options.status || 'Active'}</status>
+    ${options.body}
+</Flow>`;
+
+    const start = (target: string): string =>
+        `<start><locationX>50</locationX><locationY>0</locationY><connector><targetReference>${target}</targetReference></connector></start>`;
+
+    const decision = (defaultTarget: string, ruleTarget: string, value: string, x: number = 100): string =>
+        `<decisions><name>Check_Priority</name><label>Check Priority</label><locationX>${x}</locationX><locationY>200</locationY>` +
+        `<defaultConnector><targetReference>${defaultTarget}</targetReference></defaultConnector>` +
+        `<rules><name>High</name><conditionLogic>and</conditionLogic><conditions><leftValueReference>$Record.Priority</leftValueReference>` +
+        `<operator>EqualTo</operator><rightValue><stringValue>${value}</stringValue></rightValue></conditions>` +
+        `<connector><targetReference>${ruleTarget}</targetReference></connector><label>High</label></rules></decisions>`;
+
+    const update = (name: string): string =>
+        `<recordUpdates><name>${name}</name><label>${name}</label><locationX>0</locationX><locationY>400</locationY><inputReference>$Record</inputReference></recordUpdates>`;
+
+    setup(() => {
+        service = new FlowComparisonService(new SemanticXmlDiffService());
+    });
+
+    test('should ignore canvas layout and element order', () => {
+        const left = flow({ body: start('Check_Priority') + decision('Update_Low', 'Update_High', 'High') + update('Update_Low') + update('Update_High') });
+        const right = flow({ body: update('Update_High') + decision('Update_Low', 'Update_High', 'High', 420) + update('Update_Low') + start('Check_Priority') });
+
+        const result = service.compareXml(left, right);
+
+        assert.strictEqual(result.identical, true);
+    });
+
+    test('should report added, removed and modified nodes', () => {
+        const left = flow({ body: start('Check_Priority') + decision('Update_Low', 'Update_High', 'High') + update('Update_Low') + update('Update_High') });
+        const right = flow({ body: start('Check_Priority') + decision('Update_Low', 'Update_Urgent', 'Urgent') + update('Update_Low') + update('Update_Urgent') });
+
+        const result = service.compareXml(left, right);
+        const byName = (name: string) => result.nodes.find(node => node.name === name)!;
+
+        assert.strictEqual(byName('Update_High').kind, SemanticChangeKind.Removed);
+        assert.strictEqual(byName('Update_Urgent').kind, SemanticChangeKind.Added);
+        assert.strictEqual(byName('Check_Priority').kind, SemanticChangeKind.Changed);
+        assert.strictEqual(byName('Check_Priority').label, 'Check Priority');
+        assert.strictEqual(byName('Check_Priority').details.length, 1);
+        assert.strictEqual(byName('Check_Priority').details[0].rightValue, 'Urgent');
+    });
+
+    test('should report rewired connectors including nested rule connectors', () => {
+        const left = flow({ body: start('Check_Priority') + decision('Update_Low', 'Update_High', 'High') });
+        const right = flow({ body: start('Update_Low') + decision('Update_Low', 'Update_Low', 'High') });
+
+        const result = service.compareXml(left, right);
+
+        assert.deepStrictEqual(result.connectors.map(change => [change.source, change.connector, change.leftTarget, change.rightTarget]), [
+            ['(start)', 'connector', 'Check_Priority', 'Update_Low'],
+            ['Check_Priority', 'rules[High] › connector', 'Update_High', 'Update_Low']
+        ]);
+        assert.ok(result.connectors.every(change => change.kind === SemanticChangeKind.Changed));
+        assert.strictEqual(result.nodes.length, 0);
+    });
+
+    test('should report status and API version changes', () => {
+        const result = service.compareXml(
+            flow({ status: 'Active', apiVersion: '59.0', body: start('X') }),
+            flow({ status: 'Draft', apiVersion: '61.0', body: start('X') })
+        );
+
+        assert.strictEqual(result.leftStatus, 'Active');
+        assert.strictEqual(result.rightStatus, 'Draft');
+        assert.strictEqual(result.rightApiVersion, '61.0');
+        assert.deepStrictEqual(result.properties.map(change => change.path), ['apiVersion', 'status']);
+    });
+
+    test('should compare resources by name', () => {
+        const variable = (name: string, type: string): string =>
+            `<variables><name>${name}</name><dataType>${type}</dataType><isCollection>false</isCollection></variables>`;
+
+        const result = service.compareXml(
+            flow({ body: variable('count', 'Number') + variable('note', 'String') }),
+            flow({ body: variable('count', 'Currency') })
+        );
+
+        assert.deepStrictEqual(result.resources.map(change => [change.name, change.kind]), [
+            ['count', SemanticChangeKind.Changed],
+            ['note', SemanticChangeKind.Removed]
+        ]);
+    });
+
+    test('should reject non-flow documents', () => {
+        assert.throws(() => service.compareXml('<Profile/>', '<Flow/>'), /Expected a Flow/);
+        assert.ok(FlowComparisonService.isFlowFile('Route_Case.flow-meta.xml'));
+    });
+});
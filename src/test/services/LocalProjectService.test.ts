@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LocalProjectService } from '../../services/LocalProjectService';
+
+suite('LocalProjectService Test Suite', () => {
+    let service: LocalProjectService;
+    let projectRoot: string;
+
+    const writeFile = (relativePath: string, content: string): void => {
+        const filePath = path.join(projectRoot, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content, 'utf8');
+    };
+
+    setup(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'local-project-test-'));
+        writeFile('sfdx-project.json', JSON.stringify({
+            name: 'my-project',
+            packageDirectories: [
+                { path: 'force-app', default: true },
+                { path: 'unpackaged' }
+            ]
+        }));
+        writeFile('force-app/main/default/classes/Shared.cls', 'public class Shared {}');
+        writeFile('unpackaged/flows/Extra.flow-meta.xml', '<Flow/>');
+
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([
+            { uri: vscode.Uri.file(projectRoot), name: 'my-project', index: 0 }
+        ]);
+
+        service = new LocalProjectService();
+    });
+
+    teardown(() => {
+        sinon.restore();
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    test('should detect the SFDX project root', () => {
+        assert.strictEqual(service.getProjectRoot(), projectRoot);
+        assert.strictEqual(service.hasProject(), true);
+        assert.strictEqual(service.getProjectName(), 'my-project');
+    });
+
+    test('should report no project when sfdx-project.json is missing', () => {
+        fs.rmSync(path.join(projectRoot, 'sfdx-project.json'));
+
+        assert.strictEqual(service.hasProject(), false);
+        assert.deepStrictEqual(service.getSourceRoots(), []);
+    });
+
+    test('should use main/default as source root when present', () => {
+        const sourceRoots = service.getSourceRoots();
+
+        assert.deepStrictEqual(sourceRoots, [
+            path.join(projectRoot, 'force-app', 'main', 'default'),
+            path.join(projectRoot, 'unpackaged')
+        ]);
+    });
+
+    test('should find local counterparts across package directories', () => {
+        assert.strictEqual(
+            service.findLocalCounterpart('classes/Shared.cls'),
+            path.join(projectRoot, 'force-app', 'main', 'default', 'classes', 'Shared.cls')
+        );
+        assert.strictEqual(
+            service.findLocalCounterpart('flows/Extra.flow-meta.xml'),
+            path.join(projectRoot, 'unpackaged', 'flows', 'Extra.flow-meta.xml')
+        );
+        assert.strictEqual(service.findLocalCounterpart('classes/Missing.cls'), undefined);
+    });
+
+    test('should expose the project as a comparison source', () => {
+        const source = service.getComparisonSource();
+
+        assert.strictEqual(source.id, LocalProjectService.LOCAL_PROJECT_ORG_ID);
+        assert.strictEqual(source.label, LocalProjectService.LOCAL_PROJECT_LABEL);
+        assert.strictEqual(source.rootDirectories.length, 2);
+        assert.ok(LocalProjectService.isLocalProject(source.id));
+    });
+});
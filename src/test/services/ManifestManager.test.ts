@@ -239,6 +239,34 @@ suite('ManifestManager Test Suite', () => {
             assert.ok(manifest.includes('<members>TestTrigger1</members>'));
             assert.ok(!manifest.includes('<members>*</members>'));
         });
+
+        test('should generate manifest with precise members for components', () => {
+            const manifest = manifestManager.generateManifest(testOrgId, [
+                { type: 'LightningComponentBundle', fullName: 'card' },
+                { type: 'ApexClass', fullName: 'Invoice' },
+                { type: 'ApexClass', fullName: 'Billing' },
+                { type: 'ApexClass', fullName: 'Invoice' },
+                { type: 'EmailTemplate', fullName: 'Sales/Q&A' }
+            ]);
+
+            assert.ok(manifest.includes(
+                '<types>\n        <members>Billing</members>\n        <members>Invoice</members>\n        <name>ApexClass</name>\n    </types>'
+            ));
+            assert.ok(manifest.indexOf('<name>ApexClass</name>') < manifest.indexOf('<name>LightningComponentBundle</name>'));
+            assert.ok(manifest.includes('<members>Sales/Q&amp;A</members>'));
+            assert.ok(!manifest.includes('<members>*</members>'));
+            assert.ok(!manifest.includes('<name>Flow</name>'));
+        });
+
+        test('should generate destructive changes for components', () => {
+            const destructiveChanges = manifestManager.generateDestructiveChanges(testOrgId, [
+                { type: 'ApexClass', fullName: 'Legacy' }
+            ]);
+
+            assert.ok(destructiveChanges.includes('<members>Legacy</members>'));
+            assert.ok(destructiveChanges.includes('<name>ApexClass</name>'));
+            assert.throws(() => manifestManager.generateDestructiveChanges(testOrgId, [{ type: 'ApexClass', fullName: '*' }]), /wildcards/);
+        });
     });
 
     suite('Statistics and Analysis', () => {
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { ObjectComparisonService } from '../../services/ObjectComparisonService';
+import { EnhancedObjectMetadata, ObjectMemberCategory, ObjectMemberComparisonRow } from '../../types';
+
+suite('ObjectComparisonService Test Suite', () => {
+    let service: ObjectComparisonService;
+    let left: EnhancedObjectMetadata;
+    let right: EnhancedObjectMetadata;
+
+    const rowOf = (rows: ObjectMemberComparisonRow[], category: ObjectMemberCategory, name: string): ObjectMemberComparisonRow =>
+        rows.find(row => row.category === category && row.name.toLowerCase() === name.toLowerCase())!;
+
+    setup(() => {
+        service = new ObjectComparisonService();
+
+        left = {
+            fullName: 'Invoice__c',
+            label: 'Invoice',
+            customFields: [
+                { fullName: 'Amount__c', label: 'Amount', type: 'currency', required: true, unique: false },
+                { fullName: 'Code__c', label: 'Code', type: 'string', length: 20, required: false, unique: false },
+                { fullName: 'Total__c', label: 'Total', type: 'currency', formula: 'Amount__c * 1.2' },
+                { fullName: 'Legacy__c', label: 'Legacy', type: 'boolean' }
+            ],
+            validationRules: [
+                {
+                    fullName: 'Amount_Positive',
+                    active: true,
+                    errorConditionFormula: 'Amount__c < 0',
+                    errorMessage: 'Amount must be positive'
+                }
+            ]
+        };
+
+        right = {
+            fullName: 'Invoice__c',
+            label: 'Invoice',
+            customFields: [
+                { fullName: 'Amount__c', label: 'Amount', type: 'currency', required: true, unique: false },
+                { fullName: 'code__c', label: 'Code', type: 'string', length: 40, required: true, unique: true },
+                { fullName: 'Total__c', label: 'Total', type: 'currency', formula: 'Amount__c * 1.25' },
+                { fullName: 'Region__c', label: 'Region', type: 'picklist' }
+            ],
+            validationRules: [
+                {
+                    fullName: 'Amount_Positive',
+                    active: false,
+                    errorConditionFormula: 'Amount__c < 0\r\n',
+                    errorMessage: 'The amount must be positive'
+                }
+            ]
+        };
+    });
+
+    test('should align fields by API name regardless of case', () => {
+        const result = service.compareMetadata(left, right);
+        const fields = result.rows.filter(row => row.category === ObjectMemberCategory.Field);
+
+        assert.deepStrictEqual(fields.map(row => row.name), ['Amount__c', 'code__c', 'Legacy__c', 'Region__c', 'Total__c']);
+        assert.deepStrictEqual(rowOf(result.rows, ObjectMemberCategory.Field, 'Amount__c').differences, []);
+    });
+
+    test('should report length, required and unique differences', () => {
+        const result = service.compareMetadata(left, right);
+        const code = rowOf(result.rows, ObjectMemberCategory.Field, 'Code__c');
+
+        assert.deepStrictEqual(code.differences, ['length', 'required', 'unique']);
+        assert.strictEqual(code.left!.length, '20');
+        assert.strictEqual(code.right!.length, '40');
+    });
+
+    test('should report formula differences', () => {
+        const result = service.compareMetadata(left, right);
+
+        assert.deepStrictEqual(rowOf(result.rows, ObjectMemberCategory.Field, 'Total__c').differences, ['formula']);
+    });
+
+    test('should keep fields that exist on one side only', () => {
+        const result = service.compareMetadata(left, right);
+        const legacy = rowOf(result.rows, ObjectMemberCategory.Field, 'Legacy__c');
+        const region = rowOf(result.rows, ObjectMemberCategory.Field, 'Region__c');
+
+        assert.ok(legacy.left && !legacy.right);
+        assert.ok(!region.left && region.right);
+        assert.ok(ObjectComparisonService.isDifferent(legacy));
+        assert.ok(ObjectComparisonService.isDifferent(region));
+    });
+
+    test('should compare validation rules ignoring line ending differences', () => {
+        const result = service.compareMetadata(left, right);
+        const rule = rowOf(result.rows, ObjectMemberCategory.ValidationRule, 'Amount_Positive');
+
+        assert.deepStrictEqual(rule.differences, ['active', 'errorMessage']);
+        assert.strictEqual(result.identical, false);
+    });
+
+    test('should mark identical objects', () => {
+        const result = service.compareMetadata(left, JSON.parse(JSON.stringify(left)));
+
+        assert.strictEqual(result.identical, true);
+        assert.ok(result.rows.every(row => !ObjectComparisonService.isDifferent(row)));
+    });
+});
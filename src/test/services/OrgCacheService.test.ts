@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OrgCacheService } from '../../services/OrgCacheService';
+import { ContentNormalizer } from '../../services/ContentNormalizer';
+import { DiffIgnoreRule, ItemType, SalesforceOrg, TreeItem } from '../../types';
+
+suite('OrgCacheService Test Suite', () => {
+    let workDir: string;
+    let service: OrgCacheService;
+    let ignoreRules: DiffIgnoreRule[];
+    let globalState: Map<string, any>;
+
+    const devOrg: SalesforceOrg = { id: 'dev-id', username: 'dev@example.com', alias: 'dev', instanceUrl: 'https://dev.my.salesforce.com' };
+    const prodOrg: SalesforceOrg = { id: 'prod-id', username: 'prod@example.com', alias: 'prod', instanceUrl: 'https://prod.my.salesforce.com' };
+
+    const writeSource = (org: SalesforceOrg, files: Record<string, string>): { sourceDirectory: string; items: TreeItem[] } => {
+        const sourceDirectory = path.join(workDir, org.id, 'force-app', 'main', 'default');
+        const items: TreeItem[] = [];
+        for (const [relativePath, content] of Object.entries(files)) {
+            const filePath = path.join(sourceDirectory, relativePath);
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, content, 'utf8');
+            items.push({
+                id: `${org.id}-${relativePath}`,
+                label: path.basename(relativePath),
+                type: ItemType.File,
+                orgId: org.id,
+                file: { id: `${org.id}-${relativePath}`, name: path.basename(relativePath), type: 'classes', fullName: relativePath, orgId: org.id, filePath }
+            });
+        }
+        return { sourceDirectory, items: [{ id: `${org.id}-classes`, label: 'classes', type: ItemType.Folder, orgId: org.id, children: items }] };
+    };
+
+    setup(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'org-cache-test-'));
+        ignoreRules = [];
+        globalState = new Map();
+        const context: any = {
+            globalStorageUri: { fsPath: path.join(workDir, 'storage') },
+            globalState: {
+                get: (key: string) => globalState.get(key),
+                update: async (key: string, value: any) => { globalState.set(key, value); }
+            }
+        };
+        service = new OrgCacheService(context, new ContentNormalizer(() => ignoreRules));
+    });
+
+    teardown(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    test('should compare cached files with the reference org through their content hashes', async () => {
+        const dev = writeSource(devOrg, {
+            'classes/Same.cls': 'public class Same {}',
+            'classes/Changed.cls': 'public class Changed { Integer a; }',
+            'classes/Changed.cls-meta.xml': '<ApexClass/>',
+            'classes/DevOnly.cls': 'public class DevOnly {}'
+        });
+        const prod = writeSource(prodOrg, {
+            'classes/Same.cls': 'public class Same {}',
+            'classes/Changed.cls': 'public class Changed { Integer b; }'
+        });
+        service.cacheOrgFiles(devOrg.id, devOrg, dev.items, dev.sourceDirectory);
+        service.cacheOrgFiles(prodOrg.id, prodOrg, prod.items, prod.sourceDirectory);
+
+        const devFile = (relativePath: string) => path.join(dev.sourceDirectory, relativePath);
+        assert.strictEqual(service.compareWithReference(devOrg.id, devFile('classes/Same.cls')), undefined);
+
+        await service.setReferenceOrgId(prodOrg.id);
+        assert.strictEqual(service.compareWithReference(devOrg.id, devFile('classes/Same.cls')), 'identical');
+        assert.strictEqual(service.compareWithReference(devOrg.id, devFile('classes/Changed.cls')), 'modified');
+        assert.strictEqual(service.compareWithReference(devOrg.id, devFile('classes/Changed.cls-meta.xml')), 'missingInReference');
+        assert.strictEqual(service.compareWithReference(devOrg.id, devFile('classes/DevOnly.cls')), 'extra');
+        assert.strictEqual(service.compareWithReference(prodOrg.id, path.join(prod.sourceDirectory, 'classes/Changed.cls')), undefined);
+    });
+
+    test('should hash changed files again and drop the hashes of removed orgs', () => {
+        const dev = writeSource(devOrg, { 'classes/Invoice.cls': 'public class Invoice {}' });
+        service.cacheOrgFiles(devOrg.id, devOrg, dev.items, dev.sourceDirectory);
+        const original = service.getFileHashes(devOrg.id, dev.sourceDirectory)!.get('classes/Invoice.cls');
+
+        fs.writeFileSync(path.join(dev.sourceDirectory, 'classes/Invoice.cls'), 'public class Invoice { Decimal total; }', 'utf8');
+        const updated = service.getFileHashes(devOrg.id, dev.sourceDirectory)!.get('classes/Invoice.cls');
+        assert.ok(original && updated && original !== updated);
+        assert.strictEqual(service.getFileHashes(devOrg.id, path.join(workDir, 'elsewhere')), null);
+
+        service.removeCachedOrg(devOrg.id);
+        assert.strictEqual(service.hasContentHashes(devOrg.id), false);
+    });
+
+    test('should hash content with the ignore rules applied', () => {
+        ignoreRules = [{ fileExtensions: ['-meta.xml'], xpaths: ['//apiVersion'] }];
+        const dev = writeSource(devOrg, { 'classes/Invoice.cls-meta.xml': '<ApexClass>\n    <apiVersion>58.0</apiVersion>\n</ApexClass>' });
+        const prod = writeSource(prodOrg, { 'classes/Invoice.cls-meta.xml': '<ApexClass>\n    <apiVersion>61.0</apiVersion>\n</ApexClass>' });
+        service.cacheOrgFiles(devOrg.id, devOrg, dev.items, dev.sourceDirectory);
+        service.cacheOrgFiles(prodOrg.id, prodOrg, prod.items, prod.sourceDirectory);
+
+        assert.strictEqual(
+            service.getFileHashes(devOrg.id, dev.sourceDirectory)!.get('classes/Invoice.cls-meta.xml'),
+            service.getFileHashes(prodOrg.id, prod.sourceDirectory)!.get('classes/Invoice.cls-meta.xml')
+        );
+    });
+});
@@ -0,0 +1,195 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OrgComparisonService } from '../../services/OrgComparisonService';
+import { ContentNormalizer } from '../../services/ContentNormalizer';
+import { ComparisonSource, ComparisonStatus } from '../../types';
+
+suite('OrgComparisonService Test Suite', () => {
+    let service: OrgComparisonService;
+    let workDir: string;
+    let leftSource: ComparisonSource;
+    let rightSource: ComparisonSource;
+
+    const writeFile = (root: string, relativePath: string, content: string): void => {
+        const filePath = path.join(root, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content, 'utf8');
+    };
+
+    setup(() => {
+        service = new OrgComparisonService();
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'org-comparison-test-'));
+
+        const leftRoot = path.join(workDir, 'left');
+        const rightRoot = path.join(workDir, 'right');
+
+        writeFile(leftRoot, 'classes/Shared.cls', 'public class Shared {}');
+        writeFile(rightRoot, 'classes/Shared.cls', 'public class Shared {}');
+        writeFile(leftRoot, 'classes/Changed.cls', 'public class Changed { Integer a; }');
+        writeFile(rightRoot, 'classes/Changed.cls', 'public class Changed { Integer b; }');
+        writeFile(leftRoot, 'lwc/leftOnly/leftOnly.js', 'export default class LeftOnly {}');
+        writeFile(rightRoot, 'flows/RightOnly.flow-meta.xml', '<Flow/>');
+
+        leftSource = { id: 'left-org', label: 'UAT', rootDirectories: [leftRoot] };
+        rightSource = { id: 'right-org', label: 'PROD', rootDirectories: [rightRoot] };
+    });
+
+    teardown(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    suite('compareSources', () => {
+        test('should categorize files by comparison status', async () => {
+            const result = await service.compareSources(leftSource, rightSource);
+            const statusOf = (relativePath: string) => result.entries.find(e => e.relativePath === relativePath)?.status;
+
+            assert.strictEqual(result.entries.length, 4);
+            assert.strictEqual(statusOf('classes/Shared.cls'), ComparisonStatus.Identical);
+            assert.strictEqual(statusOf('classes/Changed.cls'), ComparisonStatus.Changed);
+            assert.strictEqual(statusOf('lwc/leftOnly/leftOnly.js'), ComparisonStatus.OnlyInLeft);
+            assert.strictEqual(statusOf('flows/RightOnly.flow-meta.xml'), ComparisonStatus.OnlyInRight);
+        });
+
+        test('should keep absolute paths for both sides', async () => {
+            const result = await service.compareSources(leftSource, rightSource);
+            const changed = result.entries.find(e => e.status === ComparisonStatus.Changed)!;
+
+            assert.ok(changed.leftPath?.endsWith(path.join('left', 'classes', 'Changed.cls')));
+            assert.ok(changed.rightPath?.endsWith(path.join('right', 'classes', 'Changed.cls')));
+        });
+
+        test('should assign metadata folders', async () => {
+            const result = await service.compareSources(leftSource, rightSource);
+            const folders = result.entries.map(e => e.metadataFolder).sort();
+
+            assert.deepStrictEqual(folders, ['classes', 'classes', 'flows', 'lwc']);
+        });
+
+        test('should ignore missing root directories', async () => {
+            const missingSource: ComparisonSource = { id: 'missing', label: 'Missing', rootDirectories: [path.join(workDir, 'nope')] };
+            const result = await service.compareSources(leftSource, missingSource);
+
+            assert.ok(result.entries.every(e => e.status === ComparisonStatus.OnlyInLeft));
+        });
+
+        test('should treat files differing only in ignored content as identical', async () => {
+            writeFile(leftSource.rootDirectories[0], 'classes/Shared.cls-meta.xml', '<ApexClass>\n    <apiVersion>58.0</apiVersion>\n</ApexClass>');
+            writeFile(rightSource.rootDirectories[0], 'classes/Shared.cls-meta.xml', '<ApexClass>\n    <apiVersion>61.0</apiVersion>\n</ApexClass>');
+            const ignoringService = new OrgComparisonService(new ContentNormalizer(() => [
+                { fileExtensions: ['-meta.xml'], xpaths: ['//apiVersion'] }
+            ]));
+
+            const result = await ignoringService.compareSources(leftSource, rightSource);
+            const statusOf = (relativePath: string) => result.entries.find(e => e.relativePath === relativePath)?.status;
+
+            assert.strictEqual(statusOf('classes/Shared.cls-meta.xml'), ComparisonStatus.Identical);
+            assert.strictEqual(statusOf('classes/Changed.cls'), ComparisonStatus.Changed);
+        });
+
+        test('should decide equality from content hashes known for both sides', async () => {
+            leftSource.contentHashes = new Map([['classes/Shared.cls', 'aaa'], ['classes/Changed.cls', 'bbb']]);
+            rightSource.contentHashes = new Map([['classes/Shared.cls', 'ccc'], ['classes/Changed.cls', 'bbb']]);
+
+            const result = await service.compareSources(leftSource, rightSource);
+            const statusOf = (relativePath: string) => result.entries.find(e => e.relativePath === relativePath)?.status;
+
+            assert.strictEqual(statusOf('classes/Shared.cls'), ComparisonStatus.Changed);
+            assert.strictEqual(statusOf('classes/Changed.cls'), ComparisonStatus.Identical);
+        });
+    });
+
+    suite('static helpers', () => {
+        test('should summarize entries per status', async () => {
+            const result = await service.compareSources(leftSource, rightSource);
+            const summary = OrgComparisonService.summarize(result.entries);
+
+            assert.deepStrictEqual(summary, {
+                [ComparisonStatus.Changed]: 1,
+                [ComparisonStatus.OnlyInLeft]: 1,
+                [ComparisonStatus.OnlyInRight]: 1,
+                [ComparisonStatus.Identical]: 1
+            });
+        });
+
+        test('should group entries by metadata folder in sorted order', async () => {
+            const result = await service.compareSources(leftSource, rightSource);
+            const groups = OrgComparisonService.groupByMetadataFolder(result.entries);
+
+            assert.deepStrictEqual([...groups.keys()], ['classes', 'flows', 'lwc']);
+            assert.strictEqual(groups.get('classes')!.length, 2);
+        });
+
+        test('should resolve metadata folder from relative path', () => {
+            assert.strictEqual(OrgComparisonService.getMetadataFolder('objects/Account/fields/Name.field-meta.xml'), 'objects');
+            assert.strictEqual(OrgComparisonService.getMetadataFolder('package.xml'), '(root)');
+        });
+
+        test('should resolve distinct components of entries', () => {
+            const entries = [
+                'lwc/card/card.js',
+                'lwc/card/card.html',
+                'classes/Invoice.cls',
+                'classes/Invoice.cls-meta.xml',
+                'objects/Account/fields/Region__c.field-meta.xml',
+                'package.xml'
+            ].map(relativePath => ({
+                relativePath,
+                metadataFolder: OrgComparisonService.getMetadataFolder(relativePath),
+                status: ComparisonStatus.Changed
+            }));
+
+            assert.deepStrictEqual(OrgComparisonService.getComponents(entries), [
+                { type: 'ApexClass', fullName: 'Invoice' },
+                { type: 'CustomField', fullName: 'Account.Region__c' },
+                { type: 'LightningComponentBundle', fullName: 'card' }
+            ]);
+        });
+
+        test('should get components missing entirely on the other side', () => {
+            const entries = [
+                { relativePath: 'lwc/card/card.js', status: ComparisonStatus.Changed },
+                { relativePath: 'lwc/card/cardHelper.js', status: ComparisonStatus.OnlyInRight },
+                { relativePath: 'classes/Legacy.cls', status: ComparisonStatus.OnlyInRight },
+                { relativePath: 'classes/Legacy.cls-meta.xml', status: ComparisonStatus.OnlyInRight },
+                { relativePath: 'objects/Old__c/Old__c.object-meta.xml', status: ComparisonStatus.OnlyInRight },
+                { relativePath: 'objects/Old__c/fields/Code__c.field-meta.xml', status: ComparisonStatus.OnlyInRight },
+                { relativePath: 'objects/Account/fields/Region__c.field-meta.xml', status: ComparisonStatus.OnlyInRight },
+                { relativePath: 'classes/New.cls', status: ComparisonStatus.OnlyInLeft }
+            ].map(entry => ({ ...entry, metadataFolder: OrgComparisonService.getMetadataFolder(entry.relativePath) }));
+
+            assert.deepStrictEqual(OrgComparisonService.getComponentsOnlyIn(entries, ComparisonStatus.OnlyInRight), [
+                { type: 'ApexClass', fullName: 'Legacy' },
+                { type: 'CustomField', fullName: 'Account.Region__c' },
+                { type: 'CustomObject', fullName: 'Old__c' }
+            ]);
+        });
+    });
+
+    suite('findReferences', () => {
+        test('should report files referencing the components', async () => {
+            const root = path.join(workDir, 'references');
+            writeFile(root, 'classes/Legacy.cls', 'public class Legacy { Old__c record; }');
+            writeFile(root, 'classes/Billing.cls', 'public class Billing { void run() { legacy.run(); Account a; a.Region__c = null; } }');
+            writeFile(root, 'classes/LegacyHelper.cls', 'public class LegacyHelper {}');
+            writeFile(root, 'lwc/page/page.html', '<template><c-legacy-card></c-legacy-card></template>');
+            const files = new Map([
+                'classes/Legacy.cls', 'classes/Billing.cls', 'classes/LegacyHelper.cls', 'lwc/page/page.html'
+            ].map(relativePath => [relativePath, path.join(root, relativePath)]));
+
+            const references = await service.findReferences([
+                { type: 'ApexClass', fullName: 'Legacy' },
+                { type: 'CustomField', fullName: 'Account.Region__c' },
+                { type: 'LightningComponentBundle', fullName: 'legacyCard' },
+                { type: 'ApexClass', fullName: 'Unused' }
+            ], files);
+
+            assert.deepStrictEqual(references.map(reference => [reference.component.fullName, reference.referencedBy]), [
+                ['Legacy', ['classes/Billing.cls']],
+                ['Account.Region__c', ['classes/Billing.cls']],
+                ['legacyCard', ['lwc/page/page.html']]
+            ]);
+        });
+    });
+});
@@ -0,0 +1,174 @@
+import * as assert from 'assert';
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OrgSnapshotService } from '../../services/OrgSnapshotService';
+import { SalesforceOrg } from '../../types';
+
+suite('OrgSnapshotService Test Suite', () => {
+    let workDir: string;
+    let sourceDir: string;
+    let context: any;
+    let service: OrgSnapshotService;
+
+    const org: SalesforceOrg = { id: '00D000000000001', username: 'admin@prod.com', alias: 'Prod', instanceUrl: 'https://prod.my.salesforce.com' };
+    const day = (dayOfMonth: number): Date => new Date(Date.UTC(2026, 9, dayOfMonth, 8, 0, 0));
+
+    const writeSource = (relativePath: string, content: string): void => {
+        const filePath = path.join(sourceDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content, 'utf8');
+    };
+
+    setup(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'org-snapshot-test-'));
+        sourceDir = path.join(workDir, 'source');
+        context = { globalStorageUri: { fsPath: path.join(workDir, 'storage') } };
+        service = new OrgSnapshotService(context);
+
+        writeSource('classes/Invoice.cls', 'public class Invoice {}');
+        writeSource('classes/Invoice.cls-meta.xml', '<ApexClass/>');
+    });
+
+    teardown(async () => {
+        // Snapshots are checked out to the shared temp directory rather than below the work directory
+        for (const snapshot of await service.getSnapshots(org.id)) {
+            fs.rmSync(snapshot.directory, { recursive: true, force: true });
+            fs.rmSync(`${snapshot.directory}-files`, { recursive: true, force: true });
+        }
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    test('should commit the source and list snapshots newest first', async () => {
+        const first = await service.createSnapshot(org, sourceDir, day(10));
+        writeSource('classes/Invoice.cls', 'public class Invoice { Decimal total; }');
+        const second = await service.createSnapshot(org, sourceDir, day(11));
+
+        assert.deepStrictEqual((await service.getSnapshots(org.id)).map(snapshot => snapshot.id), [second.id, first.id]);
+        assert.strictEqual(first.fileCount, 2);
+        assert.strictEqual(first.orgLabel, 'Prod');
+        assert.ok(fs.existsSync(path.join(workDir, 'storage', 'orgHistory', `${org.id}.git`, 'HEAD')));
+
+        await service.getComparisonSource(first);
+        await service.getComparisonSource(second);
+        assert.strictEqual(fs.readFileSync(path.join(first.directory, 'classes', 'Invoice.cls'), 'utf8'), 'public class Invoice {}');
+        assert.ok(fs.readFileSync(path.join(second.directory, 'classes', 'Invoice.cls'), 'utf8').includes('Decimal total'));
+    });
+
+    test('should load snapshots saved by a previous session', async () => {
+        const snapshot = await service.createSnapshot(org, sourceDir, day(10));
+
+        const reloaded = await new OrgSnapshotService(context).getSnapshot(org.id, snapshot.id);
+
+        assert.ok(reloaded);
+        assert.strictEqual(reloaded!.createdAt.getTime(), day(10).getTime());
+        assert.strictEqual(reloaded!.directory, snapshot.directory);
+    });
+
+    test('should delete snapshots beyond the retention count and age', async () => {
+        const oldest = await service.createSnapshot(org, sourceDir, day(10));
+        const middle = await service.createSnapshot(org, sourceDir, day(11));
+        const newest = await service.createSnapshot(org, sourceDir, day(12));
+
+        const removedByCount = await service.applyRetention(org.id, { maxCount: 2, maxAgeDays: 0 }, day(12));
+        assert.deepStrictEqual(removedByCount.map(snapshot => snapshot.id), [oldest.id]);
+
+        const removedByAge = await service.applyRetention(org.id, { maxCount: 0, maxAgeDays: 1 }, new Date(day(12).getTime() + 12 * 60 * 60 * 1000));
+        assert.deepStrictEqual(removedByAge.map(snapshot => snapshot.id), [middle.id]);
+        assert.deepStrictEqual((await service.getSnapshots(org.id)).map(snapshot => snapshot.id), [newest.id]);
+        assert.strictEqual((await service.getSnapshots(org.id))[0].fileCount, 2);
+    });
+
+    test('should drop the oldest snapshots without rewriting the history until it is compacted', async () => {
+        const gitDir = path.join(workDir, 'storage', 'orgHistory', `${org.id}.git`);
+        const countCommits = (): number => Number(childProcess.execFileSync('git', ['--git-dir', gitDir, 'rev-list', '--count', 'HEAD'], {
+            env: { ...process.env, GIT_NO_REPLACE_OBJECTS: '1' }
+        }).toString().trim());
+        for (let dayOfMonth = 10; dayOfMonth < 15; dayOfMonth++) {
+            writeSource('classes/Invoice.cls', `public class Invoice { /* ${dayOfMonth} */ }`);
+            await service.createSnapshot(org, sourceDir, day(dayOfMonth));
+        }
+        const snapshots = await service.getSnapshots(org.id);
+
+        await service.applyRetention(org.id, { maxCount: 4, maxAgeDays: 0 }, day(14));
+
+        const truncated = await service.getSnapshots(org.id);
+        assert.deepStrictEqual(truncated.map(snapshot => snapshot.commit), snapshots.slice(0, 4).map(snapshot => snapshot.commit));
+        assert.strictEqual(countCommits(), 5);
+        assert.deepStrictEqual((await service.getFileHistory(org.id, 'classes/Invoice.cls')).map(change => change.change), ['modified', 'modified', 'modified', 'added']);
+
+        await service.applyRetention(org.id, { maxCount: 2, maxAgeDays: 0 }, day(14));
+
+        const compacted = await service.getSnapshots(org.id);
+        assert.deepStrictEqual(compacted.map(snapshot => snapshot.id), snapshots.slice(0, 2).map(snapshot => snapshot.id));
+        assert.strictEqual(countCommits(), 2);
+        assert.ok(fs.readFileSync(await service.getFileVersion(compacted[1], 'classes/Invoice.cls'), 'utf8').includes('/* 13 */'));
+    });
+
+    test('should list the snapshots in which a file changed', async () => {
+        const added = await service.createSnapshot(org, sourceDir, day(10));
+        await service.createSnapshot(org, sourceDir, day(11));
+        writeSource('classes/Invoice.cls', 'public class Invoice { Decimal total; }');
+        const modified = await service.createSnapshot(org, sourceDir, day(12));
+        fs.rmSync(path.join(sourceDir, 'classes', 'Invoice.cls'));
+        const deleted = await service.createSnapshot(org, sourceDir, day(13));
+
+        const history = await service.getFileHistory(org.id, 'classes/Invoice.cls');
+
+        assert.deepStrictEqual(history.map(entry => [entry.snapshot.id, entry.change]), [
+            [deleted.id, 'deleted'],
+            [modified.id, 'modified'],
+            [added.id, 'added']
+        ]);
+        assert.strictEqual(fs.readFileSync(await service.getFileVersion(added, 'classes/Invoice.cls'), 'utf8'), 'public class Invoice {}');
+        assert.strictEqual(fs.readFileSync(await service.getFileVersion(deleted, 'classes/Invoice.cls'), 'utf8'), '');
+    });
+
+    test('should keep the checked out files of a snapshot when checking out others', async () => {
+        writeSource('classes/Order.cls', 'public class Order {}');
+        const snapshot = await service.createSnapshot(org, sourceDir, day(10));
+
+        const invoicePath = await service.getFileVersion(snapshot, 'classes/Invoice.cls');
+        const [orderPath, metaPath] = await Promise.all([
+            service.getFileVersion(snapshot, 'classes/Order.cls'),
+            service.getFileVersion(snapshot, 'classes/Invoice.cls-meta.xml')
+        ]);
+
+        assert.strictEqual(fs.readFileSync(invoicePath, 'utf8'), 'public class Invoice {}');
+        assert.strictEqual(fs.readFileSync(orderPath, 'utf8'), 'public class Order {}');
+        assert.strictEqual(fs.readFileSync(metaPath, 'utf8'), '<ApexClass/>');
+    });
+
+    test('should list the files changed between two snapshots', async () => {
+        const before = await service.createSnapshot(org, sourceDir, day(10));
+        writeSource('classes/Invoice.cls', 'public class Invoice { Decimal total; }');
+        writeSource('flows/Approval.flow-meta.xml', '<Flow/>');
+        fs.rmSync(path.join(sourceDir, 'classes', 'Invoice.cls-meta.xml'));
+        const after = await service.createSnapshot(org, sourceDir, day(11));
+
+        const changes = await service.getChangedFiles(before, after);
+
+        assert.deepStrictEqual(changes.map(entry => [entry.relativePath, entry.change]), [
+            ['classes/Invoice.cls', 'modified'],
+            ['classes/Invoice.cls-meta.xml', 'deleted'],
+            ['flows/Approval.flow-meta.xml', 'added']
+        ]);
+        assert.deepStrictEqual(await service.getChangedFiles(after, after), []);
+    });
+
+    test('should resolve snapshots from comparison source ids', async () => {
+        const snapshot = await service.createSnapshot(org, sourceDir, day(10));
+        const source = await service.getComparisonSource(snapshot);
+
+        assert.ok(OrgSnapshotService.isSnapshotSource(source.id));
+        assert.ok(!OrgSnapshotService.isSnapshotSource(org.id));
+        assert.deepStrictEqual(source.rootDirectories, [snapshot.directory]);
+        assert.ok(source.label.startsWith('Prod @ '));
+        assert.strictEqual((await service.findBySourceId(source.id))?.id, snapshot.id);
+
+        await service.deleteSnapshot(org.id, snapshot.id);
+        assert.strictEqual(await service.findBySourceId(source.id), undefined);
+        assert.ok(!fs.existsSync(snapshot.directory));
+    });
+});
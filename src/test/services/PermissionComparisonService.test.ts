@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { PermissionComparisonService, PERMISSION_COLUMNS } from '../../services/PermissionComparisonService';
+import { PermissionCategory } from '../../types';
+
+suite('PermissionComparisonService Test Suite', () => {
+    let service: PermissionComparisonService;
+
+    const document = (root: string, body: string): string =>
+        `<?xml version="1.0" encoding="UTF-8"?>\n<${root} xmlns="http://soap.sforce.com/2006/04/metadata">${body}</${root}>`;
+
+    const objectPermission = (object: string, read: boolean, edit: boolean): string =>
+        `<objectPermissions><allowCreate>false</allowCreate><allowDelete>false</allowDelete><allowEdit>${edit}</allowEdit>` +
+        `<allowRead>${read}</allowRead><modifyAllRecords>false</modifyAllRecords><object>${object}</object><viewAllRecords>false</viewAllRecords></objectPermissions>`;
+
+    const fieldPermission = (field: string, editable: boolean): string =>
+        `<fieldPermissions><editable>${editable}</editable><field>${field}</field><readable>true</readable></fieldPermissions>`;
+
+    const rowOf = (rows: { category: PermissionCategory; subject: string }[], category: PermissionCategory, subject: string) =>
+        rows.find(row => row.category === category && row.subject === subject);
+
+    setup(() => {
+        service = new PermissionComparisonService();
+    });
+
+    test('should detect CRUD and field-level security differences', () => {
+        const result = service.compareXml(
+            document('Profile', objectPermission('Account', true, true) + fieldPermission('Account.Phone', true)),
+            document('Profile', objectPermission('Account', true, false) + fieldPermission('Account.Phone', false))
+        );
+
+        const objectRow = result.rows.find(row => row.category === PermissionCategory.Object)!;
+        const fieldRow = result.rows.find(row => row.category === PermissionCategory.Field)!;
+        assert.deepStrictEqual(objectRow.differences, ['allowEdit']);
+        assert.deepStrictEqual(fieldRow.differences, ['editable']);
+        assert.strictEqual(result.leftType, 'Profile');
+    });
+
+    test('should treat missing boolean permissions as not granted', () => {
+        const result = service.compareXml(
+            document('PermissionSet', '<classAccesses><apexClass>Foo</apexClass><enabled>false</enabled></classAccesses>'),
+            document('PermissionSet', '<userPermissions><enabled>true</enabled><name>ApiEnabled</name></userPermissions>')
+        );
+
+        const classRow = result.rows.find(row => row.category === PermissionCategory.ApexClass)!;
+        const userPermission = result.rows.find(row => row.category === PermissionCategory.UserPermission)!;
+        assert.deepStrictEqual(classRow.differences, []);
+        assert.strictEqual(userPermission.left, undefined);
+        assert.deepStrictEqual(userPermission.differences, ['enabled']);
+    });
+
+    test('should compare tab visibility across profiles and permission sets', () => {
+        const result = service.compareXml(
+            document('Profile', '<tabVisibilities><tab>standard-Account</tab><visibility>DefaultOn</visibility></tabVisibilities>'),
+            document('PermissionSet', '<tabSettings><tab>standard-Account</tab><visibility>Visible</visibility></tabSettings>')
+        );
+
+        assert.ok(rowOf(result.rows, PermissionCategory.Tab, 'standard-Account'));
+        assert.strictEqual(result.rows.length, 1);
+        assert.strictEqual(result.rightType, 'PermissionSet');
+    });
+
+    test('should reject other metadata types', () => {
+        assert.throws(() => service.compareXml(document('Flow', ''), document('Profile', '')), /Expected a Profile or PermissionSet/);
+    });
+
+    test('should resolve effective values', () => {
+        const [visibility] = PERMISSION_COLUMNS[PermissionCategory.Tab];
+        const [enabled] = PERMISSION_COLUMNS[PermissionCategory.ApexClass];
+
+        assert.strictEqual(PermissionComparisonService.getEffectiveValue(enabled, undefined), 'false');
+        assert.strictEqual(PermissionComparisonService.getEffectiveValue(enabled, { enabled: 'true' }), 'true');
+        assert.strictEqual(PermissionComparisonService.getEffectiveValue(visibility, undefined), '');
+        assert.ok(PermissionComparisonService.isPermissionFile('Admin.profile-meta.xml'));
+        assert.ok(!PermissionComparisonService.isPermissionFile('Account.object-meta.xml'));
+    });
+});
@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { ScheduledRefreshService } from '../../services/ScheduledRefreshService';
+
+suite('ScheduledRefreshService Test Suite', () => {
+    test('should summarize drift by metadata type', () => {
+        const summary = ScheduledRefreshService.summarizeDrift('Prod', [
+            { relativePath: 'classes/Invoice.cls', change: 'modified' },
+            { relativePath: 'classes/Invoice.cls-meta.xml', change: 'modified' },
+            { relativePath: 'classes/Payment.cls', change: 'added' },
+            { relativePath: 'flows/Approval.flow-meta.xml', change: 'deleted' }
+        ]);
+
+        assert.strictEqual(summary, 'Prod: 2 Apex Classes, 1 Flows changed');
+    });
+
+    test('should count unrecognized files separately', () => {
+        const summary = ScheduledRefreshService.summarizeDrift('Dev', [
+            { relativePath: 'unknown/readme.txt', change: 'added' }
+        ]);
+
+        assert.strictEqual(summary, 'Dev: 1 other files changed');
+    });
+});
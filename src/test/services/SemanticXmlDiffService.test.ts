@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { SemanticXmlDiffService } from '../../services/SemanticXmlDiffService';
+import { SemanticChangeKind } from '../../types';
+
+suite('SemanticXmlDiffService Test Suite', () => {
+    let service: SemanticXmlDiffService;
+
+    const profile = (body: string): string =>
+        `<?xml version="1.0" encoding="UTF-8"?>\n<Profile xmlns="http://soap.sforce.com/2006/04/metadata">${body}</Profile>`;
+
+    const fieldPermission = (field: string, editable: boolean): string =>
+        `<fieldPermissions><editable>${editable}</editable><field>${field}</field><readable>true</readable></fieldPermissions>`;
+
+    const classAccess = (apexClass: string): string =>
+        `<classAccesses><apexClass>${apexClass}</apexClass><enabled>true</enabled></classAccesses>`;
+
+    setup(() => {
+        service = new SemanticXmlDiffService();
+    });
+
+    test('should ignore element order and formatting', () => {
+        const left = profile(fieldPermission('Account.Name', true) + '\n    ' + fieldPermission('Account.Phone', false) + classAccess('Foo'));
+        const right = profile(classAccess('Foo') + fieldPermission('Account.Phone', false) + fieldPermission('Account.Name', true));
+
+        const result = service.compareXml(left, right);
+
+        assert.strictEqual(result.identical, true);
+        assert.strictEqual(result.rootElement, 'Profile');
+    });
+
+    test('should report value changes on keyed elements', () => {
+        const result = service.compareXml(
+            profile(fieldPermission('Account.Name', true)),
+            profile(fieldPermission('Account.Name', false))
+        );
+
+        assert.deepStrictEqual(result.changes, [{
+            kind: SemanticChangeKind.Changed,
+            element: 'fieldPermissions',
+            path: 'fieldPermissions[Account.Name] › editable',
+            leftValue: 'true',
+            rightValue: 'false'
+        }]);
+    });
+
+    test('should report additions and removals of whole entries', () => {
+        const result = service.compareXml(
+            profile(classAccess('Foo') + classAccess('Bar')),
+            profile(classAccess('Foo') + classAccess('Baz'))
+        );
+
+        assert.strictEqual(result.changes.length, 2);
+        const removed = result.changes.find(change => change.kind === SemanticChangeKind.Removed)!;
+        const added = result.changes.find(change => change.kind === SemanticChangeKind.Added)!;
+        assert.strictEqual(removed.path, 'classAccesses[Bar]');
+        assert.strictEqual(removed.leftValue, 'apexClass=Bar, enabled=true');
+        assert.strictEqual(added.path, 'classAccesses[Baz]');
+        assert.strictEqual(added.rightValue, 'apexClass=Baz, enabled=true');
+    });
+
+    test('should use compound keys for layout assignments', () => {
+        const assignment = (layout: string, recordType?: string): string =>
+            `<layoutAssignments><layout>${layout}</layout>${recordType ? `<recordType>${recordType}</recordType>` : ''}</layoutAssignments>`;
+
+        const result = service.compareXml(
+            profile(assignment('Account-Layout') + assignment('Account-Layout', 'Account.Business')),
+            profile(assignment('Account-Layout', 'Account.Business') + assignment('Account-Layout'))
+        );
+
+        assert.strictEqual(result.identical, true);
+        assert.strictEqual(
+            SemanticXmlDiffService.getElementKey({
+                name: 'layoutAssignments',
+                attributes: {},
+                text: '',
+                children: [
+                    { name: 'layout', attributes: {}, children: [], text: 'A' },
+                    { name: 'recordType', attributes: {}, children: [], text: 'B' }
+                ]
+            }),
+            'A / B'
+        );
+    });
+
+    test('should treat reordered unkeyed repeated elements as identical', () => {
+        const layout = (columns: string[]): string =>
+            `<Layout>${columns.map(column => `<layoutColumns><reserved>${column}</reserved></layoutColumns>`).join('')}</Layout>`;
+
+        assert.strictEqual(service.compareXml(layout(['a', 'b']), layout(['b', 'a'])).identical, true);
+        assert.strictEqual(service.compareXml(layout(['a', 'b']), layout(['a', 'c'])).changes.length, 2);
+    });
+
+    test('should report a different root element', () => {
+        const result = service.compareXml('<Profile/>', '<PermissionSet/>');
+
+        assert.strictEqual(result.changes.length, 1);
+        assert.strictEqual(result.changes[0].path, '(root element)');
+    });
+
+    test('should only treat -meta.xml files as semantic candidates', () => {
+        assert.ok(SemanticXmlDiffService.isSemanticCandidate('Admin.profile-meta.xml'));
+        assert.ok(!SemanticXmlDiffService.isSemanticCandidate('Foo.cls'));
+    });
+});
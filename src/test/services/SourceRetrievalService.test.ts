@@ -3,8 +3,12 @@ import * as sinon from 'sinon';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { EventEmitter } from 'events';
 import { SourceRetrievalService } from '../../services/SourceRetrievalService';
 import { ManifestManager } from '../../services/ManifestManager';
+import { SecureCommandExecutor } from '../../security/SecureCommandExecutor';
+import { MetadataApiRetriever } from '../../core/MetadataApiRetriever';
+import { SF_CONFIG } from '../../config';
 import { SalesforceOrg, OrgFile } from '../../types';
 import * as vscode from 'vscode';
 
@@ -524,4 +528,199 @@ suite('SourceRetrievalService Tests', () => {
             assert.ok(mockRmSync.called);
         });
     });
-});
\ No newline at end of file
+});
+
+suite('SourceRetrievalService Incremental Retrieval Tests', () => {
+    let sourceRetrieval: SourceRetrievalService;
+    let manifestManager: ManifestManager;
+    let listMetadata: sinon.SinonStub;
+    let listedMembers: Record<string, { fullName: string; lastModifiedDate: string }[]>;
+    let retrievedClasses: string[];
+    let retrievedObjects: Record<string, string[]>;
+    let retrieveManifests: string[];
+
+    const org: SalesforceOrg = {
+        id: 'incremental-test-org',
+        username: 'incremental@example.com',
+        alias: 'incremental-org',
+        instanceUrl: 'https://test.salesforce.com'
+    };
+    const classesDir = path.join(os.tmpdir(), 'sf-org-compare', `org-${org.id}`, 'force-app', 'main', 'default', 'classes');
+    const objectsDir = path.join(path.dirname(classesDir), 'objects');
+
+    const createProcess = (stdout: string, code: number): any => {
+        const childProcess: any = new EventEmitter();
+        childProcess.stdout = new EventEmitter();
+        childProcess.stderr = new EventEmitter();
+        childProcess.kill = sinon.stub();
+        setImmediate(() => {
+            childProcess.stdout.emit('data', stdout);
+            childProcess.emit('close', code);
+        });
+        return childProcess;
+    };
+
+    setup(() => {
+        const mockContext = {
+            globalState: {
+                get: sinon.stub().returns({}),
+                update: sinon.stub().resolves()
+            }
+        } as any as vscode.ExtensionContext;
+        manifestManager = new ManifestManager(mockContext);
+        sourceRetrieval = new SourceRetrievalService(manifestManager);
+        listedMembers = {};
+        retrievedClasses = [];
+        retrievedObjects = {};
+        retrieveManifests = [];
+
+        // The fake CLI writes the classes and requested objects the way "sf project retrieve start" does
+        sinon.stub(require('child_process'), 'spawn').callsFake((cmd: any, args: any, options: any) => {
+            if (args[0] === '--version') {
+                return createProcess('', 0);
+            }
+            if (args[0] !== 'project') {
+                return createProcess('', 1);
+            }
+
+            const manifest = fs.readFileSync(path.resolve(options.cwd, args[args.indexOf('--manifest') + 1]), 'utf8');
+            retrieveManifests.push(manifest);
+            fs.mkdirSync(classesDir, { recursive: true });
+            const files = retrievedClasses.map(name => {
+                const filePath = path.join(classesDir, `${name}.cls`);
+                fs.writeFileSync(filePath, `public class ${name} {}`);
+                return { fullName: name, type: 'ApexClass', state: 'Changed', filePath };
+            });
+            for (const [objectName, fields] of Object.entries(retrievedObjects)) {
+                if (!manifest.includes('<members>*</members>') && !manifest.includes(`<members>${objectName}</members>`)) {
+                    continue;
+                }
+                const objectDir = path.join(objectsDir, objectName);
+                fs.mkdirSync(path.join(objectDir, 'fields'), { recursive: true });
+                fs.writeFileSync(path.join(objectDir, `${objectName}.object-meta.xml`), '<CustomObject/>');
+                files.push({ fullName: objectName, type: 'CustomObject', state: 'Changed', filePath: path.join(objectDir, `${objectName}.object-meta.xml`) });
+                for (const field of fields) {
+                    const filePath = path.join(objectDir, 'fields', `${field}.field-meta.xml`);
+                    fs.writeFileSync(filePath, '<CustomField/>');
+                    files.push({ fullName: `${objectName}.${field}`, type: 'CustomField', state: 'Changed', filePath });
+                }
+            }
+            return createProcess(JSON.stringify({ status: 0, result: { files } }), 0);
+        });
+
+        listMetadata = sinon.stub(SecureCommandExecutor, 'executeOrgListMetadata').callsFake(async (metadataType: string) => ({
+            stdout: JSON.stringify({ status: 0, result: listedMembers[metadataType] || [] }),
+            stderr: ''
+        }));
+    });
+
+    teardown(() => {
+        sinon.restore();
+        sourceRetrieval.clearOrgCache(org.id);
+    });
+
+    test('should retrieve only modified components and remove deleted ones', async () => {
+        retrievedClasses = ['Unchanged', 'Changed', 'Removed'];
+        await sourceRetrieval.retrieveOrgSource(org);
+        assert.ok(sourceRetrieval.canRetrieveIncrementally(org.id));
+
+        listedMembers.ApexClass = [
+            { fullName: 'Unchanged', lastModifiedDate: '2020-01-01T00:00:00.000Z' },
+            { fullName: 'Changed', lastModifiedDate: new Date(Date.now() + 60 * 60 * 1000).toISOString() },
+            { fullName: 'Added', lastModifiedDate: '2020-01-01T00:00:00.000Z' }
+        ];
+        retrievedClasses = ['Changed', 'Added'];
+        await sourceRetrieval.retrieveOrgSource(org);
+
+        const incrementalManifest = retrieveManifests[1];
+        assert.ok(incrementalManifest.includes('<members>Changed</members>'));
+        assert.ok(incrementalManifest.includes('<members>Added</members>'));
+        assert.ok(!incrementalManifest.includes('<members>Unchanged</members>'));
+        assert.ok(fs.existsSync(path.join(classesDir, 'Unchanged.cls')));
+        assert.ok(fs.existsSync(path.join(classesDir, 'Added.cls')));
+        assert.ok(!fs.existsSync(path.join(classesDir, 'Removed.cls')));
+    });
+
+    test('should retrieve an object again when one of its fields was deleted in the org', async () => {
+        const lastModifiedDate = '2020-01-01T00:00:00.000Z';
+        listedMembers.CustomObject = [{ fullName: 'Order__c', lastModifiedDate }];
+        listedMembers.CustomField = [{ fullName: 'Order__c.Total__c', lastModifiedDate }, { fullName: 'Order__c.Legacy__c', lastModifiedDate }];
+        retrievedObjects = { Order__c: ['Total__c', 'Legacy__c'] };
+        await sourceRetrieval.retrieveOrgSource(org);
+
+        // Unchanged children do not cause a retrieval
+        await sourceRetrieval.retrieveOrgSource(org);
+        assert.strictEqual(retrieveManifests.length, 1);
+
+        // Deleting a field leaves the object and the remaining fields with their dates
+        listedMembers.CustomField = [{ fullName: 'Order__c.Total__c', lastModifiedDate }];
+        retrievedObjects = { Order__c: ['Total__c'] };
+        await sourceRetrieval.retrieveOrgSource(org);
+
+        assert.strictEqual(retrieveManifests.length, 2);
+        assert.ok(retrieveManifests[1].includes('<members>Order__c</members>'));
+        assert.ok(fs.existsSync(path.join(objectsDir, 'Order__c', 'fields', 'Total__c.field-meta.xml')));
+        assert.ok(!fs.existsSync(path.join(objectsDir, 'Order__c', 'fields', 'Legacy__c.field-meta.xml')));
+    });
+
+    test('should list the types a few calls at a time', async () => {
+        retrievedClasses = ['Invoice'];
+        await sourceRetrieval.retrieveOrgSource(org);
+
+        let running = 0;
+        let maxRunning = 0;
+        listMetadata.callsFake(async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setImmediate(resolve));
+            running--;
+            return { stdout: JSON.stringify({ status: 0, result: [] }), stderr: '' };
+        });
+        await sourceRetrieval.retrieveOrgSource(org);
+
+        assert.ok(listMetadata.callCount > SF_CONFIG.RETRIEVAL.LIST_METADATA_CONCURRENCY);
+        assert.strictEqual(maxRunning, SF_CONFIG.RETRIEVAL.LIST_METADATA_CONCURRENCY);
+    });
+
+    test('should retrieve every type in full when listing them takes too many calls', async () => {
+        retrievedClasses = ['Kept', 'Removed'];
+        await sourceRetrieval.retrieveOrgSource(org);
+        await manifestManager.enableAllTypes(org.id);
+        listMetadata.resetHistory();
+
+        retrievedClasses = ['Kept'];
+        await sourceRetrieval.retrieveOrgSource(org);
+
+        assert.ok(listMetadata.notCalled);
+        assert.ok(retrieveManifests[1].includes('<members>*</members>'));
+        assert.ok(fs.existsSync(path.join(classesDir, 'Kept.cls')));
+        assert.ok(!fs.existsSync(path.join(classesDir, 'Removed.cls')));
+    });
+
+    test('should list several types per Metadata API call', async () => {
+        const retriever = sinon.createStubInstance(MetadataApiRetriever);
+        retriever.retrieve.callsFake(async () => {
+            const filePath = path.join(classesDir, 'Invoice.cls');
+            fs.mkdirSync(classesDir, { recursive: true });
+            fs.writeFileSync(filePath, 'public class Invoice {}');
+            return [{ fullName: 'Invoice', type: 'ApexClass', state: 'Changed', filePath }];
+        });
+        retriever.listMetadata.callsFake(async (types: string[]) => types.map(type => ({
+            fullName: type === 'CustomObject' ? 'Order__c' : 'Order__c.Total__c',
+            type,
+            fileName: '',
+            lastModifiedDate: '2020-01-01T00:00:00.000Z'
+        })));
+        await manifestManager.updateOrgManifestConfig(org.id, { retrievalEngine: 'metadataApi' });
+        sourceRetrieval = new SourceRetrievalService(manifestManager, undefined, retriever as any);
+
+        await sourceRetrieval.retrieveOrgSource(org);
+        retriever.listMetadata.resetHistory();
+        await sourceRetrieval.retrieveOrgSource(org);
+
+        const listedTypes = retriever.listMetadata.getCalls().flatMap(call => call.args[0]);
+        assert.ok(listedTypes.includes('CustomObject') && listedTypes.includes('CustomField') && listedTypes.includes('ApexClass'));
+        assert.strictEqual(retriever.listMetadata.callCount, Math.ceil(listedTypes.length / MetadataApiRetriever.MAX_LIST_QUERIES));
+        assert.ok(retriever.retrieve.calledTwice);
+    });
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { TextDiffService } from '../../services/TextDiffService';
+import { DiffLineKind, MergeSide } from '../../types';
+
+suite('TextDiffService Test Suite', () => {
+    let service: TextDiffService;
+
+    setup(() => {
+        service = new TextDiffService();
+    });
+
+    test('should report no changes for identical text', () => {
+        const lines = service.diffLines('a\nb\nc\n', 'a\r\nb\r\nc');
+
+        assert.ok(lines.every(line => line.kind === DiffLineKind.Equal));
+        assert.deepStrictEqual(service.toHunks(lines), []);
+    });
+
+    test('should find added and removed lines with their line numbers', () => {
+        const lines = service.diffLines('a\nb\nc\nd', 'a\nc\nd\ne');
+
+        assert.deepStrictEqual(
+            lines.filter(line => line.kind !== DiffLineKind.Equal),
+            [
+                { kind: DiffLineKind.Removed, text: 'b', leftNumber: 2 },
+                { kind: DiffLineKind.Added, text: 'e', rightNumber: 4 }
+            ]
+        );
+    });
+
+    test('should group changes into hunks with context', () => {
+        const left = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`);
+        const right = [...left];
+        right[1] = 'changed 2';
+        right[17] = 'changed 18';
+
+        const hunks = service.toHunks(service.diffLines(left.join('\n'), right.join('\n')), 2);
+
+        assert.strictEqual(hunks.length, 2);
+        assert.deepStrictEqual([hunks[0].leftStart, hunks[0].leftCount, hunks[0].rightStart, hunks[0].rightCount], [1, 4, 1, 4]);
+        assert.deepStrictEqual([hunks[1].leftStart, hunks[1].leftCount], [16, 5]);
+    });
+
+    test('should render unified diff text', () => {
+        const hunks = service.toHunks(service.diffLines('a\nb\n', 'a\nB\n'));
+
+        assert.strictEqual(
+            service.toUnifiedText(hunks, 'left/a.cls', 'right/a.cls'),
+            '--- left/a.cls\n+++ right/a.cls\n@@ -1,2 +1,2 @@\n a\n-b\n+B'
+        );
+    });
+
+    test('should pair removed and added lines side by side', () => {
+        const rows = service.toSideBySide(service.diffLines('a\nb\nc', 'a\nB\nC\nD'));
+
+        assert.deepStrictEqual(rows.map(row => row.kind), [DiffLineKind.Equal, 'changed', 'changed', DiffLineKind.Added]);
+        assert.deepStrictEqual(rows[3].right, { number: 4, text: 'D' });
+        assert.strictEqual(rows[3].left, undefined);
+    });
+
+    test('should merge hunks from the chosen side', () => {
+        const left = Array.from({ length: 12 }, (_, index) => `line ${index + 1}`);
+        const right = [...left];
+        right[1] = 'local 2';
+        right[10] = 'local 11';
+        right.splice(6, 0, 'local only');
+
+        const lines = service.diffLines(left.join('\n'), right.join('\n'));
+        const hunks = service.toHunks(lines, 1);
+        assert.strictEqual(hunks.length, 3);
+
+        const merged = service.mergeHunks(lines, hunks, [MergeSide.Left, MergeSide.Right]);
+
+        assert.strictEqual(merged[1], 'line 2');
+        assert.strictEqual(merged[6], 'local only');
+        assert.strictEqual(merged[11], 'local 11');
+        assert.strictEqual(merged.length, 13);
+        assert.deepStrictEqual(service.mergeHunks(lines, hunks, hunks.map(() => MergeSide.Left)), left);
+    });
+});
@@ -29,7 +29,358 @@ export interface CompareSelection {
 export enum ItemType {
     Org = 'org',
     File = 'file',
-    Folder = 'folder'
+    Folder = 'folder',
+    Snapshot = 'snapshot',
+    MetadataType = 'metadataType',
+    Component = 'component'
+}
+
+export enum ComparisonStatus {
+    Changed = 'changed',
+    OnlyInLeft = 'onlyInLeft',
+    OnlyInRight = 'onlyInRight',
+    Identical = 'identical'
+}
+
+export interface ComparisonSource {
+    id: string;
+    label: string;
+    rootDirectories: string[];
+    contentHashes?: Map<string, string>; // normalized content hash per source-relative path, when known up front
+}
+
+export interface OrgSnapshot {
+    id: string;
+    commit: string;
+    orgId: string;
+    orgLabel: string;
+    createdAt: Date;
+    directory: string;
+    fileCount: number;
+}
+
+export interface SnapshotFileChange {
+    snapshot: OrgSnapshot;
+    change: 'added' | 'modified' | 'deleted';
+}
+
+export interface SnapshotRetention {
+    maxCount: number;
+    maxAgeDays: number;
+}
+
+export interface SnapshotDiffEntry {
+    relativePath: string; // forward-slash path relative to the retrieved source directory
+    change: 'added' | 'modified' | 'deleted';
+}
+
+export interface ScheduledRefreshSettings {
+    intervalMinutes: number; // 0 when scheduled refreshes are disabled
+    orgs: string[]; // aliases or usernames of the orgs to refresh
+}
+
+export type RetrievalEngine = 'cli' | 'metadataApi'; // 'metadataApi' retrieves through the Metadata API without the Salesforce CLI
+
+export type OrgTreeMode = 'retrieved' | 'lazy'; // 'lazy' lists metadata types and components instead of walking a full retrieval
+
+export interface CliBackendSettings {
+    backend: 'sf' | 'fixture'; // 'fixture' replays recorded responses instead of running the Salesforce CLI
+    fixtureDirectory: string; // absolute path of the fixture set, empty when not configured
+}
+
+export interface OrgDrift {
+    orgId: string;
+    orgLabel: string;
+    previous: OrgSnapshot;
+    current: OrgSnapshot;
+    changes: SnapshotDiffEntry[];
+    summary: string;
+    detectedAt: Date;
+}
+
+export interface ComparisonEntry {
+    relativePath: string;
+    metadataFolder: string;
+    status: ComparisonStatus;
+    leftPath?: string;
+    rightPath?: string;
+}
+
+export interface OrgComparisonResult {
+    left: ComparisonSource;
+    right: ComparisonSource;
+    entries: ComparisonEntry[];
+    comparedAt: Date;
+}
+
+export interface MetadataComponentRef {
+    type: string;
+    fullName: string;
+}
+
+export enum BundleFileRole {
+    Template = 'template', // .html of LWC, .cmp/.app/.evt/.intf/.tokens markup of Aura
+    Controller = 'controller',
+    Helper = 'helper',
+    Renderer = 'renderer',
+    Css = 'css',
+    Meta = 'meta',
+    Design = 'design',
+    Documentation = 'documentation',
+    Svg = 'svg',
+    Other = 'other' // further modules, tests, templates... paired by path instead of role
+}
+
+export interface BundleSource {
+    label: string;
+    directory: string;
+    bundleType: 'lwc' | 'aura';
+}
+
+export interface BundleFileComparison {
+    role: BundleFileRole;
+    key: string; // the role, or the bundle-relative path for other files
+    status: ComparisonStatus;
+    leftPath?: string;
+    rightPath?: string;
+}
+
+export interface BundleComparisonResult {
+    left: BundleSource;
+    right: BundleSource;
+    files: BundleFileComparison[];
+}
+
+export interface ComponentReference {
+    component: MetadataComponentRef;
+    referencedBy: string[]; // source-relative paths of the referencing files
+}
+
+export interface DeploymentComponentFailure {
+    type: string;
+    fullName: string;
+    problem: string;
+    fileName?: string;
+    lineNumber?: number;
+}
+
+export interface DeploymentTestFailure {
+    name: string;
+    methodName: string;
+    message: string;
+}
+
+export interface DeploymentResult {
+    success: boolean;
+    checkOnly: boolean;
+    id?: string;
+    status: string;
+    numberComponentsDeployed: number;
+    numberComponentsTotal: number;
+    componentFailures: DeploymentComponentFailure[];
+    testFailures: DeploymentTestFailure[];
+    errorMessage?: string; // set when the CLI failed before reporting a deployment
+}
+
+export interface ComponentMatrixCell {
+    sourceId: string;
+    sourceLabel: string;
+    retrieved: boolean;
+    present: boolean;
+    files: Record<string, string>; // source-relative path -> absolute path
+    hash?: string;
+    group?: string;
+}
+
+export interface ComponentMatrix {
+    component: MetadataComponentRef;
+    cells: ComponentMatrixCell[];
+    builtAt: Date;
+}
+
+export interface ComparisonFilePair {
+    leftPath: string;
+    rightPath: string;
+    leftLabel: string;
+    rightLabel: string;
+}
+
+export enum SemanticChangeKind {
+    Added = 'added',
+    Removed = 'removed',
+    Changed = 'changed'
+}
+
+export interface SemanticXmlChange {
+    kind: SemanticChangeKind;
+    element: string; // top-level element the change belongs to, e.g. "fieldPermissions"
+    path: string;
+    leftValue?: string;
+    rightValue?: string;
+}
+
+export interface SemanticXmlDiffResult {
+    rootElement: string;
+    changes: SemanticXmlChange[];
+    identical: boolean;
+}
+
+export interface FlowElementChange {
+    kind: SemanticChangeKind;
+    elementType: string; // e.g. "decisions", "recordUpdates", "variables"
+    name: string;
+    label?: string;
+    details: SemanticXmlChange[];
+}
+
+export interface FlowConnectorChange {
+    kind: SemanticChangeKind;
+    source: string;
+    connector: string; // e.g. "defaultConnector" or "rules[High_Value] › connector"
+    leftTarget?: string;
+    rightTarget?: string;
+}
+
+export interface FlowComparisonResult {
+    leftStatus?: string;
+    rightStatus?: string;
+    leftApiVersion?: string;
+    rightApiVersion?: string;
+    properties: SemanticXmlChange[];
+    nodes: FlowElementChange[];
+    resources: FlowElementChange[];
+    connectors: FlowConnectorChange[];
+    identical: boolean;
+}
+
+export enum DiffLineKind {
+    Equal = 'equal',
+    Added = 'added',
+    Removed = 'removed'
+}
+
+export enum MergeSide {
+    Left = 'left',
+    Right = 'right'
+}
+
+export interface DiffLine {
+    kind: DiffLineKind;
+    text: string;
+    leftNumber?: number;
+    rightNumber?: number;
+}
+
+export interface TextDiffHunk {
+    leftStart: number;
+    leftCount: number;
+    rightStart: number;
+    rightCount: number;
+    lines: DiffLine[];
+}
+
+export interface SideBySideRow {
+    kind: DiffLineKind | 'changed';
+    left?: { number: number; text: string };
+    right?: { number: number; text: string };
+}
+
+export enum ExportFormat {
+    Html = 'html',
+    Markdown = 'markdown',
+    Json = 'json',
+    Csv = 'csv',
+    Junit = 'junit'
+}
+
+export interface ComparisonReportEntry {
+    relativePath: string;
+    metadataType?: string;
+    componentName: string;
+    status: ComparisonStatus;
+    leftPath?: string;
+    rightPath?: string;
+    /** Set when the difference is expected, e.g. allowed by a CI drift policy */
+    allowed?: boolean;
+}
+
+export interface ComparisonReport {
+    title: string;
+    leftLabel: string;
+    rightLabel: string;
+    generatedAt: Date;
+    summary: Record<ComparisonStatus, number>;
+    entries: ComparisonReportEntry[];
+}
+
+/**
+ * Side of a headless comparison: an org retrieved through the Salesforce CLI or a directory on disk
+ */
+export type ComparisonSourceSpec =
+    | { kind: 'org'; identifier: string }
+    | { kind: 'directory'; path: string };
+
+export interface DriftPolicy {
+    /** Statuses counted as drift */
+    failOn: ComparisonStatus[];
+    /** Path or "Type:fullName" patterns of expected differences; "*" matches within a path segment, "**" across segments */
+    allow: string[];
+}
+
+export interface DiffIgnoreRule {
+    /** File name endings the rule applies to (e.g. ".cls", "-meta.xml"); every file when omitted */
+    fileExtensions?: string[];
+    /** Element paths removed from XML files, e.g. "/ApexClass/apiVersion" or "//fieldPermissions[field='Account.Foo__c']" */
+    xpaths?: string[];
+    /** Regular expressions whose matches are removed before comparing */
+    patterns?: string[];
+    /** Ignore line endings, indentation, trailing whitespace and blank lines */
+    ignoreWhitespace?: boolean;
+    /** Ignore code comments, or XML/HTML comments in markup files */
+    ignoreComments?: boolean;
+}
+
+export enum ObjectMemberCategory {
+    Field = 'field',
+    ValidationRule = 'validationRule'
+}
+
+export interface ObjectMemberComparisonRow {
+    category: ObjectMemberCategory;
+    name: string;
+    left?: Record<string, string>;
+    right?: Record<string, string>;
+    differences: string[];
+}
+
+export interface ObjectComparisonResult {
+    objectName: string;
+    leftLabel?: string;
+    rightLabel?: string;
+    rows: ObjectMemberComparisonRow[];
+    identical: boolean;
+}
+
+export enum PermissionCategory {
+    Object = 'object',
+    Field = 'field',
+    ApexClass = 'apexClass',
+    Tab = 'tab',
+    UserPermission = 'userPermission'
+}
+
+export interface PermissionComparisonRow {
+    category: PermissionCategory;
+    subject: string; // object, field, class, tab or permission name
+    left?: Record<string, string>;
+    right?: Record<string, string>;
+    differences: string[]; // permission names whose effective value differs
+}
+
+export interface PermissionComparisonResult {
+    leftType: string;
+    rightType: string;
+    rows: PermissionComparisonRow[];
 }
 
 export interface TreeItem {
@@ -40,6 +391,8 @@ export interface TreeItem {
     orgId?: string;
     file?: OrgFile;
     metadataType?: string;
+    snapshot?: OrgSnapshot;
+    component?: MetadataComponentRef; // component whose files are loaded when the item is expanded (lazy tree)
 }
 
 // Enhanced metadata system interfaces
@@ -111,6 +464,7 @@ export interface CustomField {
     length?: number;
     required?: boolean;
     unique?: boolean;
+    formula?: string;
     description?: string;
 }
 
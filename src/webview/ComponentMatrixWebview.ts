@@ -0,0 +1,508 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EnhancedOrgManager } from '../metadata/EnhancedOrgManager';
+import { ComponentMatrixService } from '../services/ComponentMatrixService';
+import { LocalProjectService } from '../services/LocalProjectService';
+import { MetadataPathResolver } from '../metadata/MetadataPathResolver';
+import { ComparisonSource, ComponentMatrix, MetadataComponentRef, OrgFile } from '../types';
+
+/**
+ * Webview showing one component across every registered org as an N-way matrix
+ */
+export class ComponentMatrixWebview {
+    private panel: vscode.WebviewPanel | undefined;
+    private context: vscode.ExtensionContext;
+    private enhancedOrgManager: EnhancedOrgManager;
+    private componentMatrixService: ComponentMatrixService;
+    private localProjectService: LocalProjectService;
+    private matrix: ComponentMatrix | undefined;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        enhancedOrgManager: EnhancedOrgManager,
+        componentMatrixService: ComponentMatrixService,
+        localProjectService: LocalProjectService
+    ) {
+        this.context = context;
+        this.enhancedOrgManager = enhancedOrgManager;
+        this.componentMatrixService = componentMatrixService;
+        this.localProjectService = localProjectService;
+    }
+
+    /**
+     * Show the matrix for a component, building it from the cached source of every org
+     */
+    public async show(component: MetadataComponentRef): Promise<void> {
+        if (this.panel) {
+            this.panel.reveal();
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'componentMatrix',
+                'Component Matrix',
+                vscode.ViewColumn.One,
+                {
+                    enableScripts: true,
+                    localResourceRoots: [
+                        vscode.Uri.file(path.join(this.context.extensionPath, 'media'))
+                    ]
+                }
+            );
+
+            this.panel.webview.html = this.getWebviewContent();
+            this.setupWebviewMessageHandling();
+
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.matrix = undefined;
+            });
+        }
+
+        this.panel.title = `Matrix: ${component.fullName}`;
+        this.matrix = await this.componentMatrixService.buildMatrix(component, this.getSources());
+        this.sendMatrixData();
+    }
+
+    /**
+     * Show the matrix for the component an org or local project file belongs to
+     */
+    public async showForFile(file: OrgFile): Promise<void> {
+        if (!file.filePath) {
+            throw new Error(`File path not available for ${file.name}`);
+        }
+
+        const sourceRoots = LocalProjectService.isLocalProject(file.orgId)
+            ? this.localProjectService.getSourceRoots()
+            : [this.enhancedOrgManager.getCachedSourceDirectory(file.orgId)].filter((root): root is string => !!root);
+        const relativePath = MetadataPathResolver.toSourceRelativePath(file.filePath, sourceRoots);
+        const component = relativePath ? MetadataPathResolver.resolve(relativePath) : undefined;
+
+        if (!component) {
+            vscode.window.showWarningMessage(`Could not determine the metadata component for ${file.name}.`);
+            return;
+        }
+
+        await this.show(component);
+    }
+
+    /**
+     * Ask for a metadata type and component name, then show its matrix
+     */
+    public async showFromPrompt(): Promise<void> {
+        const type = await vscode.window.showQuickPick(MetadataPathResolver.getSupportedTypes(), {
+            placeHolder: 'Select the metadata type of the component'
+        });
+        if (!type) {
+            return;
+        }
+
+        const fullName = await vscode.window.showInputBox({
+            prompt: `Enter the full name of the ${type}`,
+            placeHolder: type === 'CustomField' ? 'Account.MyField__c' : 'MyComponent',
+            validateInput: value => value.trim() ? undefined : 'Full name is required'
+        });
+        if (!fullName) {
+            return;
+        }
+
+        await this.show({ type, fullName: fullName.trim() });
+    }
+
+    /**
+     * Get every registered org plus the local project as comparison sources
+     * Orgs that were never retrieved get no root directories and show up as "not retrieved"
+     */
+    private getSources(): ComparisonSource[] {
+        const sources: ComparisonSource[] = this.enhancedOrgManager.getOrgs().map(org => {
+            const sourceDirectory = this.enhancedOrgManager.getCachedSourceDirectory(org.id);
+            return {
+                id: org.id,
+                label: org.alias || org.username,
+                rootDirectories: sourceDirectory ? [sourceDirectory] : []
+            };
+        });
+
+        if (this.localProjectService.hasProject()) {
+            sources.push(this.localProjectService.getComparisonSource());
+        }
+
+        return sources;
+    }
+
+    /**
+     * Setup message handling between webview and extension
+     */
+    private setupWebviewMessageHandling(): void {
+        this.panel!.webview.onDidReceiveMessage(async (message) => {
+            switch (message.command) {
+                case 'getMatrix':
+                    this.sendMatrixData();
+                    break;
+
+                case 'diffCells':
+                    await this.handleDiffCells(message.leftId, message.rightId);
+                    break;
+
+                case 'openCell':
+                    await this.handleOpenCell(message.sourceId);
+                    break;
+
+                case 'refreshMatrix':
+                    await this.handleRefreshMatrix();
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Send the current matrix to the webview
+     */
+    private sendMatrixData(): void {
+        if (!this.panel || !this.matrix) {
+            return;
+        }
+
+        this.panel.webview.postMessage({
+            command: 'matrixData',
+            data: {
+                component: this.matrix.component,
+                builtAt: this.matrix.builtAt.toISOString(),
+                cells: this.matrix.cells.map(cell => ({
+                    sourceId: cell.sourceId,
+                    sourceLabel: cell.sourceLabel,
+                    retrieved: cell.retrieved,
+                    present: cell.present,
+                    fileCount: Object.keys(cell.files).length,
+                    hash: cell.hash ? cell.hash.substring(0, 12) : undefined,
+                    group: cell.group
+                }))
+            }
+        });
+    }
+
+    /**
+     * Open a diff between the component files of two sources
+     */
+    private async handleDiffCells(leftId: string, rightId: string): Promise<void> {
+        const left = this.matrix?.cells.find(cell => cell.sourceId === leftId);
+        const right = this.matrix?.cells.find(cell => cell.sourceId === rightId);
+        if (!left?.present || !right?.present) {
+            return;
+        }
+
+        const sharedFiles = ComponentMatrixService.getSharedFiles(left, right);
+        if (sharedFiles.length === 0) {
+            vscode.window.showWarningMessage(`${left.sourceLabel} and ${right.sourceLabel} have no files of this component in common.`);
+            return;
+        }
+
+        let relativePath = sharedFiles[0];
+        if (sharedFiles.length > 1) {
+            const picked = await vscode.window.showQuickPick(sharedFiles, {
+                placeHolder: `Select the file to compare between ${left.sourceLabel} and ${right.sourceLabel}`
+            });
+            if (!picked) {
+                return;
+            }
+            relativePath = picked;
+        }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            vscode.Uri.file(left.files[relativePath]),
+            vscode.Uri.file(right.files[relativePath]),
+            `${left.sourceLabel} ↔ ${right.sourceLabel}: ${relativePath}`
+        );
+    }
+
+    /**
+     * Open the component file of a single source
+     */
+    private async handleOpenCell(sourceId: string): Promise<void> {
+        const cell = this.matrix?.cells.find(candidate => candidate.sourceId === sourceId);
+        if (!cell?.present) {
+            return;
+        }
+
+        const relativePaths = Object.keys(cell.files);
+        const relativePath = relativePaths.length === 1
+            ? relativePaths[0]
+            : await vscode.window.showQuickPick(relativePaths, { placeHolder: `Select the file to open from ${cell.sourceLabel}` });
+        if (!relativePath) {
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(cell.files[relativePath]));
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    /**
+     * Rebuild the matrix for the current component
+     */
+    private async handleRefreshMatrix(): Promise<void> {
+        if (!this.matrix) {
+            return;
+        }
+
+        try {
+            this.matrix = await this.componentMatrixService.buildMatrix(this.matrix.component, this.getSources());
+            this.sendMatrixData();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to refresh matrix: ${error}`);
+            this.sendMatrixData();
+        }
+    }
+
+    /**
+     * Generate the HTML content for the webview
+     */
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Component Matrix</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+
+        .header {
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 15px;
+            margin-bottom: 20px;
+            display: flex;
+            justify-content: space-between;
+            align-items: flex-start;
+        }
+
+        .header h1 {
+            margin: 0 0 6px 0;
+            font-size: 20px;
+        }
+
+        .header p {
+            margin: 0;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .btn {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 14px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 13px;
+        }
+
+        .btn:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+
+        .orgs {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 10px;
+            margin-bottom: 24px;
+        }
+
+        .org-card {
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            padding: 10px 14px;
+            min-width: 140px;
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+        }
+
+        .org-card.clickable {
+            cursor: pointer;
+        }
+
+        .org-name {
+            font-weight: bold;
+            margin-bottom: 6px;
+        }
+
+        .org-meta {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .group-badge {
+            display: inline-block;
+            min-width: 18px;
+            padding: 1px 6px;
+            margin-right: 6px;
+            border-radius: 9px;
+            text-align: center;
+            font-weight: bold;
+            font-size: 12px;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+
+        table {
+            border-collapse: collapse;
+        }
+
+        th, td {
+            border: 1px solid var(--vscode-panel-border);
+            padding: 6px 12px;
+            text-align: center;
+        }
+
+        th {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+            font-weight: 600;
+        }
+
+        td.same {
+            color: var(--vscode-testing-iconPassed);
+        }
+
+        td.different {
+            color: var(--vscode-testing-iconFailed);
+            cursor: pointer;
+            font-weight: bold;
+        }
+
+        td.different:hover, td.same.clickable:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+
+        td.same.clickable {
+            cursor: pointer;
+        }
+
+        td.missing, td.diagonal {
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .legend {
+            margin-top: 12px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .loading {
+            text-align: center;
+            padding: 40px;
+            color: var(--vscode-descriptionForeground);
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div>
+            <h1 id="component-title">Component Matrix</h1>
+            <p id="component-subtitle"></p>
+        </div>
+        <button class="btn" onclick="refreshMatrix()">Refresh</button>
+    </div>
+
+    <div id="loading" class="loading">Building matrix...</div>
+
+    <div id="main-content" style="display: none;">
+        <div class="orgs" id="orgs"></div>
+        <table id="matrix"></table>
+        <div class="legend">
+            = identical content &nbsp;·&nbsp; ≠ different content (click to diff) &nbsp;·&nbsp; — missing in one org
+        </div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+
+            switch (message.command) {
+                case 'matrixData':
+                    renderMatrix(message.data);
+                    break;
+            }
+        });
+
+        vscode.postMessage({ command: 'getMatrix' });
+
+        function escapeHtml(value) {
+            return String(value)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;');
+        }
+
+        function renderMatrix(data) {
+            const { component, cells, builtAt } = data;
+
+            document.getElementById('loading').style.display = 'none';
+            document.getElementById('main-content').style.display = 'block';
+            document.getElementById('component-title').textContent = component.fullName;
+
+            const groups = new Set(cells.filter(cell => cell.group).map(cell => cell.group));
+            document.getElementById('component-subtitle').textContent =
+                \`\${component.type} · present in \${cells.filter(cell => cell.present).length}/\${cells.length} orgs · \${groups.size} distinct version(s) · built \${new Date(builtAt).toLocaleString()}\`;
+
+            document.getElementById('orgs').innerHTML = cells.map(cell => {
+                let status;
+                if (!cell.retrieved) {
+                    status = 'Not retrieved';
+                } else if (!cell.present) {
+                    status = 'Missing';
+                } else {
+                    status = \`<span class="group-badge">\${cell.group}</span>\${cell.fileCount} file(s) · \${cell.hash}\`;
+                }
+
+                return \`
+                    <div class="org-card \${cell.present ? 'clickable' : ''}" \${cell.present ? \`onclick="openCell('\${escapeHtml(cell.sourceId)}')"\` : ''}>
+                        <div class="org-name">\${escapeHtml(cell.sourceLabel)}</div>
+                        <div class="org-meta">\${status}</div>
+                    </div>
+                \`;
+            }).join('');
+
+            const header = '<tr><th></th>' + cells.map(cell => \`<th>\${escapeHtml(cell.sourceLabel)}</th>\`).join('') + '</tr>';
+            const rows = cells.map(row => {
+                const columns = cells.map(column => {
+                    if (row.sourceId === column.sourceId) {
+                        return \`<td class="diagonal">\${row.group || '—'}</td>\`;
+                    }
+                    if (!row.present || !column.present) {
+                        return '<td class="missing">—</td>';
+                    }
+                    const diffCall = \`onclick="diffCells('\${escapeHtml(row.sourceId)}', '\${escapeHtml(column.sourceId)}')"\`;
+                    return row.group === column.group
+                        ? \`<td class="same clickable" title="Identical" \${diffCall}>=</td>\`
+                        : \`<td class="different" title="Different - click to diff" \${diffCall}>≠</td>\`;
+                }).join('');
+                return \`<tr><th>\${escapeHtml(row.sourceLabel)}</th>\${columns}</tr>\`;
+            }).join('');
+
+            document.getElementById('matrix').innerHTML = header + rows;
+        }
+
+        function diffCells(leftId, rightId) {
+            vscode.postMessage({ command: 'diffCells', leftId, rightId });
+        }
+
+        function openCell(sourceId) {
+            vscode.postMessage({ command: 'openCell', sourceId });
+        }
+
+        function refreshMatrix() {
+            document.getElementById('loading').style.display = 'block';
+            document.getElementById('main-content').style.display = 'none';
+            vscode.postMessage({ command: 'refreshMatrix' });
+        }
+    </script>
+</body>
+</html>`;
+    }
+}
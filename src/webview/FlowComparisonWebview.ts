@@ -0,0 +1,444 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FlowComparisonService } from '../services/FlowComparisonService';
+import { ComparisonFilePair, FlowComparisonResult } from '../types';
+
+/**
+ * Webview showing the structural differences between two versions of a flow
+ */
+export class FlowComparisonWebview {
+    private panel: vscode.WebviewPanel | undefined;
+    private context: vscode.ExtensionContext;
+    private flowComparisonService: FlowComparisonService;
+    private target: ComparisonFilePair | undefined;
+    private result: FlowComparisonResult | undefined;
+
+    constructor(context: vscode.ExtensionContext, flowComparisonService: FlowComparisonService) {
+        this.context = context;
+        this.flowComparisonService = flowComparisonService;
+    }
+
+    /**
+     * Compare two flow files and show nodes, connectors, resources and property changes
+     */
+    public async show(target: ComparisonFilePair): Promise<void> {
+        const fileName = path.basename(target.rightPath);
+        if (!FlowComparisonService.isFlowFile(path.basename(target.leftPath)) || !FlowComparisonService.isFlowFile(fileName)) {
+            vscode.window.showWarningMessage('Flow comparison is only available for .flow-meta.xml files.');
+            return;
+        }
+
+        this.result = await this.flowComparisonService.compareFiles(target.leftPath, target.rightPath);
+        this.target = target;
+
+        if (this.panel) {
+            this.panel.reveal();
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'flowComparison',
+                'Flow Comparison',
+                vscode.ViewColumn.One,
+                {
+                    enableScripts: true,
+                    localResourceRoots: [
+                        vscode.Uri.file(path.join(this.context.extensionPath, 'media'))
+                    ]
+                }
+            );
+
+            this.panel.webview.html = this.getWebviewContent();
+            this.setupWebviewMessageHandling();
+
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.target = undefined;
+                this.result = undefined;
+            });
+        }
+
+        this.panel.title = `Flow: ${fileName.replace('.flow-meta.xml', '')}`;
+        this.sendResultData();
+    }
+
+    /**
+     * Setup message handling between webview and extension
+     */
+    private setupWebviewMessageHandling(): void {
+        this.panel!.webview.onDidReceiveMessage(async (message) => {
+            switch (message.command) {
+                case 'getResult':
+                    this.sendResultData();
+                    break;
+
+                case 'openTextDiff':
+                    await this.handleOpenTextDiff();
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Send the comparison result to the webview
+     */
+    private sendResultData(): void {
+        if (!this.panel || !this.result || !this.target) {
+            return;
+        }
+
+        this.panel.webview.postMessage({
+            command: 'resultData',
+            data: {
+                flowName: path.basename(this.target.rightPath).replace('.flow-meta.xml', ''),
+                leftLabel: this.target.leftLabel,
+                rightLabel: this.target.rightLabel,
+                result: this.result
+            }
+        });
+    }
+
+    /**
+     * Open the regular line-based diff of the same two files
+     */
+    private async handleOpenTextDiff(): Promise<void> {
+        if (!this.target) {
+            return;
+        }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            vscode.Uri.file(this.target.leftPath),
+            vscode.Uri.file(this.target.rightPath),
+            `${this.target.leftLabel} ↔ ${this.target.rightLabel}: ${path.basename(this.target.rightPath)}`
+        );
+    }
+
+    /**
+     * Generate the HTML content for the webview
+     */
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Flow Comparison</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+
+        .header {
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 15px;
+            margin-bottom: 20px;
+            display: flex;
+            justify-content: space-between;
+            align-items: flex-start;
+        }
+
+        .header h1 {
+            margin: 0 0 6px 0;
+            font-size: 20px;
+        }
+
+        .header p {
+            margin: 0;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .btn {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 14px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 13px;
+        }
+
+        .btn:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+
+        .stats {
+            display: flex;
+            gap: 12px;
+            margin-bottom: 20px;
+        }
+
+        .stat-item {
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            padding: 10px 16px;
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+        }
+
+        .stat-label {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .stat-value {
+            font-size: 16px;
+            font-weight: bold;
+        }
+
+        .stat-value.changed {
+            color: var(--vscode-gitDecoration-modifiedResourceForeground);
+        }
+
+        .toolbar {
+            display: flex;
+            gap: 12px;
+            align-items: center;
+            margin-bottom: 16px;
+        }
+
+        .toolbar input[type="text"] {
+            flex: 1;
+            padding: 4px 8px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+        }
+
+        .section {
+            margin-bottom: 22px;
+        }
+
+        .section-title {
+            font-weight: bold;
+            margin-bottom: 6px;
+        }
+
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            table-layout: fixed;
+        }
+
+        th, td {
+            border: 1px solid var(--vscode-panel-border);
+            padding: 4px 8px;
+            text-align: left;
+            vertical-align: top;
+            word-break: break-word;
+        }
+
+        th {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+            font-weight: 600;
+        }
+
+        th.kind, td.kind {
+            width: 80px;
+        }
+
+        td.added {
+            color: var(--vscode-gitDecoration-addedResourceForeground);
+        }
+
+        td.removed {
+            color: var(--vscode-gitDecoration-deletedResourceForeground);
+        }
+
+        td.changed {
+            color: var(--vscode-gitDecoration-modifiedResourceForeground);
+        }
+
+        ul.details {
+            margin: 0;
+            padding-left: 16px;
+        }
+
+        .identical, .loading {
+            text-align: center;
+            padding: 40px;
+            color: var(--vscode-descriptionForeground);
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div>
+            <h1 id="title">Flow Comparison</h1>
+            <p id="subtitle"></p>
+        </div>
+        <button class="btn" onclick="openTextDiff()">Open Text Diff</button>
+    </div>
+
+    <div id="loading" class="loading">Comparing flows...</div>
+
+    <div id="main-content" style="display: none;">
+        <div class="stats" id="stats"></div>
+        <div class="toolbar">
+            <label><input type="checkbox" class="kind-filter" value="added" checked onchange="render()"> Added</label>
+            <label><input type="checkbox" class="kind-filter" value="removed" checked onchange="render()"> Removed</label>
+            <label><input type="checkbox" class="kind-filter" value="changed" checked onchange="render()"> Modified / Rewired</label>
+            <input type="text" id="search" placeholder="Filter by element name..." oninput="render()">
+        </div>
+        <div id="sections"></div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        let resultData = null;
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+
+            switch (message.command) {
+                case 'resultData':
+                    resultData = message.data;
+                    render();
+                    break;
+            }
+        });
+
+        vscode.postMessage({ command: 'getResult' });
+
+        function escapeHtml(value) {
+            return String(value ?? '')
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;');
+        }
+
+        function renderStat(label, left, right) {
+            const changed = (left || '') !== (right || '');
+            const value = changed ? \`\${escapeHtml(left || '—')} → \${escapeHtml(right || '—')}\` : escapeHtml(right || '—');
+            return \`<div class="stat-item"><div class="stat-label">\${label}</div><div class="stat-value \${changed ? 'changed' : ''}">\${value}</div></div>\`;
+        }
+
+        function renderCount(label, count) {
+            return \`<div class="stat-item"><div class="stat-label">\${label}</div><div class="stat-value">\${count}</div></div>\`;
+        }
+
+        function renderDetails(details) {
+            if (!details.length) {
+                return '';
+            }
+            return '<ul class="details">' + details.map(detail =>
+                \`<li>\${escapeHtml(detail.path)}: \${escapeHtml(detail.leftValue ?? '—')} → \${escapeHtml(detail.rightValue ?? '—')}</li>\`
+            ).join('') + '</ul>';
+        }
+
+        function renderElementSection(title, changes) {
+            if (!changes.length) {
+                return '';
+            }
+            return \`
+                <div class="section">
+                    <div class="section-title">\${title} (\${changes.length})</div>
+                    <table>
+                        <tr><th class="kind">Change</th><th>Type</th><th>Name</th><th>Details</th></tr>
+                        \${changes.map(change => \`
+                            <tr>
+                                <td class="kind \${change.kind}">\${change.kind === 'changed' ? 'modified' : change.kind}</td>
+                                <td>\${escapeHtml(change.elementType)}</td>
+                                <td>\${escapeHtml(change.name)}\${change.label ? \`<br><small>\${escapeHtml(change.label)}</small>\` : ''}</td>
+                                <td>\${renderDetails(change.details)}</td>
+                            </tr>
+                        \`).join('')}
+                    </table>
+                </div>
+            \`;
+        }
+
+        function render() {
+            if (!resultData) {
+                return;
+            }
+
+            const { flowName, leftLabel, rightLabel, result } = resultData;
+
+            document.getElementById('loading').style.display = 'none';
+            document.getElementById('main-content').style.display = 'block';
+            document.getElementById('title').textContent = flowName;
+            document.getElementById('subtitle').textContent = \`\${leftLabel} → \${rightLabel}\`;
+            document.getElementById('stats').innerHTML =
+                renderStat('Status', result.leftStatus, result.rightStatus) +
+                renderStat('API Version', result.leftApiVersion, result.rightApiVersion) +
+                renderCount('Element Changes', result.nodes.length) +
+                renderCount('Connector Changes', result.connectors.length);
+
+            const container = document.getElementById('sections');
+            if (result.identical) {
+                container.innerHTML = '<div class="identical">The flows are structurally identical - only canvas layout or formatting differs.</div>';
+                return;
+            }
+
+            const kinds = Array.from(document.querySelectorAll('.kind-filter'))
+                .filter(checkbox => checkbox.checked)
+                .map(checkbox => checkbox.value);
+            const search = document.getElementById('search').value.toLowerCase();
+            const matches = (kind, ...values) =>
+                kinds.includes(kind) && (!search || values.some(value => (value || '').toLowerCase().includes(search)));
+
+            const properties = result.properties.filter(change => matches(change.kind, change.path));
+            const nodes = result.nodes.filter(change => matches(change.kind, change.name, change.label));
+            const resources = result.resources.filter(change => matches(change.kind, change.name));
+            const connectors = result.connectors.filter(change => matches(change.kind, change.source, change.leftTarget, change.rightTarget));
+
+            let html = '';
+
+            if (properties.length) {
+                html += \`
+                    <div class="section">
+                        <div class="section-title">Flow Properties (\${properties.length})</div>
+                        <table>
+                            <tr><th class="kind">Change</th><th>Property</th><th>\${escapeHtml(leftLabel)}</th><th>\${escapeHtml(rightLabel)}</th></tr>
+                            \${properties.map(change => \`
+                                <tr>
+                                    <td class="kind \${change.kind}">\${change.kind}</td>
+                                    <td>\${escapeHtml(change.path)}</td>
+                                    <td>\${escapeHtml(change.leftValue)}</td>
+                                    <td>\${escapeHtml(change.rightValue)}</td>
+                                </tr>
+                            \`).join('')}
+                        </table>
+                    </div>
+                \`;
+            }
+
+            html += renderElementSection('Elements', nodes);
+
+            if (connectors.length) {
+                html += \`
+                    <div class="section">
+                        <div class="section-title">Connectors (\${connectors.length})</div>
+                        <table>
+                            <tr><th class="kind">Change</th><th>From</th><th>Connector</th><th>\${escapeHtml(leftLabel)} target</th><th>\${escapeHtml(rightLabel)} target</th></tr>
+                            \${connectors.map(change => \`
+                                <tr>
+                                    <td class="kind \${change.kind}">\${change.kind === 'changed' ? 'rewired' : change.kind}</td>
+                                    <td>\${escapeHtml(change.source)}</td>
+                                    <td>\${escapeHtml(change.connector)}</td>
+                                    <td>\${escapeHtml(change.leftTarget ?? '—')}</td>
+                                    <td>\${escapeHtml(change.rightTarget ?? '—')}</td>
+                                </tr>
+                            \`).join('')}
+                        </table>
+                    </div>
+                \`;
+            }
+
+            html += renderElementSection('Resources', resources);
+
+            container.innerHTML = html || '<div class="identical">No changes match the current filter.</div>';
+        }
+
+        function openTextDiff() {
+            vscode.postMessage({ command: 'openTextDiff' });
+        }
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,431 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { TextDiffService } from '../services/TextDiffService';
+import { ComparisonFilePair, DiffLine, MergeSide, TextDiffHunk } from '../types';
+
+/**
+ * Webview merging individual hunks of an organization file into the matching workspace file
+ * The left side of the pair is the organization file, the right side the workspace file that receives the merge
+ */
+export class HunkMergeWebview {
+    private panel: vscode.WebviewPanel | undefined;
+    private context: vscode.ExtensionContext;
+    private textDiffService: TextDiffService;
+    private target: ComparisonFilePair | undefined;
+    private localText: string | undefined;
+    private lines: DiffLine[] = [];
+    private hunks: TextDiffHunk[] = [];
+
+    constructor(context: vscode.ExtensionContext, textDiffService: TextDiffService) {
+        this.context = context;
+        this.textDiffService = textDiffService;
+    }
+
+    /**
+     * Diff an organization file against a workspace file and show its hunks for merging
+     */
+    public async show(target: ComparisonFilePair): Promise<void> {
+        this.target = target;
+        await this.loadDiff();
+
+        if (this.panel) {
+            this.panel.reveal();
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'hunkMerge',
+                'Merge',
+                vscode.ViewColumn.One,
+                {
+                    enableScripts: true,
+                    localResourceRoots: [
+                        vscode.Uri.file(path.join(this.context.extensionPath, 'media'))
+                    ]
+                }
+            );
+
+            this.panel.webview.html = this.getWebviewContent();
+            this.setupWebviewMessageHandling();
+
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.target = undefined;
+                this.localText = undefined;
+                this.lines = [];
+                this.hunks = [];
+            });
+        }
+
+        this.panel.title = `Merge: ${path.basename(target.rightPath)}`;
+        this.sendResultData();
+    }
+
+    /**
+     * Diff the organization file against the current workspace content, including unsaved editor changes
+     */
+    private async loadDiff(): Promise<void> {
+        const orgText = await fs.promises.readFile(this.target!.leftPath, 'utf8');
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(this.target!.rightPath));
+
+        this.localText = document.getText();
+        this.lines = this.textDiffService.diffLines(orgText, this.localText);
+        this.hunks = this.textDiffService.toHunks(this.lines);
+    }
+
+    /**
+     * Setup message handling between webview and extension
+     */
+    private setupWebviewMessageHandling(): void {
+        this.panel!.webview.onDidReceiveMessage(async (message) => {
+            switch (message.command) {
+                case 'getResult':
+                    this.sendResultData();
+                    break;
+
+                case 'applyMerge':
+                    await this.handleApplyMerge(message.choices);
+                    break;
+
+                case 'openTextDiff':
+                    await this.handleOpenTextDiff();
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Send the current hunks to the webview
+     */
+    private sendResultData(): void {
+        if (!this.panel || !this.target) {
+            return;
+        }
+
+        this.panel.webview.postMessage({
+            command: 'resultData',
+            data: {
+                fileName: path.basename(this.target.rightPath),
+                leftLabel: this.target.leftLabel,
+                rightLabel: this.target.rightLabel,
+                hunks: this.hunks.map(hunk => ({
+                    header: `@@ -${hunk.leftStart},${hunk.leftCount} +${hunk.rightStart},${hunk.rightCount} @@`,
+                    rows: this.textDiffService.toSideBySide(hunk.lines)
+                }))
+            }
+        });
+    }
+
+    /**
+     * Write the merged content into the workspace file
+     * The edit goes through a WorkspaceEdit so it can be undone from the editor
+     */
+    private async handleApplyMerge(choices: MergeSide[]): Promise<void> {
+        if (!this.target || this.localText === undefined) {
+            return;
+        }
+
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(this.target.rightPath));
+            if (document.getText() !== this.localText) {
+                vscode.window.showWarningMessage(`${path.basename(this.target.rightPath)} changed since the merge was opened. The hunks have been refreshed - review them and apply again.`);
+                await this.loadDiff();
+                this.sendResultData();
+                return;
+            }
+
+            const acceptedCount = choices.filter(choice => choice === MergeSide.Left).length;
+            if (acceptedCount === 0) {
+                vscode.window.showInformationMessage('No hunks selected from the organization - the local file is unchanged.');
+                return;
+            }
+
+            const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+            const merged = this.textDiffService.mergeHunks(this.lines, this.hunks, choices);
+            const finalNewline = this.localText === '' ? merged.length > 0 : /\n$/.test(this.localText);
+            const mergedText = merged.join(eol) + (finalNewline && merged.length > 0 ? eol : '');
+
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(this.localText.length)), mergedText);
+            if (!await vscode.workspace.applyEdit(edit)) {
+                throw new Error(`Could not edit ${document.uri.fsPath}`);
+            }
+            await document.save();
+
+            vscode.window.showInformationMessage(
+                `Merged ${acceptedCount} of ${this.hunks.length} hunks from ${this.target.leftLabel} into ${path.basename(this.target.rightPath)}`
+            );
+
+            await this.loadDiff();
+            this.sendResultData();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to apply merge: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Open the regular line-based diff of the same two files
+     */
+    private async handleOpenTextDiff(): Promise<void> {
+        if (!this.target) {
+            return;
+        }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            vscode.Uri.file(this.target.leftPath),
+            vscode.Uri.file(this.target.rightPath),
+            `${this.target.leftLabel} ↔ ${this.target.rightLabel}: ${path.basename(this.target.rightPath)}`
+        );
+    }
+
+    /**
+     * Generate the HTML content for the webview
+     */
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Merge</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+
+        .header {
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 15px;
+            margin-bottom: 20px;
+            display: flex;
+            justify-content: space-between;
+            align-items: flex-start;
+        }
+
+        .header h1 {
+            margin: 0 0 6px 0;
+            font-size: 20px;
+        }
+
+        .header p {
+            margin: 0;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .btn {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 14px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 13px;
+        }
+
+        .btn:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+
+        .btn.secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        .toolbar {
+            display: flex;
+            gap: 12px;
+            align-items: center;
+            margin-bottom: 16px;
+        }
+
+        .toolbar .summary {
+            flex: 1;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .hunk {
+            margin-bottom: 18px;
+        }
+
+        .hunk-header {
+            display: flex;
+            gap: 12px;
+            align-items: center;
+            margin-bottom: 6px;
+        }
+
+        .hunk-header code {
+            flex: 1;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            table-layout: fixed;
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+        }
+
+        td {
+            border: 1px solid var(--vscode-panel-border);
+            padding: 1px 6px;
+            vertical-align: top;
+            white-space: pre-wrap;
+            word-break: break-all;
+        }
+
+        td.number {
+            width: 40px;
+            text-align: right;
+            color: var(--vscode-editorLineNumber-foreground);
+        }
+
+        td.removed, td.changed-left {
+            background-color: var(--vscode-diffEditor-removedTextBackground);
+        }
+
+        td.added, td.changed-right {
+            background-color: var(--vscode-diffEditor-insertedTextBackground);
+        }
+
+        td.rejected {
+            opacity: 0.4;
+        }
+
+        .empty, .loading {
+            text-align: center;
+            padding: 40px;
+            color: var(--vscode-descriptionForeground);
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div>
+            <h1 id="title">Merge</h1>
+            <p id="subtitle"></p>
+        </div>
+        <button class="btn secondary" onclick="openTextDiff()">Open Text Diff</button>
+    </div>
+
+    <div id="loading" class="loading">Comparing...</div>
+
+    <div id="main-content" style="display: none;">
+        <div class="toolbar">
+            <span id="summary" class="summary"></span>
+            <button class="btn secondary" onclick="chooseAll('left')">Take All From Org</button>
+            <button class="btn secondary" onclick="chooseAll('right')">Keep All Local</button>
+            <button class="btn" id="apply" onclick="applyMerge()">Apply to Local File</button>
+        </div>
+        <div id="hunks"></div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        let resultData = null;
+        let choices = [];
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+
+            switch (message.command) {
+                case 'resultData':
+                    resultData = message.data;
+                    choices = resultData.hunks.map(() => 'right');
+                    render();
+                    break;
+            }
+        });
+
+        vscode.postMessage({ command: 'getResult' });
+
+        function escapeHtml(value) {
+            return String(value ?? '')
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;');
+        }
+
+        function cellClass(row, side, choice) {
+            if (row.kind === 'equal') {
+                return '';
+            }
+            const changed = row.kind === 'changed' ? 'changed-' + side : row.kind;
+            const rejected = (side === 'left') !== (choice === 'left') ? ' rejected' : '';
+            return changed + rejected;
+        }
+
+        function render() {
+            if (!resultData) {
+                return;
+            }
+
+            const { fileName, leftLabel, rightLabel, hunks } = resultData;
+
+            document.getElementById('loading').style.display = 'none';
+            document.getElementById('main-content').style.display = 'block';
+            document.getElementById('title').textContent = fileName;
+            document.getElementById('subtitle').textContent = \`\${leftLabel} → \${rightLabel}\`;
+
+            const accepted = choices.filter(choice => choice === 'left').length;
+            document.getElementById('summary').textContent =
+                \`\${hunks.length} hunks · \${accepted} taken from \${leftLabel}, \${hunks.length - accepted} kept local\`;
+            document.getElementById('apply').disabled = hunks.length === 0;
+
+            const container = document.getElementById('hunks');
+
+            if (hunks.length === 0) {
+                container.innerHTML = '<div class="empty">The local file matches the organization file.</div>';
+                return;
+            }
+
+            container.innerHTML = hunks.map((hunk, index) => \`
+                <div class="hunk">
+                    <div class="hunk-header">
+                        <code>\${escapeHtml(hunk.header)}</code>
+                        <label><input type="radio" name="hunk-\${index}" value="left" \${choices[index] === 'left' ? 'checked' : ''} onchange="choose(\${index}, 'left')"> \${escapeHtml(leftLabel)}</label>
+                        <label><input type="radio" name="hunk-\${index}" value="right" \${choices[index] === 'right' ? 'checked' : ''} onchange="choose(\${index}, 'right')"> \${escapeHtml(rightLabel)}</label>
+                    </div>
+                    <table>
+                        \${hunk.rows.map(row => \`
+                            <tr>
+                                <td class="number">\${row.left ? row.left.number : ''}</td>
+                                <td class="\${cellClass(row, 'left', choices[index])}">\${row.left ? escapeHtml(row.left.text) : ''}</td>
+                                <td class="number">\${row.right ? row.right.number : ''}</td>
+                                <td class="\${cellClass(row, 'right', choices[index])}">\${row.right ? escapeHtml(row.right.text) : ''}</td>
+                            </tr>
+                        \`).join('')}
+                    </table>
+                </div>
+            \`).join('');
+        }
+
+        function choose(index, side) {
+            choices[index] = side;
+            render();
+        }
+
+        function chooseAll(side) {
+            choices = choices.map(() => side);
+            render();
+        }
+
+        function applyMerge() {
+            vscode.postMessage({ command: 'applyMerge', choices });
+        }
+
+        function openTextDiff() {
+            vscode.postMessage({ command: 'openTextDiff' });
+        }
+    </script>
+</body>
+</html>`;
+    }
+}
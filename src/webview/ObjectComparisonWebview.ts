@@ -0,0 +1,462 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EnhancedOrgManager } from '../metadata/EnhancedOrgManager';
+import { OBJECT_MEMBER_CATEGORY_LABELS, OBJECT_MEMBER_COLUMNS, ObjectComparisonService } from '../services/ObjectComparisonService';
+import { ProgressManager } from '../progress/ProgressManager';
+import { ObjectComparisonResult } from '../types';
+
+/**
+ * Webview showing the field and validation rule differences of one object described in two orgs
+ */
+export class ObjectComparisonWebview {
+    private panel: vscode.WebviewPanel | undefined;
+    private context: vscode.ExtensionContext;
+    private enhancedOrgManager: EnhancedOrgManager;
+    private objectComparisonService: ObjectComparisonService;
+    private progressManager: ProgressManager;
+    private target: { objectName: string; leftOrgId: string; rightOrgId: string } | undefined;
+    private result: ObjectComparisonResult | undefined;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        enhancedOrgManager: EnhancedOrgManager,
+        objectComparisonService: ObjectComparisonService
+    ) {
+        this.context = context;
+        this.enhancedOrgManager = enhancedOrgManager;
+        this.objectComparisonService = objectComparisonService;
+        this.progressManager = ProgressManager.getInstance();
+    }
+
+    /**
+     * Describe an object in two orgs and show the member tables
+     */
+    public async show(objectName: string, leftOrgId: string, rightOrgId: string): Promise<void> {
+        this.result = await this.compare(objectName, leftOrgId, rightOrgId);
+        this.target = { objectName, leftOrgId, rightOrgId };
+
+        if (this.panel) {
+            this.panel.reveal();
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'objectComparison',
+                'Object Comparison',
+                vscode.ViewColumn.One,
+                {
+                    enableScripts: true,
+                    localResourceRoots: [
+                        vscode.Uri.file(path.join(this.context.extensionPath, 'media'))
+                    ]
+                }
+            );
+
+            this.panel.webview.html = this.getWebviewContent();
+            this.setupWebviewMessageHandling();
+
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.target = undefined;
+                this.result = undefined;
+            });
+        }
+
+        this.panel.title = `Object: ${objectName}`;
+        this.sendResultData();
+    }
+
+    /**
+     * Ask for two orgs and, unless given, the object API name, then show the comparison
+     */
+    public async showFromPrompt(objectName?: string): Promise<void> {
+        const candidates = this.enhancedOrgManager.getOrgs().map(org => ({
+            id: org.id,
+            label: org.alias || org.username,
+            description: org.username
+        }));
+        if (candidates.length < 2) {
+            vscode.window.showWarningMessage('Add at least two organizations to compare objects.');
+            return;
+        }
+
+        const left = await vscode.window.showQuickPick(candidates, { placeHolder: 'Select the first organization' });
+        if (!left) {
+            return;
+        }
+
+        const right = await vscode.window.showQuickPick(
+            candidates.filter(candidate => candidate.id !== left.id),
+            { placeHolder: `Select the organization to compare with ${left.label}` }
+        );
+        if (!right) {
+            return;
+        }
+
+        const name = objectName || await vscode.window.showInputBox({
+            prompt: 'Enter the API name of the object',
+            placeHolder: 'Account or MyObject__c',
+            validateInput: value => value.trim() ? undefined : 'Object API name is required'
+        });
+        if (!name) {
+            return;
+        }
+
+        await this.show(name.trim(), left.id, right.id);
+    }
+
+    /**
+     * Describe the object in both orgs and compare the results
+     */
+    private async compare(objectName: string, leftOrgId: string, rightOrgId: string): Promise<ObjectComparisonResult> {
+        return this.progressManager.withProgress('OBJECT_COMPARISON', async (progress) => {
+            progress.startStep(0, `Describing ${objectName}`);
+            const [left, right] = await Promise.all([
+                this.enhancedOrgManager.describeObject(leftOrgId, objectName),
+                this.enhancedOrgManager.describeObject(rightOrgId, objectName)
+            ]);
+            progress.completeStep(0);
+
+            progress.startStep(1);
+            const result = this.objectComparisonService.compareMetadata(left, right);
+            progress.completeStep(1);
+
+            return result;
+        });
+    }
+
+    /**
+     * Setup message handling between webview and extension
+     */
+    private setupWebviewMessageHandling(): void {
+        this.panel!.webview.onDidReceiveMessage(async (message) => {
+            switch (message.command) {
+                case 'getResult':
+                    this.sendResultData();
+                    break;
+
+                case 'refresh':
+                    await this.handleRefresh();
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Send the comparison result and column definitions to the webview
+     */
+    private sendResultData(): void {
+        if (!this.panel || !this.result || !this.target) {
+            return;
+        }
+
+        this.panel.webview.postMessage({
+            command: 'resultData',
+            data: {
+                objectName: this.result.objectName,
+                leftName: this.getOrgLabel(this.target.leftOrgId),
+                rightName: this.getOrgLabel(this.target.rightOrgId),
+                identical: this.result.identical,
+                categories: Object.entries(OBJECT_MEMBER_CATEGORY_LABELS).map(([id, label]) => ({
+                    id,
+                    label,
+                    columns: OBJECT_MEMBER_COLUMNS[id as keyof typeof OBJECT_MEMBER_COLUMNS]
+                })),
+                rows: this.result.rows
+            }
+        });
+    }
+
+    /**
+     * Describe the object again in both orgs
+     */
+    private async handleRefresh(): Promise<void> {
+        if (!this.target) {
+            return;
+        }
+
+        try {
+            this.result = await this.compare(this.target.objectName, this.target.leftOrgId, this.target.rightOrgId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to refresh object comparison: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        // Resend even on failure so the webview leaves its loading state
+        this.sendResultData();
+    }
+
+    /**
+     * Get the display name of an org
+     */
+    private getOrgLabel(orgId: string): string {
+        const org = this.enhancedOrgManager.getOrg(orgId);
+        return org ? org.alias || org.username : orgId;
+    }
+
+    /**
+     * Generate the HTML content for the webview
+     */
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Object Comparison</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+
+        .header {
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 15px;
+            margin-bottom: 20px;
+            display: flex;
+            justify-content: space-between;
+            align-items: flex-start;
+        }
+
+        .header h1 {
+            margin: 0 0 6px 0;
+            font-size: 20px;
+        }
+
+        .header p {
+            margin: 0;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .btn {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 14px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 13px;
+        }
+
+        .btn:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+
+        .toolbar {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 12px;
+            align-items: center;
+            margin-bottom: 16px;
+        }
+
+        .toolbar input[type="text"] {
+            flex: 1;
+            min-width: 160px;
+            padding: 4px 8px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+        }
+
+        .category {
+            margin-bottom: 22px;
+        }
+
+        .category-title {
+            font-weight: bold;
+            margin-bottom: 6px;
+        }
+
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+
+        th, td {
+            border: 1px solid var(--vscode-panel-border);
+            padding: 4px 10px;
+            text-align: left;
+            vertical-align: top;
+            word-break: break-word;
+        }
+
+        th {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+            font-weight: 600;
+        }
+
+        td.name {
+            font-family: var(--vscode-editor-font-family);
+        }
+
+        td.formula {
+            font-family: var(--vscode-editor-font-family);
+            white-space: pre-wrap;
+        }
+
+        td.diff {
+            color: var(--vscode-gitDecoration-modifiedResourceForeground);
+            background-color: var(--vscode-diffEditor-insertedTextBackground);
+        }
+
+        td.only-left {
+            color: var(--vscode-gitDecoration-deletedResourceForeground);
+        }
+
+        td.only-right {
+            color: var(--vscode-gitDecoration-addedResourceForeground);
+        }
+
+        .arrow {
+            font-weight: bold;
+        }
+
+        .empty, .loading {
+            text-align: center;
+            padding: 40px;
+            color: var(--vscode-descriptionForeground);
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div>
+            <h1 id="title">Object Comparison</h1>
+            <p id="subtitle"></p>
+        </div>
+        <button class="btn" onclick="refresh()">Refresh</button>
+    </div>
+
+    <div id="loading" class="loading">Describing objects...</div>
+
+    <div id="main-content" style="display: none;">
+        <div class="toolbar" id="category-filters"></div>
+        <div class="toolbar">
+            <label><input type="checkbox" id="only-differences" checked onchange="render()"> Only differences</label>
+            <input type="text" id="search" placeholder="Filter by API name..." oninput="render()">
+        </div>
+        <div id="tables"></div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        let resultData = null;
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+
+            switch (message.command) {
+                case 'resultData':
+                    resultData = message.data;
+                    initializeFilters();
+                    render();
+                    break;
+            }
+        });
+
+        vscode.postMessage({ command: 'getResult' });
+
+        function escapeHtml(value) {
+            return String(value ?? '')
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;');
+        }
+
+        function isDifferent(row) {
+            return !row.left || !row.right || row.differences.length > 0;
+        }
+
+        function initializeFilters() {
+            document.getElementById('loading').style.display = 'none';
+            document.getElementById('main-content').style.display = 'block';
+            document.getElementById('title').textContent = resultData.objectName;
+            document.getElementById('subtitle').textContent = resultData.identical
+                ? \`Fields and validation rules are identical in \${resultData.leftName} and \${resultData.rightName}\`
+                : \`Cells show \${resultData.leftName} → \${resultData.rightName}\`;
+
+            const checked = new Set(Array.from(document.querySelectorAll('.category-filter'))
+                .filter(checkbox => checkbox.checked)
+                .map(checkbox => checkbox.value));
+            document.getElementById('category-filters').innerHTML = resultData.categories.map(category => {
+                const differing = resultData.rows.filter(row => row.category === category.id && isDifferent(row)).length;
+                const isChecked = checked.size === 0 || checked.has(category.id) ? 'checked' : '';
+                return \`<label><input type="checkbox" class="category-filter" value="\${category.id}" \${isChecked} onchange="render()"> \${category.label} (\${differing})</label>\`;
+            }).join('');
+        }
+
+        function formatValue(column, value) {
+            if (column.boolean) {
+                return value === 'true' ? '✓' : '✗';
+            }
+            return value ? escapeHtml(value) : '—';
+        }
+
+        function renderCells(row, columns) {
+            if (!row.left || !row.right) {
+                const onlyIn = row.left ? resultData.leftName : resultData.rightName;
+                const cssClass = row.left ? 'only-left' : 'only-right';
+                return \`<td class="\${cssClass}" colspan="\${columns.length}">Only in \${escapeHtml(onlyIn)}</td>\`;
+            }
+
+            return columns.map(column => {
+                const formulaClass = column.boolean ? '' : ' formula';
+                if (!row.differences.includes(column.name)) {
+                    return \`<td class="\${formulaClass.trim()}">\${formatValue(column, row.right[column.name])}</td>\`;
+                }
+                return \`<td class="diff\${formulaClass}">\${formatValue(column, row.left[column.name])} <span class="arrow">→</span> \${formatValue(column, row.right[column.name])}</td>\`;
+            }).join('');
+        }
+
+        function render() {
+            if (!resultData) {
+                return;
+            }
+
+            const categories = Array.from(document.querySelectorAll('.category-filter'))
+                .filter(checkbox => checkbox.checked)
+                .map(checkbox => checkbox.value);
+            const onlyDifferences = document.getElementById('only-differences').checked;
+            const search = document.getElementById('search').value.toLowerCase();
+
+            const html = resultData.categories
+                .filter(category => categories.includes(category.id))
+                .map(category => {
+                    const rows = resultData.rows.filter(row =>
+                        row.category === category.id &&
+                        (!onlyDifferences || isDifferent(row)) &&
+                        (!search || row.name.toLowerCase().includes(search))
+                    );
+                    if (rows.length === 0) {
+                        return '';
+                    }
+
+                    const header = '<tr><th>API Name</th>' + category.columns.map(column => \`<th>\${column.label}</th>\`).join('') + '</tr>';
+                    const body = rows.map(row =>
+                        \`<tr><td class="name">\${escapeHtml(row.name)}</td>\${renderCells(row, category.columns)}</tr>\`
+                    ).join('');
+
+                    return \`
+                        <div class="category">
+                            <div class="category-title">\${category.label} (\${rows.length})</div>
+                            <table>\${header}\${body}</table>
+                        </div>
+                    \`;
+                }).join('');
+
+            document.getElementById('tables').innerHTML = html || '<div class="empty">No fields or validation rules match the current filters.</div>';
+        }
+
+        function refresh() {
+            document.getElementById('loading').style.display = 'block';
+            document.getElementById('main-content').style.display = 'none';
+            vscode.postMessage({ command: 'refresh' });
+        }
+    </script>
+</body>
+</html>`;
+    }
+}
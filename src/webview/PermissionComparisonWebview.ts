@@ -0,0 +1,381 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PERMISSION_CATEGORY_LABELS, PERMISSION_COLUMNS, PermissionComparisonService } from '../services/PermissionComparisonService';
+import { ComparisonFilePair, PermissionComparisonResult } from '../types';
+
+/**
+ * Webview showing the permission differences of two profiles or permission sets as filterable tables
+ */
+export class PermissionComparisonWebview {
+    private panel: vscode.WebviewPanel | undefined;
+    private context: vscode.ExtensionContext;
+    private permissionComparisonService: PermissionComparisonService;
+    private target: ComparisonFilePair | undefined;
+    private result: PermissionComparisonResult | undefined;
+
+    constructor(context: vscode.ExtensionContext, permissionComparisonService: PermissionComparisonService) {
+        this.context = context;
+        this.permissionComparisonService = permissionComparisonService;
+    }
+
+    /**
+     * Compare two profile or permission set files and show the permission tables
+     */
+    public async show(target: ComparisonFilePair): Promise<void> {
+        const leftName = path.basename(target.leftPath);
+        const rightName = path.basename(target.rightPath);
+        if (!PermissionComparisonService.isPermissionFile(leftName) || !PermissionComparisonService.isPermissionFile(rightName)) {
+            vscode.window.showWarningMessage('Permission comparison is only available for profile and permission set files.');
+            return;
+        }
+
+        this.result = await this.permissionComparisonService.compareFiles(target.leftPath, target.rightPath);
+        this.target = target;
+
+        if (this.panel) {
+            this.panel.reveal();
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'permissionComparison',
+                'Permission Comparison',
+                vscode.ViewColumn.One,
+                {
+                    enableScripts: true,
+                    localResourceRoots: [
+                        vscode.Uri.file(path.join(this.context.extensionPath, 'media'))
+                    ]
+                }
+            );
+
+            this.panel.webview.html = this.getWebviewContent();
+            this.setupWebviewMessageHandling();
+
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.target = undefined;
+                this.result = undefined;
+            });
+        }
+
+        this.panel.title = `Permissions: ${this.getComponentName(leftName)} ↔ ${this.getComponentName(rightName)}`;
+        this.sendResultData();
+    }
+
+    /**
+     * Setup message handling between webview and extension
+     */
+    private setupWebviewMessageHandling(): void {
+        this.panel!.webview.onDidReceiveMessage(async (message) => {
+            switch (message.command) {
+                case 'getResult':
+                    this.sendResultData();
+                    break;
+
+                case 'openTextDiff':
+                    await this.handleOpenTextDiff();
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Send the comparison result and column definitions to the webview
+     */
+    private sendResultData(): void {
+        if (!this.panel || !this.result || !this.target) {
+            return;
+        }
+
+        this.panel.webview.postMessage({
+            command: 'resultData',
+            data: {
+                leftName: `${this.target.leftLabel}: ${this.getComponentName(path.basename(this.target.leftPath))} (${this.result.leftType})`,
+                rightName: `${this.target.rightLabel}: ${this.getComponentName(path.basename(this.target.rightPath))} (${this.result.rightType})`,
+                categories: Object.entries(PERMISSION_CATEGORY_LABELS).map(([id, label]) => ({
+                    id,
+                    label,
+                    columns: PERMISSION_COLUMNS[id as keyof typeof PERMISSION_COLUMNS]
+                })),
+                rows: this.result.rows
+            }
+        });
+    }
+
+    /**
+     * Open the regular line-based diff of the same two files
+     */
+    private async handleOpenTextDiff(): Promise<void> {
+        if (!this.target) {
+            return;
+        }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            vscode.Uri.file(this.target.leftPath),
+            vscode.Uri.file(this.target.rightPath),
+            `${this.target.leftLabel} ↔ ${this.target.rightLabel}: ${path.basename(this.target.rightPath)}`
+        );
+    }
+
+    /**
+     * Strip the metadata suffix from a profile or permission set file name
+     */
+    private getComponentName(fileName: string): string {
+        return fileName.replace(/\.(profile|permissionset)-meta\.xml$/, '');
+    }
+
+    /**
+     * Generate the HTML content for the webview
+     */
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Permission Comparison</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+
+        .header {
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 15px;
+            margin-bottom: 20px;
+            display: flex;
+            justify-content: space-between;
+            align-items: flex-start;
+        }
+
+        .header h1 {
+            margin: 0 0 6px 0;
+            font-size: 20px;
+        }
+
+        .header p {
+            margin: 0;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .btn {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 14px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 13px;
+        }
+
+        .btn:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+
+        .toolbar {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 12px;
+            align-items: center;
+            margin-bottom: 16px;
+        }
+
+        .toolbar input[type="text"], .toolbar select {
+            padding: 4px 8px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+        }
+
+        .toolbar input[type="text"] {
+            flex: 1;
+            min-width: 160px;
+        }
+
+        .category {
+            margin-bottom: 22px;
+        }
+
+        .category-title {
+            font-weight: bold;
+            margin-bottom: 6px;
+        }
+
+        table {
+            border-collapse: collapse;
+            min-width: 50%;
+        }
+
+        th, td {
+            border: 1px solid var(--vscode-panel-border);
+            padding: 4px 10px;
+            text-align: center;
+        }
+
+        th {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+            font-weight: 600;
+        }
+
+        td.subject {
+            text-align: left;
+            font-family: var(--vscode-editor-font-family);
+        }
+
+        td.diff {
+            color: var(--vscode-gitDecoration-modifiedResourceForeground);
+            font-weight: bold;
+            background-color: var(--vscode-diffEditor-insertedTextBackground);
+        }
+
+        .empty, .loading {
+            text-align: center;
+            padding: 40px;
+            color: var(--vscode-descriptionForeground);
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div>
+            <h1>Permission Comparison</h1>
+            <p id="subtitle"></p>
+        </div>
+        <button class="btn" onclick="openTextDiff()">Open Text Diff</button>
+    </div>
+
+    <div id="loading" class="loading">Comparing permissions...</div>
+
+    <div id="main-content" style="display: none;">
+        <div class="toolbar" id="category-filters"></div>
+        <div class="toolbar">
+            <label><input type="checkbox" id="only-differences" checked onchange="render()"> Only differences</label>
+            <select id="object-filter" onchange="render()"></select>
+            <input type="text" id="search" placeholder="Filter by name..." oninput="render()">
+        </div>
+        <div id="tables"></div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        let resultData = null;
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+
+            switch (message.command) {
+                case 'resultData':
+                    resultData = message.data;
+                    initializeFilters();
+                    render();
+                    break;
+            }
+        });
+
+        vscode.postMessage({ command: 'getResult' });
+
+        function escapeHtml(value) {
+            return String(value ?? '')
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;');
+        }
+
+        function getObjectName(row) {
+            if (row.category === 'object') {
+                return row.subject;
+            }
+            if (row.category === 'field') {
+                return row.subject.split('.')[0];
+            }
+            return null;
+        }
+
+        function initializeFilters() {
+            document.getElementById('loading').style.display = 'none';
+            document.getElementById('main-content').style.display = 'block';
+            document.getElementById('subtitle').textContent = \`Cells show \${resultData.leftName} → \${resultData.rightName}\`;
+
+            document.getElementById('category-filters').innerHTML = resultData.categories.map(category => {
+                const differing = resultData.rows.filter(row => row.category === category.id && row.differences.length > 0).length;
+                return \`<label><input type="checkbox" class="category-filter" value="\${category.id}" checked onchange="render()"> \${category.label} (\${differing})</label>\`;
+            }).join('');
+
+            const objects = [...new Set(resultData.rows.map(getObjectName).filter(Boolean))].sort();
+            document.getElementById('object-filter').innerHTML = '<option value="">All objects</option>' +
+                objects.map(objectName => \`<option value="\${escapeHtml(objectName)}">\${escapeHtml(objectName)}</option>\`).join('');
+        }
+
+        function formatValue(column, values) {
+            const value = values ? values[column.name] : undefined;
+            if (value === undefined) {
+                return column.boolean ? '✗' : '—';
+            }
+            if (column.boolean) {
+                return value === 'true' ? '✓' : '✗';
+            }
+            return escapeHtml(value);
+        }
+
+        function render() {
+            if (!resultData) {
+                return;
+            }
+
+            const categories = Array.from(document.querySelectorAll('.category-filter'))
+                .filter(checkbox => checkbox.checked)
+                .map(checkbox => checkbox.value);
+            const onlyDifferences = document.getElementById('only-differences').checked;
+            const objectFilter = document.getElementById('object-filter').value;
+            const search = document.getElementById('search').value.toLowerCase();
+
+            const html = resultData.categories
+                .filter(category => categories.includes(category.id))
+                .map(category => {
+                    const rows = resultData.rows.filter(row =>
+                        row.category === category.id &&
+                        (!onlyDifferences || row.differences.length > 0) &&
+                        (!objectFilter || getObjectName(row) === objectFilter) &&
+                        (!search || row.subject.toLowerCase().includes(search))
+                    );
+                    if (rows.length === 0) {
+                        return '';
+                    }
+
+                    const header = '<tr><th>Name</th>' + category.columns.map(column => \`<th>\${column.label}</th>\`).join('') + '</tr>';
+                    const body = rows.map(row => {
+                        const cells = category.columns.map(column => {
+                            const left = formatValue(column, row.left);
+                            const right = formatValue(column, row.right);
+                            return row.differences.includes(column.name)
+                                ? \`<td class="diff">\${left} → \${right}</td>\`
+                                : \`<td>\${right}</td>\`;
+                        }).join('');
+                        return \`<tr><td class="subject">\${escapeHtml(row.subject)}</td>\${cells}</tr>\`;
+                    }).join('');
+
+                    return \`
+                        <div class="category">
+                            <div class="category-title">\${category.label} (\${rows.length})</div>
+                            <table>\${header}\${body}</table>
+                        </div>
+                    \`;
+                }).join('');
+
+            document.getElementById('tables').innerHTML = html || '<div class="empty">No permissions match the current filters.</div>';
+        }
+
+        function openTextDiff() {
+            vscode.postMessage({ command: 'openTextDiff' });
+        }
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,353 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SemanticXmlDiffService } from '../services/SemanticXmlDiffService';
+import { ComparisonFilePair, SemanticChangeKind, SemanticXmlDiffResult } from '../types';
+
+/**
+ * Webview listing the semantic differences between two metadata XML files
+ */
+export class SemanticDiffWebview {
+    private panel: vscode.WebviewPanel | undefined;
+    private context: vscode.ExtensionContext;
+    private semanticXmlDiffService: SemanticXmlDiffService;
+    private target: ComparisonFilePair | undefined;
+    private result: SemanticXmlDiffResult | undefined;
+
+    constructor(context: vscode.ExtensionContext, semanticXmlDiffService: SemanticXmlDiffService) {
+        this.context = context;
+        this.semanticXmlDiffService = semanticXmlDiffService;
+    }
+
+    /**
+     * Compare two metadata XML files and show the semantic differences
+     */
+    public async show(target: ComparisonFilePair): Promise<void> {
+        const fileName = path.basename(target.rightPath);
+        if (!SemanticXmlDiffService.isSemanticCandidate(fileName)) {
+            vscode.window.showWarningMessage(`Semantic compare is only available for -meta.xml files. Use the regular compare for ${fileName}.`);
+            return;
+        }
+
+        this.result = await this.semanticXmlDiffService.compareFiles(target.leftPath, target.rightPath);
+        this.target = target;
+
+        if (this.panel) {
+            this.panel.reveal();
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'semanticDiff',
+                'Semantic Diff',
+                vscode.ViewColumn.One,
+                {
+                    enableScripts: true,
+                    localResourceRoots: [
+                        vscode.Uri.file(path.join(this.context.extensionPath, 'media'))
+                    ]
+                }
+            );
+
+            this.panel.webview.html = this.getWebviewContent();
+            this.setupWebviewMessageHandling();
+
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.target = undefined;
+                this.result = undefined;
+            });
+        }
+
+        this.panel.title = `Semantic Diff: ${fileName}`;
+        this.sendResultData();
+    }
+
+    /**
+     * Setup message handling between webview and extension
+     */
+    private setupWebviewMessageHandling(): void {
+        this.panel!.webview.onDidReceiveMessage(async (message) => {
+            switch (message.command) {
+                case 'getResult':
+                    this.sendResultData();
+                    break;
+
+                case 'openTextDiff':
+                    await this.handleOpenTextDiff();
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Send the current diff result to the webview
+     */
+    private sendResultData(): void {
+        if (!this.panel || !this.result || !this.target) {
+            return;
+        }
+
+        const counts = {
+            [SemanticChangeKind.Added]: 0,
+            [SemanticChangeKind.Removed]: 0,
+            [SemanticChangeKind.Changed]: 0
+        };
+        this.result.changes.forEach(change => counts[change.kind]++);
+
+        this.panel.webview.postMessage({
+            command: 'resultData',
+            data: {
+                fileName: path.basename(this.target.rightPath),
+                leftLabel: this.target.leftLabel,
+                rightLabel: this.target.rightLabel,
+                rootElement: this.result.rootElement,
+                identical: this.result.identical,
+                counts,
+                changes: this.result.changes
+            }
+        });
+    }
+
+    /**
+     * Open the regular line-based diff of the same two files
+     */
+    private async handleOpenTextDiff(): Promise<void> {
+        if (!this.target) {
+            return;
+        }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            vscode.Uri.file(this.target.leftPath),
+            vscode.Uri.file(this.target.rightPath),
+            `${this.target.leftLabel} ↔ ${this.target.rightLabel}: ${path.basename(this.target.rightPath)}`
+        );
+    }
+
+    /**
+     * Generate the HTML content for the webview
+     */
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Semantic Diff</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+
+        .header {
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding-bottom: 15px;
+            margin-bottom: 20px;
+            display: flex;
+            justify-content: space-between;
+            align-items: flex-start;
+        }
+
+        .header h1 {
+            margin: 0 0 6px 0;
+            font-size: 20px;
+        }
+
+        .header p {
+            margin: 0;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .btn {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 14px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 13px;
+        }
+
+        .btn:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+
+        .toolbar {
+            display: flex;
+            gap: 12px;
+            align-items: center;
+            margin-bottom: 16px;
+        }
+
+        .toolbar input[type="text"] {
+            flex: 1;
+            padding: 4px 8px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+        }
+
+        .group {
+            margin-bottom: 18px;
+        }
+
+        .group-title {
+            font-weight: bold;
+            margin-bottom: 6px;
+        }
+
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            table-layout: fixed;
+        }
+
+        th, td {
+            border: 1px solid var(--vscode-panel-border);
+            padding: 4px 8px;
+            text-align: left;
+            vertical-align: top;
+            word-break: break-word;
+        }
+
+        th {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+            font-weight: 600;
+        }
+
+        th.kind, td.kind {
+            width: 80px;
+        }
+
+        td.added {
+            color: var(--vscode-gitDecoration-addedResourceForeground);
+        }
+
+        td.removed {
+            color: var(--vscode-gitDecoration-deletedResourceForeground);
+        }
+
+        td.changed {
+            color: var(--vscode-gitDecoration-modifiedResourceForeground);
+        }
+
+        .identical, .loading {
+            text-align: center;
+            padding: 40px;
+            color: var(--vscode-descriptionForeground);
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div>
+            <h1 id="title">Semantic Diff</h1>
+            <p id="subtitle"></p>
+        </div>
+        <button class="btn" onclick="openTextDiff()">Open Text Diff</button>
+    </div>
+
+    <div id="loading" class="loading">Comparing...</div>
+
+    <div id="main-content" style="display: none;">
+        <div class="toolbar">
+            <label><input type="checkbox" class="kind-filter" value="added" checked onchange="render()"> Added</label>
+            <label><input type="checkbox" class="kind-filter" value="removed" checked onchange="render()"> Removed</label>
+            <label><input type="checkbox" class="kind-filter" value="changed" checked onchange="render()"> Changed</label>
+            <input type="text" id="search" placeholder="Filter by path or value..." oninput="render()">
+        </div>
+        <div id="changes"></div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        let resultData = null;
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+
+            switch (message.command) {
+                case 'resultData':
+                    resultData = message.data;
+                    render();
+                    break;
+            }
+        });
+
+        vscode.postMessage({ command: 'getResult' });
+
+        function escapeHtml(value) {
+            return String(value ?? '')
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;');
+        }
+
+        function render() {
+            if (!resultData) {
+                return;
+            }
+
+            const { fileName, leftLabel, rightLabel, rootElement, identical, counts, changes } = resultData;
+
+            document.getElementById('loading').style.display = 'none';
+            document.getElementById('main-content').style.display = 'block';
+            document.getElementById('title').textContent = fileName;
+            document.getElementById('subtitle').textContent =
+                \`\${rootElement} · \${leftLabel} ↔ \${rightLabel} · \${counts.added} added, \${counts.removed} removed, \${counts.changed} changed\`;
+
+            const container = document.getElementById('changes');
+
+            if (identical) {
+                container.innerHTML = '<div class="identical">The files are semantically identical - only element order or formatting differs.</div>';
+                return;
+            }
+
+            const kinds = Array.from(document.querySelectorAll('.kind-filter'))
+                .filter(checkbox => checkbox.checked)
+                .map(checkbox => checkbox.value);
+            const search = document.getElementById('search').value.toLowerCase();
+
+            const visible = changes.filter(change =>
+                kinds.includes(change.kind) &&
+                (!search || [change.path, change.leftValue, change.rightValue].some(value => (value || '').toLowerCase().includes(search)))
+            );
+
+            const groups = new Map();
+            visible.forEach(change => {
+                if (!groups.has(change.element)) {
+                    groups.set(change.element, []);
+                }
+                groups.get(change.element).push(change);
+            });
+
+            container.innerHTML = Array.from(groups.entries()).map(([element, groupChanges]) => \`
+                <div class="group">
+                    <div class="group-title">\${escapeHtml(element)} (\${groupChanges.length})</div>
+                    <table>
+                        <tr><th class="kind">Change</th><th>Path</th><th>\${escapeHtml(leftLabel)}</th><th>\${escapeHtml(rightLabel)}</th></tr>
+                        \${groupChanges.map(change => \`
+                            <tr>
+                                <td class="kind \${change.kind}">\${change.kind}</td>
+                                <td>\${escapeHtml(change.path)}</td>
+                                <td>\${escapeHtml(change.leftValue)}</td>
+                                <td>\${escapeHtml(change.rightValue)}</td>
+                            </tr>
+                        \`).join('')}
+                    </table>
+                </div>
+            \`).join('') || '<div class="identical">No changes match the current filter.</div>';
+        }
+
+        function openTextDiff() {
+            vscode.postMessage({ command: 'openTextDiff' });
+        }
+    </script>
+</body>
+</html>`;
+    }
+}